@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { StatusBar } from 'expo-status-bar';
-import { View, StyleSheet, Alert } from 'react-native';
+import { View, StyleSheet, Alert, AppState } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -16,11 +16,14 @@ import ProfileScreenNew from './src/screens/ProfileScreenNew';
 import TabBar from './src/components/TabBar';
 import MealDetailModal from './src/components/MealDetailModal';
 
-import { User } from './src/types';
-import { Meal } from './src/services/professionalAIService';
+import { User, Meal } from './src/types';
 import { storageService } from './src/services/storageService';
 import { databaseService } from './src/services/databaseService';
+import { syncService } from './src/services/syncService';
+import { achievementService } from './src/services/achievementService';
+import { reminderService } from './src/services/reminderService';
 import { supabase, isSupabaseConfigured } from './src/config/supabase';
+import { deviceTimeZone, setTimeZone, todayKey } from './src/services/dateKeys';
 
 export default function App() {
   const [screen, setScreen] = useState<'loading' | 'auth' | 'onboarding' | 'main'>('loading');
@@ -31,6 +34,10 @@ export default function App() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [authLoading, setAuthLoading] = useState(false);
 
+  // Date keys follow the profile's timezone. Set during render so screens
+  // computing "today" in their first effects already use it
+  setTimeZone(user?.timeZone);
+
   useEffect(() => {
     checkAuth();
     
@@ -52,6 +59,43 @@ export default function App() {
     }
   }, []);
 
+  // Replay queued offline changes now and whenever connectivity returns
+  useEffect(() => {
+    if (!user?.id) return;
+    if (!user.timeZone && deviceTimeZone()) handleUpdateUser({ timeZone: deviceTimeZone() });
+    storageService.migrateDateKeys(user.id).then(() => storageService.queueUnsyncedLogs(user.id));
+    return syncService.start();
+  }, [user?.id]);
+
+  // Catch up on badges earned offline or on another device and announce new ones
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = achievementService.subscribe(earned => {
+      Alert.alert(
+        '🏆 Badge Earned',
+        earned.map(a => `${a.badge_icon} ${a.achievement_name} - ${a.description}`).join('\n')
+      );
+    });
+    achievementService.sync(user);
+    return unsubscribe;
+  }, [user?.id]);
+
+  // Reminders are planned a few days ahead; replan on start and every time
+  // the app comes back so today's plan reflects what was logged
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+    const replan = async () => {
+      const logs = await storageService.getDailyLogs(userId, todayKey());
+      await reminderService.reschedule(userId, logs.map(log => log.meal_type));
+    };
+    replan();
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') replan();
+    });
+    return () => subscription.remove();
+  }, [user?.id]);
+
   const checkAuth = async () => {
     try {
       if (isSupabaseConfigured) {
@@ -68,8 +112,10 @@ export default function App() {
       // Fallback to local storage for demo mode
       const savedUser = await storageService.getUser();
       if (savedUser) {
-        setUser(savedUser);
+        // A missed day only breaks the streak once it is over, so recheck on start
+        setTimeZone(savedUser.timeZone);
         await storageService.updateStreak(savedUser.id);
+        setUser((await storageService.getUser()) || savedUser);
         setScreen('main');
       } else {
         setScreen('auth');
@@ -256,7 +302,7 @@ export default function App() {
 
   const handleAddToMeals = async (meal: Meal) => {
     if (user) {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       
       // Save to Supabase
       await databaseService.saveMyMeal(meal, today);
@@ -264,15 +310,9 @@ export default function App() {
       // Also save locally
       await storageService.addMealToLog(user.id, meal);
       
-      // Refresh user stats
-      const stats = await databaseService.getUserStats();
-      const updatedUser = { 
-        ...user, 
-        totalMealsLogged: stats.totalMealsLogged,
-        streak: stats.currentStreak,
-        longestStreak: stats.longestStreak,
-      };
-      setUser(updatedUser);
+      // Refresh user stats - logging updated the meal count and streak locally
+      const updatedUser = await storageService.getUser();
+      if (updatedUser) setUser(updatedUser);
       
       Alert.alert('Success', '✅ Added to your meals!');
     }
@@ -282,7 +322,7 @@ export default function App() {
     setIsGenerating(true);
     // Clear today's meals to trigger regeneration
     if (user) {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       await AsyncStorage.removeItem(`nutripro_meals_${user.id}_${today}`);
     }
     setIsGenerating(false);
@@ -352,6 +392,7 @@ export default function App() {
             onAddToMeals={handleAddToMeals}
             onNavigateToRecipes={() => setActiveTab('recipes')}
             onNavigateToExercise={() => setActiveTab('exercise')}
+            onUpdateUser={handleUpdateUser}
           />
         )}
         
@@ -389,12 +430,11 @@ export default function App() {
         <MealDetailModal 
           visible={showMealDetail} 
           meal={selectedMeal} 
+          unitsPreference={user?.unitsPreference}
           onClose={() => setShowMealDetail(false)} 
-          onLog={() => { 
-            if (selectedMeal) { 
-              handleAddToMeals(selectedMeal); 
-              setShowMealDetail(false); 
-            } 
+          onLog={(scaledMeal) => { 
+            handleAddToMeals(scaledMeal); 
+            setShowMealDetail(false); 
           }} 
         />
       </View>
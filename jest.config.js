@@ -0,0 +1,27 @@
+// Unit tests for the pure services. They run in Node through ts-jest; the
+// app's tsconfig targets Metro, so modules are compiled to CommonJS here.
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  transform: {
+    '^.+\\.tsx?$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          module: 'commonjs',
+          moduleResolution: 'node',
+          esModuleInterop: true,
+          isolatedModules: true,
+          strict: true,
+        },
+      },
+    ],
+  },
+  moduleNameMapper: {
+    '^@react-native-async-storage/async-storage$':
+      '@react-native-async-storage/async-storage/jest/async-storage-mock',
+    '^expo-crypto$': '<rootDir>/src/services/__tests__/mocks/expoCrypto.ts',
+  },
+};
@@ -0,0 +1,287 @@
+#!/usr/bin/env node
+// Schema Check - applies supabase-schema.sql and supabase/migrations to a
+// scratch database on a local Postgres, then compares the resulting tables
+// and views with the row interfaces in src/types/index.ts and the tables
+// DatabaseService queries.
+//
+// Usage:
+//   DATABASE_URL=postgres://postgres@localhost:5432/postgres npm run db:check-schema
+//   npm run db:check-schema -- --keep   (leave the scratch database for inspection)
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+const { Client } = require('pg');
+
+const ROOT = path.resolve(__dirname, '..');
+const DATABASE_URL = process.env.DATABASE_URL || 'postgres://postgres@localhost:5432/postgres';
+const SCRATCH_DB = 'nutripro_schema_check';
+const KEEP = process.argv.includes('--keep');
+
+// Base schema first, then the one-off migration, then versioned migrations
+const BASE_FILES = ['supabase-schema.sql', 'avatar-migration.sql'];
+const MIGRATIONS_DIR = path.join(ROOT, 'supabase', 'migrations');
+
+// Minimal stand-ins for what Supabase provides on a hosted project
+const SUPABASE_BOOTSTRAP = `
+CREATE SCHEMA IF NOT EXISTS auth;
+CREATE TABLE IF NOT EXISTS auth.users (
+  id UUID PRIMARY KEY,
+  email TEXT,
+  raw_user_meta_data JSONB DEFAULT '{}'
+);
+CREATE OR REPLACE FUNCTION auth.uid() RETURNS UUID
+  LANGUAGE sql STABLE
+  AS $$ SELECT NULLIF(current_setting('request.jwt.claim.sub', true), '')::UUID $$;
+`;
+
+// Table or view -> row interface in src/types/index.ts
+const TABLE_INTERFACES = {
+  user_profiles: { name: 'UserProfile' },
+  health_conditions: { name: 'HealthCondition' },
+  dietary_restrictions: { name: 'DietaryRestriction' },
+  nutrition_targets: { name: 'NutritionTarget' },
+  meal_plans: { name: 'MealPlanRow' },
+  recipes: { name: 'RecipeRow' },
+  shopping_lists: { name: 'ShoppingList' },
+  custom_foods: { name: 'CustomFood' },
+  meal_templates: { name: 'MealTemplate' },
+  // Recipe details and edit state are packed into the notes column by saveDailyLog
+  daily_logs: {
+    name: 'DailyLog',
+    localOnly: ['ingredients', 'instructions', 'prepTime', 'cookTime', 'emoji', 'description', 'portion', 'baseNutrition', 'eatenAt'],
+  },
+  user_preferences: { name: 'UserPreferences' },
+  exercise_routines: { name: 'ExerciseRoutine' },
+  body_measurements: { name: 'BodyMeasurement' },
+  water_intake: { name: 'WaterIntake' },
+  sleep_tracking: { name: 'SleepRecord' },
+  achievements: { name: 'Achievement' },
+  user_achievements: { name: 'UserAchievement' },
+  ai_generation_logs: { name: 'AIGenerationLog' },
+  daily_progress_summary: { name: 'DailyProgressSummary' },
+};
+
+// TypeScript kind -> compatible Postgres udt names
+const COMPATIBLE_TYPES = {
+  string: ['text', 'varchar', 'bpchar', 'uuid', 'date', 'time', 'timetz', 'timestamp', 'timestamptz'],
+  number: ['int2', 'int4', 'int8', 'numeric', 'float4', 'float8'],
+  boolean: ['bool'],
+  array: ['jsonb', 'json'], // plus any Postgres array type (udt name starts with "_")
+  json: ['jsonb', 'json'],
+};
+
+// ==================== TYPESCRIPT ====================
+
+function classifyType(node, aliases = {}) {
+  if (!node) return 'json';
+  switch (node.kind) {
+    case ts.SyntaxKind.StringKeyword:
+      return 'string';
+    case ts.SyntaxKind.NumberKeyword:
+      return 'number';
+    case ts.SyntaxKind.BooleanKeyword:
+      return 'boolean';
+    case ts.SyntaxKind.ArrayType:
+      return 'array';
+    case ts.SyntaxKind.LiteralType:
+      return ts.isStringLiteral(node.literal) ? 'string' : ts.isNumericLiteral(node.literal) ? 'number' : 'boolean';
+    case ts.SyntaxKind.UnionType: {
+      const kinds = new Set(node.types.map(type => classifyType(type, aliases)));
+      return kinds.size === 1 ? [...kinds][0] : 'json';
+    }
+    case ts.SyntaxKind.TypeReference: {
+      const name = node.typeName.getText();
+      if (name === 'Array') return 'array';
+      // Follow aliases such as MealType declared in the same file
+      return aliases[name] ? classifyType(aliases[name], aliases) : 'json';
+    }
+    default:
+      return 'json';
+  }
+}
+
+function readInterfaces(file) {
+  const source = ts.createSourceFile(file, fs.readFileSync(file, 'utf8'), ts.ScriptTarget.Latest, true);
+  const interfaces = {};
+  const aliases = {};
+
+  source.forEachChild(node => {
+    if (ts.isTypeAliasDeclaration(node)) aliases[node.name.text] = node.type;
+  });
+
+  source.forEachChild(node => {
+    if (!ts.isInterfaceDeclaration(node)) return;
+    interfaces[node.name.text] = node.members
+      .filter(ts.isPropertySignature)
+      .map(member => ({
+        name: member.name.getText(source),
+        optional: !!member.questionToken,
+        kind: classifyType(member.type, aliases),
+      }));
+  });
+
+  return interfaces;
+}
+
+// Table names behind every TABLES.X used in src/services
+function readQueriedTables() {
+  const config = fs.readFileSync(path.join(ROOT, 'src', 'config', 'supabase.ts'), 'utf8');
+  const tableNames = {};
+  for (const [, key, value] of config.matchAll(/^\s*([A-Z_]+):\s*'([a-z_]+)'/gm)) {
+    tableNames[key] = value;
+  }
+
+  const servicesDir = path.join(ROOT, 'src', 'services');
+  const used = new Set();
+  for (const file of fs.readdirSync(servicesDir).filter(f => f.endsWith('.ts'))) {
+    const content = fs.readFileSync(path.join(servicesDir, file), 'utf8');
+    for (const [, key] of content.matchAll(/TABLES\.([A-Z_]+)/g)) {
+      if (tableNames[key]) used.add(tableNames[key]);
+    }
+  }
+  return [...used].sort();
+}
+
+// ==================== POSTGRES ====================
+
+function databaseUrl(name) {
+  const url = new URL(DATABASE_URL);
+  url.pathname = `/${name}`;
+  return url.toString();
+}
+
+async function withClient(url, fn) {
+  const client = new Client({ connectionString: url });
+  await client.connect();
+  try {
+    return await fn(client);
+  } finally {
+    await client.end();
+  }
+}
+
+async function applySchema(client) {
+  await client.query(SUPABASE_BOOTSTRAP);
+
+  const migrations = fs.existsSync(MIGRATIONS_DIR)
+    ? fs.readdirSync(MIGRATIONS_DIR).filter(f => f.endsWith('.sql')).sort()
+    : [];
+  const files = [
+    ...BASE_FILES.map(f => path.join(ROOT, f)),
+    ...migrations.map(f => path.join(MIGRATIONS_DIR, f)),
+  ];
+
+  for (const file of files) {
+    try {
+      await client.query(fs.readFileSync(file, 'utf8'));
+      console.log(`  ✓ ${path.relative(ROOT, file)}`);
+    } catch (error) {
+      throw new Error(`${path.relative(ROOT, file)}: ${error.message}`);
+    }
+  }
+}
+
+async function readColumns(client) {
+  const { rows } = await client.query(`
+    SELECT c.table_name, c.column_name, c.udt_name, c.is_nullable, c.column_default, t.table_type
+    FROM information_schema.columns c
+    JOIN information_schema.tables t
+      ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+    WHERE c.table_schema = 'public'
+    ORDER BY c.table_name, c.ordinal_position
+  `);
+
+  const tables = {};
+  for (const row of rows) {
+    (tables[row.table_name] = tables[row.table_name] || {})[row.column_name] = row;
+  }
+  return tables;
+}
+
+// ==================== COMPARISON ====================
+
+function compare(tables, interfaces, queriedTables) {
+  const errors = [];
+  const warnings = [];
+
+  for (const table of queriedTables) {
+    if (!tables[table]) errors.push(`${table}: queried by DatabaseService but not created`);
+  }
+
+  for (const [table, { name, localOnly = [] }] of Object.entries(TABLE_INTERFACES)) {
+    const fields = interfaces[name];
+    if (!fields) {
+      errors.push(`${table}: interface ${name} not found in src/types/index.ts`);
+      continue;
+    }
+    const columns = tables[table];
+    if (!columns) {
+      errors.push(`${table}: table for ${name} does not exist`);
+      continue;
+    }
+
+    for (const field of fields) {
+      if (localOnly.includes(field.name)) continue;
+
+      const column = columns[field.name];
+      if (!column) {
+        errors.push(`${table}.${field.name}: missing column for ${name}.${field.name}`);
+        continue;
+      }
+
+      const isArray = column.udt_name.startsWith('_');
+      const compatible = (field.kind === 'array' && isArray) ||
+        COMPATIBLE_TYPES[field.kind].includes(column.udt_name);
+      if (!compatible) {
+        errors.push(`${table}.${field.name}: ${column.udt_name} column cannot hold ${name}.${field.name} (${field.kind})`);
+      }
+
+      // View columns always report as nullable
+      if (column.table_type === 'VIEW') continue;
+      if (!field.optional && column.is_nullable === 'YES' && column.column_default === null) {
+        warnings.push(`${table}.${field.name}: nullable without a default, but ${name}.${field.name} is required`);
+      }
+    }
+  }
+
+  return { errors, warnings };
+}
+
+// ==================== MAIN ====================
+
+async function main() {
+  console.log(`🗄️  Creating scratch database ${SCRATCH_DB}`);
+  await withClient(DATABASE_URL, async admin => {
+    await admin.query(`DROP DATABASE IF EXISTS ${SCRATCH_DB} WITH (FORCE)`);
+    await admin.query(`CREATE DATABASE ${SCRATCH_DB}`);
+  });
+
+  let result;
+  try {
+    result = await withClient(databaseUrl(SCRATCH_DB), async client => {
+      console.log('📜 Applying schema');
+      await applySchema(client);
+      const tables = await readColumns(client);
+      const interfaces = readInterfaces(path.join(ROOT, 'src', 'types', 'index.ts'));
+      return compare(tables, interfaces, readQueriedTables());
+    });
+  } finally {
+    if (!KEEP) {
+      await withClient(DATABASE_URL, admin => admin.query(`DROP DATABASE IF EXISTS ${SCRATCH_DB} WITH (FORCE)`));
+    }
+  }
+
+  for (const warning of result.warnings) console.log(`⚠️  ${warning}`);
+  for (const error of result.errors) console.log(`❌ ${error}`);
+
+  if (result.errors.length > 0) {
+    console.log(`\nSchema check failed: ${result.errors.length} error(s), ${result.warnings.length} warning(s)`);
+    process.exit(1);
+  }
+  console.log(`\n✅ Schema matches src/types (${result.warnings.length} warning(s))`);
+}
+
+main().catch(error => {
+  console.error('❌ Schema check could not run:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { format, parseISO } from 'date-fns';
+import { achievementService, Badge } from '../services/achievementService';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface AchievementsCardProps {
+  userId: string;
+}
+
+const AchievementsCard: React.FC<AchievementsCardProps> = ({ userId }) => {
+  const [badges, setBadges] = useState<Badge[]>([]);
+
+  useEffect(() => {
+    const load = async () => setBadges(await achievementService.getBadges(userId));
+    load();
+    return achievementService.subscribe(load);
+  }, [userId]);
+
+  if (badges.length === 0) return null;
+
+  // Earned first, then locked badges closest to completion
+  const sorted = [...badges].sort((a, b) => {
+    if (!!a.earned !== !!b.earned) return a.earned ? -1 : 1;
+    return b.progress / b.achievement.requirement_value - a.progress / a.achievement.requirement_value;
+  });
+  const earnedCount = badges.filter(b => b.earned).length;
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>ACHIEVEMENTS · {earnedCount}/{badges.length}</Text>
+
+      {sorted.map(({ achievement, earned, progress }) => (
+        <View key={achievement.id} style={styles.badgeRow}>
+          <View style={[styles.iconBox, !earned && styles.iconBoxLocked]}>
+            <Text style={[styles.icon, !earned && styles.iconLocked]}>{achievement.badge_icon}</Text>
+          </View>
+          <View style={styles.badgeInfo}>
+            <Text style={[styles.badgeName, !earned && styles.badgeNameLocked]}>{achievement.achievement_name}</Text>
+            <Text style={styles.badgeDescription}>{achievement.description}</Text>
+            {earned ? (
+              <Text style={styles.earnedDate}>Earned {format(parseISO(earned.earned_date), 'MMM d, yyyy')}</Text>
+            ) : (
+              <View style={styles.progressRow}>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[styles.progressFill, { width: `${(progress / achievement.requirement_value) * 100}%` }]}
+                  />
+                </View>
+                <Text style={styles.progressText}>
+                  {progress}/{achievement.requirement_value}
+                </Text>
+              </View>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.soft,
+  },
+  title: {
+    ...textStyles.overline,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  iconBox: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    backgroundColor: colors.primaryPale,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.md,
+  },
+  iconBoxLocked: {
+    backgroundColor: colors.surfaceLight,
+  },
+  icon: {
+    fontSize: 20,
+  },
+  iconLocked: {
+    opacity: 0.35,
+  },
+  badgeInfo: {
+    flex: 1,
+  },
+  badgeName: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  badgeNameLocked: {
+    color: colors.textSecondary,
+  },
+  badgeDescription: {
+    ...textStyles.caption,
+  },
+  earnedDate: {
+    ...textStyles.caption,
+    color: colors.success,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+    overflow: 'hidden',
+    marginRight: spacing.sm,
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.primary,
+  },
+  progressText: {
+    ...textStyles.caption,
+  },
+});
+
+export default AchievementsCard;
@@ -0,0 +1,377 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Dimensions,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Svg, { Circle, Polyline } from 'react-native-svg';
+import { format, parseISO } from 'date-fns';
+import { storageService } from '../services/storageService';
+import { achievementService } from '../services/achievementService';
+import {
+  bodyFatOf,
+  estimateBodyFat,
+  fieldUnit,
+  fromDisplayValue,
+  MEASUREMENT_FIELDS,
+  MeasurementKey,
+  toDisplayValue,
+  waistToHeightRatio,
+  WaistToHeightCategory,
+} from '../services/bodyCompositionService';
+import { BodyMeasurement, User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+import { todayKey } from '../services/dateKeys';
+
+interface BodyMeasurementsModalProps {
+  visible: boolean;
+  user: User;
+  onClose: () => void;
+  onSaved: (updates: Partial<User>) => void;
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const CHART_WIDTH = SCREEN_WIDTH - spacing.lg * 2;
+const CHART_HEIGHT = 120;
+const HISTORY_LIMIT = 60;
+
+const WHTR_LABELS: Record<WaistToHeightCategory, { label: string; color: string }> = {
+  low: { label: 'Low', color: colors.warning },
+  healthy: { label: 'Healthy', color: colors.success },
+  increased: { label: 'Increased risk', color: colors.warning },
+  high: { label: 'High risk', color: colors.error },
+};
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const BodyMeasurementsModal: React.FC<BodyMeasurementsModalProps> = ({
+  visible,
+  user,
+  onClose,
+  onSaved,
+}) => {
+  const [values, setValues] = useState<Partial<Record<MeasurementKey, string>>>({});
+  const [history, setHistory] = useState<BodyMeasurement[]>([]);
+  const [chartField, setChartField] = useState<MeasurementKey>('waist_cm');
+  const [saving, setSaving] = useState(false);
+
+  const units = user.unitsPreference || 'metric';
+
+  useEffect(() => {
+    if (!visible) return;
+    setValues({});
+    loadHistory();
+  }, [visible]);
+
+  const loadHistory = async () => {
+    const measurements = await storageService.getBodyMeasurements(user.id, HISTORY_LIMIT);
+    setHistory([...measurements].reverse());
+  };
+
+  // Entered values in stored units (kg, cm, %)
+  const entered = (): Partial<Record<MeasurementKey, number>> => {
+    const result: Partial<Record<MeasurementKey, number>> = {};
+    for (const field of MEASUREMENT_FIELDS) {
+      const value = parseNumber(values[field.key] || '');
+      if (value !== null) result[field.key] = fromDisplayValue(value, field.kind, units);
+    }
+    return result;
+  };
+
+  const measurement = entered();
+  const navyEstimate = estimateBodyFat({
+    gender: user.gender,
+    heightCm: user.height,
+    neckCm: measurement.neck_cm,
+    waistCm: measurement.waist_cm,
+    hipsCm: measurement.hips_cm,
+  });
+  const whtr = measurement.waist_cm ? waistToHeightRatio(measurement.waist_cm, user.height) : null;
+
+  const handleSave = async () => {
+    if (Object.keys(measurement).length === 0) {
+      Alert.alert('Nothing to Save', 'Enter at least one measurement.');
+      return;
+    }
+
+    const bodyFat = measurement.body_fat_percentage ?? navyEstimate ?? undefined;
+    const weight = measurement.weight_kg;
+    setSaving(true);
+    try {
+      await storageService.saveBodyMeasurement(user.id, {
+        ...measurement,
+        body_fat_percentage: bodyFat,
+        height_cm: user.height,
+        bmi: weight ? Math.round((weight / Math.pow(user.height / 100, 2)) * 10) / 10 : undefined,
+        measurement_date: todayKey(),
+      });
+    } catch (error) {
+      console.error('Error saving body measurements:', error);
+      Alert.alert('Not Saved', 'Could not save your measurements. Please try again.');
+      return;
+    } finally {
+      setSaving(false);
+    }
+
+    const updates: Partial<User> = {};
+    if (weight) {
+      updates.weight = weight;
+      updates.bmi = weight / Math.pow(user.height / 100, 2);
+    }
+    if (bodyFat) updates.bodyFatPercentage = bodyFat;
+    if (Object.keys(updates).length > 0) onSaved(updates);
+    if (weight || measurement.muscle_mass_kg) {
+      achievementService.recordEvent(user.id, {
+        type: 'weight_logged',
+        weightKg: weight,
+        muscleMassKg: measurement.muscle_mass_kg,
+      });
+    }
+
+    setValues({});
+    await loadHistory();
+  };
+
+  const renderChart = () => {
+    const field = MEASUREMENT_FIELDS.find(f => f.key === chartField)!;
+    const points = history
+      .map(m => ({
+        date: m.measurement_date,
+        value: chartField === 'body_fat_percentage' ? bodyFatOf(m, user) : (m[chartField] ? Number(m[chartField]) : null),
+      }))
+      .filter((p): p is { date: string; value: number } => p.value !== null);
+
+    if (points.length < 2) {
+      return <Text style={styles.emptyText}>Save {field.label.toLowerCase()} a few times to see a chart.</Text>;
+    }
+
+    const display = points.map(p => toDisplayValue(p.value, field.kind, units));
+    const min = Math.min(...display);
+    const max = Math.max(...display);
+    const range = max - min || 1;
+    const x = (index: number) => (index / (points.length - 1)) * (CHART_WIDTH - 12) + 6;
+    const y = (value: number) => CHART_HEIGHT - 6 - ((value - min) / range) * (CHART_HEIGHT - 12);
+
+    return (
+      <View>
+        <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+          <Polyline
+            points={display.map((value, i) => `${x(i)},${y(value)}`).join(' ')}
+            fill="none"
+            stroke={colors.primary}
+            strokeWidth={2}
+          />
+          {display.map((value, i) => (
+            <Circle key={points[i].date + i} cx={x(i)} cy={y(value)} r={3} fill={colors.primary} />
+          ))}
+        </Svg>
+        <View style={styles.chartLabels}>
+          <Text style={styles.chartLabel}>{format(parseISO(points[0].date), 'MMM d')}</Text>
+          <Text style={styles.chartLabel}>
+            {display[0]} → {display[display.length - 1]} {fieldUnit(field.kind, units)}
+          </Text>
+          <Text style={styles.chartLabel}>{format(parseISO(points[points.length - 1].date), 'MMM d')}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>📏 Body Measurements</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>Measure in the morning, relaxed, at the same spots each time</Text>
+
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          {MEASUREMENT_FIELDS.map(field => (
+            <View key={field.key} style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>{field.label}</Text>
+              <TextInput
+                style={styles.input}
+                value={values[field.key] || ''}
+                onChangeText={text => setValues(current => ({ ...current, [field.key]: text }))}
+                keyboardType="decimal-pad"
+                placeholder={field.key === 'body_fat_percentage' && navyEstimate ? `${navyEstimate}` : '-'}
+                placeholderTextColor={colors.textLight}
+              />
+              <Text style={styles.fieldUnit}>{fieldUnit(field.kind, units)}</Text>
+            </View>
+          ))}
+
+          <View style={styles.estimateCard}>
+            <Text style={styles.estimateText}>
+              {navyEstimate !== null
+                ? `Navy estimate: ${navyEstimate}% body fat`
+                : `Enter neck and waist${user.gender === 'male' ? '' : ' and hips'} to estimate body fat.`}
+            </Text>
+            {whtr && (
+              <Text style={styles.estimateText}>
+                Waist-to-height: {whtr.ratio}{' '}
+                <Text style={{ color: WHTR_LABELS[whtr.category].color }}>{WHTR_LABELS[whtr.category].label}</Text>
+              </Text>
+            )}
+            <Text style={styles.estimateHint}>
+              A body fat value entered above replaces the estimate. Saved body fat updates your calorie targets.
+            </Text>
+          </View>
+
+          <TouchableOpacity style={styles.primaryBtn} onPress={handleSave} disabled={saving}>
+            <Text style={styles.primaryBtnText}>{saving ? 'Saving...' : 'Save Measurements ✓'}</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionLabel}>History</Text>
+          <View style={styles.chipRow}>
+            {MEASUREMENT_FIELDS.map(field => (
+              <TouchableOpacity
+                key={field.key}
+                style={[styles.chip, chartField === field.key && styles.chipActive]}
+                onPress={() => setChartField(field.key)}
+              >
+                <Text style={[styles.chipText, chartField === field.key && styles.chipTextActive]}>{field.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {renderChart()}
+          <View style={{ height: spacing.xl }} />
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  fieldLabel: {
+    ...textStyles.body,
+    flex: 1,
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    width: 100,
+    textAlign: 'right',
+  },
+  fieldUnit: {
+    ...textStyles.caption,
+    width: 32,
+    marginLeft: spacing.xs,
+  },
+  estimateCard: {
+    backgroundColor: colors.primaryPale,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.md,
+  },
+  estimateText: {
+    ...textStyles.body,
+    fontWeight: '600',
+    marginBottom: spacing.xs,
+  },
+  estimateHint: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginBottom: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  emptyText: {
+    ...textStyles.caption,
+    textAlign: 'center',
+    padding: spacing.lg,
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  chartLabel: {
+    ...textStyles.caption,
+  },
+});
+
+export default BodyMeasurementsModal;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import {
+  alcoholCalories,
+  alcoholLimitDrinks,
+  caffeineLimitMg,
+  limitWarnings,
+  standardDrinks,
+} from '../services/caffeineAlcoholService';
+import { User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface CaffeineAlcoholCardProps {
+  user: User;
+  caffeine: number; // mg today, food and drinks
+  alcohol: number; // g today
+}
+
+const CaffeineAlcoholCard: React.FC<CaffeineAlcoholCardProps> = ({ user, caffeine, alcohol }) => {
+  // Nothing to show on a day without either
+  if (caffeine <= 0 && alcohol <= 0) return null;
+
+  const warnings = limitWarnings({ caffeine, alcohol }, user);
+  const levelOf = (nutrient: 'caffeine' | 'alcohol') => warnings.find(w => w.nutrient === nutrient)?.level;
+
+  const renderBar = (
+    nutrient: 'caffeine' | 'alcohol',
+    label: string,
+    amount: number,
+    limit: number,
+    unit: string,
+    detail?: string
+  ) => {
+    const level = levelOf(nutrient);
+    const color = level === 'over' ? colors.error : level === 'near' ? colors.warning : colors.primary;
+    const share = limit > 0 ? Math.min(amount / limit, 1) : 1;
+    return (
+      <View style={styles.row}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowLabel}>{label}</Text>
+          <Text style={[styles.rowValue, level && { color }]}>
+            {amount} / {limit} {unit}
+          </Text>
+        </View>
+        <View style={styles.barTrack}>
+          <View style={[styles.barFill, { width: `${share * 100}%`, backgroundColor: color }]} />
+        </View>
+        {detail && <Text style={styles.detail}>{detail}</Text>}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>CAFFEINE & ALCOHOL</Text>
+      {caffeine > 0 && renderBar('caffeine', '☕ Caffeine', Math.round(caffeine), caffeineLimitMg(user), 'mg')}
+      {alcohol > 0 &&
+        renderBar(
+          'alcohol',
+          '🍷 Alcohol',
+          standardDrinks(alcohol),
+          alcoholLimitDrinks(user),
+          'drinks',
+          `${alcohol} g · ${alcoholCalories(alcohol)} kcal, included in today's calories`
+        )}
+      {warnings
+        .filter(w => w.level === 'over')
+        .map(w => (
+          <Text key={w.nutrient} style={styles.warning}>⚠️ {w.message}</Text>
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.soft,
+  },
+  title: {
+    ...textStyles.overline,
+    color: colors.textMuted,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    marginBottom: spacing.sm,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  rowLabel: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  rowValue: {
+    ...textStyles.caption,
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+  },
+  detail: {
+    ...textStyles.caption,
+    marginTop: 4,
+  },
+  warning: {
+    ...textStyles.caption,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+});
+
+export default CaffeineAlcoholCard;
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  alcoholLimitDrinks,
+  caffeineLimitMg,
+  DEFAULT_CAFFEINE_LIMIT_MG,
+  STANDARD_DRINK_GRAMS,
+} from '../services/caffeineAlcoholService';
+import { User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface CaffeineAlcoholLimitsModalProps {
+  visible: boolean;
+  user: User;
+  onClose: () => void;
+  onSave: (updates: Partial<User>) => void;
+}
+
+const MAX_CAFFEINE_MG = 1000;
+const MAX_DRINKS = 10;
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const CaffeineAlcoholLimitsModal: React.FC<CaffeineAlcoholLimitsModalProps> = ({ visible, user, onClose, onSave }) => {
+  const [caffeine, setCaffeine] = useState('');
+  const [drinks, setDrinks] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setCaffeine(String(caffeineLimitMg(user)));
+    setDrinks(String(alcoholLimitDrinks(user)));
+    setError(null);
+  }, [visible]);
+
+  const handleSave = () => {
+    const caffeineLimit = parseNumber(caffeine);
+    const drinkLimit = parseNumber(drinks);
+    if (caffeineLimit === null || caffeineLimit < 0 || caffeineLimit > MAX_CAFFEINE_MG) {
+      setError(`Enter a caffeine limit between 0 and ${MAX_CAFFEINE_MG} mg.`);
+      return;
+    }
+    if (drinkLimit === null || drinkLimit < 0 || drinkLimit > MAX_DRINKS) {
+      setError(`Enter an alcohol limit between 0 and ${MAX_DRINKS} drinks.`);
+      return;
+    }
+    onSave({ caffeineLimitMg: Math.round(caffeineLimit), alcoholLimitDrinks: Math.round(drinkLimit * 10) / 10 });
+    onClose();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>☕ Daily Limits</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>You get a warning when food or drinks take you near or over these</Text>
+
+        <View style={styles.card}>
+          <Text style={styles.label}>Caffeine (mg per day)</Text>
+          <TextInput
+            style={styles.input}
+            value={caffeine}
+            onChangeText={setCaffeine}
+            keyboardType="number-pad"
+            placeholder={String(DEFAULT_CAFFEINE_LIMIT_MG)}
+            placeholderTextColor={colors.textLight}
+          />
+          <Text style={styles.hint}>
+            {DEFAULT_CAFFEINE_LIMIT_MG} mg is about four cups of brewed coffee. Less if you are pregnant or sensitive to caffeine.
+          </Text>
+
+          <Text style={styles.label}>Alcohol (standard drinks per day)</Text>
+          <TextInput
+            style={styles.input}
+            value={drinks}
+            onChangeText={setDrinks}
+            keyboardType="decimal-pad"
+            placeholder="1"
+            placeholderTextColor={colors.textLight}
+          />
+          <Text style={styles.hint}>
+            One standard drink is {STANDARD_DRINK_GRAMS} g of alcohol: a 355 ml beer, 150 ml of wine or 44 ml of spirits.
+            Set 0 to be warned about any alcohol.
+          </Text>
+        </View>
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <TouchableOpacity style={styles.primaryBtn} onPress={handleSave}>
+          <Text style={styles.primaryBtnText}>Save Limits ✓</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: spacing.md,
+    marginHorizontal: spacing.lg,
+    ...shadows.soft,
+  },
+  label: {
+    ...textStyles.label,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  hint: {
+    ...textStyles.caption,
+    marginTop: spacing.xs,
+  },
+  error: {
+    ...textStyles.caption,
+    color: colors.error,
+    paddingHorizontal: spacing.lg,
+    marginTop: spacing.md,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default CaffeineAlcoholLimitsModal;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
+import { CustomFood, NutritionInfo } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+export type CustomFoodDraft = Omit<CustomFood, 'id' | 'user_id' | 'created_at' | 'updated_at'>;
+
+interface CustomFoodFormProps {
+  onSave: (food: CustomFoodDraft) => void;
+  onCancel: () => void;
+}
+
+type Basis = CustomFood['nutrition_basis'];
+
+const NUTRIENT_FIELDS: { key: keyof NutritionInfo; label: string; required: boolean }[] = [
+  { key: 'calories', label: 'Calories (kcal)', required: true },
+  { key: 'protein', label: 'Protein (g)', required: true },
+  { key: 'carbs', label: 'Carbs (g)', required: true },
+  { key: 'fats', label: 'Fats (g)', required: true },
+  { key: 'fiber', label: 'Fiber (g)', required: false },
+  { key: 'sugar', label: 'Sugar (g)', required: false },
+  { key: 'sodium', label: 'Sodium (mg)', required: false },
+  { key: 'saturatedFat', label: 'Saturated fat (g)', required: false },
+  { key: 'potassium', label: 'Potassium (mg)', required: false },
+  { key: 'calcium', label: 'Calcium (mg)', required: false },
+  { key: 'iron', label: 'Iron (mg)', required: false },
+  { key: 'vitaminC', label: 'Vitamin C (mg)', required: false },
+  { key: 'caffeine', label: 'Caffeine (mg)', required: false },
+  { key: 'alcohol', label: 'Alcohol (g)', required: false },
+];
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const CustomFoodForm: React.FC<CustomFoodFormProps> = ({ onSave, onCancel }) => {
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [basis, setBasis] = useState<Basis>('per_100g');
+  const [servingLabel, setServingLabel] = useState('');
+  const [servingGrams, setServingGrams] = useState('');
+  const [nutrients, setNutrients] = useState<Partial<Record<keyof NutritionInfo, string>>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const grams = parseNumber(servingGrams);
+    if (!name.trim()) {
+      setError('Give the food a name.');
+      return;
+    }
+    if (basis === 'per_serving' && (!grams || grams <= 0)) {
+      setError('Enter how many grams one serving weighs.');
+      return;
+    }
+
+    const nutrition: NutritionInfo = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+    for (const field of NUTRIENT_FIELDS) {
+      const value = parseNumber(nutrients[field.key] || '');
+      if (value === null || value < 0) {
+        if (field.required) {
+          setError(`Enter a value for ${field.label.toLowerCase()}.`);
+          return;
+        }
+        continue;
+      }
+      nutrition[field.key] = value;
+    }
+
+    onSave({
+      name: name.trim(),
+      brand: brand.trim() || undefined,
+      nutrition_basis: basis,
+      nutrition,
+      serving_sizes: grams && grams > 0
+        ? [{ label: servingLabel.trim() || '1 serving', grams }]
+        : [],
+    });
+  };
+
+  return (
+    <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+      <TouchableOpacity onPress={onCancel}>
+        <Text style={styles.backLink}>← Back to search</Text>
+      </TouchableOpacity>
+      <Text style={styles.formTitle}>New Custom Food</Text>
+
+      <TextInput
+        style={styles.input}
+        placeholder="Name, e.g. Homemade granola"
+        placeholderTextColor={colors.textLight}
+        value={name}
+        onChangeText={setName}
+      />
+      <TextInput
+        style={styles.input}
+        placeholder="Brand (optional)"
+        placeholderTextColor={colors.textLight}
+        value={brand}
+        onChangeText={setBrand}
+      />
+
+      <Text style={styles.sectionLabel}>Serving size</Text>
+      <View style={styles.row}>
+        <TextInput
+          style={[styles.input, styles.rowInput]}
+          placeholder="1 bar"
+          placeholderTextColor={colors.textLight}
+          value={servingLabel}
+          onChangeText={setServingLabel}
+        />
+        <TextInput
+          style={[styles.input, styles.gramsInput]}
+          placeholder="grams"
+          placeholderTextColor={colors.textLight}
+          value={servingGrams}
+          onChangeText={setServingGrams}
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      <Text style={styles.sectionLabel}>Nutrition values are</Text>
+      <View style={styles.chipRow}>
+        {(['per_100g', 'per_serving'] as Basis[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, basis === option && styles.chipActive]}
+            onPress={() => setBasis(option)}
+          >
+            <Text style={[styles.chipText, basis === option && styles.chipTextActive]}>
+              {option === 'per_100g' ? 'Per 100 g' : 'Per serving'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {NUTRIENT_FIELDS.map(field => (
+        <View key={field.key} style={styles.nutrientRow}>
+          <Text style={styles.nutrientLabel}>
+            {field.label}{field.required ? '' : ' · optional'}
+          </Text>
+          <TextInput
+            style={[styles.input, styles.gramsInput]}
+            value={nutrients[field.key] || ''}
+            onChangeText={text => setNutrients(current => ({ ...current, [field.key]: text }))}
+            keyboardType="decimal-pad"
+            placeholder="0"
+            placeholderTextColor={colors.textLight}
+          />
+        </View>
+      ))}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <TouchableOpacity style={styles.primaryBtn} onPress={handleSave}>
+        <Text style={styles.primaryBtnText}>Save to My Foods ✓</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  backLink: {
+    ...textStyles.label,
+    color: colors.primary,
+    marginBottom: spacing.md,
+  },
+  formTitle: {
+    ...textStyles.h3,
+    marginBottom: spacing.sm,
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  gramsInput: {
+    width: 100,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  nutrientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  nutrientLabel: {
+    ...textStyles.bodySmall,
+  },
+  errorText: {
+    ...textStyles.bodySmall,
+    color: colors.error,
+    marginVertical: spacing.sm,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default CustomFoodForm;
@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { baseNutritionOf, DailyLogEdit } from '../services/mealMappers';
+import { dateAtClock, minutesOfDay } from '../services/dateKeys';
+import { scaleNutrition } from '../services/recipeScaler';
+import { DailyLog, MealType, NutritionInfo } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface EditLogModalProps {
+  visible: boolean;
+  log: DailyLog | null;
+  dayLogs: DailyLog[]; // other logs of the same day, to warn before replacing one
+  onClose: () => void;
+  onSave: (log: DailyLog, edit: DailyLogEdit) => void;
+}
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+const PORTION_STEP = 0.25;
+
+type MacroKey = 'calories' | 'protein' | 'carbs' | 'fats';
+
+const MACRO_FIELDS: { key: MacroKey; label: string }[] = [
+  { key: 'calories', label: 'Calories (kcal)' },
+  { key: 'protein', label: 'Protein (g)' },
+  { key: 'carbs', label: 'Carbs (g)' },
+  { key: 'fats', label: 'Fats (g)' },
+];
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+};
+
+const macroText = (nutrition: NutritionInfo): Record<MacroKey, string> => ({
+  calories: `${nutrition.calories}`,
+  protein: `${nutrition.protein}`,
+  carbs: `${nutrition.carbs}`,
+  fats: `${nutrition.fats}`,
+});
+
+const EditLogModal: React.FC<EditLogModalProps> = ({
+  visible,
+  log,
+  dayLogs,
+  onClose,
+  onSave,
+}) => {
+  const [portion, setPortion] = useState(1);
+  const [mealType, setMealType] = useState<MealType>('breakfast');
+  const [time, setTime] = useState('');
+  const [notes, setNotes] = useState('');
+  const [macros, setMacros] = useState<Record<MacroKey, string>>(macroText({ calories: 0, protein: 0, carbs: 0, fats: 0 }));
+  const [overridden, setOverridden] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible || !log) return;
+    setPortion(log.portion || 1);
+    setMealType(log.meal_type);
+    const minutes = minutesOfDay(new Date(log.eatenAt || log.created_at));
+    setTime(`${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`);
+    setNotes(log.notes || '');
+    setMacros(macroText(log.nutrition_consumed));
+    // Macros that differ from base × portion were typed in by hand
+    const expected = scaleNutrition(baseNutritionOf(log), log.portion || 1);
+    setOverridden(MACRO_FIELDS.some(({ key }) => expected[key] !== log.nutrition_consumed[key]));
+    setError(null);
+  }, [visible, log]);
+
+  if (!log) return null;
+
+  const base = baseNutritionOf(log);
+
+  const changePortion = (next: number) => {
+    const value = Math.max(PORTION_STEP, Math.round(next / PORTION_STEP) * PORTION_STEP);
+    setPortion(value);
+    if (!overridden) setMacros(macroText(scaleNutrition(base, value)));
+  };
+
+  const changeMacro = (key: MacroKey, text: string) => {
+    setOverridden(true);
+    setMacros(current => ({ ...current, [key]: text }));
+  };
+
+  const resetMacros = () => {
+    setOverridden(false);
+    setMacros(macroText(scaleNutrition(base, portion)));
+  };
+
+  const buildEdit = (): DailyLogEdit | null => {
+    const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+      setError('Enter the time as HH:MM, e.g. 08:30.');
+      return null;
+    }
+    // The time is on the log's day in the profile zone, as the day itself is
+    const eatenAt = dateAtClock(log.log_date, Number(match[1]) * 60 + Number(match[2]));
+
+    let nutrition: NutritionInfo | undefined;
+    if (overridden) {
+      nutrition = scaleNutrition(base, portion);
+      for (const { key, label } of MACRO_FIELDS) {
+        const value = parseNumber(macros[key]);
+        if (value === null || value < 0) {
+          setError(`Enter a value for ${label.toLowerCase()}.`);
+          return null;
+        }
+        nutrition[key] = value;
+      }
+    }
+
+    return { portion, meal_type: mealType, eatenAt: eatenAt.toISOString(), notes, nutrition };
+  };
+
+  const handleSave = () => {
+    const edit = buildEdit();
+    if (!edit) return;
+
+    const replaced = dayLogs.find(other => other.id !== log.id && other.meal_type === mealType);
+    if (!replaced) {
+      onSave(log, edit);
+      return;
+    }
+    Alert.alert(
+      'Replace Meal?',
+      `${replaced.food_name} is already logged as ${mealType}. Moving this entry there replaces it.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => onSave(log, edit) },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>✏️ Edit Entry</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle} numberOfLines={1}>{log.food_name}</Text>
+
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          <Text style={styles.sectionLabel}>Portion</Text>
+          <View style={styles.stepperRow}>
+            <TouchableOpacity style={styles.stepperBtn} onPress={() => changePortion(portion - PORTION_STEP)}>
+              <Text style={styles.stepperBtnText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>× {portion}</Text>
+            <TouchableOpacity style={styles.stepperBtn} onPress={() => changePortion(portion + PORTION_STEP)}>
+              <Text style={styles.stepperBtnText}>＋</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionLabel}>Meal</Text>
+          <View style={styles.chipRow}>
+            {MEAL_TYPES.map(type => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, mealType === type && styles.chipActive]}
+                onPress={() => setMealType(type)}
+              >
+                <Text style={[styles.chipText, mealType === type && styles.chipTextActive]}>{type}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel}>Time eaten</Text>
+          <TextInput
+            style={[styles.input, styles.timeInput]}
+            value={time}
+            onChangeText={setTime}
+            placeholder="HH:MM"
+            placeholderTextColor={colors.textLight}
+            keyboardType="numbers-and-punctuation"
+            maxLength={5}
+          />
+
+          <View style={styles.sectionRow}>
+            <Text style={styles.sectionLabel}>Nutrition</Text>
+            {overridden && (
+              <TouchableOpacity onPress={resetMacros}>
+                <Text style={styles.resetLink}>Reset to portion</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          {MACRO_FIELDS.map(field => (
+            <View key={field.key} style={styles.nutrientRow}>
+              <Text style={styles.nutrientLabel}>{field.label}</Text>
+              <TextInput
+                style={[styles.input, styles.numberInput]}
+                value={macros[field.key]}
+                onChangeText={text => changeMacro(field.key, text)}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          ))}
+
+          <Text style={styles.sectionLabel}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. Skipped the dressing"
+            placeholderTextColor={colors.textLight}
+            multiline
+          />
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          <TouchableOpacity style={styles.primaryBtn} onPress={handleSave}>
+            <Text style={styles.primaryBtnText}>Save Changes ✓</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+  },
+  resetLink: {
+    ...textStyles.caption,
+    color: colors.primary,
+    marginBottom: spacing.xs,
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  stepperBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primaryPale,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperBtnText: {
+    fontSize: 20,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  stepperValue: {
+    ...textStyles.h3,
+    minWidth: 70,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  timeInput: {
+    width: 100,
+  },
+  numberInput: {
+    width: 100,
+  },
+  notesInput: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  nutrientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  nutrientLabel: {
+    ...textStyles.bodySmall,
+  },
+  errorText: {
+    ...textStyles.bodySmall,
+    color: colors.error,
+    marginVertical: spacing.sm,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default EditLogModal;
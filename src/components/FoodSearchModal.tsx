@@ -0,0 +1,495 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { foodDatabaseService, FoodItem } from '../services/foodDatabaseService';
+import { storageService } from '../services/storageService';
+import { CustomFood, DailyLog } from '../types';
+import CustomFoodForm, { CustomFoodDraft } from './CustomFoodForm';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+type MealType = DailyLog['meal_type'];
+
+interface FoodSearchModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+  onLogFood: (food: FoodItem, amount: number, mealType: MealType) => void;
+}
+
+const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+const FoodSearchModal: React.FC<FoodSearchModalProps> = ({
+  visible,
+  userId,
+  onClose,
+  onLogFood,
+}) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<FoodItem[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
+  const [loadingDetails, setLoadingDetails] = useState(false);
+  const [amount, setAmount] = useState('100');
+  const [mealType, setMealType] = useState<MealType>('snack');
+  const [customFoods, setCustomFoods] = useState<CustomFood[]>([]);
+  const [creatingFood, setCreatingFood] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      storageService.getCustomFoods(userId).then(setCustomFoods);
+    }
+  }, [visible, userId]);
+
+  const matchingCustomFoods = customFoods.filter(food =>
+    `${food.name} ${food.brand || ''}`.toLowerCase().includes(query.trim().toLowerCase())
+  );
+
+  const handleSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const foods = await foodDatabaseService.searchFoods(query);
+      setResults(foods);
+      if (foods.length === 0) {
+        setError('No foods found. Try a different search.');
+      }
+    } catch (err: any) {
+      console.error('Food search failed:', err);
+      setResults([]);
+      setError(err.message || 'Food search failed');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleSelectFood = async (food: FoodItem) => {
+    setSelectedFood(food);
+    if (food.customFoodId) {
+      // Custom foods list their own serving first
+      setAmount(String(food.portions[0].amount));
+      return;
+    }
+    setAmount(String(food.portions[1]?.amount ?? 100));
+    setLoadingDetails(true);
+    try {
+      // Detail endpoint includes household portions missing from search results
+      const details = await foodDatabaseService.getFood(food.fdcId);
+      setSelectedFood({ ...details, brand: details.brand || food.brand });
+    } catch (err) {
+      console.log('Could not load food details, using search result:', err);
+    } finally {
+      setLoadingDetails(false);
+    }
+  };
+
+  const handleSaveCustomFood = async (draft: CustomFoodDraft) => {
+    const saved = await storageService.saveCustomFood(userId, draft);
+    setCustomFoods(foods => [...foods.filter(f => f.id !== saved.id), saved]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    setCreatingFood(false);
+    handleSelectFood(foodDatabaseService.mapCustomFood(saved));
+  };
+
+  const handleDeleteCustomFood = (food: CustomFood) => {
+    Alert.alert('Delete Food', `Remove "${food.name}" from My Foods?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await storageService.deleteCustomFood(userId, food.id);
+          setCustomFoods(foods => foods.filter(f => f.id !== food.id));
+        },
+      },
+    ]);
+  };
+
+  const handleClose = () => {
+    setSelectedFood(null);
+    setCreatingFood(false);
+    setResults([]);
+    setQuery('');
+    setError(null);
+    onClose();
+  };
+
+  const portionAmount = parseFloat(amount) || 0;
+  const preview = selectedFood
+    ? foodDatabaseService.scaleNutrition(selectedFood.nutritionPer100g, portionAmount)
+    : null;
+
+  const renderResults = () => (
+    <>
+      <View style={styles.searchRow}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search foods, e.g. banana, oatmeal..."
+          placeholderTextColor={colors.textLight}
+          value={query}
+          onChangeText={setQuery}
+          onSubmitEditing={handleSearch}
+          returnKeyType="search"
+          autoFocus
+        />
+        <TouchableOpacity style={styles.searchBtn} onPress={handleSearch} disabled={searching}>
+          <Text style={styles.searchBtnText}>Search</Text>
+        </TouchableOpacity>
+      </View>
+
+      {searching ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity onPress={() => setCreatingFood(true)}>
+            <Text style={styles.backLink}>＋ Create a custom food</Text>
+          </TouchableOpacity>
+
+          {matchingCustomFoods.length > 0 && (
+            <Text style={styles.groupLabel}>⭐ My Foods</Text>
+          )}
+          {matchingCustomFoods.map(food => {
+            const item = foodDatabaseService.mapCustomFood(food);
+            return (
+              <TouchableOpacity
+                key={food.id}
+                style={styles.resultRow}
+                onPress={() => handleSelectFood(item)}
+                onLongPress={() => handleDeleteCustomFood(food)}
+              >
+                <View style={styles.resultInfo}>
+                  <Text style={styles.resultName} numberOfLines={2}>{food.name}</Text>
+                  {food.brand && <Text style={styles.resultBrand}>{food.brand}</Text>}
+                  <Text style={styles.resultMacros}>
+                    {food.nutrition_basis === 'per_serving' ? item.portions[0].label : 'per 100 g'} · {food.nutrition.calories} kcal | P: {food.nutrition.protein}g | C: {food.nutrition.carbs}g | F: {food.nutrition.fats}g
+                  </Text>
+                </View>
+                <Text style={styles.resultArrow}>›</Text>
+              </TouchableOpacity>
+            );
+          })}
+
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          {results.length > 0 && <Text style={styles.groupLabel}>🔎 USDA Results</Text>}
+          {results.map(food => (
+            <TouchableOpacity
+              key={food.fdcId}
+              style={styles.resultRow}
+              onPress={() => handleSelectFood(food)}
+            >
+              <View style={styles.resultInfo}>
+                <Text style={styles.resultName} numberOfLines={2}>{food.name}</Text>
+                {food.brand && <Text style={styles.resultBrand}>{food.brand}</Text>}
+                <Text style={styles.resultMacros}>
+                  per 100 {food.unit} · {food.nutritionPer100g.calories} kcal | P: {food.nutritionPer100g.protein}g | C: {food.nutritionPer100g.carbs}g | F: {food.nutritionPer100g.fats}g
+                </Text>
+              </View>
+              <Text style={styles.resultArrow}>›</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </>
+  );
+
+  const renderPortionPicker = () => {
+    if (!selectedFood || !preview) return null;
+
+    return (
+      <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+        <TouchableOpacity onPress={() => setSelectedFood(null)}>
+          <Text style={styles.backLink}>← Back to results</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.foodTitle}>{selectedFood.name}</Text>
+        {selectedFood.brand && <Text style={styles.resultBrand}>{selectedFood.brand}</Text>}
+
+        <Text style={styles.sectionLabel}>Portion</Text>
+        {loadingDetails && <ActivityIndicator size="small" color={colors.primary} />}
+        <View style={styles.chipRow}>
+          {selectedFood.portions.map(portion => (
+            <TouchableOpacity
+              key={portion.label}
+              style={[styles.chip, portionAmount === portion.amount && styles.chipActive]}
+              onPress={() => setAmount(String(portion.amount))}
+            >
+              <Text style={[styles.chipText, portionAmount === portion.amount && styles.chipTextActive]}>
+                {portion.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <View style={styles.amountRow}>
+          <TextInput
+            style={styles.amountInput}
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.amountUnit}>{selectedFood.unit === 'ml' ? 'ml' : 'grams'}</Text>
+        </View>
+
+        <Text style={styles.sectionLabel}>Meal</Text>
+        <View style={styles.chipRow}>
+          {MEAL_TYPES.map(type => (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, mealType === type && styles.chipActive]}
+              onPress={() => setMealType(type)}
+            >
+              <Text style={[styles.chipText, mealType === type && styles.chipTextActive]}>
+                {type.charAt(0).toUpperCase() + type.slice(1)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.nutritionGrid}>
+          <View style={styles.nutritionItem}>
+            <Text style={styles.nutritionValue}>{preview.calories}</Text>
+            <Text style={styles.nutritionLabel}>kcal</Text>
+          </View>
+          <View style={styles.nutritionItem}>
+            <Text style={styles.nutritionValue}>{preview.protein}g</Text>
+            <Text style={styles.nutritionLabel}>Protein</Text>
+          </View>
+          <View style={styles.nutritionItem}>
+            <Text style={styles.nutritionValue}>{preview.carbs}g</Text>
+            <Text style={styles.nutritionLabel}>Carbs</Text>
+          </View>
+          <View style={styles.nutritionItem}>
+            <Text style={styles.nutritionValue}>{preview.fats}g</Text>
+            <Text style={styles.nutritionLabel}>Fats</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.primaryBtn, portionAmount <= 0 && styles.primaryBtnDisabled]}
+          disabled={portionAmount <= 0}
+          onPress={() => {
+            onLogFood(selectedFood, portionAmount, mealType);
+            handleClose();
+          }}
+        >
+          <Text style={styles.primaryBtnText}>Log {Math.round(portionAmount)} {selectedFood.unit} ✓</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>🔎 Search Foods</Text>
+          <TouchableOpacity onPress={handleClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>Your custom foods and USDA FoodData Central</Text>
+
+        {creatingFood ? (
+          <CustomFoodForm onSave={handleSaveCustomFood} onCancel={() => setCreatingFood(false)} />
+        ) : selectedFood ? renderPortionPicker() : renderResults()}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    paddingHorizontal: spacing.lg,
+    gap: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  searchBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+  },
+  searchBtnText: {
+    ...textStyles.label,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  errorText: {
+    ...textStyles.bodySmall,
+    color: colors.error,
+    marginVertical: spacing.sm,
+  },
+  groupLabel: {
+    ...textStyles.label,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  resultBrand: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  resultMacros: {
+    ...textStyles.caption,
+    marginTop: 2,
+  },
+  resultArrow: {
+    fontSize: 22,
+    color: colors.textMuted,
+    marginLeft: spacing.sm,
+  },
+  backLink: {
+    ...textStyles.label,
+    color: colors.primary,
+    marginBottom: spacing.md,
+  },
+  foodTitle: {
+    ...textStyles.h3,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    gap: spacing.xs,
+  },
+  amountInput: {
+    ...textStyles.body,
+    width: 100,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  amountUnit: {
+    ...textStyles.bodySmall,
+  },
+  nutritionGrid: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginTop: spacing.lg,
+  },
+  nutritionItem: {
+    flex: 1,
+    backgroundColor: colors.primaryPale,
+    borderRadius: borderRadius.lg,
+    padding: spacing.sm,
+    alignItems: 'center',
+  },
+  nutritionValue: {
+    ...textStyles.h4,
+    color: colors.primary,
+  },
+  nutritionLabel: {
+    ...textStyles.caption,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnDisabled: {
+    backgroundColor: colors.disabled,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default FoodSearchModal;
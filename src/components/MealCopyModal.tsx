@@ -0,0 +1,374 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { addDays, format, parseISO } from 'date-fns';
+import { storageService } from '../services/storageService';
+import { DailyLog, MealTemplate } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface MealCopyModalProps {
+  visible: boolean;
+  userId: string;
+  date: string; // YYYY-MM-DD being viewed
+  logs: DailyLog[]; // logs of that date
+  onClose: () => void;
+  onLogged: () => void; // called after logs were added to `date`
+}
+
+const shiftDate = (date: string, days: number) => format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+const dateLabel = (date: string) => format(parseISO(date), 'EEE, MMM d');
+
+const MealCopyModal: React.FC<MealCopyModalProps> = ({
+  visible,
+  userId,
+  date,
+  logs,
+  onClose,
+  onLogged,
+}) => {
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [targetDate, setTargetDate] = useState(shiftDate(date, 1));
+  const [templateName, setTemplateName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelectedIds(new Set(logs.map(log => log.id)));
+    setTargetDate(shiftDate(date, 1));
+    setTemplateName('');
+    storageService.getMealTemplates(userId).then(setTemplates);
+  }, [visible, date, userId]);
+
+  const selectedLogs = logs.filter(log => selectedIds.has(log.id));
+
+  const toggleLog = (id: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error copying meals:', error);
+      Alert.alert('Error', 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopyYesterday = () => run(async () => {
+    const copies = await storageService.copyDay(userId, shiftDate(date, -1), date);
+    if (copies.length === 0) {
+      Alert.alert('Nothing to Copy', `No meals were logged on ${dateLabel(shiftDate(date, -1))}.`);
+      return;
+    }
+    onLogged();
+    onClose();
+  });
+
+  const handleCopySelected = () => run(async () => {
+    await storageService.copyLogsToDate(userId, selectedLogs, targetDate);
+    Alert.alert('Copied', `✅ ${selectedLogs.length} meal(s) copied to ${dateLabel(targetDate)}`);
+    if (targetDate === date) onLogged();
+  });
+
+  const handleSaveTemplate = () => run(async () => {
+    const template = await storageService.saveMealTemplate(userId, templateName, selectedLogs);
+    setTemplates(current => [...current, template].sort((a, b) => a.name.localeCompare(b.name)));
+    setTemplateName('');
+  });
+
+  const handleLogTemplate = (template: MealTemplate) => run(async () => {
+    await storageService.logMealTemplate(userId, template, date);
+    onLogged();
+    onClose();
+  });
+
+  const handleDeleteTemplate = (template: MealTemplate) => {
+    Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          await storageService.deleteMealTemplate(userId, template.id);
+          setTemplates(current => current.filter(t => t.id !== template.id));
+        },
+      },
+    ]);
+  };
+
+  const templateCalories = (template: MealTemplate) =>
+    Math.round(template.items.reduce((sum, item) => sum + (item.nutrition_consumed.calories || 0), 0));
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>📋 Copy & Templates</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>Logging for {dateLabel(date)}</Text>
+
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          <TouchableOpacity style={styles.primaryBtn} onPress={handleCopyYesterday} disabled={busy}>
+            <Text style={styles.primaryBtnText}>↩️ Log what I ate the day before</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionLabel}>My Templates</Text>
+          {templates.length === 0 ? (
+            <Text style={styles.emptyText}>Save meals below as a template to log them in one tap.</Text>
+          ) : (
+            templates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={styles.row}
+                onPress={() => handleLogTemplate(template)}
+                onLongPress={() => handleDeleteTemplate(template)}
+                disabled={busy}
+              >
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowName}>{template.name}</Text>
+                  <Text style={styles.rowMeta} numberOfLines={1}>
+                    {template.items.map(item => item.food_name).join(', ')}
+                  </Text>
+                </View>
+                <Text style={styles.rowCalories}>{templateCalories(template)} kcal</Text>
+              </TouchableOpacity>
+            ))
+          )}
+
+          <Text style={styles.sectionLabel}>Meals on {dateLabel(date)}</Text>
+          {logs.length === 0 ? (
+            <Text style={styles.emptyText}>No meals logged on this day yet.</Text>
+          ) : (
+            <>
+              {logs.map(log => (
+                <TouchableOpacity key={log.id} style={styles.row} onPress={() => toggleLog(log.id)}>
+                  <View style={[styles.checkbox, selectedIds.has(log.id) && styles.checkboxChecked]}>
+                    {selectedIds.has(log.id) && <Text style={styles.checkmark}>✓</Text>}
+                  </View>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowName} numberOfLines={1}>{log.food_name}</Text>
+                    <Text style={styles.rowMeta}>{log.meal_type}</Text>
+                  </View>
+                  <Text style={styles.rowCalories}>{log.nutrition_consumed?.calories || 0} kcal</Text>
+                </TouchableOpacity>
+              ))}
+
+              <View style={styles.dateRow}>
+                <TouchableOpacity onPress={() => setTargetDate(d => shiftDate(d, -1))} style={styles.dateBtn}>
+                  <Text style={styles.dateBtnText}>‹</Text>
+                </TouchableOpacity>
+                <Text style={styles.dateText}>{dateLabel(targetDate)}</Text>
+                <TouchableOpacity onPress={() => setTargetDate(d => shiftDate(d, 1))} style={styles.dateBtn}>
+                  <Text style={styles.dateBtnText}>›</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={[styles.outlineBtn, (busy || selectedLogs.length === 0) && styles.btnDisabled]}
+                onPress={handleCopySelected}
+                disabled={busy || selectedLogs.length === 0}
+              >
+                <Text style={styles.outlineBtnText}>Copy {selectedLogs.length} to {dateLabel(targetDate)}</Text>
+              </TouchableOpacity>
+
+              <View style={styles.templateRow}>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Template name, e.g. Usual breakfast"
+                  placeholderTextColor={colors.textLight}
+                  value={templateName}
+                  onChangeText={setTemplateName}
+                />
+                <TouchableOpacity
+                  style={[styles.saveBtn, (busy || !templateName.trim() || selectedLogs.length === 0) && styles.btnDisabled]}
+                  onPress={handleSaveTemplate}
+                  disabled={busy || !templateName.trim() || selectedLogs.length === 0}
+                >
+                  <Text style={styles.saveBtnText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+
+          {busy && <ActivityIndicator style={styles.spinner} color={colors.primary} />}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  emptyText: {
+    ...textStyles.bodySmall,
+    color: colors.textSecondary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    ...textStyles.caption,
+    marginTop: 2,
+    textTransform: 'capitalize',
+  },
+  rowCalories: {
+    ...textStyles.bodySmall,
+    color: colors.primary,
+    marginLeft: spacing.sm,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: borderRadius.sm,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.sm,
+  },
+  checkboxChecked: {
+    backgroundColor: colors.primary,
+  },
+  checkmark: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.md,
+    marginTop: spacing.md,
+  },
+  dateBtn: {
+    paddingHorizontal: spacing.sm,
+  },
+  dateBtnText: {
+    fontSize: 24,
+    color: colors.primary,
+  },
+  dateText: {
+    ...textStyles.label,
+    minWidth: 110,
+    textAlign: 'center',
+  },
+  templateRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginTop: spacing.md,
+  },
+  input: {
+    flex: 1,
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  saveBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+  },
+  saveBtnText: {
+    ...textStyles.label,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  btnDisabled: {
+    opacity: 0.5,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+  outlineBtn: {
+    borderWidth: 2,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  outlineBtnText: {
+    ...textStyles.button,
+    color: colors.primary,
+  },
+  spinner: {
+    marginVertical: spacing.md,
+  },
+});
+
+export default MealCopyModal;
@@ -1,21 +1,41 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, Modal, StyleSheet } from 'react-native';
-import { Meal } from '../services/professionalAIService';
+import { Meal } from '../types';
+import { baseServings, formatAmount, scaleMeal } from '../services/recipeScaler';
+import { UnitSystem } from '../services/unitConversion';
 import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
 
 interface MealDetailModalProps {
   visible: boolean;
   meal: Meal | null;
+  unitsPreference?: UnitSystem;
   onClose: () => void;
-  onLog: () => void;
+  onLog: (meal: Meal) => void; // receives the meal scaled to the chosen servings
 }
 
+const SERVING_STEP = 0.5;
+
 const MealDetailModal: React.FC<MealDetailModalProps> = ({
   visible,
-  meal,
+  meal: originalMeal,
+  unitsPreference = 'metric',
   onClose,
   onLog,
 }) => {
+  const [servings, setServings] = useState(1);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(unitsPreference);
+
+  // Start every meal at its own size and in the user's units
+  useEffect(() => {
+    if (originalMeal) setServings(baseServings(originalMeal));
+    setUnitSystem(unitsPreference);
+  }, [originalMeal, unitsPreference]);
+
+  const meal = useMemo(
+    () => (originalMeal ? scaleMeal(originalMeal, servings, unitSystem) : null),
+    [originalMeal, servings, unitSystem]
+  );
+
   if (!meal) return null;
 
   return (
@@ -29,6 +49,40 @@ const MealDetailModal: React.FC<MealDetailModalProps> = ({
               <Text style={styles.modalDesc}>{meal.description}</Text>
             </View>
             
+            <View style={styles.controlsRow}>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={[styles.stepperBtn, servings <= SERVING_STEP && styles.stepperBtnDisabled]}
+                  disabled={servings <= SERVING_STEP}
+                  onPress={() => setServings(s => Math.max(SERVING_STEP, s - SERVING_STEP))}
+                >
+                  <Text style={styles.stepperBtnText}>−</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue}>
+                  {formatAmount(servings, true)} {servings === 1 ? 'serving' : 'servings'}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperBtn}
+                  onPress={() => setServings(s => s + SERVING_STEP)}
+                >
+                  <Text style={styles.stepperBtnText}>+</Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.unitToggle}>
+                {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+                  <TouchableOpacity
+                    key={system}
+                    style={[styles.unitOption, unitSystem === system && styles.unitOptionActive]}
+                    onPress={() => setUnitSystem(system)}
+                  >
+                    <Text style={[styles.unitOptionText, unitSystem === system && styles.unitOptionTextActive]}>
+                      {system === 'metric' ? 'Metric' : 'Imperial'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             <View style={styles.nutritionGrid}>
               <View style={styles.nutritionItem}>
                 <Text style={styles.nutritionValue}>{meal.calories}</Text>
@@ -64,8 +118,12 @@ const MealDetailModal: React.FC<MealDetailModalProps> = ({
           </ScrollView>
           
           <View style={styles.buttonContainer}>
-            <TouchableOpacity style={styles.primaryBtn} onPress={onLog}>
-              <Text style={styles.primaryBtnText}>Log This Meal ✓</Text>
+            <TouchableOpacity style={styles.primaryBtn} onPress={() => onLog(meal)}>
+              <Text style={styles.primaryBtnText}>
+                {servings === baseServings(originalMeal!)
+                  ? 'Log This Meal ✓'
+                  : `Log ${formatAmount(servings, true)} ${servings === 1 ? 'Serving' : 'Servings'} ✓`}
+              </Text>
             </TouchableOpacity>
             
             <TouchableOpacity style={styles.outlineBtn} onPress={onClose}>
@@ -115,6 +173,61 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 22,
   },
+  controlsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+    paddingTop: spacing.lg,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  stepperBtn: {
+    width: 32,
+    height: 32,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primaryPale,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperBtnDisabled: {
+    opacity: 0.4,
+  },
+  stepperBtnText: {
+    ...textStyles.h4,
+    color: colors.primary,
+  },
+  stepperValue: {
+    ...textStyles.label,
+    color: colors.textPrimary,
+    minWidth: 90,
+    textAlign: 'center',
+  },
+  unitToggle: {
+    flexDirection: 'row',
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.full,
+    padding: 2,
+  },
+  unitOption: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+  },
+  unitOptionActive: {
+    backgroundColor: colors.primary,
+  },
+  unitOptionText: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+  },
+  unitOptionTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
   nutritionGrid: {
     flexDirection: 'row',
     paddingHorizontal: spacing.xl,
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { storageService } from '../services/storageService';
+import { databaseService } from '../services/databaseService';
+import {
+  getMicronutrientProgress,
+  getReferenceValues,
+  MicronutrientProgress,
+  sumNutrition,
+} from '../services/micronutrientService';
+import { beverageNutrition } from '../services/hydrationService';
+import { User } from '../types';
+import { colors, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface MicronutrientModalProps {
+  visible: boolean;
+  user: User;
+  date: string; // YYYY-MM-DD
+  calorieTarget: number;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<MicronutrientProgress['status'], string> = {
+  low: colors.warning,
+  ok: colors.success,
+  over: colors.error,
+  unknown: colors.disabled,
+};
+
+const formatValue = (value: number, unit: string) => `${value.toLocaleString('en-US')} ${unit}`;
+
+const MicronutrientModal: React.FC<MicronutrientModalProps> = ({
+  visible,
+  user,
+  date,
+  calorieTarget,
+  onClose,
+}) => {
+  const [progress, setProgress] = useState<MicronutrientProgress[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [logs, drinks, target] = await Promise.all([
+          storageService.getDailyLogs(user.id, date),
+          storageService.getWaterEntries(user.id, date),
+          databaseService.getNutritionTargets(user.id),
+        ]);
+        // Drinks bring caffeine and alcohol
+        const totals = sumNutrition([
+          ...logs.map(log => log.nutrition_consumed),
+          ...(drinks.length > 0 ? [beverageNutrition(drinks)] : []),
+        ]);
+        setProgress(getMicronutrientProgress(totals, getReferenceValues(user, calorieTarget, target)));
+      } catch (error) {
+        console.error('Error loading micronutrients:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [visible, date, user.id]);
+
+  const renderRow = (item: MicronutrientProgress) => (
+    <View key={item.key} style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowLabel}>{item.label}</Text>
+        <Text style={styles.rowValue}>
+          {item.amount === null ? 'No data' : formatValue(item.amount, item.unit)}
+          <Text style={styles.rowReference}>
+            {' '}/ {item.kind === 'limit' ? 'under ' : ''}{formatValue(item.reference, item.unit)}
+          </Text>
+        </Text>
+      </View>
+      <View style={styles.barTrack}>
+        <View
+          style={[
+            styles.barFill,
+            { width: `${Math.min(item.percent, 100)}%`, backgroundColor: STATUS_COLORS[item.status] },
+          ]}
+        />
+      </View>
+      {item.amount !== null && (
+        <Text style={[styles.rowPercent, { color: STATUS_COLORS[item.status] }]}>
+          {item.percent}%{item.status === 'over' ? ' · over the limit' : ''}
+        </Text>
+      )}
+    </View>
+  );
+
+  const goals = progress.filter(item => item.kind === 'goal');
+  const limits = progress.filter(item => item.kind === 'limit');
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>🔬 Micronutrients</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>
+          Daily reference values for age {user.age}{user.gender !== 'other' ? `, ${user.gender}` : ''}
+        </Text>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : (
+          <ScrollView style={styles.list}>
+            <Text style={styles.sectionLabel}>Aim for</Text>
+            {goals.map(renderRow)}
+            <Text style={styles.sectionLabel}>Stay under</Text>
+            {limits.map(renderRow)}
+            <Text style={styles.footnote}>
+              Foods that don't report a nutrient are left out of its total, so
+              the real intake may be higher.
+            </Text>
+          </ScrollView>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  row: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: spacing.xs,
+  },
+  rowLabel: {
+    ...textStyles.body,
+    fontWeight: '600',
+  },
+  rowValue: {
+    ...textStyles.bodySmall,
+  },
+  rowReference: {
+    color: colors.textSecondary,
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: borderRadius.full,
+  },
+  rowPercent: {
+    ...textStyles.caption,
+    marginTop: 2,
+  },
+  footnote: {
+    ...textStyles.caption,
+    color: colors.textSecondary,
+    marginVertical: spacing.lg,
+  },
+});
+
+export default MicronutrientModal;
@@ -0,0 +1,304 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  HYDRATION_INTERVALS,
+  reminderService,
+  ReminderSettings,
+} from '../services/reminderService';
+import { formatClock, parseClock } from '../services/sleepService';
+import { storageService } from '../services/storageService';
+import { todayKey } from '../services/dateKeys';
+import { MealType } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface NotificationSettingsModalProps {
+  visible: boolean;
+  userId: string;
+  onClose: () => void;
+}
+
+const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: '🍳 Breakfast',
+  lunch: '🥗 Lunch',
+  snack: '🍎 Snack',
+  dinner: '🍽️ Dinner',
+};
+
+const NotificationSettingsModal: React.FC<NotificationSettingsModalProps> = ({ visible, userId, onClose }) => {
+  const [settings, setSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    reminderService.getSettings(userId).then(setSettings);
+  }, [visible, userId]);
+
+  const update = (changes: Partial<ReminderSettings>) => setSettings(current => ({ ...current, ...changes }));
+
+  const clocks = () => [
+    ...Object.values(settings.meals).map(m => m.time),
+    settings.hydration.start,
+    settings.hydration.end,
+    settings.closeDay.time,
+    settings.caffeineCutoff.time,
+    settings.quietHours.start,
+    settings.quietHours.end,
+  ];
+
+  const handleSave = async () => {
+    if (clocks().some(clock => parseClock(clock) === null)) {
+      Alert.alert('Invalid Time', 'Enter times as HH:MM, e.g. 08:30 or 19:00.');
+      return;
+    }
+
+    setSaving(true);
+    let next = settings;
+    if (settings.enabled && !(await reminderService.requestPermission())) {
+      next = { ...settings, enabled: false };
+      Alert.alert('Notifications Off', 'Allow notifications for NutriPro in your device settings to get reminders.');
+    }
+    await reminderService.saveSettings(userId, next);
+    const logs = await storageService.getDailyLogs(userId, todayKey());
+    await reminderService.reschedule(userId, logs.map(log => log.meal_type));
+    setSaving(false);
+    if (next.enabled === settings.enabled) onClose();
+    else setSettings(next);
+  };
+
+  const renderTime = (value: string, onChange: (value: string) => void, editable = true) => (
+    <TextInput
+      style={[styles.timeInput, !editable && styles.disabled]}
+      value={value}
+      onChangeText={onChange}
+      onEndEditing={() => parseClock(value) !== null && onChange(formatClock(value))}
+      editable={editable}
+      placeholder="HH:MM"
+      placeholderTextColor={colors.textLight}
+      keyboardType="numbers-and-punctuation"
+      maxLength={5}
+    />
+  );
+
+  const { meals, hydration, closeDay, caffeineCutoff, quietHours } = settings;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>🔔 Reminders</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>Reminders skip anything you have already logged today</Text>
+
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          <View style={styles.card}>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Allow reminders</Text>
+              <Switch value={settings.enabled} onValueChange={enabled => update({ enabled })} />
+            </View>
+          </View>
+
+          <View style={[styles.card, !settings.enabled && styles.disabled]} pointerEvents={settings.enabled ? 'auto' : 'none'}>
+            <Text style={styles.sectionLabel}>Meals</Text>
+            {(Object.keys(MEAL_LABELS) as MealType[]).map(mealType => (
+              <View key={mealType} style={styles.row}>
+                <Text style={styles.rowLabel}>{MEAL_LABELS[mealType]}</Text>
+                {renderTime(
+                  meals[mealType].time,
+                  time => update({ meals: { ...meals, [mealType]: { ...meals[mealType], time } } }),
+                  meals[mealType].enabled
+                )}
+                <Switch
+                  value={meals[mealType].enabled}
+                  onValueChange={enabled => update({ meals: { ...meals, [mealType]: { ...meals[mealType], enabled } } })}
+                />
+              </View>
+            ))}
+
+            <Text style={styles.sectionLabel}>Hydration</Text>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>💧 Water nudges</Text>
+              <Switch value={hydration.enabled} onValueChange={enabled => update({ hydration: { ...hydration, enabled } })} />
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>Between</Text>
+              {renderTime(hydration.start, start => update({ hydration: { ...hydration, start } }), hydration.enabled)}
+              <Text style={styles.rowHint}>and</Text>
+              {renderTime(hydration.end, end => update({ hydration: { ...hydration, end } }), hydration.enabled)}
+            </View>
+            <View style={styles.chipRow}>
+              {HYDRATION_INTERVALS.map(minutes => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, hydration.intervalMinutes === minutes && styles.chipActive]}
+                  onPress={() => update({ hydration: { ...hydration, intervalMinutes: minutes } })}
+                  disabled={!hydration.enabled}
+                >
+                  <Text style={[styles.chipText, hydration.intervalMinutes === minutes && styles.chipTextActive]}>
+                    Every {minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes} min`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.sectionLabel}>Caffeine</Text>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>☕ Cutoff</Text>
+              {renderTime(
+                caffeineCutoff.time,
+                time => update({ caffeineCutoff: { ...caffeineCutoff, time } }),
+                caffeineCutoff.enabled
+              )}
+              <Switch
+                value={caffeineCutoff.enabled}
+                onValueChange={enabled => update({ caffeineCutoff: { ...caffeineCutoff, enabled } })}
+              />
+            </View>
+
+            <Text style={styles.sectionLabel}>Evening</Text>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>🌙 Close your day</Text>
+              {renderTime(closeDay.time, time => update({ closeDay: { ...closeDay, time } }), closeDay.enabled)}
+              <Switch value={closeDay.enabled} onValueChange={enabled => update({ closeDay: { ...closeDay, enabled } })} />
+            </View>
+
+            <Text style={styles.sectionLabel}>Quiet Hours</Text>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>🤫 No reminders</Text>
+              <Switch value={quietHours.enabled} onValueChange={enabled => update({ quietHours: { ...quietHours, enabled } })} />
+            </View>
+            <View style={styles.row}>
+              <Text style={styles.rowLabel}>From</Text>
+              {renderTime(quietHours.start, start => update({ quietHours: { ...quietHours, start } }), quietHours.enabled)}
+              <Text style={styles.rowHint}>to</Text>
+              {renderTime(quietHours.end, end => update({ quietHours: { ...quietHours, end } }), quietHours.enabled)}
+            </View>
+          </View>
+
+          <TouchableOpacity style={styles.primaryBtn} onPress={handleSave} disabled={saving}>
+            <Text style={styles.primaryBtnText}>{saving ? 'Saving...' : 'Save Reminders ✓'}</Text>
+          </TouchableOpacity>
+          <View style={{ height: spacing.xl }} />
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    ...shadows.soft,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    gap: spacing.sm,
+  },
+  rowLabel: {
+    ...textStyles.body,
+    flex: 1,
+  },
+  rowHint: {
+    ...textStyles.caption,
+  },
+  timeInput: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    width: 70,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.md,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default NotificationSettingsModal;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import {
+  calculateNutritionTargets,
+  DEFAULT_WEEKLY_RATE,
+  MACRO_PRESETS,
+  MAX_WEEKLY_RATE,
+  WEEKLY_RATE_OPTIONS,
+} from '../services/nutritionTargetService';
+import { MacroPreset, User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface NutritionTargetsCardProps {
+  user: User;
+  onChange: (updates: Partial<User>) => void;
+}
+
+type Goal = NonNullable<User['goal']>;
+
+const GOALS: { value: Goal; label: string }[] = [
+  { value: 'lose', label: '📉 Lose' },
+  { value: 'maintain', label: '⚖️ Maintain' },
+  { value: 'gain', label: '📈 Gain' },
+];
+
+const FORMULA_LABELS = {
+  mifflin_st_jeor: 'Mifflin-St Jeor',
+  katch_mcardle: 'Katch-McArdle (body fat)',
+};
+
+const NutritionTargetsCard: React.FC<NutritionTargetsCardProps> = ({ user, onChange }) => {
+  const [bodyFat, setBodyFat] = useState(user.bodyFatPercentage ? `${user.bodyFatPercentage}` : '');
+
+  useEffect(() => {
+    setBodyFat(user.bodyFatPercentage ? `${user.bodyFatPercentage}` : '');
+  }, [user.bodyFatPercentage]);
+
+  const goal: Goal = user.goal || 'maintain';
+  const preset: MacroPreset = user.macroPreset || 'balanced';
+  const targets = calculateNutritionTargets(user);
+  const rate = goal === 'maintain' ? 0 : user.weeklyRateKg ?? DEFAULT_WEEKLY_RATE[goal];
+
+  const saveBodyFat = () => {
+    const value = parseFloat(bodyFat.replace(',', '.'));
+    const next = Number.isFinite(value) && value > 0 ? value : undefined;
+    if (next !== user.bodyFatPercentage) onChange({ bodyFatPercentage: next });
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>NUTRITION TARGETS</Text>
+
+      <View style={styles.summary}>
+        <Text style={styles.calories}>{targets.daily_calories.toLocaleString('en-US')} kcal</Text>
+        <Text style={styles.macros}>
+          P {targets.protein_grams}g · C {targets.carbs_grams}g · F {targets.fats_grams}g
+        </Text>
+        <Text style={styles.meta}>
+          BMR {targets.bmr} · TDEE {targets.tdee} · {FORMULA_LABELS[targets.formula]}
+        </Text>
+        {targets.tdee_source === 'measured' && (
+          <View style={styles.measuredRow}>
+            <Text style={styles.meta}>TDEE measured from your logs and weigh-ins</Text>
+            <TouchableOpacity onPress={() => onChange({ measuredTdee: undefined, measuredTdeeAt: undefined })}>
+              <Text style={styles.link}>Use formula</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {targets.floorApplied && (
+          <Text style={styles.warning}>
+            Raised to the safe minimum of {targets.daily_calories} kcal. Try a slower pace.
+          </Text>
+        )}
+      </View>
+
+      <Text style={styles.label}>Goal</Text>
+      <View style={styles.chipRow}>
+        {GOALS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, goal === option.value && styles.chipActive]}
+            onPress={() => onChange({ goal: option.value, healthGoals: [option.value] })}
+          >
+            <Text style={[styles.chipText, goal === option.value && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {goal !== 'maintain' && (
+        <>
+          <Text style={styles.label}>Pace per week</Text>
+          <View style={styles.chipRow}>
+            {WEEKLY_RATE_OPTIONS.filter(option => option <= MAX_WEEKLY_RATE[goal]).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, rate === option && styles.chipActive]}
+                onPress={() => onChange({ weeklyRateKg: option })}
+              >
+                <Text style={[styles.chipText, rate === option && styles.chipTextActive]}>{option} kg</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      )}
+
+      <Text style={styles.label}>Macro split</Text>
+      <View style={styles.chipRow}>
+        {(Object.keys(MACRO_PRESETS) as MacroPreset[]).map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, preset === option && styles.chipActive]}
+            onPress={() => onChange({ macroPreset: option })}
+          >
+            <Text style={[styles.chipText, preset === option && styles.chipTextActive]}>
+              {MACRO_PRESETS[option].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Body fat % (optional)</Text>
+      <TextInput
+        style={styles.input}
+        value={bodyFat}
+        onChangeText={setBodyFat}
+        onEndEditing={saveBodyFat}
+        keyboardType="decimal-pad"
+        placeholder="e.g. 22"
+        placeholderTextColor={colors.textLight}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.soft,
+  },
+  title: {
+    ...textStyles.overline,
+    color: colors.textMuted,
+    marginBottom: spacing.md,
+  },
+  summary: {
+    backgroundColor: colors.primaryPale,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+  },
+  calories: {
+    ...textStyles.h2,
+    color: colors.primary,
+  },
+  macros: {
+    ...textStyles.body,
+    marginTop: 2,
+  },
+  meta: {
+    ...textStyles.caption,
+    marginTop: spacing.xs,
+  },
+  measuredRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  link: {
+    ...textStyles.caption,
+    color: colors.primary,
+    marginTop: spacing.xs,
+  },
+  warning: {
+    ...textStyles.caption,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  label: {
+    ...textStyles.label,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    width: 120,
+  },
+});
+
+export default NutritionTargetsCard;
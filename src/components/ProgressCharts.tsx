@@ -11,6 +11,10 @@ import { colors, shadows, spacing, borderRadius, typography } from '../constants
 import { databaseService } from '../services/databaseService';
 import { storageService } from '../services/storageService';
 import { isSupabaseConfigured } from '../config/supabase';
+import { UnitSystem } from '../services/unitConversion';
+import { User } from '../types';
+import WeightTrendChart from './WeightTrendChart';
+import { addDaysToKey, dateFromKey, todayKey } from '../services/dateKeys';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CHART_WIDTH = SCREEN_WIDTH - spacing.md * 4;
@@ -27,14 +31,27 @@ interface DayData {
   water: number;
 }
 
+type DayMetric = 'calories' | 'protein' | 'carbs' | 'fats' | 'water';
+
 interface ProgressChartsProps {
   userId: string;
   calorieTarget: number;
+  unitsPreference?: UnitSystem;
+  targetWeight?: number;
+  height: number;
+  onUpdateUser: (updates: Partial<User>) => void;
 }
 
-const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }) => {
+const ProgressCharts: React.FC<ProgressChartsProps> = ({
+  userId,
+  calorieTarget,
+  unitsPreference,
+  targetWeight,
+  height,
+  onUpdateUser,
+}) => {
   const [weekData, setWeekData] = useState<DayData[]>([]);
-  const [activeMetric, setActiveMetric] = useState<'calories' | 'protein' | 'carbs' | 'fats' | 'water'>('calories');
+  const [activeMetric, setActiveMetric] = useState<DayMetric | 'weight'>('calories');
   const [loading, setLoading] = useState(true);
 
   const dayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
@@ -46,14 +63,13 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
   const loadWeekData = async () => {
     try {
       setLoading(true);
-      const today = new Date();
+      const today = todayKey();
       const weekDataArray: DayData[] = [];
 
       // Get last 7 days including today
       for (let i = 6; i >= 0; i--) {
-        const date = new Date(today);
-        date.setDate(today.getDate() - i);
-        const dateStr = date.toISOString().split('T')[0];
+        const dateStr = addDaysToKey(today, -i);
+        const date = dateFromKey(dateStr);
         const dayName = dayLabels[date.getDay() === 0 ? 6 : date.getDay() - 1];
 
         // Get nutrition totals for that day
@@ -73,7 +89,6 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
                 dayTotals.sugar += log.nutrition_consumed.sugar || Math.round(carbs * 0.15);
               }
             });
-            waterIntake = await databaseService.getWaterIntake(dateStr);
           } else {
             const totals = await storageService.getDailyNutritionTotals(userId, dateStr);
             dayTotals = {
@@ -84,6 +99,8 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
               sugar: totals.sugar,
             };
           }
+          // Local entries include drinks still waiting to sync
+          waterIntake = await storageService.getWaterIntake(userId, dateStr);
         } catch (err) {
           console.log('No data for', dateStr);
         }
@@ -133,13 +150,15 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
         return colors.fats;
       case 'water':
         return '#0EA5E9';
+      case 'weight':
+        return colors.primary;
       default:
         return colors.primary;
     }
   };
 
   const getValue = (data: DayData) => {
-    return data[activeMetric];
+    return activeMetric === 'weight' ? 0 : data[activeMetric];
   };
 
   const getUnit = () => {
@@ -169,6 +188,7 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
     { key: 'carbs', label: 'Carbs', emoji: '🍞' },
     { key: 'fats', label: 'Fats', emoji: '🥑' },
     { key: 'water', label: 'Water', emoji: '💧' },
+    { key: 'weight', label: 'Weight', emoji: '⚖️' },
   ];
 
   const maxValue = getMaxValue();
@@ -186,7 +206,7 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>📊 Weekly Progress</Text>
-        <Text style={styles.subtitle}>Last 7 days</Text>
+        <Text style={styles.subtitle}>{activeMetric === 'weight' ? 'Last 30 days' : 'Last 7 days'}</Text>
       </View>
 
       {/* Metric Selector */}
@@ -217,83 +237,95 @@ const ProgressCharts: React.FC<ProgressChartsProps> = ({ userId, calorieTarget }
         ))}
       </ScrollView>
 
-      {/* Stats Summary */}
-      <View style={styles.statsRow}>
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{getAverageForWeek()}</Text>
-          <Text style={styles.statLabel}>Daily Avg</Text>
-        </View>
-        <View style={[styles.statDivider]} />
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{getTotalForWeek()}</Text>
-          <Text style={styles.statLabel}>Week Total</Text>
-        </View>
-        <View style={[styles.statDivider]} />
-        <View style={styles.statItem}>
-          <Text style={styles.statValue}>{weekData.filter(d => getValue(d) > 0).length}</Text>
-          <Text style={styles.statLabel}>Active Days</Text>
-        </View>
-      </View>
+      {activeMetric === 'weight' ? (
+        <WeightTrendChart
+          userId={userId}
+          unitsPreference={unitsPreference}
+          targetWeight={targetWeight}
+          height={height}
+          onUpdateUser={onUpdateUser}
+        />
+      ) : (
+        <>
+          {/* Stats Summary */}
+          <View style={styles.statsRow}>
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{getAverageForWeek()}</Text>
+              <Text style={styles.statLabel}>Daily Avg</Text>
+            </View>
+            <View style={[styles.statDivider]} />
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{getTotalForWeek()}</Text>
+              <Text style={styles.statLabel}>Week Total</Text>
+            </View>
+            <View style={[styles.statDivider]} />
+            <View style={styles.statItem}>
+              <Text style={styles.statValue}>{weekData.filter(d => getValue(d) > 0).length}</Text>
+              <Text style={styles.statLabel}>Active Days</Text>
+            </View>
+          </View>
 
-      {/* Chart */}
-      <View style={styles.chartContainer}>
-        {/* Y-axis labels */}
-        <View style={styles.yAxis}>
-          <Text style={styles.yAxisLabel}>{maxValue}</Text>
-          <Text style={styles.yAxisLabel}>{Math.round(maxValue / 2)}</Text>
-          <Text style={styles.yAxisLabel}>0</Text>
-        </View>
+          {/* Chart */}
+          <View style={styles.chartContainer}>
+            {/* Y-axis labels */}
+            <View style={styles.yAxis}>
+              <Text style={styles.yAxisLabel}>{maxValue}</Text>
+              <Text style={styles.yAxisLabel}>{Math.round(maxValue / 2)}</Text>
+              <Text style={styles.yAxisLabel}>0</Text>
+            </View>
 
-        {/* Bars */}
-        <View style={styles.barsContainer}>
-          {/* Grid lines */}
-          <View style={styles.gridLine} />
-          <View style={[styles.gridLine, { top: '50%' }]} />
-          <View style={[styles.gridLine, { top: '100%' }]} />
+            {/* Bars */}
+            <View style={styles.barsContainer}>
+              {/* Grid lines */}
+              <View style={styles.gridLine} />
+              <View style={[styles.gridLine, { top: '50%' }]} />
+              <View style={[styles.gridLine, { top: '100%' }]} />
 
-          {weekData.map((day, index) => {
-            const value = getValue(day);
-            const barHeight = maxValue > 0 ? (value / maxValue) * 120 : 0;
+              {weekData.map((day, index) => {
+                const value = getValue(day);
+                const barHeight = maxValue > 0 ? (value / maxValue) * 120 : 0;
             
-            return (
-              <View key={index} style={styles.barWrapper}>
-                <View style={styles.barValue}>
-                  <Text style={[styles.barValueText, { color: getBarColor() }]}>
-                    {value > 0 ? value : '-'}
-                  </Text>
-                </View>
-                <View style={styles.barBackground}>
-                  <View 
-                    style={[
-                      styles.bar,
-                      { 
-                        height: barHeight, 
-                        backgroundColor: isToday(index) ? getBarColor() : getBarColor() + '80',
-                      }
-                    ]} 
-                  />
-                </View>
-                <Text style={[
-                  styles.dayLabel,
-                  isToday(index) && { color: getBarColor(), fontWeight: '700' }
-                ]}>
-                  {day.day}
-                </Text>
-                {isToday(index) && (
-                  <View style={[styles.todayIndicator, { backgroundColor: getBarColor() }]} />
-                )}
-              </View>
-            );
-          })}
-        </View>
-      </View>
+                return (
+                  <View key={index} style={styles.barWrapper}>
+                    <View style={styles.barValue}>
+                      <Text style={[styles.barValueText, { color: getBarColor() }]}>
+                        {value > 0 ? value : '-'}
+                      </Text>
+                    </View>
+                    <View style={styles.barBackground}>
+                      <View 
+                        style={[
+                          styles.bar,
+                          { 
+                            height: barHeight, 
+                            backgroundColor: isToday(index) ? getBarColor() : getBarColor() + '80',
+                          }
+                        ]} 
+                      />
+                    </View>
+                    <Text style={[
+                      styles.dayLabel,
+                      isToday(index) && { color: getBarColor(), fontWeight: '700' }
+                    ]}>
+                      {day.day}
+                    </Text>
+                    {isToday(index) && (
+                      <View style={[styles.todayIndicator, { backgroundColor: getBarColor() }]} />
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          </View>
 
-      {/* Target Line Info */}
-      {activeMetric === 'calories' && (
-        <View style={styles.targetInfo}>
-          <View style={styles.targetDot} />
-          <Text style={styles.targetText}>Daily target: {calorieTarget} cal</Text>
-        </View>
+          {/* Target Line Info */}
+          {activeMetric === 'calories' && (
+            <View style={styles.targetInfo}>
+              <View style={styles.targetDot} />
+              <Text style={styles.targetText}>Daily target: {calorieTarget} cal</Text>
+            </View>
+          )}
+        </>
       )}
     </View>
   );
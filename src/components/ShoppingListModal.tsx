@@ -0,0 +1,277 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useMealPlanStore } from '../store/mealPlanStore';
+import { shoppingListService } from '../services/shoppingListService';
+import { GroceryCategory, ShoppingListItem, WeeklyPlan } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface ShoppingListModalProps {
+  visible: boolean;
+  userId: string;
+  plan: WeeklyPlan | null;
+  onClose: () => void;
+}
+
+const CATEGORY_EMOJI: Record<GroceryCategory, string> = {
+  'Produce': '🥬',
+  'Meat & Seafood': '🍗',
+  'Dairy & Eggs': '🥚',
+  'Bakery': '🍞',
+  'Grains & Pantry': '🌾',
+  'Spices & Condiments': '🧂',
+  'Frozen': '🧊',
+  'Beverages': '🥤',
+  'Other': '🛍️',
+};
+
+const formatQuantity = (item: ShoppingListItem): string => {
+  if (item.quantity === null) return 'as needed';
+  return item.unit ? `${item.quantity} ${item.unit}` : `${item.quantity}`;
+};
+
+const ShoppingListModal: React.FC<ShoppingListModalProps> = ({
+  visible,
+  userId,
+  plan,
+  onClose,
+}) => {
+  const { shoppingList, setShoppingList, fetchShoppingList, updateShoppingItem } = useMealPlanStore();
+  const [loading, setLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setLoading(true);
+    fetchShoppingList(userId).finally(() => setLoading(false));
+  }, [visible, userId]);
+
+  const handleGenerate = async () => {
+    if (!plan) return;
+    setGenerating(true);
+    try {
+      const list = await shoppingListService.generateFromPlan(plan);
+      setShoppingList(list);
+    } catch (error) {
+      console.error('Error generating shopping list:', error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const items = shoppingList?.items || [];
+  const purchasedCount = items.filter(item => item.is_purchased).length;
+  const isStale = !!shoppingList && !!plan && shoppingList.meal_plan_id !== plan.id;
+
+  // Items keep their index into the list so ticks map back to the store
+  const sections = items.reduce<{ category: GroceryCategory; entries: { item: ShoppingListItem; index: number }[] }[]>(
+    (groups, item, index) => {
+      const last = groups[groups.length - 1];
+      if (last && last.category === item.category) {
+        last.entries.push({ item, index });
+      } else {
+        groups.push({ category: item.category, entries: [{ item, index }] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  const renderList = () => (
+    <ScrollView style={styles.list}>
+      <Text style={styles.progress}>
+        {purchasedCount} of {items.length} items bought
+      </Text>
+      {sections.map(section => (
+        <View key={section.category}>
+          <Text style={styles.sectionLabel}>
+            {CATEGORY_EMOJI[section.category]} {section.category}
+          </Text>
+          {section.entries.map(({ item, index }) => (
+            <TouchableOpacity
+              key={`${item.ingredient_name}-${item.unit || ''}`}
+              style={styles.itemRow}
+              onPress={() => updateShoppingItem(index, !item.is_purchased)}
+            >
+              <View style={[styles.checkbox, item.is_purchased && styles.checkboxChecked]}>
+                {item.is_purchased && <Text style={styles.checkmark}>✓</Text>}
+              </View>
+              <View style={styles.itemInfo}>
+                <Text style={[styles.itemName, item.is_purchased && styles.itemNamePurchased]}>
+                  {item.ingredient_name}
+                </Text>
+                {item.recipe_reference && (
+                  <Text style={styles.itemMeals} numberOfLines={1}>{item.recipe_reference}</Text>
+                )}
+              </View>
+              <Text style={styles.itemQuantity}>{formatQuantity(item)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+    </ScrollView>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>🛒 Shopping List</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>
+          {isStale ? 'Your meal plan changed since this list was made' : 'Built from this week\'s meal plan'}
+        </Text>
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        ) : items.length > 0 ? (
+          renderList()
+        ) : (
+          <View style={styles.centered}>
+            <Text style={styles.emptyText}>
+              {plan ? 'No list yet for this week' : 'Generate a meal plan first'}
+            </Text>
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryBtn, (!plan || generating) && styles.primaryBtnDisabled]}
+          disabled={!plan || generating}
+          onPress={handleGenerate}
+        >
+          {generating ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.primaryBtnText}>
+              {shoppingList ? '🔄 Rebuild from Plan' : '🛒 Build from Plan'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    ...textStyles.bodySmall,
+    color: colors.textSecondary,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  progress: {
+    ...textStyles.label,
+    color: colors.primary,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.lg,
+    marginBottom: spacing.xs,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: borderRadius.sm,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: spacing.sm,
+  },
+  checkboxChecked: {
+    backgroundColor: colors.primary,
+  },
+  checkmark: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    ...textStyles.body,
+    textTransform: 'capitalize',
+  },
+  itemNamePurchased: {
+    color: colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  itemMeals: {
+    ...textStyles.caption,
+    marginTop: 2,
+  },
+  itemQuantity: {
+    ...textStyles.bodySmall,
+    color: colors.textSecondary,
+    marginLeft: spacing.sm,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginHorizontal: spacing.lg,
+    marginVertical: spacing.md,
+    ...shadows.soft,
+  },
+  primaryBtnDisabled: {
+    backgroundColor: colors.disabled,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default ShoppingListModal;
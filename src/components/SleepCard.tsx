@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { databaseService } from '../services/databaseService';
+import { averageSleep, formatHours, RECOMMENDED_SLEEP_HOURS, SLEEP_QUALITY_LABELS } from '../services/sleepService';
+import { isSupabaseConfigured } from '../config/supabase';
+import { SleepRecord, User } from '../types';
+import SleepLogModal from './SleepLogModal';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+import { addDaysToKey, todayKey } from '../services/dateKeys';
+
+interface SleepCardProps {
+  user: User;
+}
+
+const SleepCard: React.FC<SleepCardProps> = ({ user }) => {
+  const [week, setWeek] = useState<SleepRecord[]>([]);
+  const [showLog, setShowLog] = useState(false);
+
+  useEffect(() => {
+    loadWeek();
+  }, [user.id]);
+
+  const loadWeek = async () => {
+    const today = todayKey();
+    setWeek(await databaseService.getSleepHistory(addDaysToKey(today, -6), today));
+  };
+
+  // Sleep lives in Supabase only
+  if (!isSupabaseConfigured) return null;
+
+  const lastNight = week.find(r => r.sleep_date === todayKey());
+  const average = averageSleep(week);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.row}>
+        <View style={styles.info}>
+          <Text style={styles.title}>🌙 Last night</Text>
+          {lastNight ? (
+            <Text style={styles.value}>
+              {formatHours(Number(lastNight.duration_hours))}
+              {lastNight.quality_rating ? ` ${SLEEP_QUALITY_LABELS[lastNight.quality_rating].emoji}` : ''}
+            </Text>
+          ) : (
+            <Text style={styles.empty}>Not logged yet</Text>
+          )}
+          {average !== null && (
+            <Text style={[styles.meta, average < RECOMMENDED_SLEEP_HOURS && styles.metaShort]}>
+              7-day average {formatHours(average)}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity style={styles.button} onPress={() => setShowLog(true)}>
+          <Text style={styles.buttonText}>{lastNight ? 'Details' : 'Log sleep'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <SleepLogModal
+        visible={showLog}
+        user={user}
+        onClose={() => setShowLog(false)}
+        onSaved={loadWeek}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: 16,
+    padding: spacing.lg,
+    ...shadows.soft,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    ...textStyles.label,
+  },
+  value: {
+    ...textStyles.h2,
+    color: colors.primary,
+  },
+  empty: {
+    ...textStyles.body,
+    color: colors.textSecondary,
+  },
+  meta: {
+    ...textStyles.caption,
+  },
+  metaShort: {
+    color: colors.warning,
+  },
+  button: {
+    backgroundColor: colors.primaryPale,
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  buttonText: {
+    ...textStyles.button,
+    color: colors.primary,
+  },
+});
+
+export default SleepCard;
@@ -0,0 +1,446 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { format, parseISO } from 'date-fns';
+import { databaseService } from '../services/databaseService';
+import { storageService } from '../services/storageService';
+import {
+  averageSleep,
+  correlateSleepWithIntake,
+  formatClock,
+  formatHours,
+  RECOMMENDED_SLEEP_HOURS,
+  SleepIntakeCorrelation,
+  SLEEP_QUALITY_LABELS,
+  sleepDuration,
+} from '../services/sleepService';
+import { SleepRecord, User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+import { addDaysToKey, todayKey } from '../services/dateKeys';
+
+interface SleepLogModalProps {
+  visible: boolean;
+  user: User;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const HISTORY_DAYS = 30;
+const CHART_HEIGHT = 100;
+const CHART_MAX_HOURS = 10;
+const NIGHTS = [
+  { offset: 0, label: 'Last night' },
+  { offset: 1, label: 'Night before' },
+];
+
+const SleepLogModal: React.FC<SleepLogModalProps> = ({ visible, user, onClose, onSaved }) => {
+  const [nightOffset, setNightOffset] = useState(0);
+  const [bedTime, setBedTime] = useState('23:00');
+  const [wakeTime, setWakeTime] = useState('07:00');
+  const [quality, setQuality] = useState(3);
+  const [notes, setNotes] = useState('');
+  const [history, setHistory] = useState<SleepRecord[]>([]);
+  const [correlation, setCorrelation] = useState<SleepIntakeCorrelation | null>(null);
+  const [range, setRange] = useState<7 | 30>(7);
+  const [saving, setSaving] = useState(false);
+
+  const today = todayKey();
+  const sleepDate = addDaysToKey(today, -nightOffset);
+
+  useEffect(() => {
+    if (!visible) return;
+    loadHistory();
+  }, [visible]);
+
+  // Prefill from the selected night when it was already logged
+  useEffect(() => {
+    const existing = history.find(r => r.sleep_date === sleepDate);
+    setBedTime(existing?.bed_time ? formatClock(existing.bed_time) : '23:00');
+    setWakeTime(existing?.wake_time ? formatClock(existing.wake_time) : '07:00');
+    setQuality(existing?.quality_rating || 3);
+    setNotes(existing?.notes || '');
+  }, [history, sleepDate]);
+
+  const loadHistory = async () => {
+    try {
+      const records = await databaseService.getSleepHistory(addDaysToKey(today, -(HISTORY_DAYS - 1)), today);
+      setHistory(records);
+
+      const caloriesByDate: Record<string, number> = {};
+      for (const record of records) {
+        const totals = await storageService.getDailyNutritionTotals(user.id, record.sleep_date);
+        caloriesByDate[record.sleep_date] = totals.calories;
+      }
+      setCorrelation(correlateSleepWithIntake(records, caloriesByDate));
+    } catch (error) {
+      console.error('Error loading sleep history:', error);
+    }
+  };
+
+  const duration = sleepDuration(bedTime, wakeTime);
+
+  const handleSave = async () => {
+    if (duration === null) {
+      Alert.alert('Invalid Time', 'Enter bedtime and wake time as HH:MM, e.g. 23:15.');
+      return;
+    }
+    setSaving(true);
+    const saved = await databaseService.saveSleepData({
+      sleepDate,
+      bedTime: formatClock(bedTime),
+      wakeTime: formatClock(wakeTime),
+      durationHours: duration,
+      qualityRating: quality,
+      notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (!saved) {
+      Alert.alert('Not Saved', 'Could not save your sleep. Check your connection and try again.');
+      return;
+    }
+    await loadHistory();
+    onSaved();
+  };
+
+  const renderChart = () => {
+    const days = Array.from({ length: range }, (_, i) => addDaysToKey(today, -(range - 1 - i)));
+    const byDate = new Map(history.map(r => [r.sleep_date, r]));
+    const recent = history.filter(r => r.sleep_date >= days[0]);
+    const average = averageSleep(recent);
+    const referenceTop = CHART_HEIGHT - (RECOMMENDED_SLEEP_HOURS / CHART_MAX_HOURS) * CHART_HEIGHT;
+
+    return (
+      <View>
+        <View style={styles.chart}>
+          <View style={[styles.referenceLine, { top: referenceTop }]} />
+          {days.map(date => {
+            const hours = Number(byDate.get(date)?.duration_hours || 0);
+            const height = (Math.min(hours, CHART_MAX_HOURS) / CHART_MAX_HOURS) * CHART_HEIGHT;
+            return (
+              <View key={date} style={styles.barSlot}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      height,
+                      backgroundColor: hours >= RECOMMENDED_SLEEP_HOURS ? colors.primary : colors.warning,
+                    },
+                  ]}
+                />
+              </View>
+            );
+          })}
+        </View>
+        <View style={styles.chartLabels}>
+          <Text style={styles.chartLabel}>{format(parseISO(days[0]), 'MMM d')}</Text>
+          <Text style={styles.chartLabel}>
+            {average === null ? 'No nights logged' : `Avg ${formatHours(average)} · ${recent.length} nights`}
+          </Text>
+          <Text style={styles.chartLabel}>Today</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderInsight = () => {
+    if (!correlation) {
+      return (
+        <Text style={styles.insightText}>
+          Log sleep and meals for a few short (under {RECOMMENDED_SLEEP_HOURS}h) and full nights to see how sleep affects your appetite.
+        </Text>
+      );
+    }
+    const more = correlation.difference > 0;
+    return (
+      <Text style={styles.insightText}>
+        After nights under {RECOMMENDED_SLEEP_HOURS}h you ate {correlation.shortAverage.toLocaleString('en-US')} kcal on average,{' '}
+        {Math.abs(correlation.difference).toLocaleString('en-US')} kcal {more ? 'more' : 'less'} than after full nights
+        ({correlation.restedAverage.toLocaleString('en-US')} kcal). Based on {correlation.shortNights} short and{' '}
+        {correlation.restedNights} full nights.
+      </Text>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <Text style={styles.title}>🌙 Sleep</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.close}>✕</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.subtitle}>Adults do best with at least {RECOMMENDED_SLEEP_HOURS} hours a night</Text>
+
+        <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+          <View style={styles.chipRow}>
+            {NIGHTS.map(night => (
+              <TouchableOpacity
+                key={night.offset}
+                style={[styles.chip, nightOffset === night.offset && styles.chipActive]}
+                onPress={() => setNightOffset(night.offset)}
+              >
+                <Text style={[styles.chipText, nightOffset === night.offset && styles.chipTextActive]}>{night.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.timeRow}>
+            <View style={styles.timeField}>
+              <Text style={styles.sectionLabel}>Bedtime</Text>
+              <TextInput
+                style={styles.input}
+                value={bedTime}
+                onChangeText={setBedTime}
+                placeholder="HH:MM"
+                placeholderTextColor={colors.textLight}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+            <View style={styles.timeField}>
+              <Text style={styles.sectionLabel}>Woke up</Text>
+              <TextInput
+                style={styles.input}
+                value={wakeTime}
+                onChangeText={setWakeTime}
+                placeholder="HH:MM"
+                placeholderTextColor={colors.textLight}
+                keyboardType="numbers-and-punctuation"
+                maxLength={5}
+              />
+            </View>
+            <View style={styles.timeField}>
+              <Text style={styles.sectionLabel}>Slept</Text>
+              <Text style={styles.duration}>{duration === null ? '-' : formatHours(duration)}</Text>
+            </View>
+          </View>
+
+          <Text style={styles.sectionLabel}>Quality</Text>
+          <View style={styles.qualityRow}>
+            {Object.entries(SLEEP_QUALITY_LABELS).map(([value, { emoji, label }]) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.qualityOption, quality === Number(value) && styles.qualityOptionActive]}
+                onPress={() => setQuality(Number(value))}
+              >
+                <Text style={styles.qualityEmoji}>{emoji}</Text>
+                <Text style={styles.qualityLabel}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.sectionLabel}>Notes</Text>
+          <TextInput
+            style={[styles.input, styles.notesInput]}
+            value={notes}
+            onChangeText={setNotes}
+            placeholder="e.g. Late coffee, woke up twice"
+            placeholderTextColor={colors.textLight}
+            multiline
+          />
+
+          <TouchableOpacity style={styles.primaryBtn} onPress={handleSave} disabled={saving}>
+            <Text style={styles.primaryBtnText}>{saving ? 'Saving...' : 'Save Sleep ✓'}</Text>
+          </TouchableOpacity>
+
+          <View style={styles.sectionRow}>
+            <Text style={styles.sectionLabel}>History</Text>
+            <View style={styles.chipRow}>
+              {([7, 30] as const).map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[styles.chip, range === days && styles.chipActive]}
+                  onPress={() => setRange(days)}
+                >
+                  <Text style={[styles.chipText, range === days && styles.chipTextActive]}>{days} days</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          {renderChart()}
+
+          <View style={styles.insightCard}>
+            <Text style={styles.insightTitle}>Sleep & appetite</Text>
+            {renderInsight()}
+          </View>
+          <View style={{ height: spacing.xl }} />
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  title: {
+    ...textStyles.h2,
+  },
+  close: {
+    fontSize: 22,
+    color: colors.textSecondary,
+  },
+  subtitle: {
+    ...textStyles.caption,
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.md,
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+  },
+  sectionLabel: {
+    ...textStyles.label,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: colors.primary,
+  },
+  chipText: {
+    ...textStyles.caption,
+    color: colors.textPrimary,
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  timeField: {
+    flex: 1,
+  },
+  input: {
+    ...textStyles.body,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  duration: {
+    ...textStyles.h3,
+    color: colors.primary,
+    paddingVertical: spacing.sm,
+  },
+  qualityRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  qualityOption: {
+    alignItems: 'center',
+    padding: spacing.xs,
+    borderRadius: borderRadius.md,
+    flex: 1,
+  },
+  qualityOptionActive: {
+    backgroundColor: colors.primaryPale,
+  },
+  qualityEmoji: {
+    fontSize: 26,
+  },
+  qualityLabel: {
+    ...textStyles.caption,
+  },
+  notesInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  primaryBtn: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.lg,
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+    marginVertical: spacing.lg,
+    ...shadows.soft,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: borderRadius.md,
+    overflow: 'hidden',
+  },
+  referenceLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: colors.success,
+  },
+  barSlot: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+  },
+  chartLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.xs,
+  },
+  chartLabel: {
+    ...textStyles.caption,
+  },
+  insightCard: {
+    backgroundColor: colors.primaryPale,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginTop: spacing.lg,
+  },
+  insightTitle: {
+    ...textStyles.label,
+    marginBottom: spacing.xs,
+  },
+  insightText: {
+    ...textStyles.bodySmall,
+  },
+});
+
+export default SleepLogModal;
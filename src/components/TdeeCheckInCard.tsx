@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { adaptiveTdeeService, formatCalorieChange, TdeeProposal } from '../services/adaptiveTdeeService';
+import { User } from '../types';
+import { colors, shadows, spacing, borderRadius, textStyles } from '../constants/theme';
+
+interface TdeeCheckInCardProps {
+  user: User;
+  onAccept: (updates: Partial<User>) => void;
+}
+
+// Weekly adaptive TDEE check-in; renders nothing unless a check-in is due
+// and the estimate suggests a different target
+const TdeeCheckInCard: React.FC<TdeeCheckInCardProps> = ({ user, onAccept }) => {
+  const [proposal, setProposal] = useState<TdeeProposal | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      if (!(await adaptiveTdeeService.isCheckInDue(user.id))) return;
+      const checkIn = await adaptiveTdeeService.getCheckIn(user);
+      if (!cancelled) setProposal(checkIn.status === 'adjust' ? checkIn.proposal : null);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [user.id, user.measuredTdee, user.goal, user.weeklyRateKg]);
+
+  if (!proposal) return null;
+
+  const handleAccept = async () => {
+    const updates = await adaptiveTdeeService.accept(user.id, proposal);
+    setProposal(null);
+    onAccept(updates);
+  };
+
+  const handleDismiss = async () => {
+    await adaptiveTdeeService.markReviewed(user.id);
+    setProposal(null);
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>WEEKLY CHECK-IN</Text>
+      <Text style={styles.headline}>
+        New target: {proposal.proposed.daily_calories.toLocaleString('en-US')} kcal
+        <Text style={styles.change}> ({formatCalorieChange(proposal)})</Text>
+      </Text>
+      <Text style={styles.macros}>
+        P {proposal.proposed.protein_grams}g · C {proposal.proposed.carbs_grams}g · F {proposal.proposed.fats_grams}g
+      </Text>
+
+      {proposal.explanation.map(line => (
+        <Text key={line} style={styles.explanation}>• {line}</Text>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryBtn} onPress={handleDismiss}>
+          <Text style={styles.secondaryBtnText}>Keep current</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryBtn} onPress={handleAccept}>
+          <Text style={styles.primaryBtnText}>Update target</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.md,
+    borderRadius: 16,
+    padding: spacing.lg,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.primary,
+    ...shadows.soft,
+  },
+  title: {
+    ...textStyles.overline,
+    color: colors.textMuted,
+    marginBottom: spacing.sm,
+  },
+  headline: {
+    ...textStyles.h3,
+  },
+  change: {
+    color: colors.primary,
+  },
+  macros: {
+    ...textStyles.caption,
+    marginBottom: spacing.sm,
+  },
+  explanation: {
+    ...textStyles.bodySmall,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  secondaryBtn: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.surfaceLight,
+  },
+  secondaryBtnText: {
+    ...textStyles.button,
+    color: colors.textPrimary,
+  },
+  primaryBtn: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.lg,
+    backgroundColor: colors.primary,
+  },
+  primaryBtnText: {
+    ...textStyles.button,
+    color: '#FFFFFF',
+  },
+});
+
+export default TdeeCheckInCard;
@@ -6,10 +6,34 @@ import {
   TouchableOpacity,
   Animated,
   Dimensions,
+  ScrollView,
+  Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Path, Circle } from 'react-native-svg';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { achievementService } from '../services/achievementService';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  isPastCaffeineCutoff,
+  reminderService,
+  ReminderSettings,
+} from '../services/reminderService';
+import { limitWarnings, newLimitWarnings, standardDrinks } from '../services/caffeineAlcoholService';
+import {
+  BEVERAGES,
+  beverageCalories,
+  beverageNutrients,
+  expectedByMinutes,
+  HydrationWindow,
+  hydrationGoalMl,
+  hydrationService,
+  intakeTimeline,
+  paceStatus,
+} from '../services/hydrationService';
+import { storageService } from '../services/storageService';
+import { parseClock } from '../services/sleepService';
+import { minutesOfDay, todayKey } from '../services/dateKeys';
+import { BeverageType, User, WaterIntake } from '../types';
 
 const { width } = Dimensions.get('window');
 
@@ -119,24 +143,51 @@ const ClockIcon = ({ size = 18 }: { size?: number }) => (
   </Svg>
 );
 
+// Pace chart size inside the card's padding
+const CHART_WIDTH = width - 72;
+const CHART_HEIGHT = 72;
+
+const BEVERAGE_COLORS: Record<BeverageType, string> = {
+  water: COLORS.primary,
+  tea: '#84CC16',
+  coffee: '#A16207',
+  milk: '#94A3B8',
+  juice: '#FB923C',
+  energy_drink: '#FACC15',
+  beer: '#F59E0B',
+  wine: '#BE123C',
+  spirits: '#78350F',
+};
+
+const DEFAULT_WINDOW: HydrationWindow = {
+  start: parseClock(DEFAULT_REMINDER_SETTINGS.hydration.start) ?? 540,
+  end: parseClock(DEFAULT_REMINDER_SETTINGS.hydration.end) ?? 1200,
+};
+
+const clockLabel = (minutes: number) =>
+  `${Math.floor(minutes / 60)}:${String(Math.round(minutes % 60)).padStart(2, '0')}`;
+
 interface WaterTrackerProps {
-  dailyTarget?: number;
+  user: User; // weight personalizes the goal; limits drive the drink warnings
+  onChange?: () => void; // a drink was added or removed, so day totals changed
 }
 
-const WaterTracker: React.FC<WaterTrackerProps> = ({ dailyTarget = 2500 }) => {
-  const [waterIntake, setWaterIntake] = useState(0);
+const WaterTracker: React.FC<WaterTrackerProps> = ({ user, onChange }) => {
+  const { id: userId, weight: weightKg } = user;
+  const [entries, setEntries] = useState<WaterIntake[]>([]);
+  const [beverage, setBeverage] = useState<BeverageType>('water');
+  const [dailyTarget, setDailyTarget] = useState(hydrationGoalMl(weightKg));
+  const [exerciseMinutes, setExerciseMinutes] = useState(0);
+  const [paceWindow, setPaceWindow] = useState<HydrationWindow>(DEFAULT_WINDOW);
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(DEFAULT_REMINDER_SETTINGS);
   const progressAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(1)).current;
 
-  const glassSizes = [
-    { size: 150, label: '150ml' },
-    { size: 250, label: '250ml' },
-    { size: 500, label: '500ml' },
-  ];
+  const waterIntake = entries.reduce((sum, entry) => sum + entry.hydration_ml, 0);
 
   useEffect(() => {
     loadWaterIntake();
-  }, []);
+  }, [userId, weightKg]);
 
   useEffect(() => {
     const progress = Math.min(waterIntake / dailyTarget, 1);
@@ -150,22 +201,22 @@ const WaterTracker: React.FC<WaterTrackerProps> = ({ dailyTarget = 2500 }) => {
 
   const loadWaterIntake = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const stored = await AsyncStorage.getItem(`water_${today}`);
-      if (stored) {
-        setWaterIntake(parseInt(stored, 10));
-      }
-    } catch (error) {
-      console.error('Error loading water intake:', error);
-    }
-  };
+      const today = todayKey();
+      setEntries(await storageService.getWaterEntries(userId, today));
 
-  const saveWaterIntake = async (amount: number) => {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      await AsyncStorage.setItem(`water_${today}`, amount.toString());
+      const goal = await hydrationService.getDailyGoal(weightKg, today);
+      setDailyTarget(goal.goalMl);
+      setExerciseMinutes(goal.exerciseMinutes);
+
+      // Pace across the hours the water reminders cover
+      const settings = await reminderService.getSettings(userId);
+      setReminderSettings(settings);
+      const { hydration } = settings;
+      const start = parseClock(hydration.start);
+      const end = parseClock(hydration.end);
+      if (start !== null && end !== null && end > start) setPaceWindow({ start, end });
     } catch (error) {
-      console.error('Error saving water intake:', error);
+      console.error('Error loading water intake:', error);
     }
   };
 
@@ -184,26 +235,90 @@ const WaterTracker: React.FC<WaterTrackerProps> = ({ dailyTarget = 2500 }) => {
     ]).start();
   };
 
-  const addWater = (amount: number) => {
+  const addWater = async (amount: number) => {
     animatePress();
-    const newAmount = waterIntake + amount;
-    setWaterIntake(newAmount);
-    saveWaterIntake(newAmount);
+    try {
+      const today = todayKey();
+      const before = await storageService.getDailyNutritionTotals(userId, today);
+      const entry = await storageService.addWaterEntry(userId, amount, beverage);
+      setEntries(current => [...current, entry]);
+      onChange?.();
+      const newAmount = waterIntake + entry.hydration_ml;
+      if (waterIntake < dailyTarget && newAmount >= dailyTarget) {
+        reminderService.skipToday('water');
+        achievementService.recordEvent(userId, { type: 'water_goal_hit', date: today });
+      }
+      if (entry.caffeine_mg > 0 || entry.alcohol_g > 0) {
+        await warnAboutLimits(entry, before);
+      }
+    } catch (error) {
+      console.error('Error saving water intake:', error);
+    }
   };
 
-  const removeWater = () => {
-    if (waterIntake <= 0) return;
+  // One alert when a drink crosses a caffeine/alcohol threshold or comes
+  // after the caffeine cutoff. The drink is already saved, so a failure here
+  // is only logged
+  const warnAboutLimits = async (entry: WaterIntake, before: { caffeine: number; alcohol: number }) => {
+    try {
+      const after = await storageService.getDailyNutritionTotals(userId, entry.intake_date);
+      const messages = newLimitWarnings(limitWarnings(before, user), limitWarnings(after, user)).map(w => w.message);
+      if (entry.caffeine_mg > 0 && isPastCaffeineCutoff(reminderSettings, minutesOfDay(new Date(entry.intake_time)))) {
+        messages.push(`It's past your ${reminderSettings.caffeineCutoff.time} caffeine cutoff, which can cost you sleep tonight`);
+      }
+      if (messages.length > 0) Alert.alert('⚠️ Heads up', messages.join('\n\n'));
+    } catch (error) {
+      console.error('Error checking caffeine and alcohol limits:', error);
+    }
+  };
+
+  const sortedEntries = [...entries].sort((a, b) => Date.parse(a.intake_time) - Date.parse(b.intake_time));
+  const lastEntry = sortedEntries[sortedEntries.length - 1];
+
+  const removeWater = async () => {
+    if (!lastEntry) return;
     animatePress();
-    const newAmount = Math.max(0, waterIntake - 250);
-    setWaterIntake(newAmount);
-    saveWaterIntake(newAmount);
+    try {
+      await storageService.removeWaterEntry(userId, lastEntry);
+      setEntries(current => current.filter(entry => entry.id !== lastEntry.id));
+      onChange?.();
+    } catch (error) {
+      console.error('Error removing water intake:', error);
+    }
   };
 
   const percentage = Math.min((waterIntake / dailyTarget) * 100, 100);
   const remaining = Math.max(dailyTarget - waterIntake, 0);
-  const glassesCount = Math.floor(waterIntake / 250);
   const isGoalReached = percentage >= 100;
 
+  // Clock times are the profile zone's, as the reminders are scheduled in
+  const nowMinutes = minutesOfDay();
+  const expected = expectedByMinutes(dailyTarget, paceWindow, nowMinutes);
+  const pace = paceStatus(waterIntake, expected);
+  const paceText = isGoalReached
+    ? 'Goal reached for today'
+    : nowMinutes < paceWindow.start
+      ? `Pacing starts at ${clockLabel(paceWindow.start)}`
+      : pace === 'on_track'
+        ? 'Right on pace'
+        : pace === 'ahead'
+          ? `${waterIntake - expected}ml ahead of pace`
+          : `${expected - waterIntake}ml behind pace`;
+
+  // Timeline: cumulative intake (solid) against the even pace line (dashed)
+  const timeline = intakeTimeline(sortedEntries);
+  const chartStart = Math.min(paceWindow.start, ...timeline.map(p => p.minutes));
+  const chartEnd = Math.max(paceWindow.end, ...timeline.map(p => p.minutes));
+  const chartMax = Math.max(dailyTarget, waterIntake);
+  const x = (minutes: number) => ((minutes - chartStart) / (chartEnd - chartStart)) * CHART_WIDTH;
+  const y = (ml: number) => CHART_HEIGHT - (ml / chartMax) * CHART_HEIGHT;
+  const intakePath = timeline.reduce(
+    (path, point, index) =>
+      `${path} L${x(point.minutes)},${y(index === 0 ? 0 : timeline[index - 1].totalMl)} L${x(point.minutes)},${y(point.totalMl)}`,
+    `M0,${y(0)}`
+  ) + ` L${x(Math.min(Math.max(nowMinutes, chartStart), chartEnd))},${y(waterIntake)}`;
+  const pacePath = `M${x(paceWindow.start)},${y(0)} L${x(paceWindow.end)},${y(dailyTarget)}`;
+
   const progressWidth = progressAnim.interpolate({
     inputRange: [0, 1],
     outputRange: ['0%', '100%'],
@@ -257,8 +372,8 @@ const WaterTracker: React.FC<WaterTrackerProps> = ({ dailyTarget = 2500 }) => {
             <View style={[styles.statIconBg, { backgroundColor: COLORS.surface }]}>
               <GlassIcon size={18} filled />
             </View>
-            <Text style={styles.statValue}>{glassesCount}</Text>
-            <Text style={styles.statLabel}>Glasses</Text>
+            <Text style={styles.statValue}>{entries.length}</Text>
+            <Text style={styles.statLabel}>Drinks</Text>
           </View>
           <View style={styles.statCard}>
             <View style={[styles.statIconBg, { backgroundColor: '#FEF3C7' }]}>
@@ -296,36 +411,103 @@ const WaterTracker: React.FC<WaterTrackerProps> = ({ dailyTarget = 2500 }) => {
           <Text style={styles.progressLabel}>{dailyTarget / 2}ml</Text>
           <Text style={styles.progressLabel}>{dailyTarget}ml</Text>
         </View>
+        <Text style={styles.goalNote}>
+          {weightKg ? `${weightKg}kg × 35ml` : 'Default goal'}
+          {exerciseMinutes > 0 ? ` + ${exerciseMinutes} min exercise` : ''}
+        </Text>
+      </View>
+
+      {/* Pace Timeline */}
+      <View style={styles.timeline}>
+        <View style={styles.timelineHeader}>
+          <Text style={styles.quickAddTitle}>Today's Pace</Text>
+          <Text style={[styles.paceText, pace === 'behind' && !isGoalReached && { color: COLORS.warning }]}>
+            {paceText}
+          </Text>
+        </View>
+        <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+          <Path d={pacePath} stroke={COLORS.accent} strokeWidth="2" strokeDasharray="4,4" fill="none" />
+          <Path d={intakePath} stroke={COLORS.primary} strokeWidth="2.5" fill="none" strokeLinejoin="round" />
+          {timeline.map((point, index) => (
+            <Circle
+              key={sortedEntries[index].id}
+              cx={x(point.minutes)}
+              cy={y(point.totalMl)}
+              r="3"
+              fill={BEVERAGE_COLORS[sortedEntries[index].beverage_type]}
+            />
+          ))}
+        </Svg>
+        <View style={styles.progressLabels}>
+          <Text style={styles.progressLabel}>{clockLabel(chartStart)}</Text>
+          <Text style={styles.progressLabel}>{clockLabel(chartEnd)}</Text>
+        </View>
       </View>
 
+      {/* Beverage Picker */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.beverageScroll}
+        contentContainerStyle={styles.beverageRow}
+      >
+        {(Object.keys(BEVERAGES) as BeverageType[]).map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.beverageChip, beverage === type && styles.beverageChipActive]}
+            onPress={() => setBeverage(type)}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.beverageEmoji}>{BEVERAGES[type].emoji}</Text>
+            <Text style={[styles.beverageLabel, beverage === type && styles.beverageLabelActive]}>
+              {BEVERAGES[type].label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
       {/* Quick Add Buttons */}
       <View style={styles.quickAdd}>
-        <Text style={styles.quickAddTitle}>Quick Add</Text>
+        <Text style={styles.quickAddTitle}>
+          Quick Add {BEVERAGES[beverage].label}
+          {BEVERAGES[beverage].coefficient < 1 ? ` · counts ${Math.round(BEVERAGES[beverage].coefficient * 100)}%` : ''}
+        </Text>
         <View style={styles.buttonRow}>
-          {glassSizes.map((glass, index) => (
-            <TouchableOpacity
-              key={index}
-              style={styles.addButton}
-              onPress={() => addWater(glass.size)}
-              activeOpacity={0.8}
-            >
-              <LinearGradient
-                colors={[COLORS.primary, COLORS.primaryDark]}
-                style={styles.addButtonGradient}
+          {BEVERAGES[beverage].servings.map(size => {
+            const { caffeine_mg, alcohol_g } = beverageNutrients(size, beverage);
+            const calories = beverageCalories(size, beverage);
+            return (
+              <TouchableOpacity
+                key={size}
+                style={styles.addButton}
+                onPress={() => addWater(size)}
+                activeOpacity={0.8}
               >
-                <PlusIcon size={16} />
-                <Text style={styles.addButtonText}>{glass.label}</Text>
-              </LinearGradient>
-            </TouchableOpacity>
-          ))}
+                <LinearGradient
+                  colors={[COLORS.primary, COLORS.primaryDark]}
+                  style={styles.addButtonGradient}
+                >
+                  <View style={styles.addButtonLabel}>
+                    <PlusIcon size={16} />
+                    <Text style={styles.addButtonText}>{size}ml</Text>
+                  </View>
+                  {caffeine_mg > 0 && <Text style={styles.addButtonDetail}>{caffeine_mg} mg caffeine</Text>}
+                  {alcohol_g > 0 && <Text style={styles.addButtonDetail}>{standardDrinks(alcohol_g)} drinks</Text>}
+                  {alcohol_g === 0 && calories > 0 && <Text style={styles.addButtonDetail}>{calories} kcal</Text>}
+                </LinearGradient>
+              </TouchableOpacity>
+            );
+          })}
         </View>
       </View>
 
       {/* Remove Button */}
-      {waterIntake > 0 && (
+      {lastEntry && (
         <TouchableOpacity style={styles.removeButton} onPress={removeWater} activeOpacity={0.7}>
           <MinusIcon size={16} color={COLORS.primaryDark} />
-          <Text style={styles.removeButtonText}>Remove 250ml</Text>
+          <Text style={styles.removeButtonText}>
+            Undo {BEVERAGES[lastEntry.beverage_type].label} {lastEntry.amount_ml}ml
+          </Text>
         </TouchableOpacity>
       )}
     </Animated.View>
@@ -483,6 +665,55 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: COLORS.textMuted,
   },
+  goalNote: {
+    fontSize: 11,
+    color: COLORS.textMuted,
+    marginTop: 4,
+  },
+  timeline: {
+    marginBottom: 16,
+  },
+  timelineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  paceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.primaryDark,
+  },
+  beverageScroll: {
+    marginBottom: 16,
+  },
+  beverageRow: {
+    gap: 6,
+  },
+  beverageChip: {
+    alignItems: 'center',
+    minWidth: 56,
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: COLORS.background,
+  },
+  beverageChipActive: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1.5,
+    borderColor: COLORS.primary,
+  },
+  beverageEmoji: {
+    fontSize: 18,
+  },
+  beverageLabel: {
+    fontSize: 11,
+    color: COLORS.textMuted,
+    marginTop: 2,
+  },
+  beverageLabelActive: {
+    color: COLORS.primaryDark,
+    fontWeight: '600',
+  },
   quickAdd: {
     marginBottom: 12,
   },
@@ -502,10 +733,13 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   addButtonGradient: {
-    flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 14,
+  },
+  addButtonLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 6,
   },
   addButtonText: {
@@ -513,6 +747,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.white,
   },
+  addButtonDetail: {
+    fontSize: 10,
+    color: COLORS.white,
+    opacity: 0.85,
+    marginTop: 2,
+  },
   removeButton: {
     flexDirection: 'row',
     alignItems: 'center',
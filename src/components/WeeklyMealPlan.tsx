@@ -11,9 +11,14 @@ import {
 import { colors, shadows, spacing, borderRadius, typography } from '../constants/theme';
 import { databaseService } from '../services/databaseService';
 import { storageService } from '../services/storageService';
-import { professionalAIService, Meal, UserProfile } from '../services/professionalAIService';
+import { professionalAIService, UserProfile } from '../services/professionalAIService';
+import { Meal, MealType, PlannedDay, WeeklyPlan } from '../types';
+import { plannedDayFromMeals } from '../services/mealMappers';
+import { weeklyPlanService, getWeekDates, getWeekStart } from '../services/weeklyPlanService';
 import { isSupabaseConfigured } from '../config/supabase';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import ShoppingListModal from './ShoppingListModal';
+import { parseISO } from 'date-fns';
+import { todayKey } from '../services/dateKeys';
 
 interface WeeklyMealPlanProps {
   userId: string;
@@ -22,16 +27,11 @@ interface WeeklyMealPlanProps {
   onAddMeal: (meal: Meal, date: string) => void;
 }
 
-interface DayPlan {
+interface WeekDay {
   date: string;
   dayName: string;
   isToday: boolean;
-  meals: {
-    breakfast?: Meal;
-    lunch?: Meal;
-    dinner?: Meal;
-    snack?: Meal;
-  };
+  meals: PlannedDay;
 }
 
 const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
@@ -40,83 +40,53 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
   onMealPress,
   onAddMeal,
 }) => {
-  const [weekPlan, setWeekPlan] = useState<DayPlan[]>([]);
+  const [weekPlan, setWeekPlan] = useState<WeekDay[]>([]);
+  const [plan, setPlan] = useState<WeeklyPlan | null>(null);
   const [selectedDay, setSelectedDay] = useState<number>(0);
   const [loading, setLoading] = useState(true);
   const [generating, setGenerating] = useState(false);
+  const [regeneratingSlot, setRegeneratingSlot] = useState<MealType | null>(null);
+  const [showShoppingList, setShowShoppingList] = useState(false);
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
   const fullDayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const weekStart = getWeekStart();
 
   useEffect(() => {
     loadWeekPlan();
   }, []);
 
-  const getWeekDates = () => {
-    const today = new Date();
-    const currentDay = today.getDay();
-    const monday = new Date(today);
-    monday.setDate(today.getDate() - currentDay + (currentDay === 0 ? -6 : 1));
-
-    const dates = [];
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(monday);
-      date.setDate(monday.getDate() + i);
-      dates.push(date);
-    }
-    return dates;
-  };
-
   const loadWeekPlan = async () => {
     try {
       setLoading(true);
-      const weekDates = getWeekDates();
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       
-      // Load saved week plan from storage
-      const savedPlanStr = await AsyncStorage.getItem(`weekly_plan_${userId}`);
-      const savedPlan = savedPlanStr ? JSON.parse(savedPlanStr) : null;
+      // Load the saved plan for this week (cloud first, then local cache)
+      const savedPlan = await weeklyPlanService.getPlan(userId, weekStart);
+      setPlan(savedPlan);
       
-      const plans: DayPlan[] = [];
+      const plans: WeekDay[] = [];
       let todayIndex = 0;
 
-      for (let i = 0; i < weekDates.length; i++) {
-        const date = weekDates[i];
-        const dateStr = date.toISOString().split('T')[0];
-        const isToday = dateStr === today;
-        if (isToday) todayIndex = i;
-
-        // Check if we have meals for this date
-        let dayMeals: DayPlan['meals'] = {};
-
-        // First check saved plan
-        if (savedPlan && savedPlan[dateStr]) {
-          dayMeals = savedPlan[dateStr];
-        } else {
-          // Try to load from database
-          try {
-            let meals: Meal[] = [];
-            if (isSupabaseConfigured) {
-              meals = await databaseService.getMyMeals(dateStr);
-            }
-            
-            meals.forEach((meal) => {
-              if (meal.mealType === 'breakfast') dayMeals.breakfast = meal;
-              else if (meal.mealType === 'lunch') dayMeals.lunch = meal;
-              else if (meal.mealType === 'dinner') dayMeals.dinner = meal;
-              else if (meal.mealType === 'snack') dayMeals.snack = meal;
-            });
-          } catch (err) {
-            console.log('No meals for', dateStr);
-          }
-        }
-
+      getWeekDates(weekStart).forEach((dateStr, i) => {
+        if (dateStr === today) todayIndex = i;
         plans.push({
           date: dateStr,
-          dayName: fullDayNames[date.getDay()],
-          isToday,
-          meals: dayMeals,
+          dayName: fullDayNames[parseISO(dateStr).getDay()],
+          isToday: dateStr === today,
+          meals: savedPlan?.days[dateStr] || {},
         });
+      });
+
+      // Days the plan does not cover show what was logged instead
+      for (const day of plans) {
+        if (savedPlan?.days[day.date] || !isSupabaseConfigured) continue;
+        try {
+          const meals: Meal[] = await databaseService.getMyMeals(day.date);
+          day.meals = plannedDayFromMeals(meals);
+        } catch (err) {
+          console.log('No meals for', day.date);
+        }
       }
 
       setWeekPlan(plans);
@@ -140,25 +110,7 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
             text: 'Generate',
             onPress: async () => {
               try {
-                const weekDates = getWeekDates();
-                const newPlan: Record<string, DayPlan['meals']> = {};
-
-                for (const date of weekDates) {
-                  const dateStr = date.toISOString().split('T')[0];
-                  
-                  // Generate meals for each day
-                  const dayPlan = await professionalAIService.generateDayPlan(userProfile);
-                  
-                  newPlan[dateStr] = {
-                    breakfast: dayPlan.breakfast,
-                    lunch: dayPlan.lunch,
-                    dinner: dayPlan.dinner,
-                    snack: dayPlan.snacks?.[0],
-                  };
-                }
-
-                // Save the plan
-                await AsyncStorage.setItem(`weekly_plan_${userId}`, JSON.stringify(newPlan));
+                await weeklyPlanService.generateWeek(userId, userProfile, weekStart);
                 
                 // Reload
                 await loadWeekPlan();
@@ -179,14 +131,39 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
     }
   };
 
+  // Regenerate (or fill) one slot of the selected day
+  const regenerateSlot = async (date: string, mealType: MealType) => {
+    try {
+      setRegeneratingSlot(mealType);
+      const basePlan = plan || weeklyPlanService.createPlan(userId, weekStart);
+      const updated = await weeklyPlanService.regenerateSlot(basePlan, date, mealType, userProfile);
+      setPlan(updated);
+      setWeekPlan(prev => prev.map(day =>
+        day.date === date ? { ...day, meals: { ...day.meals, [mealType]: updated.days[date][mealType] } } : day
+      ));
+    } catch (error) {
+      Alert.alert('Error', 'Failed to generate meal');
+    } finally {
+      setRegeneratingSlot(null);
+    }
+  };
+
   const renderMealSlot = (
     meal: Meal | undefined,
-    mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack',
+    mealType: MealType,
     emoji: string,
     label: string
   ) => {
     const currentDay = weekPlan[selectedDay];
     
+    if (regeneratingSlot === mealType) {
+      return (
+        <View style={[styles.mealCard, styles.emptyMealCard]}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      );
+    }
+
     if (meal) {
       return (
         <TouchableOpacity
@@ -204,6 +181,23 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
             <Text style={styles.mealCalories}>{meal.calories} cal</Text>
             <Text style={styles.mealMacros}>P:{meal.protein}g C:{meal.carbs}g F:{meal.fats}g</Text>
           </View>
+          {currentDay && (
+            <View style={styles.mealActions}>
+              <TouchableOpacity
+                style={styles.mealActionButton}
+                onPress={() => regenerateSlot(currentDay.date, mealType)}
+                disabled={regeneratingSlot !== null}
+              >
+                <Text style={styles.mealActionText}>🔄</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.mealActionButton}
+                onPress={() => onAddMeal(meal, currentDay.date)}
+              >
+                <Text style={styles.mealActionText}>＋</Text>
+              </TouchableOpacity>
+            </View>
+          )}
         </TouchableOpacity>
       );
     }
@@ -215,19 +209,14 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
           // Generate a suggestion for this slot
           Alert.alert(
             `Add ${label}`,
-            'Generate an AI suggestion or browse recipes?',
+            'Generate an AI suggestion for this slot?',
             [
               { text: 'Cancel', style: 'cancel' },
               {
                 text: 'Generate',
-                onPress: async () => {
-                  try {
-                    const meal = await professionalAIService.generatePersonalizedMeal(mealType, userProfile);
-                    if (currentDay) {
-                      onAddMeal(meal, currentDay.date);
-                    }
-                  } catch (error) {
-                    Alert.alert('Error', 'Failed to generate meal');
+                onPress: () => {
+                  if (currentDay) {
+                    regenerateSlot(currentDay.date, mealType);
                   }
                 },
               },
@@ -256,17 +245,25 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>📅 Weekly Meal Plan</Text>
-        <TouchableOpacity
-          style={styles.generateButton}
-          onPress={generateWeekPlan}
-          disabled={generating}
-        >
-          {generating ? (
-            <ActivityIndicator size="small" color="#fff" />
-          ) : (
-            <Text style={styles.generateButtonText}>🔄 Generate</Text>
-          )}
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.shoppingButton}
+            onPress={() => setShowShoppingList(true)}
+          >
+            <Text style={styles.shoppingButtonText}>🛒</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.generateButton}
+            onPress={generateWeekPlan}
+            disabled={generating}
+          >
+            {generating ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Text style={styles.generateButtonText}>🔄 Generate</Text>
+            )}
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Day Selector */}
@@ -277,7 +274,7 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
         contentContainerStyle={styles.daySelectorContent}
       >
         {weekPlan.map((day, index) => {
-          const date = new Date(day.date);
+          const date = parseISO(day.date);
           const mealsCount = Object.values(day.meals).filter(Boolean).length;
           
           return (
@@ -360,6 +357,13 @@ const WeeklyMealPlan: React.FC<WeeklyMealPlanProps> = ({
           </View>
         </View>
       )}
+
+      <ShoppingListModal
+        visible={showShoppingList}
+        userId={userId}
+        plan={plan}
+        onClose={() => setShowShoppingList(false)}
+      />
     </View>
   );
 };
@@ -384,6 +388,20 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: colors.textPrimary,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  shoppingButton: {
+    backgroundColor: colors.surface,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+  },
+  shoppingButtonText: {
+    fontSize: typography.fontSize.sm,
+  },
   generateButton: {
     backgroundColor: colors.primary,
     paddingVertical: spacing.xs,
@@ -541,6 +559,23 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: colors.textSecondary,
   },
+  mealActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  mealActionButton: {
+    backgroundColor: colors.primary + '20',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: borderRadius.sm,
+  },
+  mealActionText: {
+    fontSize: 12,
+    color: colors.primary,
+    fontWeight: '600',
+  },
   emptyEmoji: {
     fontSize: 32,
     opacity: 0.5,
@@ -0,0 +1,400 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Dimensions,
+  Alert,
+} from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { format, parseISO } from 'date-fns';
+import { colors, spacing, borderRadius, typography } from '../constants/theme';
+import { storageService } from '../services/storageService';
+import { achievementService } from '../services/achievementService';
+import {
+  formatWeight,
+  fromDisplayWeight,
+  projectGoal,
+  smoothWeights,
+  toDisplayWeight,
+  weeklyRate,
+  weightUnit,
+  WeightPoint,
+} from '../services/weightTrendService';
+import { UnitSystem } from '../services/unitConversion';
+import { BodyMeasurement, User } from '../types';
+import { addDaysToKey, todayKey } from '../services/dateKeys';
+
+interface WeightTrendChartProps {
+  userId: string;
+  unitsPreference?: UnitSystem;
+  targetWeight?: number; // kg
+  height: number; // cm, for the BMI stored with the profile weight
+  onUpdateUser: (updates: Partial<User>) => void;
+}
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const CHART_WIDTH = SCREEN_WIDTH - spacing.md * 4 - 40;
+const CHART_HEIGHT = 140;
+const CHART_DAYS = 30;
+const HISTORY_LIMIT = 90;
+const RECENT_ENTRIES = 5;
+
+const parseNumber = (text: string) => {
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+const WeightTrendChart: React.FC<WeightTrendChartProps> = ({
+  userId,
+  unitsPreference = 'metric',
+  targetWeight,
+  height,
+  onUpdateUser,
+}) => {
+  const [measurements, setMeasurements] = useState<BodyMeasurement[]>([]);
+  const [entry, setEntry] = useState('');
+  const [goalEntry, setGoalEntry] = useState('');
+  const [editingGoal, setEditingGoal] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const unit = weightUnit(unitsPreference);
+
+  useEffect(() => {
+    loadMeasurements();
+  }, []);
+
+  const loadMeasurements = async () => {
+    try {
+      setMeasurements(await storageService.getBodyMeasurements(userId, HISTORY_LIMIT));
+    } catch (error) {
+      console.error('Error loading weight history:', error);
+    }
+  };
+
+  const handleLogWeight = async () => {
+    const value = parseNumber(entry);
+    if (value === null) {
+      Alert.alert('Invalid Weight', `Enter your weight in ${unit}.`);
+      return;
+    }
+    const weightKg = Math.round(fromDisplayWeight(value, unitsPreference) * 10) / 10;
+
+    setSaving(true);
+    try {
+      await storageService.saveBodyMeasurement(userId, { weight_kg: weightKg, measurement_date: todayKey() });
+    } catch (error) {
+      console.error('Error saving weight:', error);
+      Alert.alert('Not Saved', 'Could not save your weight. Please try again.');
+      return;
+    } finally {
+      setSaving(false);
+    }
+    setEntry('');
+    onUpdateUser({ weight: weightKg, bmi: weightKg / Math.pow(height / 100, 2) });
+    achievementService.recordEvent(userId, { type: 'weight_logged', weightKg });
+    await loadMeasurements();
+  };
+
+  const handleSaveGoal = () => {
+    const value = parseNumber(goalEntry);
+    if (value === null) {
+      Alert.alert('Invalid Goal', `Enter your goal weight in ${unit}.`);
+      return;
+    }
+    onUpdateUser({ targetWeight: Math.round(fromDisplayWeight(value, unitsPreference) * 10) / 10 });
+    setEditingGoal(false);
+  };
+
+  const points = smoothWeights(measurements);
+  const latest = points[points.length - 1];
+  const rate = weeklyRate(points);
+  const projection = latest && targetWeight ? projectGoal(latest.trendKg, targetWeight, rate) : null;
+
+  const since = addDaysToKey(todayKey(), -(CHART_DAYS - 1));
+  const visible = points.filter(p => p.date >= since);
+
+  const renderChart = () => {
+    if (visible.length < 2) {
+      return <Text style={styles.emptyText}>Log your weight on a few days to see your trend.</Text>;
+    }
+
+    const values = visible.flatMap(p => [p.weightKg, p.trendKg]);
+    if (targetWeight) values.push(targetWeight);
+    const min = Math.min(...values) - 0.5;
+    const max = Math.max(...values) + 0.5;
+    const firstDay = parseISO(visible[0].date).getTime();
+    const span = Math.max(parseISO(visible[visible.length - 1].date).getTime() - firstDay, 1);
+
+    const x = (p: WeightPoint) => ((parseISO(p.date).getTime() - firstDay) / span) * (CHART_WIDTH - 8) + 4;
+    const y = (kg: number) => CHART_HEIGHT - ((kg - min) / (max - min)) * CHART_HEIGHT;
+
+    return (
+      <View style={styles.chartContainer}>
+        <View style={styles.yAxis}>
+          <Text style={styles.yAxisLabel}>{toDisplayWeight(max, unitsPreference)}</Text>
+          <Text style={styles.yAxisLabel}>{toDisplayWeight(min, unitsPreference)}</Text>
+        </View>
+        <Svg width={CHART_WIDTH} height={CHART_HEIGHT}>
+          {targetWeight && (
+            <Line
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={y(targetWeight)}
+              y2={y(targetWeight)}
+              stroke={colors.warning}
+              strokeDasharray="4 4"
+            />
+          )}
+          {visible.map(p => (
+            <Circle key={p.date} cx={x(p)} cy={y(p.weightKg)} r={3} fill={colors.textLight} />
+          ))}
+          <Polyline
+            points={visible.map(p => `${x(p)},${y(p.trendKg)}`).join(' ')}
+            fill="none"
+            stroke={colors.primary}
+            strokeWidth={2.5}
+          />
+        </Svg>
+      </View>
+    );
+  };
+
+  const renderProjection = () => {
+    if (!targetWeight) return 'No goal set';
+    if (!projection || !latest) return `Goal ${formatWeight(targetWeight, unitsPreference)}`;
+    if (projection.status === 'reached') return '🎉 Goal reached';
+    if (projection.status === 'off_track') return `Goal ${formatWeight(targetWeight, unitsPreference)} · not trending there yet`;
+    return `Goal ${formatWeight(targetWeight, unitsPreference)} · around ${format(projection.date!, 'MMM d, yyyy')} (${projection.weeks} wk)`;
+  };
+
+  return (
+    <View>
+      {/* Stats Summary */}
+      <View style={styles.statsRow}>
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{latest ? toDisplayWeight(latest.trendKg, unitsPreference) : '-'}</Text>
+          <Text style={styles.statLabel}>Trend ({unit})</Text>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>
+            {rate === null ? '-' : `${rate > 0 ? '+' : ''}${toDisplayWeight(rate, unitsPreference)}`}
+          </Text>
+          <Text style={styles.statLabel}>Per Week</Text>
+        </View>
+        <View style={styles.statDivider} />
+        <View style={styles.statItem}>
+          <Text style={styles.statValue}>{points.length}</Text>
+          <Text style={styles.statLabel}>Weigh-ins</Text>
+        </View>
+      </View>
+
+      {renderChart()}
+
+      <View style={styles.legend}>
+        <View style={[styles.legendDot, { backgroundColor: colors.textLight }]} />
+        <Text style={styles.legendText}>Scale</Text>
+        <View style={[styles.legendLine, { backgroundColor: colors.primary }]} />
+        <Text style={styles.legendText}>Trend</Text>
+      </View>
+
+      {/* Goal */}
+      <View style={styles.goalRow}>
+        {editingGoal ? (
+          <>
+            <TextInput
+              style={styles.input}
+              value={goalEntry}
+              onChangeText={setGoalEntry}
+              keyboardType="decimal-pad"
+              placeholder={`Goal (${unit})`}
+              placeholderTextColor={colors.textLight}
+              autoFocus
+            />
+            <TouchableOpacity style={styles.logButton} onPress={handleSaveGoal}>
+              <Text style={styles.logButtonText}>Save</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <Text style={styles.goalText}>🎯 {renderProjection()}</Text>
+            <TouchableOpacity
+              onPress={() => {
+                setGoalEntry(targetWeight ? `${toDisplayWeight(targetWeight, unitsPreference)}` : '');
+                setEditingGoal(true);
+              }}
+            >
+              <Text style={styles.link}>{targetWeight ? 'Change' : 'Set goal'}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      {/* Quick Entry */}
+      <View style={styles.entryRow}>
+        <TextInput
+          style={styles.input}
+          value={entry}
+          onChangeText={setEntry}
+          keyboardType="decimal-pad"
+          placeholder={`Today's weight (${unit})`}
+          placeholderTextColor={colors.textLight}
+        />
+        <TouchableOpacity style={styles.logButton} onPress={handleLogWeight} disabled={saving}>
+          <Text style={styles.logButtonText}>{saving ? '...' : 'Log'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Weight Log */}
+      {points.slice(-RECENT_ENTRIES).reverse().map(p => (
+        <View key={p.date} style={styles.logRow}>
+          <Text style={styles.logDate}>{format(parseISO(p.date), 'EEE, MMM d')}</Text>
+          <Text style={styles.logValue}>{formatWeight(p.weightKg, unitsPreference)}</Text>
+          <Text style={styles.logTrend}>trend {formatWeight(p.trendKg, unitsPreference)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statDivider: {
+    width: 1,
+    backgroundColor: colors.border,
+  },
+  statValue: {
+    fontSize: typography.fontSize.xl,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  statLabel: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: colors.textSecondary,
+    padding: spacing.lg,
+  },
+  chartContainer: {
+    flexDirection: 'row',
+    height: CHART_HEIGHT,
+    marginTop: spacing.sm,
+  },
+  yAxis: {
+    width: 40,
+    justifyContent: 'space-between',
+    alignItems: 'flex-end',
+    paddingRight: spacing.xs,
+  },
+  yAxisLabel: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: spacing.sm,
+    gap: spacing.xs,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendLine: {
+    width: 16,
+    height: 3,
+    borderRadius: 2,
+    marginLeft: spacing.sm,
+  },
+  legendText: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+    gap: spacing.sm,
+  },
+  goalText: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    color: colors.textPrimary,
+  },
+  link: {
+    fontSize: typography.fontSize.sm,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: spacing.md,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: typography.fontSize.md,
+    color: colors.textPrimary,
+  },
+  logButton: {
+    backgroundColor: colors.primary,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  logButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+    fontSize: typography.fontSize.md,
+  },
+  logRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  logDate: {
+    flex: 1,
+    fontSize: typography.fontSize.sm,
+    color: colors.textSecondary,
+  },
+  logValue: {
+    fontSize: typography.fontSize.sm,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginRight: spacing.md,
+  },
+  logTrend: {
+    fontSize: typography.fontSize.xs,
+    color: colors.textSecondary,
+  },
+});
+
+export default WeightTrendChart;
@@ -1,7 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
 import { colors, spacing, borderRadius, typography, shadows } from '../../constants/theme';
-import { Recipe, NutritionInfo } from '../../types/database';
 
 interface MealCardProps {
   title: string;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { View, Text, StyleSheet, Image, TouchableOpacity } from 'react-native';
 import { colors, spacing, borderRadius, typography, shadows } from '../../constants/theme';
-import { Recipe } from '../../types/database';
+import { Recipe } from '../../types';
 
 interface RecipeCardProps {
   recipe: Recipe;
@@ -16,7 +16,7 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
   onFavoriteToggle,
   showFavorite = true,
 }) => {
-  const totalTime = (recipe.prep_time || 0) + (recipe.cook_time || 0);
+  const totalTime = (recipe.prepTime || 0) + (recipe.cookTime || 0);
   
   return (
     <TouchableOpacity
@@ -24,17 +24,9 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
       onPress={onPress}
       activeOpacity={0.7}
     >
-      {recipe.image_url ? (
-        <Image
-          source={{ uri: recipe.image_url }}
-          style={styles.image}
-          resizeMode="cover"
-        />
-      ) : (
-        <View style={styles.imagePlaceholder}>
-          <Text style={styles.placeholderEmoji}>🍽️</Text>
-        </View>
-      )}
+      <View style={styles.imagePlaceholder}>
+        <Text style={styles.placeholderEmoji}>{recipe.emoji || '🍽️'}</Text>
+      </View>
       
       {showFavorite && (
         <TouchableOpacity
@@ -42,7 +34,7 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
           onPress={onFavoriteToggle}
         >
           <Text style={styles.favoriteIcon}>
-            {recipe.is_favorite ? '❤️' : '🤍'}
+            {recipe.isFavorite ? '❤️' : '🤍'}
           </Text>
         </TouchableOpacity>
       )}
@@ -58,7 +50,7 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
         </View>
         
         <Text style={styles.title} numberOfLines={2}>
-          {recipe.title}
+          {recipe.name}
         </Text>
         
         {recipe.description && (
@@ -70,25 +62,25 @@ export const RecipeCard: React.FC<RecipeCardProps> = ({
         <View style={styles.nutritionRow}>
           <View style={styles.nutritionItem}>
             <Text style={[styles.nutritionValue, { color: colors.calories }]}>
-              {recipe.nutrition_info.calories}
+              {recipe.calories}
             </Text>
             <Text style={styles.nutritionLabel}>cal</Text>
           </View>
           <View style={styles.nutritionItem}>
             <Text style={[styles.nutritionValue, { color: colors.protein }]}>
-              {recipe.nutrition_info.protein}g
+              {recipe.protein}g
             </Text>
             <Text style={styles.nutritionLabel}>protein</Text>
           </View>
           <View style={styles.nutritionItem}>
             <Text style={[styles.nutritionValue, { color: colors.carbs }]}>
-              {recipe.nutrition_info.carbs}g
+              {recipe.carbs}g
             </Text>
             <Text style={styles.nutritionLabel}>carbs</Text>
           </View>
           <View style={styles.nutritionItem}>
             <Text style={[styles.nutritionValue, { color: colors.fats }]}>
-              {recipe.nutrition_info.fats}g
+              {recipe.fats}g
             </Text>
             <Text style={styles.nutritionLabel}>fats</Text>
           </View>
@@ -161,10 +153,6 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
     ...shadows.md,
   },
-  image: {
-    width: '100%',
-    height: 180,
-  },
   imagePlaceholder: {
     width: '100%',
     height: 180,
@@ -13,14 +13,25 @@ export const GEMINI_CONFIG = {
 // USDA FoodData Central API
 export const USDA_CONFIG = {
   API_KEY: process.env.EXPO_PUBLIC_USDA_API_KEY || 'YOUR_USDA_API_KEY',
-  BASE_URL: 'https://api.nal.usda.gov/fdc/v1',
+  // Override to point at a local mock server during development
+  BASE_URL: process.env.EXPO_PUBLIC_USDA_BASE_URL || 'https://api.nal.usda.gov/fdc/v1',
 };
 
 // Groq API (Fallback)
 export const GROQ_CONFIG = {
   API_KEY: process.env.EXPO_PUBLIC_GROQ_API_KEY || 'YOUR_GROQ_API_KEY',
   BASE_URL: 'https://api.groq.com/openai/v1',
-  MODEL: 'llama-3.1-70b-versatile',
+  MODEL: 'llama-3.1-8b-instant',
+};
+
+// AI provider routing
+export const AI_PROVIDER_CONFIG = {
+  // 'groq' or 'gemini' - the other configured provider is used for failover
+  PRIMARY: process.env.EXPO_PUBLIC_AI_PROVIDER || 'groq',
+  MIN_DELAY_BETWEEN_CALLS: 5000, // ms, per provider
+  MAX_CONSECUTIVE_FAILURES: 3, // failed calls before a provider is skipped
+  FAILOVER_COOLDOWN: 30000, // ms before a skipped provider is retried
+  MAX_REPAIR_ATTEMPTS: 2, // re-prompts after a response fails schema validation
 };
 
 // API Endpoints
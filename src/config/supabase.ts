@@ -109,6 +109,8 @@ export const TABLES = {
   RECIPE_DISEASE_SUITABILITY: 'recipe_disease_suitability',
   DAILY_LOGS: 'daily_logs',
   SHOPPING_LISTS: 'shopping_lists',
+  CUSTOM_FOODS: 'custom_foods',
+  MEAL_TEMPLATES: 'meal_templates',
   
   // Fitness & tracking
   EXERCISE_ROUTINES: 'exercise_routines',
@@ -116,9 +118,13 @@ export const TABLES = {
   WATER_INTAKE: 'water_intake',
   SLEEP_TRACKING: 'sleep_tracking',
   
-  // Achievements (Note: 'achievements' table may not exist - only user_achievements)
+  // Achievements (catalog + per-user awards)
+  ACHIEVEMENTS: 'achievements',
   USER_ACHIEVEMENTS: 'user_achievements',
   
+  // AI provider calls
+  AI_GENERATION_LOGS: 'ai_generation_logs',
+  
   // Views (read-only)
   DAILY_PROGRESS_SUMMARY: 'daily_progress_summary',
 } as const;
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { Alert } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { professionalAIService, Meal, DayPlan, UserProfile } from '../services/professionalAIService';
+import { dayPlanNotice, professionalAIService, UserProfile } from '../services/professionalAIService';
+import { calculateNutritionTargets } from '../services/nutritionTargetService';
+import { Meal, DayPlan, MealType, User } from '../types';
 
 export const useAppState = () => {
   // Core state
@@ -74,21 +76,18 @@ export const useAppState = () => {
   // Calculate nutrition targets
   const calculateTargets = () => {
     const { weight, height, age, gender, activityLevel, goal } = profile;
-    let bmr = 10 * weight + 6.25 * height - 5 * age;
-    bmr = gender === 'male' ? bmr + 5 : bmr - 161;
-    
-    const multipliers: Record<string, number> = {
-      sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, very_active: 1.9
-    };
-    
-    let tdee = bmr * (multipliers[activityLevel] || 1.55);
-    if (goal === 'lose') tdee -= 500;
-    if (goal === 'gain') tdee += 300;
-    
-    const calories = Math.round(tdee);
-    const protein = Math.round(weight * 2);
-    const fats = Math.round((calories * 0.25) / 9);
-    const carbs = Math.round((calories - protein * 4 - fats * 9) / 4);
+    const targets = calculateNutritionTargets({
+      age,
+      gender: gender as User['gender'],
+      weight,
+      height,
+      exerciseLevel: activityLevel as User['exerciseLevel'],
+      goal: goal as User['goal'],
+    });
+    const calories = targets.daily_calories;
+    const protein = targets.protein_grams;
+    const carbs = targets.carbs_grams;
+    const fats = targets.fats_grams;
     
     setNutrition({
       calories: { current: 0, target: calories },
@@ -104,7 +103,8 @@ export const useAppState = () => {
   const handleGenerateMealPlan = async () => {
     setIsGenerating(true);
     try {
-      const dayPlan = await professionalAIService.generateDayPlan(profile);
+      const result = await professionalAIService.generateDayPlan(profile);
+      const dayPlan = result.plan;
       setTodayMeals(dayPlan);
       
       const totalCals = dayPlan.breakfast.calories + dayPlan.lunch.calories + 
@@ -118,7 +118,12 @@ export const useAppState = () => {
         protein: { ...n.protein, current: totalProtein },
       }));
       
-      Alert.alert('Success! 🎉', 'Your personalized meal plan is ready! (Using smart recommendations)');
+      const notice = dayPlanNotice(result);
+      if (notice) {
+        Alert.alert('Meal plan ready', notice);
+      } else {
+        Alert.alert('Success! 🎉', 'Your personalized meal plan is ready!');
+      }
     } catch (error) {
       Alert.alert('Error', 'Failed to generate meal plan. Please try again.');
     } finally {
@@ -127,7 +132,7 @@ export const useAppState = () => {
   };
 
   // Generate single AI meal
-  const handleGenerateSingleMeal = async (mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack') => {
+  const handleGenerateSingleMeal = async (mealType: MealType) => {
     setIsGenerating(true);
     try {
       const meal = await professionalAIService.generatePersonalizedMeal(mealType, profile, aiPreference);
@@ -11,13 +11,18 @@ import {
   Animated,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { User } from '../types';
+import { User, Meal, DayPlan, MealType } from '../types';
 import { storageService } from '../services/storageService';
 import { databaseService } from '../services/databaseService';
-import { professionalAIService, Meal, DayPlan } from '../services/professionalAIService';
+import { dayPlanNotice, professionalAIService } from '../services/professionalAIService';
+import { calculateNutritionTargets } from '../services/nutritionTargetService';
 import { isSupabaseConfigured } from '../config/supabase';
 import { colors, shadows, spacing, borderRadius, typography, textStyles } from '../constants/theme';
 import WeeklyMealPlan from '../components/WeeklyMealPlan';
+import TdeeCheckInCard from '../components/TdeeCheckInCard';
+import SleepCard from '../components/SleepCard';
+import CaffeineAlcoholCard from '../components/CaffeineAlcoholCard';
+import { todayKey } from '../services/dateKeys';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -27,6 +32,7 @@ interface DashboardScreenProps {
   onAddToMeals: (meal: Meal) => void;
   onNavigateToRecipes: () => void;
   onNavigateToExercise: () => void;
+  onUpdateUser: (updates: Partial<User>) => void;
 }
 
 const DashboardScreen: React.FC<DashboardScreenProps> = ({
@@ -35,8 +41,11 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   onAddToMeals,
   onNavigateToRecipes,
   onNavigateToExercise,
+  onUpdateUser,
 }) => {
   const [suggestedPlan, setSuggestedPlan] = useState<DayPlan | null>(null); // AI suggestions
+  const [fallbackMeals, setFallbackMeals] = useState<MealType[]>([]); // suggestions not from the AI
+  const [planIssues, setPlanIssues] = useState<string[]>([]); // dayPlanSchema validation issues
   const [myMeals, setMyMeals] = useState<Meal[]>([]); // Added meals
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -48,24 +57,15 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
     carbs: 0,
     fats: 0,
     sugar: 0,
+    caffeine: 0,
+    alcohol: 0,
   });
 
   const calorieTarget = calculateCalorieTarget();
 
+  // Same numbers saveNutritionTargets stores for the user
   function calculateCalorieTarget(): number {
-    const bmr = user.gender === 'male'
-      ? 88.362 + (13.397 * user.weight) + (4.799 * user.height) - (5.677 * user.age)
-      : 447.593 + (9.247 * user.weight) + (3.098 * user.height) - (4.330 * user.age);
-    
-    const multipliers = {
-      sedentary: 1.2,
-      light: 1.375,
-      moderate: 1.55,
-      active: 1.725,
-      very_active: 1.9,
-    };
-    
-    return Math.round(bmr * (multipliers[user.exerciseLevel] || 1.55));
+    return calculateNutritionTargets(user).daily_calories;
   }
 
   const getUserProfile = () => ({
@@ -90,7 +90,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
     try {
       setLoading(true);
       
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       
       // Load added meals from Supabase first, fallback to local storage
       let todayMyMeals: Meal[] = [];
@@ -127,20 +127,26 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   const generateSuggestions = async (addedTypes: Set<string>) => {
     try {
       const profile = getUserProfile();
-      const generatedPlan = await professionalAIService.generateDayPlan(profile);
-      setSuggestedPlan(generatedPlan);
+      const { plan, fallbackMeals, validationIssues } = await professionalAIService.generateDayPlan(profile);
+      setSuggestedPlan(plan);
+      setFallbackMeals(fallbackMeals);
+      setPlanIssues(validationIssues);
     } catch (error) {
       console.error('Error generating suggestions:', error);
     }
   };
 
-  const regenerateMeal = async (mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack') => {
+  const regenerateMeal = async (mealType: MealType) => {
     if (addedMealTypes.has(mealType)) return; // Don't regenerate if already added
     
     setRegenerating(true);
     try {
       const profile = getUserProfile();
       const newMeal = await professionalAIService.generatePersonalizedMeal(mealType, profile);
+      setFallbackMeals(prev => [
+        ...prev.filter(type => type !== mealType),
+        ...(newMeal.generatedBy === 'fallback' ? [mealType] : []),
+      ]);
       
       setSuggestedPlan(prev => {
         if (!prev) return prev;
@@ -157,39 +163,12 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   };
 
   const loadDailyTotals = async () => {
-    const today = new Date().toISOString().split('T')[0];
-    
-    // Get logs from Supabase first
-    let logs: any[] = [];
-    if (isSupabaseConfigured) {
-      try {
-        logs = await databaseService.getDailyLogs(today);
-      } catch (error) {
-        // Fallback to local
-        const localTotals = await storageService.getDailyNutritionTotals(user.id, today);
-        setDailyTotals(localTotals);
-        return;
-      }
-    } else {
-      const localTotals = await storageService.getDailyNutritionTotals(user.id, today);
-      setDailyTotals(localTotals);
-      return;
-    }
-    
-    // Calculate totals from logs
-    const totals = { calories: 0, protein: 0, carbs: 0, fats: 0, sugar: 0 };
-    logs.forEach(log => {
-      if (log.nutrition_consumed) {
-        const carbs = log.nutrition_consumed.carbs || 0;
-        totals.calories += log.nutrition_consumed.calories || 0;
-        totals.protein += log.nutrition_consumed.protein || 0;
-        totals.carbs += carbs;
-        totals.fats += log.nutrition_consumed.fats || 0;
-        // If sugar not tracked, estimate as ~15% of carbs
-        totals.sugar += log.nutrition_consumed.sugar || Math.round(carbs * 0.15);
-      }
-    });
-    setDailyTotals(totals);
+    const today = todayKey();
+
+    // Local logs include edits and removals still queued for Supabase;
+    // the pull merges in changes made on other devices
+    await storageService.pullDailyLogs(user.id, today);
+    setDailyTotals(await storageService.getDailyNutritionTotals(user.id, today));
   };
 
   const handleAddToMeals = async (meal: Meal) => {
@@ -217,6 +196,12 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
     setRefreshing(false);
   };
 
+  // Only slots still on offer count; an added meal no longer shows
+  const planNotice = dayPlanNotice({
+    fallbackMeals: fallbackMeals.filter(mealType => !addedMealTypes.has(mealType)),
+    validationIssues: planIssues,
+  });
+
   const getHealthTip = (): string => {
     const tips: Record<string, string[]> = {
       'Diabetes': [
@@ -242,7 +227,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
   };
 
   // Render a SUGGESTED meal card (AI generated, can be regenerated) - IMPROVED DESIGN
-  const renderSuggestedMealCard = (meal: Meal | undefined, title: string, icon: string, mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack') => {
+  const renderSuggestedMealCard = (meal: Meal | undefined, title: string, icon: string, mealType: MealType) => {
     if (!meal) return null;
     if (addedMealTypes.has(mealType)) return null;
     
@@ -475,6 +460,11 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
             <View style={styles.streakBadge}>
               <Text style={styles.streakNumber}>{user.streak || 0}</Text>
               <Text style={styles.streakLabel}>day streak</Text>
+              {user.streakVacations?.some(v => !v.end) ? (
+                <Text style={styles.streakExtra}>🏖️ paused</Text>
+              ) : (user.streakFreezes || 0) > 0 ? (
+                <Text style={styles.streakExtra}>❄️ {user.streakFreezes} {user.streakFreezes === 1 ? 'freeze' : 'freezes'}</Text>
+              ) : null}
             </View>
           </View>
           <Text style={styles.dateText}>{new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</Text>
@@ -501,6 +491,10 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
           </View>
         </View>
 
+        <TdeeCheckInCard user={user} onAccept={onUpdateUser} />
+        <SleepCard user={user} />
+        <CaffeineAlcoholCard user={user} caffeine={dailyTotals.caffeine} alcohol={dailyTotals.alcohol} />
+
         {/* Quick Actions */}
         <View style={styles.quickActions}>
           <TouchableOpacity style={styles.quickActionBtn} onPress={onNavigateToRecipes}>
@@ -556,6 +550,7 @@ const DashboardScreen: React.FC<DashboardScreenProps> = ({
               </TouchableOpacity>
             </View>
             <Text style={styles.sectionSubtext}>AI-powered recommendations based on your goals</Text>
+            {planNotice && <Text style={styles.planNotice}>⚠️ {planNotice}</Text>}
             
             <ScrollView 
               horizontal 
@@ -651,6 +646,11 @@ const styles = StyleSheet.create({
     ...textStyles.labelSmall,
     color: colors.primaryDark,
   },
+  streakExtra: {
+    ...textStyles.labelSmall,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
   dateText: {
     ...textStyles.caption,
     color: colors.textMuted,
@@ -800,6 +800,12 @@ const styles = StyleSheet.create({
     color: colors.textMuted,
     marginBottom: spacing.md,
   },
+  planNotice: {
+    ...textStyles.caption,
+    color: colors.warning,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+  },
   refreshLink: {
     ...textStyles.label,
     color: colors.primary,
@@ -15,7 +15,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as Speech from 'expo-speech';
 import { User } from '../types';
+import { achievementService } from '../services/achievementService';
 import { colors, shadows, spacing, borderRadius, typography, textStyles } from '../constants/theme';
+import { todayKey } from '../services/dateKeys';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -513,6 +515,10 @@ const ExerciseScreen: React.FC<ExerciseScreenProps> = ({ user }) => {
   const completeExercise = () => {
     Vibration.vibrate([0, 200, 100, 200, 100, 200]);
     speakText('Exercise complete! Great job!');
+    achievementService.recordEvent(user.id, {
+      type: 'workout_completed',
+      date: todayKey(),
+    });
     Alert.alert(
       '🎉 Exercise Complete!',
       `Great job! You burned approximately ${activeExercise?.calories || 0} calories.\n\nKeep up the great work!`,
@@ -15,16 +15,26 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Path, Circle, G } from 'react-native-svg';
-import { User, DailyLog } from '../types';
+import { User, DailyLog, Meal } from '../types';
 import { storageService } from '../services/storageService';
 import { databaseService } from '../services/databaseService';
-import { professionalAIService, Meal, UserProfile } from '../services/professionalAIService';
+import { professionalAIService, UserProfile } from '../services/professionalAIService';
+import { foodDatabaseService, FoodItem } from '../services/foodDatabaseService';
+import { DailyLogEdit } from '../services/mealMappers';
+import { calculateNutritionTargets } from '../services/nutritionTargetService';
 import { isSupabaseConfigured } from '../config/supabase';
 import { colors, shadows, spacing, borderRadius, typography, textStyles } from '../constants/theme';
 import WaterTracker from '../components/WaterTracker';
 import ProgressCharts from '../components/ProgressCharts';
+import FoodSearchModal from '../components/FoodSearchModal';
+import MealCopyModal from '../components/MealCopyModal';
+import EditLogModal from '../components/EditLogModal';
+import MicronutrientModal from '../components/MicronutrientModal';
+import { toDateKey, todayKey } from '../services/dateKeys';
+import { reminderService } from '../services/reminderService';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
+const UNDO_TIMEOUT_MS = 5000;
 
 // Nutrition colors
 const NUTRITION_COLORS = {
@@ -87,6 +97,8 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
     carbs: 0,
     fats: 0,
     sugar: 0,
+    caffeine: 0,
+    alcohol: 0,
     mealsCount: 0,
   });
   // Loading state for smooth transitions
@@ -102,26 +114,29 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
   const [recipeVariations, setRecipeVariations] = useState<Meal[]>([]);
   const [loadingVariations, setLoadingVariations] = useState(false);
   
+  // USDA food search state
+  const [showFoodSearch, setShowFoodSearch] = useState(false);
+  
+  // Copy meals / templates state
+  const [showMealCopy, setShowMealCopy] = useState(false);
+  
+  // Micronutrient detail state
+  const [showMicronutrients, setShowMicronutrients] = useState(false);
+  
+  // Edit entry / undo removal state
+  const [editingLog, setEditingLog] = useState<DailyLog | null>(null);
+  const [removedLog, setRemovedLog] = useState<DailyLog | null>(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  
   // Loading animation
   const spinValue = useRef(new Animated.Value(0)).current;
   const pulseValue = useRef(new Animated.Value(1)).current;
 
   const calorieTarget = calculateCalorieTarget();
 
+  // Same numbers saveNutritionTargets stores for the user
   function calculateCalorieTarget(): number {
-    const bmr = user.gender === 'male'
-      ? 88.362 + (13.397 * user.weight) + (4.799 * user.height) - (5.677 * user.age)
-      : 447.593 + (9.247 * user.weight) + (3.098 * user.height) - (4.330 * user.age);
-    
-    const multipliers: Record<string, number> = {
-      sedentary: 1.2,
-      light: 1.375,
-      moderate: 1.55,
-      active: 1.725,
-      very_active: 1.9,
-    };
-    
-    return Math.round(bmr * (multipliers[user.exerciseLevel] || 1.55));
+    return calculateNutritionTargets(user).daily_calories;
   }
 
   // Start loading animation
@@ -158,8 +173,13 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
   useEffect(() => {
     loadDailyData();
   }, [selectedDate]);
+
+  useEffect(() => () => {
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+  }, []);
   
-  // Mark day as complete and update streak
+  // Mark day as complete. The streak itself follows logged days (see
+  // streakService), so completing a day only celebrates it
   const markDayComplete = async () => {
     const mealsComplete = dailyLogs.length >= 3; // At least 3 meals
     
@@ -174,31 +194,18 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
     
     setIsDayComplete(true);
     
-    // Update streak in database
-    const newStreak = (user.streak || 0) + 1;
-    const updatedUser = {
-      ...user,
-      streak: newStreak,
-      longestStreak: Math.max(user.longestStreak || 0, newStreak),
-    };
-    
     try {
-      if (isSupabaseConfigured) {
-        await databaseService.updateUserProfile(updatedUser);
-      }
-      await storageService.saveUser(updatedUser);
-      
-      if (onUpdateUser) {
-        onUpdateUser(updatedUser);
-      }
+      await storageService.markDayComplete(user.id, toDateKey(selectedDate), true);
+      if (toDateKey(selectedDate) === todayKey()) await reminderService.skipToday('closeday');
+      const streak = await storageService.updateStreak(user.id);
       
       Alert.alert(
         '🎉 Day Complete!',
-        `Great job! Your streak is now ${newStreak} days!`,
+        `Great job! Your streak is ${streak} ${streak === 1 ? 'day' : 'days'}!`,
         [{ text: 'Awesome!' }]
       );
     } catch (error) {
-      console.error('Error updating streak:', error);
+      console.error('Error completing day:', error);
     }
   };
 
@@ -206,25 +213,12 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
     const startTime = Date.now();
     try {
       setIsLoading(true);
-      const dateStr = selectedDate.toISOString().split('T')[0];
+      const dateStr = toDateKey(selectedDate);
       
-      // Try to get logs from Supabase first, then fall back to local storage
-      let logs: DailyLog[] = [];
-      
-      if (isSupabaseConfigured) {
-        try {
-          logs = await databaseService.getDailyLogs(dateStr);
-        console.log('📥 Loaded', logs.length, 'meals from Supabase for', dateStr);
-      } catch (error) {
-        console.log('Failed to load from Supabase, using local storage');
-      }
-    }
-    
-    // If no logs from Supabase, try local storage
-    if (logs.length === 0) {
-      logs = await storageService.getDailyLogs(user.id, dateStr);
-      console.log('📥 Loaded', logs.length, 'meals from local storage for', dateStr);
-    }
+      // Local storage is the source of truth; merge in changes from Supabase
+      // (other devices, deletions) without touching edits still queued
+      const logs = await storageService.pullDailyLogs(user.id, dateStr);
+      console.log('📥 Loaded', logs.length, 'meals for', dateStr);
     
     // Remove duplicates by meal_type (keep only the latest)
     const uniqueLogs = logs.reduce((acc: DailyLog[], log) => {
@@ -233,8 +227,9 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
         acc.push(log);
       } else {
         // Keep the newer one
-        const existingTime = acc[existingIndex].created_at ? new Date(acc[existingIndex].created_at) : new Date(0);
-        const newTime = log.created_at ? new Date(log.created_at) : new Date(0);
+        const existing = acc[existingIndex];
+        const existingTime = new Date(existing.updated_at || existing.created_at || 0);
+        const newTime = new Date(log.updated_at || log.created_at || 0);
         if (newTime > existingTime) {
           acc[existingIndex] = log;
         }
@@ -243,29 +238,10 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
     }, []);
     
     setDailyLogs(uniqueLogs);
+    setIsDayComplete(await storageService.isDayComplete(user.id, dateStr));
     
-    // Calculate totals from the logs we have
-    const totals = {
-      calories: 0,
-      protein: 0,
-      carbs: 0,
-      fats: 0,
-      sugar: 0,
-      mealsCount: uniqueLogs.length,
-    };
-    
-    uniqueLogs.forEach(log => {
-      if (log.nutrition_consumed) {
-        const carbs = log.nutrition_consumed.carbs || 0;
-        totals.calories += log.nutrition_consumed.calories || 0;
-        totals.protein += log.nutrition_consumed.protein || 0;
-        totals.carbs += carbs;
-        totals.fats += log.nutrition_consumed.fats || 0;
-        totals.sugar += log.nutrition_consumed.sugar || Math.round(carbs * 0.15);
-      }
-    });
-    
-    setDailyTotals(totals);
+    // Totals include drinks logged in the water tracker
+    setDailyTotals(await storageService.getDailyNutritionTotals(user.id, dateStr));
     } catch (error) {
       console.error('Error loading daily data:', error);
     } finally {
@@ -276,30 +252,78 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
     }
   };
 
-  const handleRemoveMeal = async (logId: string) => {
+  // Re-read the day from local storage after an edit, without the loading screen
+  const refreshDay = async () => {
+    const dateStr = toDateKey(selectedDate);
+    setDailyLogs(await storageService.getDailyLogs(user.id, dateStr));
+    setDailyTotals(await storageService.getDailyNutritionTotals(user.id, dateStr));
+  };
+
+  const handleRemoveMeal = async (log: DailyLog) => {
+    // Removes locally and queues the deletion for Supabase; the snackbar
+    // offers a few seconds to bring it back
+    await storageService.removeMealFromLog(user.id, log.log_date, log.id);
+    await refreshDay();
+
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    setRemovedLog(log);
+    undoTimer.current = setTimeout(() => setRemovedLog(null), UNDO_TIMEOUT_MS);
+  };
+
+  const handleUndoRemove = async () => {
+    if (!removedLog) return;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    const log = removedLog;
+    setRemovedLog(null);
+    if (await storageService.restoreDailyLog(user.id, log)) {
+      await refreshDay();
+      return;
+    }
+
+    // Something was logged for this meal since the removal
+    const current = dailyLogs.find(l => l.meal_type === log.meal_type);
     Alert.alert(
-      'Remove Meal',
-      'Are you sure you want to remove this meal?',
+      'Replace Meal',
+      `"${current?.food_name ?? 'Another entry'}" is now logged as ${log.meal_type}. Replace it with ${log.food_name}?`,
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Current', style: 'cancel' },
         {
-          text: 'Remove',
+          text: 'Replace',
           style: 'destructive',
           onPress: async () => {
-            const dateStr = selectedDate.toISOString().split('T')[0];
-            
-            // Remove from both Supabase and local storage
-            if (isSupabaseConfigured) {
-              await databaseService.deleteDailyLog(logId);
-            }
-            await storageService.removeMealFromLog(user.id, dateStr, logId);
-            await loadDailyData();
+            await storageService.restoreDailyLog(user.id, log, true);
+            await refreshDay();
           },
         },
       ]
     );
   };
 
+  const handleSaveEdit = async (log: DailyLog, edit: DailyLogEdit) => {
+    try {
+      await storageService.updateDailyLog(user.id, log, edit);
+      setEditingLog(null);
+      await refreshDay();
+    } catch (error) {
+      console.error('Error updating meal:', error);
+      Alert.alert('Error', 'Failed to save changes. Please try again.');
+    }
+  };
+
+  // Log a USDA food with the chosen portion on the selected date. A meal
+  // already logged for that slot gets the food added to it
+  const handleLogFood = async (food: FoodItem, amount: number, mealType: DailyLog['meal_type']) => {
+    const dateStr = toDateKey(selectedDate);
+    const log = foodDatabaseService.createFoodLog(user.id, food, amount, mealType, dateStr);
+    try {
+      await storageService.addFoodToLog(user.id, log);
+      await loadDailyData();
+    } catch (error) {
+      console.error('Error logging food:', error);
+      Alert.alert('Error', 'Could not log this food. Please try again.');
+    }
+  };
+
   const changeDate = (days: number) => {
     const newDate = new Date(selectedDate);
     newDate.setDate(selectedDate.getDate() + days);
@@ -383,7 +407,7 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
   const handleReplaceWithVariation = async (variation: Meal) => {
     if (!selectedMealForVariations) return;
     
-    const dateStr = selectedDate.toISOString().split('T')[0];
+    const dateStr = toDateKey(selectedDate);
     
     // Remove old meal
     await storageService.removeMealFromLog(user.id, dateStr, selectedMealForVariations.id);
@@ -498,7 +522,7 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
         </View>
 
         {/* Water Tracking - Professional Design */}
-        <WaterTracker dailyTarget={2500} />
+        <WaterTracker user={user} onChange={refreshDay} />
 
         {/* Your Meals Section - Modern Design */}
         <View style={styles.mealsSectionModern}>
@@ -531,7 +555,7 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
               </View>
               <Text style={styles.emptyTextModern}>No meals logged yet</Text>
               <Text style={styles.emptySubtextModern}>
-                Head to Home and add your first meal
+                Head to Home and add your first meal, or search the food database
               </Text>
             </View>
           ) : (
@@ -552,7 +576,7 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
                         <View style={styles.mealTypePill}>
                           <Text style={styles.mealTypePillText}>{log.meal_type}</Text>
                         </View>
-                        <Text style={styles.mealCardTimeModern}>{formatTime(log.created_at)}</Text>
+                        <Text style={styles.mealCardTimeModern}>{formatTime(log.eatenAt || log.created_at)}</Text>
                       </View>
                     </View>
                   </View>
@@ -591,9 +615,16 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
                     <Text style={styles.altBtnIcon}>🔄</Text>
                     <Text style={styles.altBtnText}>Alternative</Text>
                   </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.altBtnModern}
+                    onPress={() => setEditingLog(log)}
+                  >
+                    <Text style={styles.altBtnIcon}>✏️</Text>
+                    <Text style={styles.altBtnText}>Edit</Text>
+                  </TouchableOpacity>
                   <TouchableOpacity
                     style={styles.removeBtnModern}
-                    onPress={() => handleRemoveMeal(log.id)}
+                    onPress={() => handleRemoveMeal(log)}
                   >
                     <Text style={styles.removeBtnIconModern}>✕</Text>
                     <Text style={styles.removeBtnTextModern}>Remove</Text>
@@ -602,6 +633,30 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
               </View>
             ))
           )}
+
+          <TouchableOpacity
+            style={styles.foodSearchBtn}
+            onPress={() => setShowFoodSearch(true)}
+          >
+            <Text style={styles.foodSearchBtnIcon}>🔎</Text>
+            <Text style={styles.foodSearchBtnText}>Search & Log Food</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.foodSearchBtn, styles.mealCopyBtn]}
+            onPress={() => setShowMealCopy(true)}
+          >
+            <Text style={styles.foodSearchBtnIcon}>📋</Text>
+            <Text style={styles.foodSearchBtnText}>Copy Meals & Templates</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.foodSearchBtn, styles.mealCopyBtn]}
+            onPress={() => setShowMicronutrients(true)}
+          >
+            <Text style={styles.foodSearchBtnIcon}>🔬</Text>
+            <Text style={styles.foodSearchBtnText}>Vitamins & Minerals</Text>
+          </TouchableOpacity>
         </View>
         
         {/* ===== MARK DAY COMPLETE - SIMPLIFIED ===== */}
@@ -685,7 +740,14 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
         </View>
 
         {/* Weekly Progress Charts */}
-        <ProgressCharts userId={user.id} calorieTarget={calorieTarget} />
+        <ProgressCharts
+          userId={user.id}
+          calorieTarget={calorieTarget}
+          unitsPreference={user.unitsPreference}
+          targetWeight={user.targetWeight}
+          height={user.height}
+          onUpdateUser={updates => onUpdateUser?.({ ...user, ...updates })}
+        />
 
         <View style={{ height: 40 }} />
       </ScrollView>
@@ -741,6 +803,49 @@ const MealsTrackerScreen: React.FC<MealsTrackerScreenProps> = ({
           </ScrollView>
         </SafeAreaView>
       </Modal>
+
+      <FoodSearchModal
+        visible={showFoodSearch}
+        userId={user.id}
+        onClose={() => setShowFoodSearch(false)}
+        onLogFood={handleLogFood}
+      />
+
+      <MealCopyModal
+        visible={showMealCopy}
+        userId={user.id}
+        date={toDateKey(selectedDate)}
+        logs={dailyLogs}
+        onClose={() => setShowMealCopy(false)}
+        onLogged={loadDailyData}
+      />
+
+      <MicronutrientModal
+        visible={showMicronutrients}
+        user={user}
+        date={toDateKey(selectedDate)}
+        calorieTarget={calorieTarget}
+        onClose={() => setShowMicronutrients(false)}
+      />
+
+      <EditLogModal
+        visible={!!editingLog}
+        log={editingLog}
+        dayLogs={dailyLogs}
+        onClose={() => setEditingLog(null)}
+        onSave={handleSaveEdit}
+      />
+
+      {removedLog && (
+        <View style={styles.snackbar}>
+          <Text style={styles.snackbarText} numberOfLines={1}>
+            {removedLog.food_name} removed
+          </Text>
+          <TouchableOpacity onPress={handleUndoRemove}>
+            <Text style={styles.snackbarAction}>Undo</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </SafeAreaView>
   );
 };
@@ -1373,6 +1478,31 @@ const styles = StyleSheet.create({
     textAlign: 'center',
   },
   
+  // Food Search Button
+  mealCopyBtn: {
+    marginTop: spacing.sm,
+  },
+  foodSearchBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    backgroundColor: colors.primaryPale,
+  },
+  foodSearchBtnIcon: {
+    fontSize: 16,
+  },
+  foodSearchBtnText: {
+    ...textStyles.label,
+    color: colors.primaryDark,
+    fontWeight: '600',
+  },
+  
   // Modern Meal Card Styles
   mealCardModern: {
     backgroundColor: '#FFFFFF',
@@ -1528,6 +1658,33 @@ const styles = StyleSheet.create({
     color: '#EF4444',
   },
   
+  // Undo Snackbar
+  snackbar: {
+    position: 'absolute',
+    left: spacing.lg,
+    right: spacing.lg,
+    bottom: spacing.lg,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1F2937',
+    borderRadius: borderRadius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    ...shadows.medium,
+  },
+  snackbarText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#FFFFFF',
+    marginRight: spacing.md,
+  },
+  snackbarAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primaryLight,
+  },
+  
   emptyIcon: {
     fontSize: 48,
     marginBottom: spacing.sm,
@@ -11,8 +11,18 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
+import { format, parseISO } from 'date-fns';
 import IllustratedAvatar from '../components/IllustratedAvatar';
-import { User } from '../types';
+import NutritionTargetsCard from '../components/NutritionTargetsCard';
+import BodyMeasurementsModal from '../components/BodyMeasurementsModal';
+import AchievementsCard from '../components/AchievementsCard';
+import NotificationSettingsModal from '../components/NotificationSettingsModal';
+import CaffeineAlcoholLimitsModal from '../components/CaffeineAlcoholLimitsModal';
+import { alcoholLimitDrinks, caffeineLimitMg } from '../services/caffeineAlcoholService';
+import { waistToHeightRatio } from '../services/bodyCompositionService';
+import { toggleVacation } from '../services/streakService';
+import { deviceTimeZone, getTimeZone, todayKey } from '../services/dateKeys';
+import { BodyMeasurement, User } from '../types';
 import { storageService } from '../services/storageService';
 import { databaseService } from '../services/databaseService';
 import { isSupabaseConfigured } from '../config/supabase';
@@ -37,6 +47,22 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
   const [newDisease, setNewDisease] = useState('');
   const [showAvatarModal, setShowAvatarModal] = useState(false);
   const [selectedAvatar, setSelectedAvatar] = useState(user.avatar || '👤');
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [showReminders, setShowReminders] = useState(false);
+  const [showDrinkLimits, setShowDrinkLimits] = useState(false);
+  const [latestWaist, setLatestWaist] = useState<BodyMeasurement | null>(null);
+  const vacation = user.streakVacations?.find(v => !v.end);
+  const timeZone = getTimeZone();
+  const deviceZone = deviceTimeZone();
+
+  useEffect(() => {
+    loadLatestWaist();
+  }, [user.id]);
+
+  const loadLatestWaist = async () => {
+    const measurements = await storageService.getBodyMeasurements(user.id);
+    setLatestWaist(measurements.find(m => m.waist_cm) || null);
+  };
 
   // Modern teenage avatar options with 6 girls and 6 boys
   const avatarOptions = [
@@ -217,6 +243,7 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
   };
 
   const bmi = calculateBMI();
+  const whtr = latestWaist?.waist_cm ? waistToHeightRatio(Number(latestWaist.waist_cm), user.height) : null;
 
   const renderEditModal = () => (
     <Modal
@@ -498,6 +525,16 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
               <Text style={styles.bmiCategory}>{bmi.category}</Text>
             </View>
           </View>
+
+          <View style={styles.compositionRow}>
+            <Text style={styles.compositionText}>
+              Body fat {user.bodyFatPercentage ? `${user.bodyFatPercentage}%` : '-'}
+              {'  ·  '}Waist-to-height {whtr ? `${whtr.ratio} (${whtr.category})` : '-'}
+            </Text>
+            <TouchableOpacity onPress={() => setShowMeasurements(true)}>
+              <Text style={styles.addBtn}>📏 Measure</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Section: Health Conditions */}
@@ -557,11 +594,17 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
           </View>
         </View>
 
+        {/* Section: Nutrition Targets - saving the profile also stores the recalculated targets */}
+        <NutritionTargetsCard user={user} onChange={onUpdateUser} />
+
+        {/* Section: Achievements - earned badges and progress toward locked ones */}
+        <AchievementsCard userId={user.id} />
+
         {/* Section: Settings */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>SETTINGS</Text>
           
-          <TouchableOpacity style={styles.settingRow}>
+          <TouchableOpacity style={styles.settingRow} onPress={() => setShowReminders(true)}>
             <View style={styles.settingLeft}>
               <Text style={styles.settingIcon}>🔔</Text>
               <Text style={styles.settingLabel}>Notifications</Text>
@@ -569,6 +612,56 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
             <Text style={styles.settingArrow}>›</Text>
           </TouchableOpacity>
           
+          <TouchableOpacity style={styles.settingRow} onPress={() => setShowDrinkLimits(true)}>
+            <View style={styles.settingLeft}>
+              <Text style={styles.settingIcon}>☕</Text>
+              <View>
+                <Text style={styles.settingLabel}>Caffeine & Alcohol</Text>
+                <Text style={styles.settingHint}>
+                  Up to {caffeineLimitMg(user)} mg caffeine · {alcoholLimitDrinks(user)}{' '}
+                  {alcoholLimitDrinks(user) === 1 ? 'drink' : 'drinks'} a day
+                </Text>
+              </View>
+            </View>
+            <Text style={styles.settingArrow}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            onPress={() => onUpdateUser({ streakVacations: toggleVacation(user.streakVacations || [], todayKey()) })}
+          >
+            <View style={styles.settingLeft}>
+              <Text style={styles.settingIcon}>🏖️</Text>
+              <View>
+                <Text style={styles.settingLabel}>Vacation Mode</Text>
+                <Text style={styles.settingHint}>
+                  {vacation
+                    ? `Streak paused since ${format(parseISO(vacation.start), 'MMM d')}`
+                    : 'Pause your streak while you are away'}
+                </Text>
+              </View>
+            </View>
+            <Text style={[styles.settingValue, vacation && styles.settingValueOn]}>{vacation ? 'On' : 'Off'}</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingRow}
+            disabled={!deviceZone || deviceZone === timeZone}
+            onPress={() => onUpdateUser({ timeZone: deviceZone })}
+          >
+            <View style={styles.settingLeft}>
+              <Text style={styles.settingIcon}>🌍</Text>
+              <View>
+                <Text style={styles.settingLabel}>Time Zone: {timeZone || 'Device'}</Text>
+                <Text style={styles.settingHint}>
+                  {deviceZone && deviceZone !== timeZone
+                    ? `Tap to switch to this device's zone (${deviceZone})`
+                    : 'Days start at midnight here'}
+                </Text>
+              </View>
+            </View>
+          </TouchableOpacity>
+
           <TouchableOpacity style={styles.settingRow}>
             <View style={styles.settingLeft}>
               <Text style={styles.settingIcon}>📏</Text>
@@ -606,6 +699,26 @@ const ProfileScreenNew: React.FC<ProfileScreenProps> = ({
 
       {renderEditModal()}
       {renderAddDiseaseModal()}
+      <NotificationSettingsModal
+        visible={showReminders}
+        userId={user.id}
+        onClose={() => setShowReminders(false)}
+      />
+      <CaffeineAlcoholLimitsModal
+        visible={showDrinkLimits}
+        user={user}
+        onClose={() => setShowDrinkLimits(false)}
+        onSave={onUpdateUser}
+      />
+      <BodyMeasurementsModal
+        visible={showMeasurements}
+        user={user}
+        onClose={() => setShowMeasurements(false)}
+        onSaved={updates => {
+          onUpdateUser(updates);
+          loadLatestWaist();
+        }}
+      />
     </SafeAreaView>
   );
 };
@@ -834,6 +947,16 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#FFFFFF',
   },
+  compositionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  compositionText: {
+    ...textStyles.caption,
+    flex: 1,
+  },
   bmiCategory: {
     ...textStyles.labelSmall,
     color: colors.primary,
@@ -955,6 +1078,17 @@ const styles = StyleSheet.create({
     fontSize: 20,
     color: colors.textMuted,
   },
+  settingHint: {
+    ...textStyles.caption,
+    color: colors.textMuted,
+  },
+  settingValue: {
+    ...textStyles.label,
+    color: colors.textMuted,
+  },
+  settingValueOn: {
+    color: colors.primary,
+  },
   
   // Logout
   logoutButton: {
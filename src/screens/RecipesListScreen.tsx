@@ -14,12 +14,14 @@ import {
   Easing,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { User } from '../types';
-import { Meal, professionalAIService, UserProfile } from '../services/professionalAIService';
+import { User, Meal } from '../types';
+import { professionalAIService, UserProfile } from '../services/professionalAIService';
 import { storageService } from '../services/storageService';
 import { databaseService } from '../services/databaseService';
+import { calculateNutritionTargets } from '../services/nutritionTargetService';
 import { isSupabaseConfigured } from '../config/supabase';
 import { colors, shadows, spacing, borderRadius, typography } from '../constants/theme';
+import { todayKey } from '../services/dateKeys';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CARD_WIDTH = (SCREEN_WIDTH - spacing.lg * 2 - spacing.sm) / 2;
@@ -60,15 +62,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
     calorieTarget: calculateCalorieTarget(),
   });
 
-  const calculateCalorieTarget = (): number => {
-    const bmr = user.gender === 'male'
-      ? 88.362 + (13.397 * user.weight) + (4.799 * user.height) - (5.677 * user.age)
-      : 447.593 + (9.247 * user.weight) + (3.098 * user.height) - (4.330 * user.age);
-    const multipliers: Record<string, number> = {
-      sedentary: 1.2, light: 1.375, moderate: 1.55, active: 1.725, very_active: 1.9,
-    };
-    return Math.round(bmr * (multipliers[user.exerciseLevel] || 1.55));
-  };
+  const calculateCalorieTarget = (): number => calculateNutritionTargets(user).daily_calories;
 
   const [myMeals, setMyMeals] = useState<Meal[]>([]);
   const [expandedMealId, setExpandedMealId] = useState<string | null>(null);
@@ -80,7 +74,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_1',
       name: 'Oatmeal with Berries & Nuts',
       description: 'Heart-healthy oatmeal with antioxidant-rich berries',
-      calories: 350, protein: 12, carbs: 45, fats: 14, fiber: 8,
+      calories: 350, protein: 12, carbs: 45, fats: 14, fiber: 8, sugar: 12,
       ingredients: ['1/2 cup rolled oats', '1 cup unsweetened almond milk', '1/4 cup mixed berries', '2 tbsp chopped almonds', '1 tsp honey', 'Pinch of cinnamon'],
       instructions: ['Boil almond milk in a pan', 'Add oats and cinnamon, stir', 'Cook for 5-7 minutes', 'Top with berries and almonds', 'Drizzle honey if desired'],
       prepTime: 5, cookTime: 10, mealType: 'breakfast',
@@ -90,7 +84,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_2',
       name: 'Vegetable Omelette',
       description: 'Protein-packed omelette with fresh vegetables',
-      calories: 280, protein: 18, carbs: 8, fats: 20, fiber: 3,
+      calories: 280, protein: 18, carbs: 8, fats: 20, fiber: 3, sugar: 4,
       ingredients: ['2 eggs', '1/4 cup spinach', '1/4 cup bell peppers', '2 tbsp onion', '1 tbsp olive oil', 'Salt and pepper'],
       instructions: ['Beat eggs with salt and pepper', 'Heat oil in pan', 'Sauté vegetables', 'Pour eggs over vegetables', 'Cook until set, fold in half'],
       prepTime: 5, cookTime: 8, mealType: 'breakfast',
@@ -101,7 +95,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_3',
       name: 'Grilled Chicken Salad',
       description: 'Fresh salad with grilled chicken and colorful vegetables',
-      calories: 450, protein: 35, carbs: 20, fats: 25, fiber: 6,
+      calories: 450, protein: 35, carbs: 20, fats: 25, fiber: 6, sugar: 6,
       ingredients: ['150g chicken breast', '2 cups mixed greens', '1 cup cherry tomatoes', '1/2 avocado', '2 tbsp olive oil', '1 tbsp lemon juice'],
       instructions: ['Season and grill chicken breast', 'Mix salad greens in a bowl', 'Add sliced tomatoes and avocado', 'Slice chicken and place on top', 'Drizzle with olive oil and lemon'],
       prepTime: 10, cookTime: 15, mealType: 'lunch',
@@ -111,7 +105,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_4',
       name: 'Quinoa Buddha Bowl',
       description: 'Nutrient-dense bowl with quinoa and roasted vegetables',
-      calories: 420, protein: 15, carbs: 55, fats: 18, fiber: 10,
+      calories: 420, protein: 15, carbs: 55, fats: 18, fiber: 10, sugar: 8,
       ingredients: ['1 cup cooked quinoa', '1 cup roasted chickpeas', '1 cup roasted vegetables', '1/4 cup hummus', '2 tbsp tahini', 'Fresh herbs'],
       instructions: ['Cook quinoa according to package', 'Roast chickpeas with spices', 'Roast vegetables of choice', 'Arrange in bowl', 'Top with hummus and tahini'],
       prepTime: 15, cookTime: 25, mealType: 'lunch',
@@ -122,7 +116,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_5',
       name: 'Greek Yogurt with Almonds',
       description: 'Creamy Greek yogurt with crunchy almonds and honey',
-      calories: 200, protein: 15, carbs: 18, fats: 8, fiber: 2,
+      calories: 200, protein: 15, carbs: 18, fats: 8, fiber: 2, sugar: 14,
       ingredients: ['1 cup Greek yogurt', '1/4 cup almonds', '1 tbsp honey', '1/2 banana'],
       instructions: ['Add yogurt to a bowl', 'Slice banana on top', 'Sprinkle almonds', 'Drizzle with honey'],
       prepTime: 3, cookTime: 0, mealType: 'snack',
@@ -132,7 +126,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_6',
       name: 'Hummus with Veggie Sticks',
       description: 'Creamy hummus with fresh vegetable sticks',
-      calories: 180, protein: 8, carbs: 20, fats: 9, fiber: 5,
+      calories: 180, protein: 8, carbs: 20, fats: 9, fiber: 5, sugar: 6,
       ingredients: ['1/2 cup hummus', '1 carrot', '1 cucumber', '1 celery stalk', '1/2 bell pepper'],
       instructions: ['Cut vegetables into sticks', 'Arrange on a plate', 'Serve with hummus for dipping'],
       prepTime: 5, cookTime: 0, mealType: 'snack',
@@ -143,7 +137,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_7',
       name: 'Baked Salmon with Vegetables',
       description: 'Omega-3 rich salmon with roasted seasonal vegetables',
-      calories: 500, protein: 40, carbs: 25, fats: 28, fiber: 6,
+      calories: 500, protein: 40, carbs: 25, fats: 28, fiber: 6, sugar: 8,
       ingredients: ['200g salmon fillet', '1 cup broccoli', '1 cup carrots', '2 tbsp olive oil', '1 lemon', 'Fresh dill'],
       instructions: ['Preheat oven to 375°F', 'Season salmon with herbs', 'Arrange vegetables around salmon', 'Drizzle with olive oil', 'Bake for 20 minutes'],
       prepTime: 10, cookTime: 20, mealType: 'dinner',
@@ -153,7 +147,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
       id: 'recipe_8',
       name: 'Turkey Stir-Fry',
       description: 'Lean turkey with colorful stir-fried vegetables',
-      calories: 380, protein: 35, carbs: 22, fats: 16, fiber: 5,
+      calories: 380, protein: 35, carbs: 22, fats: 16, fiber: 5, sugar: 7,
       ingredients: ['200g ground turkey', '2 cups mixed vegetables', '2 tbsp soy sauce', '1 tbsp sesame oil', '1 tsp ginger', '2 cloves garlic'],
       instructions: ['Heat sesame oil in wok', 'Cook turkey until browned', 'Add garlic and ginger', 'Add vegetables and stir-fry', 'Season with soy sauce'],
       prepTime: 10, cookTime: 15, mealType: 'dinner',
@@ -190,7 +184,7 @@ const RecipesListScreen: React.FC<RecipesListScreenProps> = ({
   // Load user's added meals to show related recipes
   const loadMyMeals = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       let meals: Meal[] = [];
       
       // Try Supabase first
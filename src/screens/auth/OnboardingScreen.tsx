@@ -12,6 +12,8 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { storageService } from '../../services/storageService';
 import { databaseService } from '../../services/databaseService';
+import { achievementService } from '../../services/achievementService';
+import { todayKey } from '../../services/dateKeys';
 import { supabase, isSupabaseConfigured } from '../../config/supabase';
 import { User } from '../../types';
 
@@ -131,6 +133,10 @@ const OnboardingScreen: React.FC<OnboardingScreenProps> = ({ onComplete }) => {
 
       // Also save to local storage
       await storageService.saveUser(newUser);
+      // The onboarding weight starts the weight trend and is the
+      // baseline for weight-loss badges on every device
+      await storageService.saveBodyMeasurement(userId, { weight_kg: weightKg, measurement_date: todayKey() });
+      await achievementService.recordEvent(userId, { type: 'weight_logged', weightKg });
 
       Alert.alert('Success!', 'Your profile has been set up successfully!');
       
@@ -146,29 +152,6 @@ const OnboardingScreen: React.FC<OnboardingScreenProps> = ({ onComplete }) => {
     }
   };
 
-  const calculateBMR = () => {
-    const weightKg = units === 'imperial' ? parseFloat(weight) * 0.453592 : parseFloat(weight);
-    const heightCm = units === 'imperial' ? parseFloat(height) * 2.54 : parseFloat(height);
-    const ageNum = parseInt(age);
-
-    if (gender === 'male') {
-      return 88.362 + (13.397 * weightKg) + (4.799 * heightCm) - (5.677 * ageNum);
-    } else {
-      return 447.593 + (9.247 * weightKg) + (3.098 * heightCm) - (4.330 * ageNum);
-    }
-  };
-
-  const getActivityMultiplier = () => {
-    switch (activityLevel) {
-      case 'sedentary': return 1.2;
-      case 'light': return 1.375;
-      case 'moderate': return 1.55;
-      case 'active': return 1.725;
-      case 'very_active': return 1.9;
-      default: return 1.55;
-    }
-  };
-
   const toggleCondition = (condition: string) => {
     setConditions(prev => 
       prev.includes(condition) 
@@ -0,0 +1,81 @@
+import { Achievement } from '../../types';
+import { AchievementState, applyEvent, newlyEarned } from '../achievementService';
+
+jest.mock('../databaseService', () => ({ databaseService: {} }));
+jest.mock('../syncService', () => ({ syncService: {} }));
+jest.mock('../../config/supabase', () => ({ isSupabaseConfigured: false }));
+
+const entry = (id: string, requirement_value: number, metric?: Achievement['metric']): Achievement => ({
+  id,
+  achievement_name: id,
+  description: '',
+  achievement_type: 'special',
+  badge_icon: '🏅',
+  requirement_value,
+  metric,
+  is_active: true,
+  created_at: '',
+});
+
+const state = (progress: AchievementState['progress']): AchievementState => ({
+  progress,
+  waterGoalDates: [],
+  workoutDates: [],
+  baseline: {},
+  earned: {},
+});
+
+describe('newlyEarned', () => {
+  // Entries added to the table after release are awarded by their metric alone
+  const catalog = [
+    entry('meals_250', 250, 'meals_logged'),
+    entry('streak_60', 60, 'streak_days'),
+    entry('hydration_30', 30, 'water_goal_days'),
+    entry('legacy', 1),
+  ];
+
+  it.each([
+    [{ meals_logged: 250 }, ['meals_250']],
+    [{ meals_logged: 249, streak_days: 60 }, ['streak_60']],
+    [{ water_goal_days: 30, streak_days: 61 }, ['streak_60', 'hydration_30']],
+    [{ meals_logged: 1000, streak_days: 1000, water_goal_days: 1000 }, ['meals_250', 'streak_60', 'hydration_30']],
+    [{}, []],
+  ])('with progress %j earns %j', (progress, expected) => {
+    expect(newlyEarned(catalog, state(progress)).map(a => a.id)).toEqual(expected);
+  });
+
+  it('never awards an entry without a metric', () => {
+    expect(newlyEarned([entry('legacy', 0)], state({ meals_logged: 10 }))).toEqual([]);
+  });
+
+  it('skips inactive and already earned entries', () => {
+    const award = { id: 'a1', user_id: 'u1', achievement_id: 'meals_250', earned_date: '2026-10-01', progress_value: 250, created_at: '' };
+    const earned = { ...state({ meals_logged: 300 }), earned: { meals_250: award } };
+    expect(newlyEarned([entry('meals_250', 250, 'meals_logged')], earned)).toEqual([]);
+    expect(newlyEarned([{ ...entry('meals_250', 250, 'meals_logged'), is_active: false }], state({ meals_logged: 300 }))).toEqual([]);
+  });
+});
+
+describe('applyEvent', () => {
+  it('measures weight lost from the baseline', () => {
+    const after = applyEvent({ ...state({}), baseline: { weightKg: 90 } }, { type: 'weight_logged', weightKg: 87.46 });
+    expect(after.progress.weight_lost_kg).toBe(2.5);
+  });
+
+  it('counts each water goal day once', () => {
+    let current = state({});
+    for (const date of ['2026-10-18', '2026-10-18', '2026-10-19']) {
+      current = applyEvent(current, { type: 'water_goal_hit', date });
+    }
+    expect(current.progress.water_goal_days).toBe(2);
+  });
+
+  it('counts a day of finished exercises as one workout', () => {
+    let current = state({});
+    for (const date of ['2026-10-18', '2026-10-18', '2026-10-18', '2026-10-19']) {
+      current = applyEvent(current, { type: 'workout_completed', date });
+    }
+    expect(current.progress.workouts_completed).toBe(2);
+    expect(newlyEarned([entry('workouts_10', 10, 'workouts_completed')], current)).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { User } from '../../types';
+import { estimateTdee, IntakeDay, proposeAdjustment, TdeeEstimate, WeighIn } from '../adaptiveTdeeService';
+import { addDaysToKey } from '../dateKeys';
+
+jest.mock('../storageService', () => ({ storageService: {} }));
+jest.mock('../databaseService', () => ({ databaseService: {} }));
+jest.mock('../syncService', () => ({ syncService: {}, mergeDailyLogs: jest.fn() }));
+jest.mock('../../config/supabase', () => ({ isSupabaseConfigured: false }));
+
+const START = '2026-09-21';
+
+// Consecutive days of intake from START
+const intake = (...calories: number[]): IntakeDay[] =>
+  calories.map((kcal, i) => ({ date: addDaysToKey(START, i), calories: kcal }));
+
+const steady = (kcal: number, count = 28) => intake(...Array(count).fill(kcal));
+
+// Weigh-ins as [day offset, kg]
+const weights = (...points: [number, number][]): WeighIn[] =>
+  points.map(([offset, weightKg]) => ({ date: addDaysToKey(START, offset), weightKg }));
+
+// Half a kilo lost per week
+const losing = weights([0, 80], [7, 79.5], [14, 79], [21, 78.5]);
+
+describe('estimateTdee', () => {
+  it('adds the energy of the weight lost to the average intake', () => {
+    const result = estimateTdee(steady(2500), losing);
+    // 0.5 kg/week × 7700 kcal/kg / 7 days = 550 kcal a day
+    expect(result).toEqual({
+      estimate: {
+        startDate: START,
+        endDate: addDaysToKey(START, 27),
+        loggedDays: 28,
+        averageIntake: 2500,
+        weighIns: 4,
+        startWeight: 80,
+        endWeight: 78.5,
+        weeklyChangeKg: -0.5,
+        tdee: 3050,
+      },
+    });
+  });
+
+  it('fits a line through the weigh-ins rather than comparing the ends', () => {
+    // A heavy last morning barely moves the trend
+    const noisy = weights([0, 80], [7, 80], [14, 80], [21, 81]);
+    const result = estimateTdee(steady(2500), noisy);
+    expect('estimate' in result && result.estimate.weeklyChangeKg).toBe(0.3);
+  });
+
+  it('leaves out days too small to have been logged completely', () => {
+    const result = estimateTdee(intake(...Array(12).fill(2000), 300, 500), weights([0, 70], [7, 70], [14, 70]));
+    expect('estimate' in result && result.estimate).toMatchObject({ loggedDays: 12, averageIntake: 2000, tdee: 2000 });
+  });
+
+  it.each([
+    ['fewer than 10 complete days', steady(2500, 9), losing, 'Log your meals on at least 10 days (9 so far'],
+    ['days under 800 kcal', intake(...Array(9).fill(2500), ...Array(19).fill(700)), losing, 'at least 10 days (9 so far'],
+    ['two weigh-ins', steady(2500), weights([0, 80], [21, 78.5]), 'Weigh in at least 3 times'],
+    ['weigh-ins spread over under 14 days', steady(2500), weights([0, 80], [6, 79.5], [13, 79]), 'over 14 days'],
+    // 900 kcal a day while gaining 1 kg a week
+    ['an estimate under 1000 kcal', steady(900), weights([0, 70], [7, 71], [14, 72]), 'plausible'],
+    // 5000 kcal a day while losing 2 kg a week
+    ['an estimate over 6000 kcal', steady(5000), weights([0, 90], [7, 88], [14, 86]), 'plausible'],
+  ])('reports insufficient data for %s', (_, days, weighIns, reason) => {
+    const result = estimateTdee(days, weighIns);
+    expect('reason' in result && result.reason).toContain(reason);
+  });
+});
+
+describe('proposeAdjustment', () => {
+  // Mifflin-St Jeor 1780 kcal × 1.55 = 2759 kcal to maintain
+  const user = {
+    id: 'u1', age: 30, gender: 'male', weight: 80, height: 180, exerciseLevel: 'moderate', goal: 'maintain',
+  } as User;
+
+  const estimate = (tdee: number): TdeeEstimate => ({
+    startDate: START, endDate: addDaysToKey(START, 27), loggedDays: 28, averageIntake: 2500,
+    weighIns: 4, startWeight: 80, endWeight: 78.5, weeklyChangeKg: -0.5, tdee,
+  });
+
+  it.each([
+    ['an estimate within 50 kcal', 2800, null],
+    ['a small difference', 2900, { measuredTdee: 2900, limited: false, calories: 2900 }],
+    ['a large difference, capped at 250 kcal', 3050, { measuredTdee: 3009, limited: true, calories: 3009 }],
+    ['a large drop, capped at 250 kcal', 2400, { measuredTdee: 2509, limited: true, calories: 2509 }],
+  ])('with %s', (_, tdee, expected) => {
+    const proposal = proposeAdjustment(user, estimate(tdee));
+    if (!expected) {
+      expect(proposal).toBeNull();
+      return;
+    }
+    expect(proposal).toMatchObject({
+      current: { tdee: 2759, daily_calories: 2759 },
+      proposed: { daily_calories: expected.calories, tdee_source: 'measured' },
+      measuredTdee: expected.measuredTdee,
+      limited: expected.limited,
+    });
+    expect(proposal!.explanation.some(line => line.includes('at most 250 kcal per week'))).toBe(expected.limited);
+  });
+
+  it('keeps the target at the calorie floor', () => {
+    // 1451.5 × 1.375 = 1996 kcal, less 550 to lose half a kilo a week
+    const losingUser = {
+      ...user, gender: 'female', weight: 70, height: 170, exerciseLevel: 'light', goal: 'lose', weeklyRateKg: 0.5,
+    } as User;
+    const proposal = proposeAdjustment(losingUser, estimate(1500));
+    expect(proposal).toMatchObject({
+      current: { daily_calories: 1446 },
+      proposed: { daily_calories: 1200, floorApplied: true },
+      measuredTdee: 1746,
+    });
+    expect(proposal!.explanation).toContain('Your target stays at the safe minimum of 1,200 kcal.');
+  });
+
+  it('proposes nothing when the floor already holds the target', () => {
+    const atFloor = {
+      ...user, gender: 'female', weight: 50, height: 160, age: 60, exerciseLevel: 'sedentary', goal: 'lose', weeklyRateKg: 1,
+    } as User;
+    expect(proposeAdjustment(atFloor, estimate(1000))).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { bodyFatOf, estimateBodyFat, waistToHeightRatio } from '../bodyCompositionService';
+
+describe('estimateBodyFat', () => {
+  it.each([
+    // 495 / (1.0324 − 0.19077 × log10(waist − neck) + 0.15456 × log10(height)) − 450
+    ['a man', { gender: 'male', heightCm: 178, neckCm: 38, waistCm: 86 }, 17.2],
+    // 495 / (1.29579 − 0.35004 × log10(waist + hips − neck) + 0.221 × log10(height)) − 450
+    ['a woman', { gender: 'female', heightCm: 165, neckCm: 32, waistCm: 72, hipsCm: 98 }, 27.4],
+    ['other, averaging both formulas', { gender: 'other', heightCm: 170, neckCm: 35, waistCm: 80, hipsCm: 100 }, 22.9],
+  ] as const)('estimates %s', (_, input, expected) => {
+    expect(estimateBodyFat(input)).toBe(expected);
+  });
+
+  it.each([
+    ['the neck is missing', { gender: 'male', heightCm: 178, waistCm: 86 }],
+    ['a woman has no hip measurement', { gender: 'female', heightCm: 165, neckCm: 32, waistCm: 72 }],
+    ['other has no hip measurement', { gender: 'other', heightCm: 170, neckCm: 35, waistCm: 80 }],
+    ['the waist is not larger than the neck', { gender: 'male', heightCm: 178, neckCm: 40, waistCm: 40 }],
+    ['the result is below 2%', { gender: 'male', heightCm: 180, neckCm: 40, waistCm: 42 }],
+    ['the result is above 70%', { gender: 'female', heightCm: 165, neckCm: 30, waistCm: 150, hipsCm: 170 }],
+  ] as const)('is null when %s', (_, input) => {
+    expect(estimateBodyFat(input)).toBeNull();
+  });
+});
+
+describe('waistToHeightRatio', () => {
+  it.each([
+    [66, 170, 0.39, 'low'],
+    [68, 170, 0.4, 'healthy'],
+    [83, 170, 0.49, 'healthy'],
+    [85, 170, 0.5, 'increased'],
+    [101, 170, 0.59, 'increased'],
+    [102, 170, 0.6, 'high'],
+  ])('rates a %icm waist at %icm tall as %f (%s)', (waist, height, ratio, category) => {
+    expect(waistToHeightRatio(waist, height)).toEqual({ ratio, category });
+  });
+});
+
+describe('bodyFatOf', () => {
+  const user = { gender: 'male', height: 178 } as const;
+
+  it('prefers the body fat entered by hand', () => {
+    expect(bodyFatOf({ body_fat_percentage: 15, neck_cm: 38, waist_cm: 86 }, user)).toBe(15);
+  });
+
+  it('falls back to the Navy estimate from the tape measurements', () => {
+    expect(bodyFatOf({ neck_cm: 38, waist_cm: 86 }, user)).toBe(17.2);
+  });
+
+  it('is null without body fat or tape measurements', () => {
+    expect(bodyFatOf({ weight_kg: 80 }, user)).toBeNull();
+  });
+});
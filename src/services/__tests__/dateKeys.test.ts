@@ -0,0 +1,27 @@
+import { dateAtClock, minutesOfDay } from '../dateKeys';
+
+describe('dateAtClock', () => {
+  it.each([
+    ['2026-10-19', 8 * 60, 'Asia/Tokyo', '2026-10-18T23:00:00.000Z'],
+    ['2026-01-10', 23 * 60 + 30, 'America/New_York', '2026-01-11T04:30:00.000Z'],
+    ['2026-03-08', 8 * 60, 'America/New_York', '2026-03-08T12:00:00.000Z'],
+    ['2026-11-01', 90, 'America/New_York', '2026-11-01T05:30:00.000Z'],
+  ])('%s at minute %i in %s', (key, minutes, timeZone, expected) => {
+    expect(dateAtClock(key, minutes, timeZone).toISOString()).toBe(expected);
+  });
+});
+
+describe('minutesOfDay', () => {
+  it.each([
+    ['2026-10-19T14:30:00Z', 'Asia/Tokyo', 23 * 60 + 30],
+    ['2026-01-11T04:30:00Z', 'America/New_York', 23 * 60 + 30],
+    ['2026-03-08T12:00:00Z', 'America/New_York', 8 * 60],
+    ['2026-10-19T00:00:00Z', 'UTC', 0],
+  ])('%s in %s', (iso, timeZone, expected) => {
+    expect(minutesOfDay(new Date(iso), timeZone)).toBe(expected);
+  });
+
+  it('reads back the clock time dateAtClock was given', () => {
+    expect(minutesOfDay(dateAtClock('2026-11-01', 14 * 60 + 5, 'Europe/Berlin'), 'Europe/Berlin')).toBe(14 * 60 + 5);
+  });
+});
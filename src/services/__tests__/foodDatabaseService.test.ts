@@ -0,0 +1,145 @@
+import { FoodDatabaseService, FoodItem, USDAFoodNutrient, USDA_NUTRIENT_IDS } from '../foodDatabaseService';
+import searchFixture from './fixtures/usdaSearch.json';
+import foodFixture from './fixtures/usdaFood.json';
+
+jest.mock('../../config/api', () => {
+  const actual = jest.requireActual('../../config/api');
+  return { ...actual, USDA_CONFIG: { ...actual.USDA_CONFIG, API_KEY: 'test-key' } };
+});
+
+// Replays a recorded response and keeps the requested URLs
+const replay = (body: unknown, status = 200) => {
+  const urls: string[] = [];
+  const fetchImpl = async (input: string) => {
+    urls.push(input);
+    return new Response(JSON.stringify(body), { status });
+  };
+  return { service: new FoodDatabaseService(fetchImpl), urls };
+};
+
+describe('mapNutrients', () => {
+  const service = new FoodDatabaseService();
+  const flat = (entries: [number, number][]): USDAFoodNutrient[] =>
+    entries.map(([nutrientId, value]) => ({ nutrientId, value }));
+  const { ENERGY_KCAL, ENERGY_ATWATER_GENERAL, ENERGY_ATWATER_SPECIFIC, PROTEIN, FAT, CARBS, CAFFEINE, ALCOHOL, SODIUM } =
+    USDA_NUTRIENT_IDS;
+
+  it.each([
+    ['energy in kcal', flat([[ENERGY_KCAL, 89.4]]), { calories: 89 }],
+    ['Atwater specific energy over general', flat([[ENERGY_ATWATER_GENERAL, 64.7], [ENERGY_ATWATER_SPECIFIC, 61.9]]), { calories: 62 }],
+    ['Atwater general energy alone', flat([[ENERGY_ATWATER_GENERAL, 64.7]]), { calories: 65 }],
+    ['energy derived from macros', flat([[PROTEIN, 10], [CARBS, 20], [FAT, 5]]), { calories: 165, protein: 10, carbs: 20, fats: 5 }],
+    ['the first value for a repeated id', flat([[PROTEIN, 3.14], [PROTEIN, 9]]), { protein: 3.1 }],
+    ['sodium in whole mg', flat([[SODIUM, 4.6]]), { sodium: 5 }],
+    ['caffeine and alcohol', flat([[CAFFEINE, 9.6], [ALCOHOL, 3.94]]), { caffeine: 10, alcohol: 3.9 }],
+    ['nested detail entries', [{ nutrient: { id: PROTEIN, unitName: 'g' }, amount: 1.09 }], { protein: 1.1 }],
+  ])('maps %s', (_, nutrients, expected) => {
+    expect(service.mapNutrients(nutrients)).toMatchObject(expected);
+  });
+
+  it('leaves out micronutrients USDA does not list', () => {
+    const nutrition = service.mapNutrients(flat([[ENERGY_KCAL, 100]]));
+    expect(nutrition).not.toHaveProperty('caffeine');
+    expect(nutrition).not.toHaveProperty('vitaminC');
+  });
+});
+
+describe('searchFoods', () => {
+  it('requests the search endpoint with the query, datasets and key', async () => {
+    const { service, urls } = replay(searchFixture);
+    await service.searchFoods('  banana ', 10);
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).toContain('/foods/search?query=banana&pageSize=10&dataType=Foundation%2CSR%20Legacy');
+    expect(urls[0]).toMatch(/&api_key=test-key$/);
+  });
+
+  it('maps the flat nutrients of search results', async () => {
+    const { service } = replay(searchFixture);
+    const [banana, cola, apple] = await service.searchFoods('banana');
+
+    expect(banana).toMatchObject({
+      fdcId: 173944,
+      name: 'Bananas, raw',
+      dataType: 'SR Legacy',
+      nutritionPer100g: {
+        calories: 89, protein: 1.1, carbs: 22.8, fats: 0.3, fiber: 2.6, sugar: 12.2, sodium: 1,
+        potassium: 358, calcium: 5, iron: 0.3, vitaminC: 8.7, vitaminA: 3,
+      },
+      unit: 'g',
+      portions: [{ label: '100 g', amount: 100 }],
+    });
+    expect(cola).toMatchObject({
+      brand: 'FIZZ',
+      nutritionPer100g: { calories: 39, caffeine: 10 },
+      unit: 'ml',
+      portions: [{ label: '100 ml', amount: 100 }, { label: '1 can (355 ml)', amount: 355 }],
+    });
+    expect(apple.nutritionPer100g.calories).toBe(62);
+  });
+
+  it('skips the request for a blank query', async () => {
+    const { service, urls } = replay(searchFixture);
+    expect(await service.searchFoods('   ')).toEqual([]);
+    expect(urls).toEqual([]);
+  });
+
+  it('throws on an error response', async () => {
+    const { service } = replay({ error: 'API_KEY_INVALID' }, 403);
+    await expect(service.searchFoods('banana')).rejects.toThrow('USDA API Error: 403');
+  });
+});
+
+describe('getFood', () => {
+  it('maps the nested nutrients and household portions of a detail response', async () => {
+    const { service, urls } = replay(foodFixture);
+    const banana = await service.getFood(173944);
+
+    expect(urls[0]).toMatch(/\/food\/173944\?api_key=test-key$/);
+    expect(banana.nutritionPer100g).toMatchObject({ calories: 89, protein: 1.1, carbs: 22.8, potassium: 358, caffeine: 0 });
+    // Portions without a gram weight are dropped
+    expect(banana.portions).toEqual([
+      { label: '100 g', amount: 100 },
+      { label: '1 medium (7" to 7-7/8" long) (118 g)', amount: 118 },
+      { label: '1 cup, sliced (150 g)', amount: 150 },
+    ]);
+  });
+});
+
+describe('createFoodLog', () => {
+  const service = new FoodDatabaseService();
+  const banana: FoodItem = service.mapFood(foodFixture);
+
+  // Scaled from the per-100 g values as shown (protein 1.1, carbs 22.8)
+  it.each([
+    [100, { calories: 89, protein: 1.1, carbs: 22.8, potassium: 358 }],
+    [150, { calories: 134, protein: 1.7, carbs: 34.2, fiber: 3.9, sugar: 18.3, potassium: 537, vitaminC: 13.1 }],
+    [118, { calories: 105, protein: 1.3, carbs: 26.9, sodium: 1 }],
+    [0, { calories: 0, protein: 0, potassium: 0 }],
+  ])('scales %i g of the per-100 g values', (grams, expected) => {
+    const log = service.createFoodLog('user-1', banana, grams, 'snack', '2026-10-19');
+    expect(log.nutrition_consumed).toMatchObject(expected);
+  });
+
+  it('describes the portion and source', () => {
+    const log = service.createFoodLog('user-1', banana, 118.4, 'breakfast', '2026-10-19');
+    expect(log).toMatchObject({
+      user_id: 'user-1',
+      log_date: '2026-10-19',
+      meal_type: 'breakfast',
+      food_name: 'Bananas, raw',
+      ingredients: ['118 g Bananas, raw'],
+      description: '118 g · USDA FoodData Central #173944',
+    });
+    expect(log.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('names the brand of branded foods and measures drinks in ml', () => {
+    const cola = service.mapFood(searchFixture.foods[1]);
+    expect(service.createFoodLog('user-1', cola, 355, 'snack', '2026-10-19')).toMatchObject({
+      food_name: 'COLA (FIZZ)',
+      ingredients: ['355 ml COLA'],
+      description: '355 ml · USDA FoodData Central #2345678',
+      nutrition_consumed: { calories: 138, caffeine: 36, sugar: 37.6 },
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { BeverageType, WaterIntake } from '../../types';
+import { beverageCalories, beverageNutrients, beverageNutrition, hydrationMl } from '../hydrationService';
+
+jest.mock('../databaseService', () => ({ databaseService: {} }));
+jest.mock('../../config/supabase', () => ({ isSupabaseConfigured: false }));
+
+const drink = (beverage: BeverageType, amountMl: number): WaterIntake => ({
+  id: `${beverage}-${amountMl}`,
+  user_id: 'u1',
+  intake_date: '2026-10-19',
+  amount_ml: amountMl,
+  beverage_type: beverage,
+  hydration_ml: hydrationMl(amountMl, beverage),
+  ...beverageNutrients(amountMl, beverage),
+  intake_time: '2026-10-19T12:00:00.000Z',
+  created_at: '2026-10-19T12:00:00.000Z',
+});
+
+describe('beverageNutrition', () => {
+  it.each([
+    ['water', 500, { calories: 0, protein: 0, carbs: 0, fats: 0 }],
+    ['milk', 500, { calories: 311, protein: 16.5, carbs: 24, fats: 16.5, sugar: 26 }],
+    ['juice', 250, { calories: 116, protein: 1.8, carbs: 26, fats: 0.5 }],
+    ['energy_drink', 250, { calories: 110, carbs: 27.5, sugar: 27.5, caffeine: 80 }],
+    // 13 g of alcohol at 7 kcal/g on top of the beer's carbs and protein
+    ['beer', 330, { calories: 145, protein: 1.7, carbs: 11.9, alcohol: 13 }],
+  ] as [BeverageType, number, object][])('counts %s (%i ml)', (beverage, amountMl, expected) => {
+    expect(beverageNutrition([drink(beverage, amountMl)])).toMatchObject(expected);
+  });
+
+  it('adds up a day of drinks', () => {
+    const day = beverageNutrition([drink('milk', 250), drink('coffee', 250), drink('juice', 250)]);
+    expect(day).toMatchObject({ protein: 10, carbs: 38, caffeine: 100 });
+    expect(day.calories).toBe(271);
+  });
+
+  it('labels quick-add sizes with the same energy', () => {
+    expect(beverageCalories(500, 'milk')).toBe(311);
+    expect(beverageCalories(330, 'beer')).toBe(145);
+    expect(beverageCalories(250, 'tea')).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { cleanIngredientName, ingredientKey, parseIngredient, parseQuantity, toIngredient } from '../ingredientParser';
+
+describe('parseQuantity', () => {
+  it.each([
+    ['2', 2],
+    ['1.5', 1.5],
+    ['1/2', 0.5],
+    ['1 1/2', 1.5],
+    ['½', 0.5],
+    ['1½', 1.5],
+    ['1 ¾', 1.75],
+    ['1/0', null],
+    ['', null],
+    ['some', null],
+  ])('%p -> %p', (text, expected) => {
+    expect(parseQuantity(text)).toBe(expected);
+  });
+});
+
+describe('parseIngredient', () => {
+  it.each([
+    // digits, fractions and units
+    ['1 1/2 cups rolled oats', { quantity: 1.5, quantityMax: null, unit: 'cup', name: 'rolled oats' }],
+    ['200g chicken breast, diced', { quantity: 200, unit: 'g', name: 'chicken breast' }],
+    ['2 tablespoons olive oil', { quantity: 2, unit: 'tbsp', name: 'olive oil' }],
+    ['3 fluid ounces milk', { quantity: 3, unit: 'fl oz', name: 'milk' }],
+    ['3 eggs', { quantity: 3, unit: null, name: 'eggs' }],
+    // ranges
+    ['2-3 cloves garlic', { quantity: 2, quantityMax: 3, unit: 'clove', name: 'garlic' }],
+    ['1 – 2 tsp honey', { quantity: 1, quantityMax: 2, unit: 'tsp', name: 'honey' }],
+    ['4 to 6 slices bacon', { quantity: 4, quantityMax: 6, unit: 'slice', name: 'bacon' }],
+    // unicode fractions
+    ['½ cup milk', { quantity: 0.5, unit: 'cup', name: 'milk' }],
+    ['1½ tbsp butter', { quantity: 1.5, unit: 'tbsp', name: 'butter' }],
+    ['¼ tsp salt', { quantity: 0.25, unit: 'tsp', name: 'salt' }],
+    // word quantities
+    ['a pinch of salt', { quantity: 1, unit: 'pinch', name: 'salt' }],
+    ['two large eggs', { quantity: 2, unit: null, name: 'eggs' }],
+    ['a couple of sprigs thyme', { quantity: 2, unit: 'sprig', name: 'thyme' }],
+    ['half an onion', { quantity: 0.5, unit: null, name: 'onion' }],
+    ['a dozen eggs', { quantity: 12, unit: null, name: 'eggs' }],
+    // no quantity
+    ['salt and pepper to taste', { quantity: null, quantityMax: null, unit: null, name: 'salt and pepper' }],
+    ['a little olive oil', { quantity: null, unit: null, name: 'olive oil' }],
+    ['pinch of nutmeg', { quantity: 1, unit: 'pinch', name: 'nutmeg' }],
+    // package sizes multiply the count
+    ['2 (400 g) cans chickpeas', { quantity: 800, unit: 'g', name: 'chickpeas' }],
+  ])('%p', (line, expected) => {
+    expect(parseIngredient(line)).toMatchObject(expected);
+  });
+
+  it.each([
+    ['1 1/2 cups rolled oats', { amount: 354.88, unit: 'ml' }],
+    ['2 tbsp olive oil', { amount: 29.57, unit: 'ml' }],
+    ['1 lb ground beef', { amount: 453.59, unit: 'g' }],
+    ['8 oz cheddar', { amount: 226.8, unit: 'g' }],
+    ['1.5 kg potatoes', { amount: 1500, unit: 'g' }],
+    ['1 l stock', { amount: 1000, unit: 'ml' }],
+    ['2 (400 g) cans tomatoes', { amount: 800, unit: 'g' }],
+    ['3 cloves garlic', null],
+    ['3 eggs', null],
+  ])('normalises %p to grams or millilitres', (line, expected) => {
+    expect(parseIngredient(line).normalized).toEqual(expected);
+  });
+});
+
+describe('toIngredient', () => {
+  it.each([
+    ['250 ml milk', { name: 'milk', amount: 250, unit: 'ml' }],
+    ['2 cloves garlic', { name: 'garlic', amount: 2, unit: 'clove' }],
+    ['3 eggs', { name: 'eggs', amount: 3, unit: 'piece' }],
+    ['salt to taste', { name: 'salt', amount: 0, unit: 'to taste' }],
+  ])('%p', (line, expected) => {
+    expect(toIngredient(parseIngredient(line))).toEqual(expected);
+  });
+});
+
+describe('ingredient names', () => {
+  it.each([
+    ['Chicken breast (boneless), diced', 'chicken breast'],
+    ['large red onion', 'red onion'],
+    ['fresh basil, for garnish', 'fresh basil'],
+  ])('cleans %p to %p', (name, expected) => {
+    expect(cleanIngredientName(name)).toBe(expected);
+  });
+
+  it.each([
+    ['tomatoes', 'tomato'],
+    ['cherries', 'cherry'],
+    ['Red Onions, sliced', 'red onion'],
+    ['hummus', 'hummus'],
+  ])('keys %p as %p', (name, expected) => {
+    expect(ingredientKey(name)).toBe(expected);
+  });
+});
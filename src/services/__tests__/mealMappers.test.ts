@@ -0,0 +1,47 @@
+import { DailyLog } from '../../types';
+import { mergeFoodIntoLog } from '../mealMappers';
+
+const log = (overrides: Partial<DailyLog>): DailyLog => ({
+  id: 'slot',
+  user_id: 'u1',
+  log_date: '2026-10-19',
+  meal_type: 'lunch',
+  food_name: 'Rice',
+  nutrition_consumed: { calories: 200, protein: 4, carbs: 44, fats: 0.4 },
+  ingredients: ['150 g Rice'],
+  created_at: '2026-10-19T12:00:00.000Z',
+  ...overrides,
+});
+
+describe('mergeFoodIntoLog', () => {
+  const food = log({
+    id: 'food',
+    food_name: 'Chicken breast',
+    nutrition_consumed: { calories: 165, protein: 31, carbs: 0, fats: 3.6 },
+    ingredients: ['100 g Chicken breast'],
+    description: '100 g · USDA FoodData Central #171077',
+  });
+
+  it('adds the food to the slot entry under its id', () => {
+    const merged = mergeFoodIntoLog(log({}), food, '2026-10-19T12:30:00.000Z');
+    expect(merged).toMatchObject({
+      id: 'slot',
+      food_name: 'Rice, Chicken breast',
+      nutrition_consumed: { calories: 365, protein: 35, carbs: 44, fats: 4 },
+      ingredients: ['150 g Rice', '100 g Chicken breast'],
+      description: '100 g · USDA FoodData Central #171077',
+      updated_at: '2026-10-19T12:30:00.000Z',
+    });
+  });
+
+  it('folds an edited portion into the total', () => {
+    const halved = log({
+      portion: 0.5,
+      baseNutrition: { calories: 400, protein: 8, carbs: 88, fats: 0.8 },
+    });
+    const merged = mergeFoodIntoLog(halved, food, '2026-10-19T12:30:00.000Z');
+    expect(merged.portion).toBeUndefined();
+    expect(merged.baseNutrition).toBeUndefined();
+    expect(merged.nutrition_consumed.calories).toBe(365);
+  });
+});
@@ -0,0 +1,6 @@
+// expo-crypto calls into the native module; Node's crypto stands in for it
+import { randomUUID as nodeRandomUUID } from 'crypto';
+
+export function randomUUID(): string {
+  return nodeRandomUUID();
+}
@@ -0,0 +1,108 @@
+import {
+  calculateBMR,
+  calculateNutritionTargets,
+  MACRO_PRESETS,
+  splitMacros,
+  TargetInput,
+  weeklyRateFor,
+} from '../nutritionTargetService';
+import { MacroPreset } from '../../types';
+
+const male: TargetInput = { age: 30, gender: 'male', weight: 80, height: 180, exerciseLevel: 'moderate' };
+const female: TargetInput = { age: 40, gender: 'female', weight: 65, height: 165, exerciseLevel: 'light' };
+
+describe('calculateBMR', () => {
+  it.each([
+    // 10 × kg + 6.25 × cm − 5 × age + sex constant
+    ['Mifflin-St Jeor for a man', male, 1780, 'mifflin_st_jeor'],
+    ['Mifflin-St Jeor for a woman', female, 1320.25, 'mifflin_st_jeor'],
+    ['Mifflin-St Jeor halfway between for other', { ...male, gender: 'other' }, 1697, 'mifflin_st_jeor'],
+    // 370 + 21.6 × lean mass
+    ['Katch-McArdle with body fat', { ...male, bodyFatPercentage: 20 }, 370 + 21.6 * 64, 'katch_mcardle'],
+    ['Mifflin-St Jeor for an implausible body fat', { ...male, bodyFatPercentage: 2 }, 1780, 'mifflin_st_jeor'],
+    ['Mifflin-St Jeor for a body fat over 70%', { ...male, bodyFatPercentage: 75 }, 1780, 'mifflin_st_jeor'],
+  ] as [string, TargetInput, number, string][])('uses %s', (_, input, bmr, formula) => {
+    const result = calculateBMR(input);
+    expect(result.bmr).toBeCloseTo(bmr, 5);
+    expect(result.formula).toBe(formula);
+  });
+});
+
+describe('weeklyRateFor', () => {
+  it.each([
+    [{}, 0],
+    [{ goal: 'maintain', weeklyRateKg: 0.5 }, 0],
+    [{ goal: 'lose' }, 0.5],
+    [{ goal: 'gain' }, 0.25],
+    [{ goal: 'lose', weeklyRateKg: 0.75 }, 0.75],
+    [{ goal: 'lose', weeklyRateKg: 2 }, 1],
+    [{ goal: 'gain', weeklyRateKg: 1 }, 0.5],
+    [{ goal: 'lose', weeklyRateKg: -1 }, 0],
+  ] as [Partial<TargetInput>, number][])('for %j is %s kg', (goal, expected) => {
+    expect(weeklyRateFor({ ...male, ...goal })).toBe(expected);
+  });
+});
+
+describe('splitMacros', () => {
+  it.each([
+    ['balanced', { protein_grams: 125, carbs_grams: 225, fats_grams: 67 }],
+    ['high_protein', { protein_grams: 175, carbs_grams: 175, fats_grams: 67 }],
+    ['low_carb', { protein_grams: 150, carbs_grams: 100, fats_grams: 111 }],
+    ['keto', { protein_grams: 125, carbs_grams: 25, fats_grams: 156 }],
+  ] as [MacroPreset, object][])('splits 2000 kcal %s', (preset, expected) => {
+    expect(splitMacros(2000, preset)).toEqual(expected);
+  });
+
+  it('uses presets that add up to all the calories', () => {
+    for (const split of Object.values(MACRO_PRESETS)) {
+      expect(split.protein + split.carbs + split.fats).toBeCloseTo(1, 10);
+    }
+  });
+});
+
+describe('calculateNutritionTargets', () => {
+  const cases: { name: string; input: TargetInput; calories: number; tdee: number; floor?: boolean }[] = [
+    // 1780 × 1.55
+    { name: 'maintains at BMR × activity', input: male, calories: 2759, tdee: 2759 },
+    { name: 'loses the default half a kilo a week', input: { ...male, goal: 'lose' }, calories: 2209, tdee: 2759 },
+    { name: 'gains the default quarter kilo a week', input: { ...male, goal: 'gain' }, calories: 3034, tdee: 2759 },
+    { name: 'loses at a chosen rate', input: { ...male, goal: 'lose', weeklyRateKg: 1 }, calories: 1659, tdee: 2759 },
+    // 1320.25 × 1.375 = 1815, less 1100 for a kilo a week
+    {
+      name: 'stops at the floor for women',
+      input: { ...female, goal: 'lose', weeklyRateKg: 1 },
+      calories: 1200,
+      tdee: 1815,
+      floor: true,
+    },
+    {
+      name: 'stops at the floor for men',
+      input: { ...male, weight: 60, height: 165, age: 70, exerciseLevel: 'sedentary', goal: 'lose', weeklyRateKg: 1 },
+      calories: 1500,
+      tdee: 1544,
+      floor: true,
+    },
+    {
+      name: 'stops at the floor for other',
+      input: { ...female, gender: 'other', goal: 'lose', weeklyRateKg: 1 },
+      calories: 1350,
+      tdee: 1929,
+      floor: true,
+    },
+    { name: 'uses a measured TDEE over the formula', input: { ...male, measuredTdee: 3000, goal: 'lose' }, calories: 2450, tdee: 3000 },
+  ];
+
+  it.each(cases)('$name', ({ input, calories, tdee, floor = false }) => {
+    const targets = calculateNutritionTargets(input);
+    expect(targets.daily_calories).toBe(calories);
+    expect(targets.tdee).toBe(tdee);
+    expect(targets.floorApplied).toBe(floor);
+    expect(targets.tdee_source).toBe(input.measuredTdee ? 'measured' : 'formula');
+  });
+
+  it('splits the target by the macro preset', () => {
+    const targets = calculateNutritionTargets({ ...male, macroPreset: 'keto' });
+    expect(targets).toMatchObject(splitMacros(2759, 'keto'));
+    expect(targets).toMatchObject({ fiber_grams: 39, sugar_grams: 69, sodium_mg: 2300, bmr: 1780 });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  isInQuietHours,
+  isPastCaffeineCutoff,
+  planReminders,
+  ReminderDayState,
+  ReminderSettings,
+} from '../reminderPlanner';
+import { setTimeZone } from '../dateKeys';
+
+const settings = (overrides: Partial<ReminderSettings> = {}): ReminderSettings => ({
+  ...DEFAULT_REMINDER_SETTINGS,
+  enabled: true,
+  ...overrides,
+});
+
+const nothingDone: ReminderDayState = { loggedMealTypes: [], hydrationGoalMet: false, dayComplete: false };
+
+// 2026-10-19 in the device zone, at a clock time
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+const idsOn = (reminders: { identifier: string }[], date: string) =>
+  reminders.map(r => r.identifier).filter(id => id.includes(date));
+
+describe('isInQuietHours', () => {
+  const clock = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3));
+
+  it.each([
+    ['22:00', '07:00', '23:30', true],
+    ['22:00', '07:00', '00:00', true],
+    ['22:00', '07:00', '06:59', true],
+    ['22:00', '07:00', '07:00', false],
+    ['22:00', '07:00', '21:59', false],
+    ['13:00', '14:00', '13:30', true],
+    ['13:00', '14:00', '14:00', false],
+    ['13:00', '13:00', '13:00', false],
+  ])('%s-%s at %s is %s', (start, end, time, expected) => {
+    const quiet = settings({ quietHours: { enabled: true, start, end } });
+    expect(isInQuietHours(quiet, clock(time))).toBe(expected);
+  });
+
+  it('is never quiet when disabled', () => {
+    expect(isInQuietHours(settings({ quietHours: { enabled: false, start: '22:00', end: '07:00' } }), 23 * 60)).toBe(false);
+  });
+});
+
+describe('isPastCaffeineCutoff', () => {
+  it.each([
+    [13 * 60 + 59, true, false],
+    [14 * 60, true, true],
+    [20 * 60, false, false],
+  ])('at minute %i with the cutoff enabled=%s is %s', (minutes, enabled, expected) => {
+    expect(isPastCaffeineCutoff(settings({ caffeineCutoff: { enabled, time: '14:00' } }), minutes)).toBe(expected);
+  });
+});
+
+describe('planReminders', () => {
+  it('plans nothing while reminders are off', () => {
+    expect(planReminders({ ...settings(), enabled: false }, nothingDone, at(6))).toEqual([]);
+  });
+
+  it('skips reminders inside quiet hours that wrap past midnight', () => {
+    const late = settings({
+      meals: {
+        ...DEFAULT_REMINDER_SETTINGS.meals,
+        breakfast: { enabled: true, time: '06:30' },
+        dinner: { enabled: true, time: '22:30' },
+      },
+    });
+    const ids = idsOn(planReminders(late, nothingDone, at(0, 5), 1), '2026-10-19');
+    expect(ids).not.toContain('nutripro-meal-2026-10-19-breakfast');
+    expect(ids).not.toContain('nutripro-meal-2026-10-19-dinner');
+    expect(ids).toContain('nutripro-meal-2026-10-19-lunch');
+  });
+
+  it('leaves out meals already logged today, but not tomorrow', () => {
+    const plan = planReminders(settings(), { ...nothingDone, loggedMealTypes: ['breakfast', 'lunch'] }, at(6), 2);
+    expect(idsOn(plan, '2026-10-19').filter(id => id.includes('-meal-'))).toEqual(['nutripro-meal-2026-10-19-dinner']);
+    expect(idsOn(plan, '2026-10-20')).toEqual(
+      expect.arrayContaining(['nutripro-meal-2026-10-20-breakfast', 'nutripro-meal-2026-10-20-lunch'])
+    );
+  });
+
+  it('leaves out water once the goal is met today', () => {
+    const plan = planReminders(settings(), { ...nothingDone, hydrationGoalMet: true }, at(6), 2);
+    expect(plan.filter(r => r.kind === 'water' && r.identifier.includes('2026-10-19'))).toEqual([]);
+    expect(plan.filter(r => r.kind === 'water' && r.identifier.includes('2026-10-20')).length).toBeGreaterThan(0);
+  });
+
+  it('leaves out the close-day reminder once the day is complete', () => {
+    const plan = planReminders(settings(), { ...nothingDone, dayComplete: true }, at(6), 1);
+    expect(plan.some(r => r.kind === 'closeday')).toBe(false);
+  });
+
+  it('only plans times still ahead, dropping one due right now', () => {
+    const now = at(13);
+    const plan = planReminders(settings(), nothingDone, now, 1);
+    expect(plan.every(r => r.date > now)).toBe(true);
+    expect(idsOn(plan, '2026-10-19')).toEqual([
+      'nutripro-caffeine-2026-10-19',
+      'nutripro-water-2026-10-19-900',
+      'nutripro-water-2026-10-19-1020',
+      'nutripro-meal-2026-10-19-dinner',
+      'nutripro-water-2026-10-19-1140',
+      'nutripro-closeday-2026-10-19',
+    ]);
+  });
+
+  it('plans tomorrow in full when today is over', () => {
+    const plan = planReminders(settings(), nothingDone, at(23), 2);
+    expect(idsOn(plan, '2026-10-19')).toEqual([]);
+    expect(plan[0].identifier).toBe('nutripro-meal-2026-10-20-breakfast');
+  });
+});
+
+describe('planReminders in the profile timezone', () => {
+  afterEach(() => setTimeZone(undefined));
+
+  it('keys and times reminders by the profile day, not the device one', () => {
+    setTimeZone('Asia/Tokyo');
+    // 23:30 in Tokyo on the 19th: the rest of that day is quiet hours
+    const plan = planReminders(settings(), nothingDone, new Date('2026-10-19T14:30:00Z'), 2);
+    expect(idsOn(plan, '2026-10-19')).toEqual([]);
+    expect(plan[0]).toMatchObject({
+      identifier: 'nutripro-meal-2026-10-20-breakfast',
+      date: new Date('2026-10-19T23:00:00Z'),
+    });
+  });
+
+  it('keeps clock times across a DST change', () => {
+    setTimeZone('America/New_York');
+    const plan = planReminders(settings(), nothingDone, new Date('2026-03-07T10:00:00Z'), 2);
+    const breakfasts = plan.filter(r => r.identifier.endsWith('-breakfast')).map(r => r.date.toISOString());
+    expect(breakfasts).toEqual(['2026-03-07T13:00:00.000Z', '2026-03-08T12:00:00.000Z']);
+  });
+});
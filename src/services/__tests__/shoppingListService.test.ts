@@ -0,0 +1,46 @@
+import { buildShoppingItems, categorizeIngredient } from '../shoppingListService';
+import { Meal } from '../../types';
+
+jest.mock('../databaseService', () => ({ databaseService: {} }));
+jest.mock('../../config/supabase', () => ({ supabase: {}, isSupabaseConfigured: false, TABLES: {} }));
+
+describe('categorizeIngredient', () => {
+  it.each([
+    // a phrase beats a single word from an earlier aisle
+    ['peanut butter', 'Grains & Pantry'],
+    ['crunchy almond butter', 'Grains & Pantry'],
+    ['almond milk', 'Beverages'],
+    ['unsweetened oat milk', 'Beverages'],
+    ['coconut milk', 'Grains & Pantry'],
+    ['green beans', 'Produce'],
+    ['bean sprouts', 'Produce'],
+    ['black pepper', 'Spices & Condiments'],
+    // single words keep aisle order
+    ['butter', 'Dairy & Eggs'],
+    ['milk', 'Dairy & Eggs'],
+    ['black beans', 'Grains & Pantry'],
+    ['red bell pepper', 'Produce'],
+    ['vegetable broth', 'Grains & Pantry'],
+    ['frozen peas', 'Frozen'],
+    ['chicken breast', 'Meat & Seafood'],
+    ['eggs', 'Dairy & Eggs'],
+    ['saffron threads', 'Other'],
+  ])('%p goes to %p', (name, category) => {
+    expect(categorizeIngredient(name)).toBe(category);
+  });
+});
+
+describe('buildShoppingItems', () => {
+  const meal = (name: string, ingredients: string[]) => ({ name, ingredients }) as Meal;
+
+  it('merges the same ingredient across meals and categorizes it', () => {
+    const items = buildShoppingItems([
+      meal('Toast', ['2 tbsp peanut butter', '1 cup almond milk']),
+      meal('Smoothie', ['1 tbsp peanut butter', '200 g green beans']),
+    ]);
+    const byName = Object.fromEntries(items.map(item => [item.ingredient_name, item]));
+    expect(byName['peanut butter']).toMatchObject({ category: 'Grains & Pantry', recipe_reference: 'Toast, Smoothie' });
+    expect(byName['almond milk'].category).toBe('Beverages');
+    expect(byName['green beans'].category).toBe('Produce');
+  });
+});
@@ -0,0 +1,116 @@
+import { computeStreak, FREEZE_EARN_DAYS, toggleVacation } from '../streakService';
+import { addDaysToKey, toDateKey } from '../dateKeys';
+import { VacationPeriod } from '../../types';
+
+// Consecutive date keys starting at `from`
+const days = (from: string, count: number) => Array.from({ length: count }, (_, i) => addDaysToKey(from, i));
+
+// Date keys of instants as seen from a timezone
+const keysIn = (timeZone: string, instants: string[]) => instants.map(iso => toDateKey(new Date(iso), timeZone));
+
+describe('computeStreak', () => {
+  const cases: {
+    name: string;
+    active: string[];
+    vacations?: VacationPeriod[];
+    today: string;
+    current: number;
+    longest?: number;
+    frozen?: string[];
+  }[] = [
+    {
+      // 23:30 EST is 04:30 UTC the next day
+      name: 'logs at 23:30 in UTC-5 stay on their local day',
+      active: keysIn('America/New_York', ['2026-01-11T04:30:00Z', '2026-01-12T04:30:00Z', '2026-01-13T04:30:00Z']),
+      today: toDateKey(new Date('2026-01-13T04:45:00Z'), 'America/New_York'),
+      current: 3,
+    },
+    {
+      // 23:30 JST is 14:30 UTC the same day; just after midnight JST the
+      // new day has not been logged yet
+      name: 'logs at 23:30 in UTC+9 stay on their local day',
+      active: keysIn('Asia/Tokyo', ['2026-01-10T14:30:00Z', '2026-01-11T14:30:00Z', '2026-01-12T14:30:00Z']),
+      today: toDateKey(new Date('2026-01-12T15:05:00Z'), 'Asia/Tokyo'),
+      current: 3,
+    },
+    {
+      // New York falls back on 2026-11-01: that day is 25 hours long
+      name: 'crossing the autumn DST change',
+      active: keysIn('America/New_York', ['2026-11-01T03:30:00Z', '2026-11-02T04:30:00Z', '2026-11-03T04:30:00Z']),
+      today: '2026-11-02',
+      current: 3,
+    },
+    {
+      // ...and springs forward on 2026-03-08, a 23-hour day
+      name: 'crossing the spring DST change',
+      active: keysIn('America/New_York', ['2026-03-08T04:30:00Z', '2026-03-09T03:30:00Z', '2026-03-10T03:30:00Z']),
+      today: '2026-03-09',
+      current: 3,
+    },
+    {
+      name: 'a one-day gap covered by an earned freeze',
+      active: [...days('2026-10-01', FREEZE_EARN_DAYS), ...days('2026-10-09', 2)],
+      today: '2026-10-10',
+      current: FREEZE_EARN_DAYS + 2,
+      frozen: ['2026-10-08'],
+    },
+    {
+      name: 'a gap longer than the freezes available breaks the streak',
+      active: [...days('2026-10-01', FREEZE_EARN_DAYS), ...days('2026-10-10', 2)],
+      today: '2026-10-11',
+      current: 2,
+      longest: FREEZE_EARN_DAYS,
+      frozen: ['2026-10-08'],
+    },
+    {
+      name: 'an open vacation pauses the streak',
+      active: days('2026-10-01', 3),
+      vacations: [{ start: '2026-10-04' }],
+      today: '2026-10-10',
+      current: 3,
+    },
+    {
+      name: 'today not yet logged does not break the streak',
+      active: days('2026-10-15', 4),
+      today: '2026-10-19',
+      current: 4,
+    },
+    {
+      name: 'a missed yesterday without freezes does',
+      active: days('2026-10-15', 3),
+      today: '2026-10-19',
+      current: 0,
+      longest: 3,
+    },
+  ];
+
+  it.each(cases)('$name', ({ active, vacations = [], today, current, longest, frozen = [] }) => {
+    const result = computeStreak(active, vacations, today);
+    expect(result.current).toBe(current);
+    expect(result.longest).toBe(longest ?? current);
+    expect(result.frozenDates).toEqual(frozen);
+  });
+
+  it('keys a late UTC-5 log to its local day, not the UTC one', () => {
+    expect(keysIn('America/New_York', ['2026-01-11T04:30:00Z'])).toEqual(['2026-01-10']);
+  });
+
+  it('ignores logs dated after today', () => {
+    expect(computeStreak(['2026-10-18', '2026-10-20'], [], '2026-10-19').current).toBe(1);
+  });
+});
+
+describe('toggleVacation', () => {
+  it('starts a vacation today', () => {
+    expect(toggleVacation([], '2026-10-19')).toEqual([{ start: '2026-10-19' }]);
+  });
+
+  it('ends the open vacation yesterday', () => {
+    expect(toggleVacation([{ start: '2026-10-10' }], '2026-10-19')).toEqual([{ start: '2026-10-10', end: '2026-10-18' }]);
+  });
+
+  it('drops a vacation that started today', () => {
+    const closed = { start: '2026-09-01', end: '2026-09-05' };
+    expect(toggleVacation([closed, { start: '2026-10-19' }], '2026-10-19')).toEqual([closed]);
+  });
+});
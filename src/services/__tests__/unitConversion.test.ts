@@ -0,0 +1,103 @@
+import { bestUnit, convertAmount, normalizeUnit, roundAmount, toBaseAmount, unitDimension, unitLabel } from '../unitConversion';
+
+describe('normalizeUnit', () => {
+  it.each([
+    ['g', 'g'],
+    ['Grams', 'g'],
+    ['tbsp.', 'tbsp'],
+    ['Tablespoons', 'tbsp'],
+    ['fluid ounces', 'fl oz'],
+    ['fl. oz', 'fl oz'],
+    ['litres', 'l'],
+    ['lbs', 'lb'],
+    ['cloves', 'clove'],
+    ['leaves', 'leaf'],
+    ['pinch', 'pinch'],
+    ['eggs', null],
+    ['', null],
+  ])('%p -> %p', (unit, expected) => {
+    expect(normalizeUnit(unit)).toBe(expected);
+  });
+});
+
+describe('toBaseAmount', () => {
+  it.each([
+    [500, 'mg', { amount: 0.5, unit: 'g' }],
+    [2, 'kg', { amount: 2000, unit: 'g' }],
+    [1, 'lb', { amount: 453.592, unit: 'g' }],
+    [1.5, 'l', { amount: 1500, unit: 'ml' }],
+    [1, 'cup', { amount: 236.588, unit: 'ml' }],
+    [3, 'tsp', { amount: 14.78676, unit: 'ml' }],
+    [2, 'slice', null],
+  ])('%p %s', (amount, unit, expected) => {
+    const base = toBaseAmount(amount, unit);
+    if (expected === null) {
+      expect(base).toBeNull();
+    } else {
+      expect(base?.unit).toBe(expected.unit);
+      expect(base?.amount).toBeCloseTo(expected.amount, 4);
+    }
+  });
+});
+
+describe('convertAmount', () => {
+  it.each([
+    [1, 'kg', 'lb', 2.2046],
+    [16, 'oz', 'lb', 1],
+    [3, 'tsp', 'tbsp', 1],
+    [1, 'cup', 'ml', 236.588],
+    [2, 'pint', 'quart', 1],
+  ])('%p %s in %s', (amount, from, to, expected) => {
+    expect(convertAmount(amount, from, to)).toBeCloseTo(expected, 3);
+  });
+
+  it.each([
+    ['g', 'ml'],
+    ['cup', 'oz'],
+    ['clove', 'g'],
+  ])('does not mix %s and %s', (from, to) => {
+    expect(convertAmount(1, from, to)).toBeNull();
+  });
+});
+
+describe('display helpers', () => {
+  it.each([
+    [1500, 'mass', 'metric', 'kg', 1.5],
+    [250, 'mass', 'metric', 'g', 250],
+    [2000, 'volume', 'metric', 'l', 2],
+    [907.184, 'mass', 'imperial', 'lb', 2],
+    [56.699, 'mass', 'imperial', 'oz', 2],
+    [9.85784, 'volume', 'imperial', 'tsp', 2],
+    [29.5736, 'volume', 'imperial', 'tbsp', 2],
+    [473.176, 'volume', 'imperial', 'cup', 2],
+  ] as const)('%p %s in %s reads as %s', (base, dimension, system, unit, amount) => {
+    const best = bestUnit(base, dimension, system);
+    expect(best.unit).toBe(unit);
+    expect(best.amount).toBeCloseTo(amount, 3);
+  });
+
+  it.each([
+    [123.456, 123],
+    [12.345, 12.3],
+    [1.2345, 1.23],
+  ])('rounds %p to %p', (amount, expected) => {
+    expect(roundAmount(amount)).toBe(expected);
+  });
+
+  it.each([
+    ['g', 200, 'g'],
+    ['cup', 2, 'cups'],
+    ['cup', 1, 'cup'],
+    ['pinch', 2, 'pinches'],
+    ['leaf', 3, 'leaves'],
+    ['clove', 2, 'cloves'],
+  ])('labels %s x%p as %p', (unit, amount, expected) => {
+    expect(unitLabel(unit, amount)).toBe(expected);
+  });
+
+  it('knows which units measure mass or volume', () => {
+    expect([unitDimension('oz'), unitDimension('fl oz'), unitDimension('slice'), unitDimension(null)]).toEqual([
+      'mass', 'volume', null, null,
+    ]);
+  });
+});
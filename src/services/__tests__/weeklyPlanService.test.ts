@@ -0,0 +1,60 @@
+import { Meal, MealType, PlannedDay } from '../../types';
+import { adjacentMealNames, findConsecutiveRepeats, weeklyPlanService } from '../weeklyPlanService';
+import { professionalAIService, UserProfile } from '../professionalAIService';
+
+jest.mock('../professionalAIService', () => ({ professionalAIService: { generatePersonalizedMeal: jest.fn() } }));
+jest.mock('../databaseService', () => ({ databaseService: {} }));
+jest.mock('../../config/supabase', () => ({ isSupabaseConfigured: false }));
+
+const meal = (name: string, mealType: MealType = 'lunch') => ({ id: name, name, mealType }) as Meal;
+
+const day = (...names: string[]): PlannedDay =>
+  Object.fromEntries(names.map((name, i) => [(['breakfast', 'lunch', 'dinner'] as MealType[])[i], meal(name)]));
+
+describe('adjacentMealNames', () => {
+  it('lists the meals of the days either side', () => {
+    const days = { '2026-10-18': day('Oats'), '2026-10-19': day('Eggs'), '2026-10-20': day('Toast', 'Soup') };
+    expect(adjacentMealNames(days, '2026-10-19')).toEqual(['Oats', 'Toast', 'Soup']);
+  });
+
+  it('is empty at the edges of the plan', () => {
+    expect(adjacentMealNames({ '2026-10-19': day('Eggs') }, '2026-10-19')).toEqual([]);
+  });
+});
+
+describe('findConsecutiveRepeats', () => {
+  it.each([
+    ['a meal on consecutive days', { '2026-10-19': day('Oats'), '2026-10-20': day('Eggs', 'oats ') }, [
+      { date: '2026-10-20', mealType: 'lunch', name: 'oats ' },
+    ]],
+    ['the same meal two days apart', { '2026-10-19': day('Oats'), '2026-10-21': day('Oats') }, []],
+    ['a meal twice on one day', { '2026-10-19': day('Oats', 'Oats') }, []],
+    ['distinct days', { '2026-10-19': day('Oats'), '2026-10-20': day('Eggs') }, []],
+  ])('finds %s', (_, days, expected) => {
+    expect(findConsecutiveRepeats(days as Record<string, PlannedDay>)).toEqual(expected);
+  });
+});
+
+describe('generateWeek', () => {
+  const generate = professionalAIService.generatePersonalizedMeal as jest.Mock;
+  const profile: UserProfile = {
+    name: 'Sam', age: 30, gender: 'female', weight: 65, height: 168, goal: 'maintain', activityLevel: 'moderate',
+    dietaryRestrictions: [], allergies: [], healthConditions: [], calorieTarget: 2000,
+  };
+
+  afterEach(() => generate.mockReset());
+
+  it('replaces meals repeated from the day before ahead of saving', async () => {
+    // The provider ignores the exclusions for the whole first week (28
+    // meals), then follows them
+    let call = 0;
+    generate.mockImplementation(async (mealType: MealType) =>
+      ++call <= 28 ? meal(`Stew ${mealType}`, mealType) : meal(`Meal ${call}`, mealType)
+    );
+
+    const plan = await weeklyPlanService.generateWeek('u1', profile, '2026-10-19');
+    expect(findConsecutiveRepeats(plan.days)).toEqual([]);
+    expect(plan.days['2026-10-19'].lunch?.name).toBe('Stew lunch');
+    expect(generate).toHaveBeenCalledWith('lunch', expect.anything(), expect.any(String), expect.arrayContaining(['Stew lunch']));
+  });
+});
@@ -0,0 +1,78 @@
+import { projectGoal, smoothWeights, weeklyRate, WeightPoint } from '../weightTrendService';
+import { BodyMeasurement } from '../../types';
+
+const weighIn = (measurement_date: string, weight_kg?: number, created_at = `${measurement_date}T07:00:00Z`) =>
+  ({ id: `${measurement_date}-${created_at}`, user_id: 'u1', measurement_date, weight_kg, created_at }) as BodyMeasurement;
+
+const point = (date: string, trendKg: number): WeightPoint => ({ date, weightKg: trendKg, trendKg });
+
+describe('smoothWeights', () => {
+  it('starts the trend at the first reading and moves 10% toward each daily reading', () => {
+    const points = smoothWeights([weighIn('2026-10-01', 80), weighIn('2026-10-02', 81), weighIn('2026-10-03', 81)]);
+
+    expect(points.map(p => p.weightKg)).toEqual([80, 81, 81]);
+    expect(points[0].trendKg).toBe(80);
+    expect(points[1].trendKg).toBeCloseTo(80.1, 10);
+    expect(points[2].trendKg).toBeCloseTo(80.19, 10);
+  });
+
+  it('weighs a reading after a gap as that many daily readings', () => {
+    const points = smoothWeights([weighIn('2026-10-01', 80), weighIn('2026-10-04', 83)]);
+
+    // 1 − 0.9³ = 0.271 of the 3 kg difference
+    expect(points[1].trendKg).toBeCloseTo(80.813, 10);
+  });
+
+  it('keeps the latest reading of a day, sorts by date and skips entries without a weight', () => {
+    const points = smoothWeights([
+      weighIn('2026-10-02', 79, '2026-10-02T20:00:00Z'),
+      weighIn('2026-10-02', 81, '2026-10-02T07:00:00Z'),
+      weighIn('2026-10-03T00:00:00Z'),
+      weighIn('2026-10-01', 80),
+    ]);
+
+    expect(points.map(p => [p.date, p.weightKg])).toEqual([['2026-10-01', 80], ['2026-10-02', 79]]);
+  });
+});
+
+describe('weeklyRate', () => {
+  it('is the trend change per week', () => {
+    expect(weeklyRate([point('2026-10-01', 80), point('2026-10-08', 79.5)])).toBeCloseTo(-0.5, 10);
+  });
+
+  it('only looks back two weeks', () => {
+    const points = [point('2026-09-21', 90), point('2026-10-01', 80), point('2026-10-11', 79)];
+    expect(weeklyRate(points)).toBeCloseTo(-0.7, 10);
+  });
+
+  it('is null until the data spans a week', () => {
+    expect(weeklyRate([point('2026-10-01', 80)])).toBeNull();
+    expect(weeklyRate([point('2026-10-01', 80), point('2026-10-07', 79)])).toBeNull();
+  });
+});
+
+describe('projectGoal', () => {
+  const from = new Date(2026, 9, 1);
+
+  it.each([
+    ['at the target', 75, 75, -0.5],
+    ['within 0.2 kg of the target', 74.85, 75, null],
+  ])('is reached %s', (_, current, target, rate) => {
+    expect(projectGoal(current, target, rate, from)).toEqual({ status: 'reached' });
+  });
+
+  it.each([
+    ['without a rate', 80, 75, null],
+    ['with a flat trend', 80, 75, 0],
+    ['when gaining toward a lower target', 80, 75, 0.3],
+    ['when losing toward a higher target', 60, 65, -0.3],
+    ['when the goal is more than two years away', 80, 75, -0.04],
+  ])('is off track %s', (_, current, target, rate) => {
+    expect(projectGoal(current, target, rate, from)).toEqual({ status: 'off_track' });
+  });
+
+  it('projects the date at the current rate', () => {
+    expect(projectGoal(80, 75, -0.5, from)).toEqual({ status: 'on_track', weeks: 10, date: new Date(2026, 11, 10) });
+    expect(projectGoal(60, 65, 0.3, from)).toMatchObject({ status: 'on_track', weeks: 17 });
+  });
+});
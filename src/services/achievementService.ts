@@ -0,0 +1,240 @@
+// Achievement Service - rule engine for badges. Each catalog entry in the
+// achievements table names the metric it is measured by (meals logged,
+// streak days, ...) and is earned once that metric reaches its
+// requirement_value. Events
+// update the metrics; progress and awards are kept locally so badges work
+// offline, and awards reach user_achievements through the sync outbox
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Achievement, AchievementMetric, User, UserAchievement } from '../types';
+import { databaseService } from './databaseService';
+import { syncService } from './syncService';
+import { isSupabaseConfigured } from '../config/supabase';
+import { todayKey } from './dateKeys';
+import { generateUUID } from './uuid';
+
+export type AchievementEvent =
+  | { type: 'meal_logged'; totalMealsLogged: number }
+  | { type: 'streak_extended'; streak: number }
+  | { type: 'water_goal_hit'; date: string }
+  | { type: 'workout_completed'; date: string }
+  | { type: 'weight_logged'; weightKg?: number; muscleMassKg?: number };
+
+const catalogEntry = (
+  id: string,
+  achievement_name: string,
+  description: string,
+  achievement_type: Achievement['achievement_type'],
+  badge_icon: string,
+  requirement_value: number,
+  metric: AchievementMetric
+): Achievement => ({
+  id, achievement_name, description, achievement_type, badge_icon, requirement_value, metric, is_active: true, created_at: '',
+});
+
+// Offline copy of the seeded catalog, used until the table has been read once
+const DEFAULT_ACHIEVEMENTS: Achievement[] = [
+  catalogEntry('first_meal', 'First Bite', 'Log your first meal', 'special', '🍽️', 1, 'meals_logged'),
+  catalogEntry('streak_3', 'Getting Started', 'Log meals 3 days in a row', 'streak', '🔥', 3, 'streak_days'),
+  catalogEntry('streak_7', 'Week Warrior', 'Log meals 7 days in a row', 'streak', '⚡', 7, 'streak_days'),
+  catalogEntry('streak_30', 'Habit Builder', 'Log meals 30 days in a row', 'streak', '🏆', 30, 'streak_days'),
+  catalogEntry('meals_50', 'Consistent Logger', 'Log 50 meals', 'consistency', '📒', 50, 'meals_logged'),
+  catalogEntry('meals_100', 'Century Club', 'Log 100 meals', 'consistency', '💯', 100, 'meals_logged'),
+  catalogEntry('water_goal_7', 'Hydration Hero', 'Reach your water goal on 7 days', 'consistency', '💧', 7, 'water_goal_days'),
+  catalogEntry('first_workout', 'First Sweat', 'Complete your first workout', 'special', '🏃', 1, 'workouts_completed'),
+  catalogEntry('workouts_10', 'On the Move', 'Complete 10 workouts', 'consistency', '🏋️', 10, 'workouts_completed'),
+  catalogEntry('weight_loss_2', 'First Milestone', 'Lose 2 kg from your starting weight', 'weight_loss', '📉', 2, 'weight_lost_kg'),
+  catalogEntry('weight_loss_5', 'Five Down', 'Lose 5 kg from your starting weight', 'weight_loss', '🎯', 5, 'weight_lost_kg'),
+  catalogEntry('muscle_gain_2', 'Building Up', 'Gain 2 kg of muscle mass', 'muscle_gain', '💪', 2, 'muscle_gained_kg'),
+];
+
+export interface AchievementState {
+  progress: Partial<Record<AchievementMetric, number>>;
+  waterGoalDates: string[];
+  workoutDates: string[];
+  baseline: { weightKg?: number; muscleMassKg?: number };
+  earned: Record<string, UserAchievement>;
+}
+
+export interface Badge {
+  achievement: Achievement;
+  earned: UserAchievement | null;
+  progress: number; // toward requirement_value, capped at it
+}
+
+const STATE_KEY_PREFIX = 'nutripro_achievements_';
+// Versioned: catalogs cached before entries carried their metric are ignored
+const CATALOG_KEY = 'nutripro_achievement_catalog_v2';
+
+const emptyState = (): AchievementState => ({ progress: {}, waterGoalDates: [], workoutDates: [], baseline: {}, earned: {} });
+
+const roundKg = (value: number) => Math.max(0, Math.round(value * 10) / 10);
+
+// ==================== RULES ====================
+
+// Metrics after an event. Counts that come from elsewhere (meals, streak)
+// are taken as reported; the rest are tracked here
+export function applyEvent(state: AchievementState, event: AchievementEvent): AchievementState {
+  const progress = { ...state.progress };
+  let { waterGoalDates, workoutDates, baseline } = state;
+
+  switch (event.type) {
+    case 'meal_logged':
+      progress.meals_logged = event.totalMealsLogged;
+      break;
+    case 'streak_extended':
+      progress.streak_days = event.streak;
+      break;
+    case 'water_goal_hit':
+      // Once per day, however often the goal line is crossed
+      if (!waterGoalDates.includes(event.date)) waterGoalDates = [...waterGoalDates, event.date];
+      progress.water_goal_days = waterGoalDates.length;
+      break;
+    case 'workout_completed':
+      // Fired per finished exercise; a day with any counts as one workout
+      if (!workoutDates.includes(event.date)) workoutDates = [...workoutDates, event.date];
+      progress.workouts_completed = workoutDates.length;
+      break;
+    case 'weight_logged':
+      if (event.weightKg) {
+        baseline = { ...baseline, weightKg: baseline.weightKg ?? event.weightKg };
+        progress.weight_lost_kg = roundKg(baseline.weightKg! - event.weightKg);
+      }
+      if (event.muscleMassKg) {
+        baseline = { ...baseline, muscleMassKg: baseline.muscleMassKg ?? event.muscleMassKg };
+        progress.muscle_gained_kg = roundKg(event.muscleMassKg - baseline.muscleMassKg!);
+      }
+      break;
+  }
+  return { ...state, progress, waterGoalDates, workoutDates, baseline };
+}
+
+// Catalog entries whose requirement is met but that are not earned yet
+export function newlyEarned(catalog: Achievement[], state: AchievementState): Achievement[] {
+  return catalog.filter(achievement => {
+    const { metric } = achievement;
+    return achievement.is_active && metric && !state.earned[achievement.id]
+      && (state.progress[metric] || 0) >= achievement.requirement_value;
+  });
+}
+
+class AchievementService {
+  private listeners = new Set<(earned: Achievement[]) => void>();
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // Events arrive from several screens at once; serialize read-modify-write
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  // Called with newly earned badges. Returns the unsubscribe function
+  subscribe(listener: (earned: Achievement[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async getCatalog(): Promise<Achievement[]> {
+    const cached = await AsyncStorage.getItem(CATALOG_KEY);
+    return cached ? JSON.parse(cached) : DEFAULT_ACHIEVEMENTS;
+  }
+
+  private async getState(userId: string): Promise<AchievementState> {
+    const stored = await AsyncStorage.getItem(`${STATE_KEY_PREFIX}${userId}`);
+    return stored ? { ...emptyState(), ...JSON.parse(stored) } : emptyState();
+  }
+
+  private async saveState(userId: string, state: AchievementState): Promise<void> {
+    await AsyncStorage.setItem(`${STATE_KEY_PREFIX}${userId}`, JSON.stringify(state));
+  }
+
+  // Mark met requirements as earned and queue them for the server. The
+  // outbox replays until user_achievements has the row, and the unique
+  // (user_id, achievement_id) constraint keeps replays from duplicating it
+  private async award(userId: string, state: AchievementState): Promise<Achievement[]> {
+    const catalog = await this.getCatalog();
+    const earned = newlyEarned(catalog, state);
+    if (earned.length === 0) return [];
+
+    const today = todayKey();
+    for (const achievement of earned) {
+      const award: UserAchievement = {
+        id: generateUUID(),
+        user_id: userId,
+        achievement_id: achievement.id,
+        earned_date: today,
+        progress_value: Math.round((achievement.metric && state.progress[achievement.metric]) || 0),
+        created_at: new Date().toISOString(),
+      };
+      state.earned[achievement.id] = award;
+      if (isSupabaseConfigured) await syncService.enqueue({ kind: 'achievement.award', award });
+    }
+    return earned;
+  }
+
+  private notify(earned: Achievement[]) {
+    if (earned.length > 0) this.listeners.forEach(listener => listener(earned));
+  }
+
+  async recordEvent(userId: string, event: AchievementEvent): Promise<Achievement[]> {
+    try {
+      const earned = await this.withLock(async () => {
+        const state = applyEvent(await this.getState(userId), event);
+        const awarded = await this.award(userId, state);
+        await this.saveState(userId, state);
+        return awarded;
+      });
+      this.notify(earned);
+      return earned;
+    } catch (error) {
+      console.error('Error recording achievement event:', error);
+      return [];
+    }
+  }
+
+  // Refresh the catalog, adopt badges earned on other devices and catch up
+  // on counts kept on the profile. Safe to call on every app start
+  async sync(user: User): Promise<void> {
+    try {
+      if (isSupabaseConfigured) {
+        const catalog = await databaseService.getAchievements();
+        if (catalog.length > 0) await AsyncStorage.setItem(CATALOG_KEY, JSON.stringify(catalog));
+      }
+      const remote = isSupabaseConfigured ? await databaseService.getUserAchievements() : [];
+      // Weigh-ins overwrite user.weight, so it is only the starting weight
+      // while no measurement has been saved
+      const startingWeight = (isSupabaseConfigured && (await databaseService.getStartingWeight())) || user.weight;
+
+      const earned = await this.withLock(async () => {
+        const state = await this.getState(user.id);
+        for (const award of remote) {
+          if (!state.earned[award.achievement_id]) state.earned[award.achievement_id] = award;
+        }
+        state.baseline.weightKg = state.baseline.weightKg ?? startingWeight;
+        state.progress.meals_logged = Math.max(state.progress.meals_logged || 0, user.totalMealsLogged || 0);
+        state.progress.streak_days = user.streak || 0;
+
+        const awarded = await this.award(user.id, state);
+        await this.saveState(user.id, state);
+        return awarded;
+      });
+      this.notify(earned);
+    } catch (error) {
+      console.error('Error syncing achievements:', error);
+    }
+  }
+
+  async getBadges(userId: string): Promise<Badge[]> {
+    const [catalog, state] = await Promise.all([this.getCatalog(), this.getState(userId)]);
+    return catalog
+      .filter(achievement => achievement.is_active)
+      .map(achievement => {
+        const earned = state.earned[achievement.id] || null;
+        const { metric } = achievement;
+        const value = earned ? achievement.requirement_value : (metric && state.progress[metric]) || 0;
+        return { achievement, earned, progress: Math.min(value, achievement.requirement_value) };
+      });
+  }
+}
+
+export const achievementService = new AchievementService();
@@ -0,0 +1,222 @@
+// Adaptive TDEE Service - estimates what the user actually burns from the
+// calories they logged and how their weight moved over the last few weeks:
+// expenditure = average intake - weight change × 7700 kcal/kg. Once a week
+// the estimate is turned into a proposed target; nothing is written until
+// the user accepts it, which stores User.measuredTdee and lets the profile
+// save recompute nutrition_targets
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { User } from '../types';
+import { calculateNutritionTargets, KCAL_PER_KG, NutritionTargetValues } from './nutritionTargetService';
+import { storageService } from './storageService';
+import { databaseService } from './databaseService';
+import { mergeDailyLogs, syncService } from './syncService';
+import { beverageNutrition } from './hydrationService';
+import { addDaysToKey, todayKey } from './dateKeys';
+import { isSupabaseConfigured } from '../config/supabase';
+
+export interface IntakeDay {
+  date: string; // YYYY-MM-DD
+  calories: number;
+}
+
+export interface WeighIn {
+  date: string; // YYYY-MM-DD
+  weightKg: number;
+}
+
+export interface TdeeEstimate {
+  startDate: string;
+  endDate: string;
+  loggedDays: number;
+  averageIntake: number;
+  weighIns: number;
+  startWeight: number; // weight trend at the first and last weigh-in
+  endWeight: number;
+  weeklyChangeKg: number;
+  tdee: number;
+}
+
+export interface TdeeProposal {
+  current: NutritionTargetValues;
+  proposed: NutritionTargetValues;
+  measuredTdee: number; // stored on the user when accepted
+  limited: boolean; // the estimate was further away than one weekly step
+  explanation: string[];
+}
+
+export type TdeeCheckIn =
+  | { status: 'insufficient_data'; reason: string }
+  | { status: 'on_track'; estimate: TdeeEstimate }
+  | { status: 'adjust'; estimate: TdeeEstimate; proposal: TdeeProposal };
+
+export const WINDOW_DAYS = 28;
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGH_INS = 3;
+const MIN_WEIGHT_SPAN_DAYS = 14;
+// Days below this were most likely not logged completely and would drag the
+// average down
+const MIN_COMPLETE_DAY_KCAL = 800;
+// Estimates outside this range point at logging or weighing errors
+const PLAUSIBLE_TDEE = { min: 1000, max: 6000 };
+// Move the target at most this far per check-in; smaller changes are noise
+const MAX_WEEKLY_STEP = 250;
+const MIN_CHANGE = 50;
+const CHECK_IN_INTERVAL_DAYS = 7;
+
+const CHECK_IN_KEY_PREFIX = 'nutripro_tdee_checkin_';
+
+const kcal = (value: number) => `${Math.round(value).toLocaleString('en-US')} kcal`;
+const signed = (value: number, digits = 0) => `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toFixed(digits)}`;
+
+// Least-squares line through the weigh-ins; a single heavy or light morning
+// moves it far less than comparing the first and last reading
+function weightTrend(weighIns: WeighIn[]): { start: number; end: number; perDay: number } {
+  const origin = parseISO(weighIns[0].date);
+  const points = weighIns.map(w => ({ x: differenceInCalendarDays(parseISO(w.date), origin), y: w.weightKg }));
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+  const perDay = sxx > 0 ? sxy / sxx : 0;
+  const lastX = points[points.length - 1].x;
+  return {
+    start: meanY + perDay * (0 - meanX),
+    end: meanY + perDay * (lastX - meanX),
+    perDay,
+  };
+}
+
+export function estimateTdee(days: IntakeDay[], weighIns: WeighIn[]): { estimate: TdeeEstimate } | { reason: string } {
+  const complete = days.filter(day => day.calories >= MIN_COMPLETE_DAY_KCAL);
+  if (complete.length < MIN_LOGGED_DAYS) {
+    return { reason: `Log your meals on at least ${MIN_LOGGED_DAYS} days (${complete.length} so far in the last ${WINDOW_DAYS}).` };
+  }
+
+  const sorted = [...weighIns].sort((a, b) => a.date.localeCompare(b.date));
+  const span = sorted.length > 1 ? differenceInCalendarDays(parseISO(sorted[sorted.length - 1].date), parseISO(sorted[0].date)) : 0;
+  if (sorted.length < MIN_WEIGH_INS || span < MIN_WEIGHT_SPAN_DAYS) {
+    return { reason: `Weigh in at least ${MIN_WEIGH_INS} times over ${MIN_WEIGHT_SPAN_DAYS} days or more.` };
+  }
+
+  const averageIntake = complete.reduce((sum, day) => sum + day.calories, 0) / complete.length;
+  const trend = weightTrend(sorted);
+  const tdee = averageIntake - trend.perDay * KCAL_PER_KG;
+  if (tdee < PLAUSIBLE_TDEE.min || tdee > PLAUSIBLE_TDEE.max) {
+    return { reason: 'Your logs and weigh-ins don\'t add up to a plausible expenditure yet. Check for missed meals.' };
+  }
+
+  const dates = days.map(day => day.date).sort();
+  return {
+    estimate: {
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      loggedDays: complete.length,
+      averageIntake: Math.round(averageIntake),
+      weighIns: sorted.length,
+      startWeight: Math.round(trend.start * 10) / 10,
+      endWeight: Math.round(trend.end * 10) / 10,
+      weeklyChangeKg: Math.round(trend.perDay * 7 * 100) / 100,
+      tdee: Math.round(tdee),
+    },
+  };
+}
+
+// Targets with the measured TDEE moved one step towards the estimate, or
+// null when the current targets are already close enough
+export function proposeAdjustment(user: User, estimate: TdeeEstimate): TdeeProposal | null {
+  const current = calculateNutritionTargets(user);
+  const difference = estimate.tdee - current.tdee;
+  if (Math.abs(difference) < MIN_CHANGE) return null;
+
+  const step = Math.max(-MAX_WEEKLY_STEP, Math.min(MAX_WEEKLY_STEP, difference));
+  const measuredTdee = current.tdee + step;
+  const proposed = calculateNutritionTargets({ ...user, measuredTdee });
+  const change = proposed.daily_calories - current.daily_calories;
+  if (Math.abs(change) < MIN_CHANGE) return null;
+
+  const limited = step !== difference;
+  const explanation = [
+    `You logged ${kcal(estimate.averageIntake)} a day on average over ${estimate.loggedDays} complete days.`,
+    `Your weight trend went from ${estimate.startWeight} to ${estimate.endWeight} kg (${signed(estimate.weeklyChangeKg, 2)} kg/week).`,
+    `That puts your actual expenditure at about ${kcal(estimate.tdee)} a day, versus the ${kcal(current.tdee)} your targets assume.`,
+  ];
+  if (limited) {
+    explanation.push(`Targets move at most ${MAX_WEEKLY_STEP} kcal per week, so the rest follows at the next check-in if the trend holds.`);
+  }
+  if (proposed.floorApplied) {
+    explanation.push(`Your target stays at the safe minimum of ${kcal(proposed.daily_calories)}.`);
+  }
+
+  return { current, proposed, measuredTdee, limited, explanation };
+}
+
+export function formatCalorieChange(proposal: TdeeProposal): string {
+  return `${signed(proposal.proposed.daily_calories - proposal.current.daily_calories)} kcal`;
+}
+
+class AdaptiveTdeeService {
+  // Intake per day and weigh-ins for the window ending yesterday; today is
+  // still being logged. Signed in, logs come from daily_logs, so days logged
+  // on another device or before a reinstall count too; local entries not
+  // synced yet are merged in the way pullDailyLogs does
+  async loadHistory(user: User): Promise<{ days: IntakeDay[]; weighIns: WeighIn[] }> {
+    const endDate = addDaysToKey(todayKey(), -1);
+    const start = addDaysToKey(endDate, -(WINDOW_DAYS - 1));
+
+    const remote = isSupabaseConfigured ? await databaseService.getDailyLogChangesBetween(start, endDate) : null;
+    const pending = remote ? await syncService.getPendingRecordIds() : new Set<string>();
+
+    const days: IntakeDay[] = [];
+    for (let offset = WINDOW_DAYS - 1; offset >= 0; offset--) {
+      const date = addDaysToKey(endDate, -offset);
+      const local = await storageService.getDailyLogs(user.id, date);
+      const logs = remote ? mergeDailyLogs(local, remote.filter(log => log.log_date === date), pending) : local;
+      const food = logs.reduce((sum, log) => sum + (log.nutrition_consumed?.calories || 0), 0);
+      const drinks = beverageNutrition(await storageService.getWaterEntries(user.id, date));
+      days.push({ date, calories: food + drinks.calories });
+    }
+
+    const measurements = await storageService.getBodyMeasurements(user.id, WINDOW_DAYS * 2);
+    const weighIns = measurements
+      .map(m => ({ date: m.measurement_date.slice(0, 10), weightKg: Number(m.weight_kg) }))
+      .filter(w => w.weightKg > 0 && w.date >= start && w.date <= endDate);
+
+    return { days, weighIns };
+  }
+
+  async getCheckIn(user: User): Promise<TdeeCheckIn> {
+    try {
+      const { days, weighIns } = await this.loadHistory(user);
+      const result = estimateTdee(days, weighIns);
+      if (!('estimate' in result)) return { status: 'insufficient_data', reason: result.reason };
+
+      const proposal = proposeAdjustment(user, result.estimate);
+      return proposal
+        ? { status: 'adjust', estimate: result.estimate, proposal }
+        : { status: 'on_track', estimate: result.estimate };
+    } catch (error) {
+      console.error('Error estimating TDEE:', error);
+      return { status: 'insufficient_data', reason: 'Could not load your history.' };
+    }
+  }
+
+  // One check-in per week, whether the last one was accepted or dismissed
+  async isCheckInDue(userId: string): Promise<boolean> {
+    const last = await AsyncStorage.getItem(`${CHECK_IN_KEY_PREFIX}${userId}`);
+    return !last || differenceInCalendarDays(new Date(), parseISO(last)) >= CHECK_IN_INTERVAL_DAYS;
+  }
+
+  async markReviewed(userId: string): Promise<void> {
+    await AsyncStorage.setItem(`${CHECK_IN_KEY_PREFIX}${userId}`, todayKey());
+  }
+
+  // Profile updates that apply the proposal; saving the profile writes the
+  // new nutrition_targets row
+  async accept(userId: string, proposal: TdeeProposal): Promise<Partial<User>> {
+    await this.markReviewed(userId);
+    return { measuredTdee: proposal.measuredTdee, measuredTdeeAt: new Date().toISOString() };
+  }
+}
+
+export const adaptiveTdeeService = new AdaptiveTdeeService();
@@ -0,0 +1,365 @@
+// AI Provider Layer - pluggable LLM backends with routing and failover
+// Groq and Gemini implement the same interface; the router picks the
+// configured primary and fails over when a provider keeps failing
+import Constants from 'expo-constants';
+import { GEMINI_CONFIG, GROQ_CONFIG, ENDPOINTS, AI_PROVIDER_CONFIG } from '../config/api';
+import { databaseService } from './databaseService';
+import { AIResponseValidationError } from './aiSchemas';
+import { AIGenerationType } from '../types';
+
+export type AIProviderName = 'groq' | 'gemini';
+
+
+export interface AIRequestOptions {
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask the provider for a JSON-only response
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  isConfigured(): boolean;
+  generate(prompt: string, options?: AIRequestOptions): Promise<string>;
+}
+
+export interface AICallContext {
+  generationType: AIGenerationType;
+  requestParameters: Record<string, unknown>;
+}
+
+const DEFAULT_SYSTEM_PROMPT = 'You are a nutritionist. Respond with ONLY valid JSON, no markdown or text.';
+
+// ==================== PROVIDERS ====================
+
+class GroqProvider implements AIProvider {
+  readonly name = 'groq' as const;
+  readonly model = GROQ_CONFIG.MODEL;
+  private apiKey = process.env.EXPO_PUBLIC_GROQ_API_KEY ||
+                   Constants.expoConfig?.extra?.groqApiKey || '';
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async generate(prompt: string, options: AIRequestOptions = {}): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('Groq API key not configured');
+    }
+
+    console.log('🤖 Calling Groq API...');
+
+    const response = await fetch(ENDPOINTS.GROQ.CHAT_COMPLETIONS, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: options.systemPrompt || DEFAULT_SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+        temperature: options.temperature ?? 0.7,
+        max_tokens: options.maxTokens ?? 800,
+        top_p: 0.9,
+      }),
+    });
+
+    console.log('Groq response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Groq API Error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text) {
+      throw new Error('Empty response from Groq');
+    }
+
+    console.log('✅ Groq API response received');
+    return text;
+  }
+}
+
+class GeminiProvider implements AIProvider {
+  readonly name = 'gemini' as const;
+  readonly model = GEMINI_CONFIG.MODEL;
+  private apiKey = process.env.EXPO_PUBLIC_GEMINI_API_KEY ||
+                   Constants.expoConfig?.extra?.geminiApiKey || '';
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== 'YOUR_GEMINI_API_KEY';
+  }
+
+  async generate(prompt: string, options: AIRequestOptions = {}): Promise<string> {
+    if (!this.isConfigured()) {
+      throw new Error('Gemini API key not configured');
+    }
+
+    console.log('🤖 Calling Gemini API...');
+
+    // ENDPOINTS.GEMINI reads the key from GEMINI_CONFIG; swap in the resolved one
+    const url = ENDPOINTS.GEMINI.GENERATE_CONTENT(this.model)
+      .replace(`key=${GEMINI_CONFIG.API_KEY}`, `key=${this.apiKey}`);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        systemInstruction: {
+          parts: [{ text: options.systemPrompt || DEFAULT_SYSTEM_PROMPT }],
+        },
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: options.temperature ?? 0.7,
+          maxOutputTokens: options.maxTokens ?? 800,
+          topP: 0.9,
+          ...(options.json !== false ? { responseMimeType: 'application/json' } : {}),
+        },
+      }),
+    });
+
+    console.log('Gemini response status:', response.status);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API Error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts
+      ?.map((part: { text?: string }) => part.text || '')
+      .join('');
+
+    if (!text) {
+      throw new Error('Empty response from Gemini');
+    }
+
+    console.log('✅ Gemini API response received');
+    return text;
+  }
+}
+
+// ==================== RATE LIMITING ====================
+
+interface ProviderState {
+  lastApiCall: number;
+  consecutiveFailures: number;
+  rateLimitResetTime: number;
+  disabledUntil: number;
+  queue: Promise<void>; // settles when the provider's last queued call does
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Extract wait time from rate limit error
+function extractWaitTime(errorMessage: string): number {
+  const match = errorMessage.match(/try again in (\d+\.?\d*)s/i);
+  if (match) {
+    return Math.ceil(parseFloat(match[1]) * 1000) + 500; // Add 500ms buffer
+  }
+  return 5000; // Default 5 second wait
+}
+
+function isRateLimitError(errorMessage: string): boolean {
+  return errorMessage.includes('rate_limit') ||
+         errorMessage.includes('429') ||
+         errorMessage.includes('RESOURCE_EXHAUSTED');
+}
+
+// Smart rate-limited retry with exponential backoff, tracked per provider.
+// Calls to one provider run one after another, so concurrent callers (a
+// day's meals generated together) still honour the delay between calls.
+// Throws once retries are exhausted so the router can fail over.
+function rateLimitedCall<T>(
+  state: ProviderState,
+  fn: () => Promise<T>,
+  maxRetries: number = 2
+): Promise<T> {
+  const call = state.queue.then(() => callWithRetries(state, fn, maxRetries));
+  state.queue = call.then(() => undefined, () => undefined);
+  return call;
+}
+
+async function callWithRetries<T>(
+  state: ProviderState,
+  fn: () => Promise<T>,
+  maxRetries: number
+): Promise<T> {
+  // Check if we're still in rate limit cooldown
+  const now = Date.now();
+  if (state.rateLimitResetTime > now) {
+    const waitTime = state.rateLimitResetTime - now;
+    console.log(`⏳ Rate limit cooldown: waiting ${Math.ceil(waitTime/1000)}s`);
+    await sleep(waitTime);
+  }
+
+  // Ensure minimum delay between API calls
+  const timeSinceLastCall = Date.now() - state.lastApiCall;
+  if (timeSinceLastCall < AI_PROVIDER_CONFIG.MIN_DELAY_BETWEEN_CALLS) {
+    const waitTime = AI_PROVIDER_CONFIG.MIN_DELAY_BETWEEN_CALLS - timeSinceLastCall;
+    console.log(`⏳ Rate limiting: waiting ${Math.ceil(waitTime/1000)}s before API call`);
+    await sleep(waitTime);
+  }
+
+  let lastError: any;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    try {
+      state.lastApiCall = Date.now();
+      const result = await fn();
+      state.consecutiveFailures = 0; // Reset on success
+      return result;
+    } catch (error: any) {
+      lastError = error;
+      const errorMsg = error.message || '';
+
+      // Missing keys will not fix themselves - fail fast
+      if (errorMsg.includes('not configured')) break;
+
+      // Already re-prompted with the validation issues - let the next provider try
+      if (error instanceof AIResponseValidationError) break;
+
+      // Check if rate limited
+      if (isRateLimitError(errorMsg)) {
+        const waitTime = extractWaitTime(errorMsg);
+        state.rateLimitResetTime = Date.now() + waitTime;
+        console.log(`⚠️ Rate limited. Waiting ${Math.ceil(waitTime/1000)}s before retry (attempt ${attempt + 1}/${maxRetries + 1})`);
+
+        if (attempt < maxRetries) {
+          await sleep(waitTime);
+          continue;
+        }
+      }
+
+      // Other errors - use exponential backoff
+      if (attempt < maxRetries) {
+        const backoffTime = Math.pow(2, attempt) * 1000;
+        console.log(`⚠️ API error, retrying in ${backoffTime/1000}s (attempt ${attempt + 1}/${maxRetries + 1})`);
+        await sleep(backoffTime);
+        continue;
+      }
+    }
+  }
+
+  state.consecutiveFailures++;
+  if (state.consecutiveFailures >= AI_PROVIDER_CONFIG.MAX_CONSECUTIVE_FAILURES) {
+    state.disabledUntil = Date.now() + AI_PROVIDER_CONFIG.FAILOVER_COOLDOWN;
+  }
+  console.log(`❌ API call failed after ${maxRetries + 1} attempts`);
+  throw lastError || new Error('AI call failed');
+}
+
+// ==================== ROUTER ====================
+
+class AIRouter {
+  private providers: Record<AIProviderName, AIProvider>;
+  private state: Record<AIProviderName, ProviderState>;
+  private primary: AIProviderName;
+
+  constructor(providers: AIProvider[], primary: string) {
+    this.providers = {} as Record<AIProviderName, AIProvider>;
+    this.state = {} as Record<AIProviderName, ProviderState>;
+    for (const provider of providers) {
+      this.providers[provider.name] = provider;
+      this.state[provider.name] = {
+        lastApiCall: 0,
+        consecutiveFailures: 0,
+        rateLimitResetTime: 0,
+        disabledUntil: 0,
+        queue: Promise.resolve(),
+      };
+    }
+    this.primary = primary in this.providers ? primary as AIProviderName : providers[0].name;
+  }
+
+  getProvider(name: AIProviderName): AIProvider {
+    return this.providers[name];
+  }
+
+  // Primary first, then every other configured provider
+  getProviderOrder(): AIProvider[] {
+    const names = [this.primary, ...Object.keys(this.providers).filter(n => n !== this.primary)] as AIProviderName[];
+    return names
+      .map(name => this.providers[name])
+      .filter(provider => provider.isConfigured());
+  }
+
+  private isAvailable(name: AIProviderName): boolean {
+    const state = this.state[name];
+    if (state.consecutiveFailures < AI_PROVIDER_CONFIG.MAX_CONSECUTIVE_FAILURES) return true;
+    if (Date.now() >= state.disabledUntil) {
+      // Cooldown elapsed - give the provider another chance
+      state.consecutiveFailures = 0;
+      return true;
+    }
+    return false;
+  }
+
+  // Run a request against the first healthy provider, failing over to the
+  // next one and finally to the local fallback
+  async run<T>(
+    context: AICallContext,
+    request: (provider: AIProvider) => Promise<T>,
+    useFallback: () => T
+  ): Promise<T> {
+    for (const provider of this.getProviderOrder()) {
+      if (!this.isAvailable(provider.name)) {
+        console.log(`🔄 Skipping ${provider.name} after consecutive failures`);
+        continue;
+      }
+
+      // Timed per attempt, so queue waits, cooldowns and retry backoff
+      // are not logged as generation time
+      let startTime = Date.now();
+      try {
+        const result = await rateLimitedCall(this.state[provider.name], () => {
+          startTime = Date.now();
+          return request(provider);
+        });
+        await this.record(context, provider, true, startTime, result);
+        return result;
+      } catch (error: any) {
+        await this.record(context, provider, false, startTime, undefined, error?.message);
+        console.log(`🔄 ${provider.name} failed, trying next provider`);
+      }
+    }
+
+    console.log('🔄 Using fallback - no AI provider available');
+    return useFallback();
+  }
+
+  private async record(
+    context: AICallContext,
+    provider: AIProvider,
+    success: boolean,
+    startTime: number,
+    responseData?: unknown,
+    errorMessage?: string
+  ): Promise<void> {
+    try {
+      await databaseService.logAIGeneration({
+        generationType: context.generationType,
+        requestParameters: context.requestParameters,
+        responseData,
+        success,
+        errorMessage,
+        generationTimeMs: Date.now() - startTime,
+        apiProvider: provider.name,
+        modelVersion: provider.model,
+      });
+    } catch (error) {
+      console.log('Failed to record AI generation:', error);
+    }
+  }
+}
+
+export const groqProvider = new GroqProvider();
+export const geminiProvider = new GeminiProvider();
+export const aiRouter = new AIRouter([groqProvider, geminiProvider], AI_PROVIDER_CONFIG.PRIMARY);
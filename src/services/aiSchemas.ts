@@ -0,0 +1,232 @@
+// AI Response Schemas - strict validation for model output
+// Responses that fail validation are sent back to the model with the issues
+// listed; nutrition values are never patched with defaults
+import { z } from 'zod';
+import { AI_PROVIDER_CONFIG } from '../config/api';
+import type { AIProvider, AIRequestOptions } from './aiProviders';
+
+// Per-serving bounds; anything outside is treated as a bad response
+export const NUTRITION_LIMITS = {
+  MIN_CALORIES: 30,
+  MAX_CALORIES: 2500,
+  MAX_PROTEIN: 200,
+  MAX_CARBS: 350,
+  MAX_FATS: 150,
+  MAX_FIBER: 60,
+  // Allowed gap between stated calories and 4/4/9 macro energy
+  ENERGY_TOLERANCE: 0.3,
+} as const;
+
+// Per-serving upper bounds for micronutrients (mg unless noted)
+export const MICRONUTRIENT_LIMITS = {
+  SODIUM: 5000,
+  POTASSIUM: 5000,
+  CALCIUM: 2500,
+  IRON: 45,
+  VITAMIN_A_UG: 3000,
+  VITAMIN_C: 2000,
+  VITAMIN_D_UG: 100,
+  VITAMIN_B12_UG: 100,
+  CAFFEINE: 600,
+  ALCOHOL_G: 60,
+} as const;
+
+const MEAL_TYPES = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+// Meal names compare case- and whitespace-insensitively
+export const normalizeMealName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const nutritionShape = {
+  calories: z.number().min(NUTRITION_LIMITS.MIN_CALORIES).max(NUTRITION_LIMITS.MAX_CALORIES),
+  protein: z.number().min(0).max(NUTRITION_LIMITS.MAX_PROTEIN),
+  carbs: z.number().min(0).max(NUTRITION_LIMITS.MAX_CARBS),
+  fats: z.number().min(0).max(NUTRITION_LIMITS.MAX_FATS),
+  fiber: z.number().min(0).max(NUTRITION_LIMITS.MAX_FIBER),
+  sugar: z.number().min(0),
+};
+
+// Asked for in the prompts but optional: a missing value stays unknown
+// rather than being read as zero
+const micronutrientShape = {
+  saturatedFat: z.number().min(0).max(NUTRITION_LIMITS.MAX_FATS).optional(),
+  sodium: z.number().min(0).max(MICRONUTRIENT_LIMITS.SODIUM).optional(),
+  potassium: z.number().min(0).max(MICRONUTRIENT_LIMITS.POTASSIUM).optional(),
+  calcium: z.number().min(0).max(MICRONUTRIENT_LIMITS.CALCIUM).optional(),
+  iron: z.number().min(0).max(MICRONUTRIENT_LIMITS.IRON).optional(),
+  vitaminA: z.number().min(0).max(MICRONUTRIENT_LIMITS.VITAMIN_A_UG).optional(),
+  vitaminC: z.number().min(0).max(MICRONUTRIENT_LIMITS.VITAMIN_C).optional(),
+  vitaminD: z.number().min(0).max(MICRONUTRIENT_LIMITS.VITAMIN_D_UG).optional(),
+  vitaminB12: z.number().min(0).max(MICRONUTRIENT_LIMITS.VITAMIN_B12_UG).optional(),
+  caffeine: z.number().min(0).max(MICRONUTRIENT_LIMITS.CAFFEINE).optional(),
+  alcohol: z.number().min(0).max(MICRONUTRIENT_LIMITS.ALCOHOL_G).optional(),
+};
+
+const mealShape = {
+  name: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  ...nutritionShape,
+  ...micronutrientShape,
+  ingredients: z.array(z.string().trim().min(1)).min(1),
+  instructions: z.array(z.string().trim().min(1)).min(1),
+  prepTime: z.number().int().min(0).max(480),
+  cookTime: z.number().int().min(0).max(720),
+  // Presentation-only fields may be left out by the model
+  tags: z.array(z.string()).default([]),
+  imageEmoji: z.string().min(1).default('🍽️'),
+};
+
+type NutritionValues = { [K in keyof typeof nutritionShape]: number } & { saturatedFat?: number };
+
+// Cross-field checks the per-field bounds cannot express
+function checkNutritionConsistency(value: NutritionValues, ctx: z.RefinementCtx): void {
+  if (value.sugar > value.carbs) {
+    ctx.addIssue({ code: 'custom', path: ['sugar'], message: `sugar (${value.sugar}g) exceeds carbs (${value.carbs}g)` });
+  }
+  if (value.fiber > value.carbs) {
+    ctx.addIssue({ code: 'custom', path: ['fiber'], message: `fiber (${value.fiber}g) exceeds carbs (${value.carbs}g)` });
+  }
+  if (value.saturatedFat !== undefined && value.saturatedFat > value.fats) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['saturatedFat'],
+      message: `saturatedFat (${value.saturatedFat}g) exceeds fats (${value.fats}g)`,
+    });
+  }
+
+  const macroCalories = value.protein * 4 + value.carbs * 4 + value.fats * 9;
+  const drift = Math.abs(macroCalories - value.calories) / value.calories;
+  if (drift > NUTRITION_LIMITS.ENERGY_TOLERANCE) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['calories'],
+      message: `calories (${value.calories}) do not match macros (~${Math.round(macroCalories)} kcal from protein/carbs/fats)`,
+    });
+  }
+}
+
+export const aiMealSchema = z.object(mealShape).superRefine(checkNutritionConsistency);
+
+export const aiRecipeSchema = z
+  .object({
+    ...mealShape,
+    healthBenefits: z.array(z.string()).default([]),
+  })
+  .superRefine(checkNutritionConsistency);
+
+export const aiRecipesSchema = z.array(aiRecipeSchema).min(1);
+
+// A meal requested for a calorie target should land reasonably close to it,
+// and must not be one of the meals it is meant to replace or sit next to
+export function aiMealSchemaForTarget(targetCalories: number, excludedNames: string[] = []) {
+  const excluded = new Set(excludedNames.map(normalizeMealName));
+  return aiMealSchema.superRefine((value, ctx) => {
+    if (value.calories < targetCalories * 0.5 || value.calories > targetCalories * 1.75) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['calories'],
+        message: `calories (${value.calories}) are far from the requested ~${targetCalories}`,
+      });
+    }
+    if (excluded.has(normalizeMealName(value.name))) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['name'],
+        message: `"${value.name}" repeats a meal that must be avoided; suggest a different dish`,
+      });
+    }
+  });
+}
+
+// Assembled plans (AI meals plus any fallbacks) before they are shown or saved
+const plannedMealSchema = z
+  .object({
+    ...mealShape,
+    id: z.string().min(1),
+    mealType: z.enum(MEAL_TYPES),
+    emoji: z.string().min(1),
+  })
+  .superRefine(checkNutritionConsistency);
+
+export const dayPlanSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD'),
+  breakfast: plannedMealSchema,
+  lunch: plannedMealSchema,
+  dinner: plannedMealSchema,
+  snacks: z.array(plannedMealSchema),
+});
+
+export type AIMeal = z.output<typeof aiMealSchema>;
+export type AIRecipe = z.output<typeof aiRecipeSchema>;
+
+export type AIValidationResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export class AIResponseValidationError extends Error {
+  constructor(public issues: string[], public rawResponse: string) {
+    super(`AI response failed validation: ${issues.join('; ')}`);
+    this.name = 'AIResponseValidationError';
+  }
+}
+
+export function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map(issue => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+// Parse a raw model response. Only a surrounding markdown code fence is
+// tolerated; anything else that is not JSON counts as invalid
+export function parseAIResponse<T>(text: string, schema: z.ZodType<T>): AIValidationResult<T> {
+  const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch (error: any) {
+    return { success: false, issues: [`response is not valid JSON (${error?.message || 'parse error'})`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { success: false, issues: formatIssues(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+function buildRepairPrompt(prompt: string, previousResponse: string, issues: string[]): string {
+  return `${prompt}
+
+Your previous response was rejected for these problems:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${previousResponse.slice(0, 2000)}
+
+Return ONLY the corrected JSON. Nutrition values must be realistic and consistent with the ingredients.`;
+}
+
+// Generate, validate and re-prompt with the validation issues until the
+// response passes or the repair budget runs out
+export async function generateValidated<T>(
+  provider: AIProvider,
+  prompt: string,
+  schema: z.ZodType<T>,
+  options?: AIRequestOptions
+): Promise<T> {
+  let response = await provider.generate(prompt, options);
+
+  for (let attempt = 0; ; attempt++) {
+    const result = parseAIResponse(response, schema);
+    if (result.success) return result.data;
+
+    console.warn(`⚠️ ${provider.name} response failed validation:`, result.issues);
+    if (attempt >= AI_PROVIDER_CONFIG.MAX_REPAIR_ATTEMPTS) {
+      throw new AIResponseValidationError(result.issues, response);
+    }
+
+    console.log(`🔧 Asking ${provider.name} to repair its response (attempt ${attempt + 1}/${AI_PROVIDER_CONFIG.MAX_REPAIR_ATTEMPTS})`);
+    response = await provider.generate(buildRepairPrompt(prompt, response, result.issues), options);
+  }
+}
@@ -0,0 +1,113 @@
+// Body Composition Service - body fat from tape measurements (US Navy
+// formula), waist-to-height ratio and the measurement fields the app
+// records. Circumferences are stored in centimetres and shown in inches for
+// imperial users
+import { BodyMeasurement, User } from '../types';
+import { UnitSystem } from './unitConversion';
+
+export type CircumferenceKey = 'neck_cm' | 'chest_cm' | 'waist_cm' | 'hips_cm' | 'arms_cm' | 'thighs_cm';
+export type MeasurementKey = CircumferenceKey | 'weight_kg' | 'body_fat_percentage' | 'muscle_mass_kg';
+
+export interface MeasurementField {
+  key: MeasurementKey;
+  label: string;
+  kind: 'length' | 'mass' | 'percent';
+}
+
+export const MEASUREMENT_FIELDS: MeasurementField[] = [
+  { key: 'weight_kg', label: 'Weight', kind: 'mass' },
+  { key: 'neck_cm', label: 'Neck', kind: 'length' },
+  { key: 'waist_cm', label: 'Waist', kind: 'length' },
+  { key: 'hips_cm', label: 'Hips', kind: 'length' },
+  { key: 'chest_cm', label: 'Chest', kind: 'length' },
+  { key: 'arms_cm', label: 'Arms', kind: 'length' },
+  { key: 'thighs_cm', label: 'Thighs', kind: 'length' },
+  { key: 'muscle_mass_kg', label: 'Muscle mass', kind: 'mass' },
+  { key: 'body_fat_percentage', label: 'Body fat', kind: 'percent' },
+];
+
+const CM_PER_INCH = 2.54;
+const KG_PER_LB = 0.453592;
+
+// Navy estimates outside this range come from a mistyped measurement
+const PLAUSIBLE_BODY_FAT = { min: 2, max: 70 };
+
+export function fieldUnit(kind: MeasurementField['kind'], system: UnitSystem = 'metric'): string {
+  if (kind === 'percent') return '%';
+  if (kind === 'mass') return system === 'imperial' ? 'lb' : 'kg';
+  return system === 'imperial' ? 'in' : 'cm';
+}
+
+export function toDisplayValue(value: number, kind: MeasurementField['kind'], system: UnitSystem = 'metric'): number {
+  const converted = system === 'metric' || kind === 'percent' ? value
+    : kind === 'mass' ? value / KG_PER_LB
+    : value / CM_PER_INCH;
+  return Math.round(converted * 10) / 10;
+}
+
+export function fromDisplayValue(value: number, kind: MeasurementField['kind'], system: UnitSystem = 'metric'): number {
+  const converted = system === 'metric' || kind === 'percent' ? value
+    : kind === 'mass' ? value * KG_PER_LB
+    : value * CM_PER_INCH;
+  return Math.round(converted * 10) / 10;
+}
+
+// ==================== ESTIMATES ====================
+
+interface NavyInput {
+  gender: User['gender'];
+  heightCm: number;
+  neckCm?: number;
+  waistCm?: number;
+  hipsCm?: number;
+}
+
+function navyMale(heightCm: number, neckCm: number, waistCm: number): number | null {
+  if (waistCm <= neckCm) return null;
+  return 495 / (1.0324 - 0.19077 * Math.log10(waistCm - neckCm) + 0.15456 * Math.log10(heightCm)) - 450;
+}
+
+function navyFemale(heightCm: number, neckCm: number, waistCm: number, hipsCm: number): number | null {
+  if (waistCm + hipsCm <= neckCm) return null;
+  return 495 / (1.29579 - 0.35004 * Math.log10(waistCm + hipsCm - neckCm) + 0.221 * Math.log10(heightCm)) - 450;
+}
+
+// US Navy circumference method. Women also need the hip measurement; for
+// 'other' the male and female results are averaged. Null when a required
+// measurement is missing or the result is implausible
+export function estimateBodyFat(input: NavyInput): number | null {
+  const { gender, heightCm, neckCm, waistCm, hipsCm } = input;
+  if (!heightCm || !neckCm || !waistCm) return null;
+
+  const male = navyMale(heightCm, neckCm, waistCm);
+  const female = hipsCm ? navyFemale(heightCm, neckCm, waistCm, hipsCm) : null;
+  const estimate = gender === 'male' ? male
+    : gender === 'female' ? female
+    : male !== null && female !== null ? (male + female) / 2 : null;
+
+  if (estimate === null || estimate < PLAUSIBLE_BODY_FAT.min || estimate > PLAUSIBLE_BODY_FAT.max) return null;
+  return Math.round(estimate * 10) / 10;
+}
+
+export type WaistToHeightCategory = 'low' | 'healthy' | 'increased' | 'high';
+
+// Waist should stay under half the height; above 0.6 signals a high
+// cardiometabolic risk
+export function waistToHeightRatio(waistCm: number, heightCm: number): { ratio: number; category: WaistToHeightCategory } {
+  const ratio = Math.round((waistCm / heightCm) * 100) / 100;
+  const category = ratio < 0.4 ? 'low' : ratio < 0.5 ? 'healthy' : ratio < 0.6 ? 'increased' : 'high';
+  return { ratio, category };
+}
+
+// Body fat for a measurement: the value entered by hand, else the Navy
+// estimate from its tape measurements
+export function bodyFatOf(measurement: Partial<BodyMeasurement>, user: Pick<User, 'gender' | 'height'>): number | null {
+  if (measurement.body_fat_percentage) return Number(measurement.body_fat_percentage);
+  return estimateBodyFat({
+    gender: user.gender,
+    heightCm: user.height,
+    neckCm: measurement.neck_cm ? Number(measurement.neck_cm) : undefined,
+    waistCm: measurement.waist_cm ? Number(measurement.waist_cm) : undefined,
+    hipsCm: measurement.hips_cm ? Number(measurement.hips_cm) : undefined,
+  });
+}
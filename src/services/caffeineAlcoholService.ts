@@ -0,0 +1,101 @@
+// Caffeine & Alcohol Service - daily limits and warnings for the two
+// nutrients people mostly drink. Both are tracked like micronutrients:
+// foods carry them in nutrition_consumed and drinks in their water_intake
+// entry, so a day's totals come from storageService.getDailyNutritionTotals.
+// Alcohol is stored in grams of ethanol and shown as US standard drinks.
+import { User } from '../types';
+
+export const STANDARD_DRINK_GRAMS = 14;
+export const ALCOHOL_KCAL_PER_GRAM = 7;
+export const DEFAULT_CAFFEINE_LIMIT_MG = 400; // FDA guidance for healthy adults
+
+const ETHANOL_DENSITY = 0.789; // g per ml
+
+// Dietary Guidelines for Americans: up to 2 drinks a day for men, 1 for women
+const DEFAULT_ALCOHOL_LIMIT_DRINKS: Record<User['gender'], number> = {
+  male: 2,
+  female: 1,
+  other: 1,
+};
+
+// Warn from this share of a limit on
+const NEAR_LIMIT_SHARE = 0.8;
+
+type LimitProfile = Pick<User, 'gender' | 'caffeineLimitMg' | 'alcoholLimitDrinks'>;
+
+export interface LimitWarning {
+  nutrient: 'caffeine' | 'alcohol';
+  level: 'near' | 'over';
+  message: string;
+}
+
+export function alcoholGrams(amountMl: number, abvPercent: number): number {
+  return Math.round(amountMl * (abvPercent / 100) * ETHANOL_DENSITY * 10) / 10;
+}
+
+export function standardDrinks(grams: number): number {
+  return Math.round((grams / STANDARD_DRINK_GRAMS) * 10) / 10;
+}
+
+export function alcoholCalories(grams: number): number {
+  return Math.round(grams * ALCOHOL_KCAL_PER_GRAM);
+}
+
+export function caffeineLimitMg(profile: LimitProfile): number {
+  return profile.caffeineLimitMg ?? DEFAULT_CAFFEINE_LIMIT_MG;
+}
+
+export function alcoholLimitDrinks(profile: LimitProfile): number {
+  return profile.alcoholLimitDrinks ?? DEFAULT_ALCOHOL_LIMIT_DRINKS[profile.gender];
+}
+
+export function alcoholLimitGrams(profile: LimitProfile): number {
+  return alcoholLimitDrinks(profile) * STANDARD_DRINK_GRAMS;
+}
+
+// A limit of 0 means none at all, so any amount is over it
+function levelFor(amount: number, limit: number): LimitWarning['level'] | null {
+  if (amount <= 0) return null;
+  if (amount > limit) return 'over';
+  return amount >= limit * NEAR_LIMIT_SHARE ? 'near' : null;
+}
+
+export function limitWarnings(totals: { caffeine: number; alcohol: number }, profile: LimitProfile): LimitWarning[] {
+  const warnings: LimitWarning[] = [];
+
+  const caffeineLimit = caffeineLimitMg(profile);
+  const caffeineLevel = levelFor(totals.caffeine, caffeineLimit);
+  if (caffeineLevel) {
+    warnings.push({
+      nutrient: 'caffeine',
+      level: caffeineLevel,
+      message: caffeineLevel === 'over'
+        ? `${Math.round(totals.caffeine)} mg caffeine is over your ${caffeineLimit} mg limit`
+        : `${Math.round(totals.caffeine)} of ${caffeineLimit} mg caffeine`,
+    });
+  }
+
+  const alcoholLimit = alcoholLimitDrinks(profile);
+  const alcoholLevel = levelFor(totals.alcohol, alcoholLimitGrams(profile));
+  if (alcoholLevel) {
+    const drinks = standardDrinks(totals.alcohol);
+    warnings.push({
+      nutrient: 'alcohol',
+      level: alcoholLevel,
+      message: alcoholLevel === 'over'
+        ? `${drinks} drinks is over your limit of ${alcoholLimit}`
+        : `${drinks} of ${alcoholLimit} drinks`,
+    });
+  }
+
+  return warnings;
+}
+
+// Warnings that are new or got worse between two totals, for alerting once
+// when a drink or food pushes the day over a threshold
+export function newLimitWarnings(before: LimitWarning[], after: LimitWarning[]): LimitWarning[] {
+  return after.filter(warning => {
+    const previous = before.find(w => w.nutrient === warning.nutrient);
+    return !previous || (previous.level === 'near' && warning.level === 'over');
+  });
+}
@@ -12,17 +12,31 @@ import {
   UserPreferences,
   NutritionTarget,
   DailyProgressSummary,
+  SleepRecord,
+  Meal,
+  Recipe,
+  WeeklyPlan,
+  CustomFood,
+  MealTemplate,
+  VacationPeriod,
+  AIGenerationType,
 } from '../types';
-import { Meal } from './professionalAIService';
-
-// Generate a proper UUID v4
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-}
+import {
+  dailyLogFromRow,
+  dailyLogToRow,
+  mealFromDailyLog,
+  mealToDailyLog,
+  recipeFromRow,
+  recipeToRow,
+  weeklyPlanFromRow,
+  weeklyPlanToRow,
+} from './mealMappers';
+import { calculateNutritionTargets } from './nutritionTargetService';
+import { computeStreak, streakService } from './streakService';
+import { todayKey } from './dateKeys';
+import { generateUUID } from './uuid';
+
+export type DailyLogMutationResult = 'applied' | 'stale' | 'duplicate';
 
 // Comprehensive Database Service - Full Supabase Integration
 class DatabaseService {
@@ -111,6 +125,16 @@ class DatabaseService {
         activity_level: user.exerciseLevel,
         goal: user.goal || 'maintain',
         target_weight: user.targetWeight,
+        units_preference: user.unitsPreference || 'metric',
+        body_fat_percentage: user.bodyFatPercentage ?? null,
+        weekly_rate_kg: user.weeklyRateKg ?? null,
+        macro_preset: user.macroPreset || 'balanced',
+        measured_tdee: user.measuredTdee ?? null,
+        measured_tdee_at: user.measuredTdeeAt ?? null,
+        streak_vacations: user.streakVacations || [],
+        time_zone: user.timeZone ?? null,
+        caffeine_limit_mg: user.caffeineLimitMg ?? null,
+        alcohol_limit_drinks: user.alcoholLimitDrinks ?? null,
         avatar_type: avatarType,
         updated_at: new Date().toISOString(),
       };
@@ -192,7 +216,7 @@ class DatabaseService {
         .eq('user_id', userId);
 
       // Get stats
-      const stats = await this.getUserStats();
+      const stats = await this.getUserStats(profile?.streak_vacations || []);
 
       if (!profile) {
         // Return local data if no profile in DB
@@ -223,6 +247,16 @@ class DatabaseService {
         exerciseLevel: profile.activity_level,
         goal: profile.goal,
         targetWeight: profile.target_weight,
+        unitsPreference: profile.units_preference ?? undefined,
+        bodyFatPercentage: profile.body_fat_percentage ?? undefined,
+        weeklyRateKg: profile.weekly_rate_kg ?? undefined,
+        macroPreset: profile.macro_preset ?? undefined,
+        measuredTdee: profile.measured_tdee ?? undefined,
+        measuredTdeeAt: profile.measured_tdee_at ?? undefined,
+        streakVacations: profile.streak_vacations || [],
+        timeZone: profile.time_zone ?? undefined,
+        caffeineLimitMg: profile.caffeine_limit_mg ?? undefined,
+        alcoholLimitDrinks: profile.alcohol_limit_drinks != null ? Number(profile.alcohol_limit_drinks) : undefined,
         diseases,
         allergies,
         healthGoals: [profile.goal],
@@ -261,7 +295,13 @@ class DatabaseService {
           .eq('id', userId);
       }
 
-      if (updates.age || updates.gender || updates.height || updates.weight || updates.exerciseLevel || updates.goal) {
+      if (
+        updates.age || updates.gender || updates.height || updates.weight || updates.exerciseLevel || updates.goal ||
+        updates.targetWeight || updates.unitsPreference ||
+        updates.bodyFatPercentage !== undefined || updates.weeklyRateKg !== undefined || updates.macroPreset ||
+        updates.measuredTdee !== undefined || updates.streakVacations || updates.timeZone ||
+        updates.caffeineLimitMg !== undefined || updates.alcoholLimitDrinks !== undefined
+      ) {
         await supabase
           .from(TABLES.USER_PROFILES)
           .update({
@@ -272,6 +312,16 @@ class DatabaseService {
             activity_level: updates.exerciseLevel,
             goal: updates.goal,
             target_weight: updates.targetWeight,
+            units_preference: updates.unitsPreference,
+            body_fat_percentage: updates.bodyFatPercentage,
+            weekly_rate_kg: updates.weeklyRateKg,
+            macro_preset: updates.macroPreset,
+            measured_tdee: updates.measuredTdee,
+            measured_tdee_at: updates.measuredTdeeAt,
+            streak_vacations: updates.streakVacations,
+            time_zone: updates.timeZone,
+            caffeine_limit_mg: updates.caffeineLimitMg,
+            alcohol_limit_drinks: updates.alcoholLimitDrinks,
             updated_at: new Date().toISOString(),
           })
           .eq('user_id', userId);
@@ -400,19 +450,14 @@ class DatabaseService {
   async saveNutritionTargets(userId: string, user: User): Promise<void> {
     if (!isSupabaseConfigured) return;
 
-    const dailyCalories = this.calculateDailyCalories(user);
+    const { floorApplied, ...targets } = calculateNutritionTargets(user);
     
     try {
       const targetData = {
         user_id: userId,
-        daily_calories: dailyCalories,
-        protein_grams: Math.round(dailyCalories * 0.25 / 4),
-        carbs_grams: Math.round(dailyCalories * 0.45 / 4),
-        fats_grams: Math.round(dailyCalories * 0.30 / 9),
-        fiber_grams: 25,
-        sugar_grams: 50,
-        sodium_mg: 2300,
+        ...targets,
         is_active: true,
+        updated_at: new Date().toISOString(),
       };
 
       // Use upsert now that unique constraint exists
@@ -471,75 +516,44 @@ class DatabaseService {
 
   // ==================== DAILY LOGS ====================
 
-  async saveDailyLog(log: DailyLog): Promise<boolean> {
+  // Apply one queued change through the server-side last-writer-wins function.
+  // Returns null when the call itself failed and should be retried.
+  async applyDailyLogMutation(
+    idempotencyKey: string,
+    operation: 'upsert' | 'delete',
+    log: DailyLog,
+    updatedAt: string
+  ): Promise<DailyLogMutationResult | null> {
     const userId = await this.getCurrentUserId();
-    if (!userId) return false;
+    if (!userId) return null;
 
     try {
-      // Always generate a new UUID for the database
-      // The local log.id may not be a valid UUID
-      const dbId = generateUUID();
-      
-      const logData = {
-        id: dbId,
-        user_id: userId,
-        log_date: log.log_date,
-        meal_type: log.meal_type,
-        food_name: log.food_name,
-        nutrition_consumed: log.nutrition_consumed,
-        notes: JSON.stringify({
-          ingredients: log.ingredients,
-          instructions: log.instructions,
-          prepTime: log.prepTime,
-          cookTime: log.cookTime,
-          emoji: log.emoji,
-          description: log.description,
-          localId: log.id, // Store original local ID for reference
-        }),
-      };
-
-      // Check if a log for this meal type on this date already exists
-      const { data: existing } = await supabase
-        .from(TABLES.DAILY_LOGS)
-        .select('id')
-        .eq('user_id', userId)
-        .eq('log_date', log.log_date)
-        .eq('meal_type', log.meal_type)
-        .single();
+      const { data, error } = await supabase.rpc('apply_daily_log_mutation', {
+        p_idempotency_key: idempotencyKey,
+        p_operation: operation,
+        p_log: dailyLogToRow(log),
+        p_updated_at: updatedAt,
+      });
 
-      if (existing) {
-        // Update existing log (without changing the ID)
-        const { error } = await supabase
-          .from(TABLES.DAILY_LOGS)
-          .update({
-            food_name: log.food_name,
-            nutrition_consumed: log.nutrition_consumed,
-            notes: logData.notes,
-          })
-          .eq('id', existing.id);
-        if (error) {
-          console.error('Error updating daily log:', error);
-          return false;
-        }
-      } else {
-        // Insert new log
-        const { error } = await supabase
-          .from(TABLES.DAILY_LOGS)
-          .insert(logData);
-        if (error) {
-          console.error('Error inserting daily log:', error);
-          return false;
-        }
+      if (error) {
+        console.error(`Error applying daily log ${operation}:`, error);
+        return null;
       }
-      
-      console.log('✅ Daily log saved:', log.food_name);
-      return true;
+
+      console.log(`✅ Daily log ${operation} ${data}:`, log.food_name);
+      return data as DailyLogMutationResult;
     } catch (error) {
-      console.error('Error in saveDailyLog:', error);
-      return false;
+      console.error('Error in applyDailyLogMutation:', error);
+      return null;
     }
   }
 
+  async saveDailyLog(log: DailyLog): Promise<boolean> {
+    const updatedAt = log.updated_at || new Date().toISOString();
+    const result = await this.applyDailyLogMutation(generateUUID(), 'upsert', log, updatedAt);
+    return result !== null;
+  }
+
   async getDailyLogs(date: string): Promise<DailyLog[]> {
     const userId = await this.getCurrentUserId();
     if (!userId) return [];
@@ -550,6 +564,7 @@ class DatabaseService {
         .select('*')
         .eq('user_id', userId)
         .eq('log_date', date)
+        .is('deleted_at', null)
         .order('created_at', { ascending: true });
 
       if (error) {
@@ -557,50 +572,56 @@ class DatabaseService {
         return [];
       }
 
-      return (data || []).map(log => {
-        let notes = {};
-        try {
-          notes = log.notes ? JSON.parse(log.notes) : {};
-        } catch (e) {
-          notes = {};
-        }
-        return {
-          id: log.id,
-          user_id: log.user_id,
-          log_date: log.log_date,
-          meal_type: log.meal_type,
-          food_name: log.food_name,
-          nutrition_consumed: log.nutrition_consumed,
-          ingredients: (notes as any).ingredients,
-          instructions: (notes as any).instructions,
-          prepTime: (notes as any).prepTime,
-          cookTime: (notes as any).cookTime,
-          emoji: (notes as any).emoji,
-          description: (notes as any).description,
-          created_at: log.created_at,
-        };
-      });
+      return (data || []).map(dailyLogFromRow);
     } catch (error) {
       console.error('Error in getDailyLogs:', error);
       return [];
     }
   }
 
-  async deleteDailyLog(logId: string): Promise<boolean> {
+  // Every row for a date, tombstones included, for merging into local storage.
+  // Returns null when the server could not be reached.
+  async getDailyLogChanges(date: string): Promise<DailyLog[] | null> {
     const userId = await this.getCurrentUserId();
-    if (!userId) return false;
+    if (!userId) return null;
 
-    const { error } = await supabase
+    const { data, error } = await supabase
       .from(TABLES.DAILY_LOGS)
-      .delete()
-      .eq('id', logId)
-      .eq('user_id', userId);
+      .select('*')
+      .eq('user_id', userId)
+      .eq('log_date', date);
 
     if (error) {
-      console.error('Error deleting daily log:', error);
-      return false;
+      console.error('Error fetching daily log changes:', error);
+      return null;
     }
-    return true;
+
+    return (data || []).map(dailyLogFromRow);
+  }
+
+  // The same for a range of dates, inclusive
+  async getDailyLogChangesBetween(startDate: string, endDate: string): Promise<DailyLog[] | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLES.DAILY_LOGS)
+      .select('*')
+      .eq('user_id', userId)
+      .gte('log_date', startDate)
+      .lte('log_date', endDate);
+
+    if (error) {
+      console.error('Error fetching daily log changes:', error);
+      return null;
+    }
+
+    return (data || []).map(dailyLogFromRow);
+  }
+
+  async deleteDailyLog(log: DailyLog): Promise<boolean> {
+    const result = await this.applyDailyLogMutation(generateUUID(), 'delete', log, new Date().toISOString());
+    return result !== null;
   }
 
   // ==================== RECIPES ====================
@@ -610,31 +631,7 @@ class DatabaseService {
     if (!userId) return false;
 
     try {
-      // Generate proper UUID for database
-      const dbId = generateUUID();
-      
-      const recipeData = {
-        id: dbId,
-        user_id: userId,
-        title: meal.name,
-        description: meal.description,
-        ingredients: meal.ingredients,
-        instructions: meal.instructions,
-        prep_time: meal.prepTime,
-        cook_time: meal.cookTime,
-        servings: 1,
-        nutrition_info: {
-          calories: meal.calories,
-          protein: meal.protein,
-          carbs: meal.carbs,
-          fats: meal.fats,
-          fiber: meal.fiber,
-          localId: meal.id, // Store original local ID
-        },
-        meal_type: meal.mealType,
-        image_url: meal.emoji || meal.imageEmoji,
-        tags: meal.tags || [],
-      };
+      const recipeData = recipeToRow(meal, userId);
 
       // Check if recipe with same name and meal type exists for this user
       const { data: existing } = await supabase
@@ -649,26 +646,17 @@ class DatabaseService {
         // Update existing recipe (without changing the ID)
         const { error } = await supabase
           .from(TABLES.RECIPES)
-          .update({
-            description: meal.description,
-            ingredients: meal.ingredients,
-            instructions: meal.instructions,
-            prep_time: meal.prepTime,
-            cook_time: meal.cookTime,
-            nutrition_info: recipeData.nutrition_info,
-            image_url: recipeData.image_url,
-            tags: recipeData.tags,
-          })
+          .update(recipeData)
           .eq('id', existing.id);
         if (error) {
           console.error('Error updating recipe:', error);
           return false;
         }
       } else {
-        // Insert new recipe
+        // Insert new recipe with a proper UUID for the database
         const { error } = await supabase
           .from(TABLES.RECIPES)
-          .insert(recipeData);
+          .insert({ id: generateUUID(), ...recipeData });
         if (error) {
           console.error('Error inserting recipe:', error);
           return false;
@@ -683,7 +671,7 @@ class DatabaseService {
     }
   }
 
-  async getUserRecipes(): Promise<Meal[]> {
+  async getUserRecipes(): Promise<Recipe[]> {
     const userId = await this.getCurrentUserId();
     if (!userId) return [];
 
@@ -698,25 +686,7 @@ class DatabaseService {
       return [];
     }
 
-    return (data || []).map(recipe => ({
-      id: recipe.id,
-      name: recipe.title,
-      description: recipe.description,
-      ingredients: recipe.ingredients || [],
-      instructions: recipe.instructions || [],
-      prepTime: recipe.prep_time || 0,
-      cookTime: recipe.cook_time || 0,
-      calories: recipe.nutrition_info?.calories || 0,
-      protein: recipe.nutrition_info?.protein || 0,
-      carbs: recipe.nutrition_info?.carbs || 0,
-      fats: recipe.nutrition_info?.fats || 0,
-      fiber: recipe.nutrition_info?.fiber || 0,
-      mealType: recipe.meal_type,
-      emoji: recipe.image_url || '🍽️',
-      imageEmoji: recipe.image_url || '🍽️',
-      tags: recipe.tags || [],
-      isFavorite: recipe.is_favorite,
-    }));
+    return (data || []).map(recipeFromRow);
   }
 
   async deleteRecipe(recipeId: string): Promise<boolean> {
@@ -736,6 +706,82 @@ class DatabaseService {
     return true;
   }
 
+  // ==================== MEAL PLANS ====================
+
+  async getMealPlan(weekStartDate: string): Promise<WeeklyPlan | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLES.MEAL_PLANS)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('week_start_date', weekStartDate)
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      console.error('Error fetching meal plan:', error);
+      return null;
+    }
+    return data && data.length > 0 ? weeklyPlanFromRow(data[0]) : null;
+  }
+
+  // Save a new plan as the active one for its week
+  async saveMealPlan(plan: WeeklyPlan, generationPrompt: string): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    try {
+      await supabase
+        .from(TABLES.MEAL_PLANS)
+        .update({ is_active: false })
+        .eq('user_id', userId)
+        .eq('week_start_date', plan.weekStartDate);
+
+      const { error } = await supabase
+        .from(TABLES.MEAL_PLANS)
+        .insert({
+          id: plan.id,
+          ...weeklyPlanToRow({ ...plan, userId }, generationPrompt),
+          created_at: plan.createdAt,
+        });
+
+      if (error) {
+        console.error('Error saving meal plan:', error);
+        return false;
+      }
+
+      console.log('✅ Meal plan saved for week of', plan.weekStartDate);
+      return true;
+    } catch (error) {
+      console.error('Error in saveMealPlan:', error);
+      return false;
+    }
+  }
+
+  // Store edited days (e.g. a regenerated slot). Plans that so far only
+  // existed locally are created
+  async updateMealPlan(plan: WeeklyPlan): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.MEAL_PLANS)
+      .upsert({
+        id: plan.id,
+        ...weeklyPlanToRow({ ...plan, userId }),
+        created_at: plan.createdAt,
+      }, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error updating meal plan:', error);
+      return false;
+    }
+    return true;
+  }
+
   // ==================== MY MEALS (Added meals) ====================
 
   async saveMyMeal(meal: Meal, date: string): Promise<boolean> {
@@ -745,52 +791,124 @@ class DatabaseService {
     // Save as a recipe first
     await this.saveRecipe(meal);
 
-    // Also save as a daily log (ID will be generated in saveDailyLog)
-    const log: DailyLog = {
+    // Also save as a daily log
+    const log = mealToDailyLog(meal, {
       id: generateUUID(), // Use proper UUID
-      user_id: userId,
-      log_date: date,
-      meal_type: meal.mealType,
-      food_name: meal.name,
-      nutrition_consumed: {
-        calories: meal.calories,
-        protein: meal.protein,
-        carbs: meal.carbs,
-        fats: meal.fats,
-      },
-      ingredients: meal.ingredients,
-      instructions: meal.instructions,
-      prepTime: meal.prepTime,
-      cookTime: meal.cookTime,
-      emoji: meal.emoji || meal.imageEmoji,
-      description: meal.description,
-      created_at: new Date().toISOString(),
-    };
+      userId,
+      date,
+      timestamp: new Date().toISOString(),
+    });
 
     return await this.saveDailyLog(log);
   }
 
   async getMyMeals(date: string): Promise<Meal[]> {
     const logs = await this.getDailyLogs(date);
-    
-    return logs.map(log => ({
-      id: log.id,
-      name: log.food_name,
-      description: log.description || '',
-      ingredients: log.ingredients || [],
-      instructions: log.instructions || [],
-      prepTime: log.prepTime || 0,
-      cookTime: log.cookTime || 0,
-      calories: log.nutrition_consumed?.calories || 0,
-      protein: log.nutrition_consumed?.protein || 0,
-      carbs: log.nutrition_consumed?.carbs || 0,
-      fats: log.nutrition_consumed?.fats || 0,
-      fiber: 0,
-      mealType: log.meal_type,
-      emoji: log.emoji || '🍽️',
-      imageEmoji: log.emoji || '🍽️',
-      tags: [],
-    }));
+    return logs.map(mealFromDailyLog);
+  }
+
+  // ==================== CUSTOM FOODS ====================
+
+  async getCustomFoods(): Promise<CustomFood[] | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLES.CUSTOM_FOODS)
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching custom foods:', error);
+      return null;
+    }
+
+    return data || [];
+  }
+
+  async saveCustomFood(food: CustomFood): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.CUSTOM_FOODS)
+      .upsert({ ...food, user_id: userId }, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error saving custom food:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async deleteCustomFood(foodId: string): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.CUSTOM_FOODS)
+      .delete()
+      .eq('id', foodId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting custom food:', error);
+      return false;
+    }
+    return true;
+  }
+
+  // ==================== MEAL TEMPLATES ====================
+
+  async getMealTemplates(): Promise<MealTemplate[] | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLES.MEAL_TEMPLATES)
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching meal templates:', error);
+      return null;
+    }
+
+    return data || [];
+  }
+
+  async saveMealTemplate(template: MealTemplate): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.MEAL_TEMPLATES)
+      .upsert({ ...template, user_id: userId }, { onConflict: 'id' });
+
+    if (error) {
+      console.error('Error saving meal template:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async deleteMealTemplate(templateId: string): Promise<boolean> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.MEAL_TEMPLATES)
+      .delete()
+      .eq('id', templateId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting meal template:', error);
+      return false;
+    }
+    return true;
   }
 
   // ==================== EXERCISE ROUTINES ====================
@@ -855,17 +973,18 @@ class DatabaseService {
 
   // ==================== BODY MEASUREMENTS ====================
 
-  async saveBodyMeasurement(measurement: Partial<BodyMeasurement>): Promise<boolean> {
+  // Upserted by id so a save replayed from the outbox is not duplicated
+  async saveBodyMeasurement(measurement: BodyMeasurement): Promise<boolean> {
     const userId = await this.getCurrentUserId();
     if (!userId) return false;
 
     const { error } = await supabase
       .from(TABLES.BODY_MEASUREMENTS)
-      .insert({
+      .upsert({
         ...measurement,
         user_id: userId,
-        measurement_date: measurement.measurement_date || new Date().toISOString().split('T')[0],
-      });
+        measurement_date: measurement.measurement_date || todayKey(),
+      }, { onConflict: 'id' });
 
     if (error) {
       console.error('Error saving body measurement:', error);
@@ -874,6 +993,28 @@ class DatabaseService {
     return true;
   }
 
+  // The first weight ever recorded, the baseline for weight lost
+  async getStartingWeight(): Promise<number | null> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return null;
+
+    const { data, error } = await supabase
+      .from(TABLES.BODY_MEASUREMENTS)
+      .select('weight_kg')
+      .eq('user_id', userId)
+      .not('weight_kg', 'is', null)
+      .order('measurement_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching starting weight:', error);
+      return null;
+    }
+    return data ? Number(data.weight_kg) : null;
+  }
+
   async getBodyMeasurements(limit: number = 30): Promise<BodyMeasurement[]> {
     const userId = await this.getCurrentUserId();
     if (!userId) return [];
@@ -900,42 +1041,72 @@ class DatabaseService {
 
   // ==================== WATER INTAKE ====================
 
-  async addWaterIntake(amountMl: number): Promise<boolean> {
+  // Upsert by id so a replayed outbox entry is applied once
+  async saveWaterIntake(entry: WaterIntake): Promise<boolean> {
     const userId = await this.getCurrentUserId();
     if (!userId) return false;
 
     const { error } = await supabase
       .from(TABLES.WATER_INTAKE)
-      .insert({
+      .upsert({
+        id: entry.id,
         user_id: userId,
-        intake_date: new Date().toISOString().split('T')[0],
-        amount_ml: amountMl,
-        intake_time: new Date().toISOString(),
-      });
+        intake_date: entry.intake_date,
+        amount_ml: entry.amount_ml,
+        beverage_type: entry.beverage_type,
+        hydration_ml: entry.hydration_ml,
+        caffeine_mg: entry.caffeine_mg,
+        alcohol_g: entry.alcohol_g,
+        intake_time: entry.intake_time,
+      }, { onConflict: 'id' });
 
     if (error) {
-      console.error('Error adding water intake:', error);
+      console.error('Error saving water intake:', error);
       return false;
     }
     return true;
   }
 
-  async getWaterIntake(date: string): Promise<number> {
+  async deleteWaterIntake(entryId: string): Promise<boolean> {
     const userId = await this.getCurrentUserId();
-    if (!userId) return 0;
+    if (!userId) return false;
+
+    const { error } = await supabase
+      .from(TABLES.WATER_INTAKE)
+      .delete()
+      .eq('id', entryId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error deleting water intake:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async getWaterEntries(date: string): Promise<WaterIntake[]> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return [];
 
     const { data, error } = await supabase
       .from(TABLES.WATER_INTAKE)
-      .select('amount_ml')
+      .select('*')
       .eq('user_id', userId)
-      .eq('intake_date', date);
+      .eq('intake_date', date)
+      .order('intake_time', { ascending: true });
 
     if (error) {
       console.error('Error fetching water intake:', error);
-      return 0;
+      return [];
     }
 
-    return (data || []).reduce((sum, item) => sum + item.amount_ml, 0);
+    return data || [];
+  }
+
+  // Hydration total in ml for a day
+  async getWaterIntake(date: string): Promise<number> {
+    const entries = await this.getWaterEntries(date);
+    return entries.reduce((sum, entry) => sum + entry.hydration_ml, 0);
   }
 
   // ==================== SLEEP TRACKING ====================
@@ -961,7 +1132,7 @@ class DatabaseService {
         duration_hours: sleepData.durationHours,
         quality_rating: sleepData.qualityRating,
         notes: sleepData.notes,
-      });
+      }, { onConflict: 'user_id,sleep_date' });
 
     if (error) {
       console.error('Error saving sleep data:', error);
@@ -970,7 +1141,7 @@ class DatabaseService {
     return true;
   }
 
-  async getSleepData(date: string): Promise<any | null> {
+  async getSleepData(date: string): Promise<SleepRecord | null> {
     const userId = await this.getCurrentUserId();
     if (!userId) return null;
 
@@ -985,8 +1156,45 @@ class DatabaseService {
     return data;
   }
 
+  // Nights between two wake dates, inclusive, oldest first
+  async getSleepHistory(startDate: string, endDate: string): Promise<SleepRecord[]> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return [];
+
+    const { data, error } = await supabase
+      .from(TABLES.SLEEP_TRACKING)
+      .select('*')
+      .eq('user_id', userId)
+      .gte('sleep_date', startDate)
+      .lte('sleep_date', endDate)
+      .order('sleep_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching sleep history:', error);
+      return [];
+    }
+    return data || [];
+  }
+
   // ==================== ACHIEVEMENTS ====================
 
+  async getAchievements(): Promise<Achievement[]> {
+    if (!isSupabaseConfigured) return [];
+
+    const { data, error } = await supabase
+      .from(TABLES.ACHIEVEMENTS)
+      .select('*')
+      .eq('is_active', true)
+      .order('requirement_value', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching achievements:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
   async getUserAchievements(): Promise<UserAchievement[]> {
     const userId = await this.getCurrentUserId();
     if (!userId) return [];
@@ -1004,7 +1212,13 @@ class DatabaseService {
     return data || [];
   }
 
-  async awardAchievement(achievementId: string, progressValue: number): Promise<boolean> {
+  // Earned once per user: replays and awards from a second device keep the
+  // first row and its earned_date
+  async awardAchievement(
+    achievementId: string,
+    progressValue: number,
+    earnedDate: string = todayKey()
+  ): Promise<boolean> {
     const userId = await this.getCurrentUserId();
     if (!userId) return false;
 
@@ -1013,9 +1227,9 @@ class DatabaseService {
       .upsert({
         user_id: userId,
         achievement_id: achievementId,
-        earned_date: new Date().toISOString().split('T')[0],
+        earned_date: earnedDate,
         progress_value: progressValue,
-      });
+      }, { onConflict: 'user_id,achievement_id', ignoreDuplicates: true });
 
     if (error) {
       console.error('Error awarding achievement:', error);
@@ -1046,7 +1260,7 @@ class DatabaseService {
 
   // ==================== USER STATS ====================
 
-  async getUserStats(): Promise<{
+  async getUserStats(vacations: VacationPeriod[] = []): Promise<{
     totalMealsLogged: number;
     currentStreak: number;
     longestStreak: number;
@@ -1061,10 +1275,12 @@ class DatabaseService {
       const { count: totalMeals } = await supabase
         .from(TABLES.DAILY_LOGS)
         .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId);
+        .eq('user_id', userId)
+        .is('deleted_at', null);
 
-      // Calculate streak
-      const streak = await this.calculateStreak(userId);
+      // Calculate streak over server days plus local days not synced yet
+      const activeDates = await streakService.mergeActiveDates(userId, await this.getLoggedDates());
+      const streak = computeStreak(activeDates, vacations, todayKey());
 
       return {
         totalMealsLogged: totalMeals || 0,
@@ -1077,84 +1293,68 @@ class DatabaseService {
     }
   }
 
-  async calculateStreak(userId: string): Promise<{ current: number; longest: number }> {
+  // Distinct days with at least one live food log - the active days of
+  // the streak definition in streakService
+  async getLoggedDates(): Promise<string[]> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) return [];
+
     try {
-      const { data: logs } = await supabase
+      const { data, error } = await supabase
         .from(TABLES.DAILY_LOGS)
         .select('log_date')
         .eq('user_id', userId)
-        .order('log_date', { ascending: false });
-
-      if (!logs || logs.length === 0) {
-        return { current: 0, longest: 0 };
-      }
-
-      // Get unique dates
-      const uniqueDates = [...new Set(logs.map(l => l.log_date))].sort().reverse();
-      
-      let currentStreak = 0;
-      let longestStreak = 0;
-      let tempStreak = 0;
-      
-      const today = new Date().toISOString().split('T')[0];
-      const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
-
-      // Check if today or yesterday has logs
-      if (uniqueDates[0] === today || uniqueDates[0] === yesterday) {
-        currentStreak = 1;
-        
-        for (let i = 0; i < uniqueDates.length - 1; i++) {
-          const current = new Date(uniqueDates[i]);
-          const next = new Date(uniqueDates[i + 1]);
-          const diffDays = (current.getTime() - next.getTime()) / (1000 * 60 * 60 * 24);
-          
-          if (diffDays === 1) {
-            currentStreak++;
-          } else {
-            break;
-          }
-        }
-      }
+        .is('deleted_at', null);
 
-      // Calculate longest streak
-      tempStreak = 1;
-      for (let i = 0; i < uniqueDates.length - 1; i++) {
-        const current = new Date(uniqueDates[i]);
-        const next = new Date(uniqueDates[i + 1]);
-        const diffDays = (current.getTime() - next.getTime()) / (1000 * 60 * 60 * 24);
-        
-        if (diffDays === 1) {
-          tempStreak++;
-        } else {
-          longestStreak = Math.max(longestStreak, tempStreak);
-          tempStreak = 1;
-        }
-      }
-      longestStreak = Math.max(longestStreak, tempStreak, currentStreak);
-
-      return { current: currentStreak, longest: longestStreak };
+      if (error) throw error;
+      return [...new Set((data || []).map(l => l.log_date as string))].sort();
     } catch (error) {
-      console.error('Error calculating streak:', error);
-      return { current: 0, longest: 0 };
+      console.error('Error getting logged dates:', error);
+      return [];
     }
   }
 
   // ==================== AI GENERATION LOGS ====================
-  // Note: ai_generation_logs table doesn't exist in current schema
-  // This is a placeholder for future implementation
-  
+
   async logAIGeneration(log: {
-    generationType: 'meal_plan' | 'recipe' | 'exercise' | 'advice';
-    requestParameters: any;
-    responseData?: any;
+    generationType: AIGenerationType;
+    requestParameters: Record<string, unknown>;
+    responseData?: unknown;
     success: boolean;
     errorMessage?: string;
     generationTimeMs?: number;
+    apiProvider: string;
     modelVersion?: string;
   }): Promise<void> {
-    // AI generation logging disabled - table doesn't exist
-    // To enable, create ai_generation_logs table in Supabase
-    console.log('AI Generation:', log.generationType, log.success ? '✅' : '❌');
+    console.log(
+      'AI Generation:',
+      log.generationType,
+      `${log.apiProvider}/${log.modelVersion || 'unknown'}`,
+      log.success ? '✅' : '❌',
+      log.generationTimeMs !== undefined ? `${log.generationTimeMs}ms` : ''
+    );
+
+    if (!isSupabaseConfigured) return;
+    const userId = await this.getCurrentUserId();
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from(TABLES.AI_GENERATION_LOGS)
+      .insert({
+        user_id: userId,
+        generation_type: log.generationType,
+        request_parameters: log.requestParameters,
+        response_data: log.responseData ?? null,
+        success: log.success,
+        error_message: log.errorMessage,
+        generation_time_ms: log.generationTimeMs,
+        api_provider: log.apiProvider,
+        model_version: log.modelVersion,
+      });
+
+    if (error) {
+      console.error('Error logging AI generation:', error);
+    }
   }
 
   // ==================== SYNC ====================
@@ -1170,19 +1370,8 @@ class DatabaseService {
         await this.saveUserProfile(JSON.parse(localUser));
       }
 
-      // Sync all local daily logs
-      const keys = await AsyncStorage.getAllKeys();
-      const logKeys = keys.filter(k => k.startsWith('nutripro_logs_'));
-      
-      for (const key of logKeys) {
-        const data = await AsyncStorage.getItem(key);
-        if (data) {
-          const logs: DailyLog[] = JSON.parse(data);
-          for (const log of logs) {
-            await this.saveDailyLog(log);
-          }
-        }
-      }
+      // Daily logs are not re-uploaded here - they sync through the outbox
+      // in syncService, which only sends what changed
 
       console.log('✅ Synced local data to cloud');
     } catch (error) {
@@ -1202,7 +1391,7 @@ class DatabaseService {
       }
 
       // Get today's meals
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       const meals = await this.getMyMeals(today);
       if (meals.length > 0) {
         await AsyncStorage.setItem(`nutripro_mymeals_${userId}_${today}`, JSON.stringify(meals));
@@ -1213,24 +1402,6 @@ class DatabaseService {
       console.error('Error syncing from cloud:', error);
     }
   }
-
-  // ==================== HELPERS ====================
-
-  private calculateDailyCalories(user: User): number {
-    const bmr = user.gender === 'male'
-      ? 88.362 + (13.397 * user.weight) + (4.799 * user.height) - (5.677 * user.age)
-      : 447.593 + (9.247 * user.weight) + (3.098 * user.height) - (4.330 * user.age);
-    
-    const multipliers: Record<string, number> = {
-      sedentary: 1.2,
-      light: 1.375,
-      moderate: 1.55,
-      active: 1.725,
-      very_active: 1.9,
-    };
-    
-    return Math.round(bmr * (multipliers[user.exerciseLevel] || 1.55));
-  }
 }
 
 export const databaseService = new DatabaseService();
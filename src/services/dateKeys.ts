@@ -0,0 +1,108 @@
+// Date Keys - calendar days as 'yyyy-MM-dd' in the user's timezone. Every
+// per-day storage key, log_date and "today" goes through here; UTC dates
+// from toISOString() put an evening meal west of Greenwich on tomorrow.
+// The timezone comes from the profile (set once from the device) so days
+// stay put when the phone's zone changes while travelling.
+import { addDays, format, parseISO } from 'date-fns';
+
+let activeTimeZone: string | undefined;
+
+export function deviceTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Called with the profile's zone on sign-in; unset falls back to the device
+export function setTimeZone(timeZone?: string) {
+  activeTimeZone = timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+}
+
+export function getTimeZone(): string | undefined {
+  return activeTimeZone || deviceTimeZone();
+}
+
+// Calendar day of a moment in the given zone (default: the active one)
+export function toDateKey(date: Date = new Date(), timeZone: string | undefined = activeTimeZone): string {
+  if (!timeZone || timeZone === deviceTimeZone()) return format(date, 'yyyy-MM-dd');
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+// Whole calendar days, independent of DST and the device zone
+export function addDaysToKey(key: string, days: number): string {
+  return format(addDays(parseISO(key), days), 'yyyy-MM-dd');
+}
+
+// Local-midnight Date for a key, for display and date pickers
+export function dateFromKey(key: string): Date {
+  return parseISO(key);
+}
+
+// Wall-clock fields of a moment in a zone
+function wallClock(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+}
+
+// Minutes the zone is ahead of UTC at a moment
+function zoneOffsetMinutes(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = wallClock(date, timeZone);
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  return Math.round((wall - date.getTime()) / 60000);
+}
+
+// Wall-clock time of a moment in the given zone, as minutes after midnight
+export function minutesOfDay(date: Date = new Date(), timeZone: string | undefined = activeTimeZone): number {
+  if (!timeZone || timeZone === deviceTimeZone()) return date.getHours() * 60 + date.getMinutes();
+  const { hour, minute } = wallClock(date, timeZone);
+  return hour * 60 + minute;
+}
+
+// The moment a wall-clock time (minutes after midnight) happens on a day in
+// the given zone. A time a spring-forward change skips comes out an hour
+// early; one repeated when clocks fall back is its first occurrence
+export function dateAtClock(key: string, minutes: number, timeZone: string | undefined = activeTimeZone): Date {
+  if (!timeZone || timeZone === deviceTimeZone()) {
+    const date = parseISO(key);
+    date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return date;
+  }
+
+  const [year, month, day] = key.split('-').map(Number);
+  const wall = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+  // The offset at the first guess can be the wrong side of a DST change
+  const guess = wall - zoneOffsetMinutes(new Date(wall), timeZone) * 60000;
+  return new Date(wall - zoneOffsetMinutes(new Date(guess), timeZone) * 60000);
+}
@@ -0,0 +1,319 @@
+// Food Database Service - USDA FoodData Central integration
+// Searches foods, maps USDA nutrients onto NutritionInfo and builds daily logs
+import { USDA_CONFIG, ENDPOINTS, REQUEST_TIMEOUT } from '../config/api';
+import { CustomFood, DailyLog, MicronutrientKey, NutritionInfo } from '../types';
+import { roundNutrient } from './micronutrientService';
+import { generateUUID } from './uuid';
+
+// USDA nutrient IDs (FoodData Central "nutrient.id")
+export const USDA_NUTRIENT_IDS = {
+  ENERGY_KCAL: 1008,
+  ENERGY_ATWATER_GENERAL: 2047,
+  ENERGY_ATWATER_SPECIFIC: 2048,
+  PROTEIN: 1003,
+  FAT: 1004,
+  CARBS: 1005,
+  FIBER: 1079,
+  SUGARS: 2000,
+  SODIUM: 1093,
+  SATURATED_FAT: 1258,
+  POTASSIUM: 1092,
+  CALCIUM: 1087,
+  IRON: 1089,
+  VITAMIN_A_RAE: 1106,
+  VITAMIN_C: 1162,
+  VITAMIN_D: 1114,
+  VITAMIN_B12: 1178,
+  CAFFEINE: 1057,
+  ALCOHOL: 1018,
+} as const;
+
+// Reported only when USDA lists them; USDA units match Micronutrients
+const OPTIONAL_NUTRIENTS: [MicronutrientKey, number][] = [
+  ['saturatedFat', USDA_NUTRIENT_IDS.SATURATED_FAT],
+  ['potassium', USDA_NUTRIENT_IDS.POTASSIUM],
+  ['calcium', USDA_NUTRIENT_IDS.CALCIUM],
+  ['iron', USDA_NUTRIENT_IDS.IRON],
+  ['vitaminA', USDA_NUTRIENT_IDS.VITAMIN_A_RAE],
+  ['vitaminC', USDA_NUTRIENT_IDS.VITAMIN_C],
+  ['vitaminD', USDA_NUTRIENT_IDS.VITAMIN_D],
+  ['vitaminB12', USDA_NUTRIENT_IDS.VITAMIN_B12],
+  ['caffeine', USDA_NUTRIENT_IDS.CAFFEINE],
+  ['alcohol', USDA_NUTRIENT_IDS.ALCOHOL],
+];
+
+// Nutrient entry as returned by /foods/search (flat) and /food/{id} (nested)
+export interface USDAFoodNutrient {
+  nutrientId?: number;
+  value?: number;
+  unitName?: string;
+  nutrient?: { id: number; unitName?: string };
+  amount?: number;
+}
+
+export interface USDAFoodPortion {
+  gramWeight: number;
+  amount?: number;
+  modifier?: string;
+  portionDescription?: string;
+  measureUnit?: { name?: string };
+}
+
+export interface USDAFood {
+  fdcId: number;
+  description: string;
+  dataType?: string;
+  brandOwner?: string;
+  brandName?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+  foodNutrients?: USDAFoodNutrient[];
+  foodPortions?: USDAFoodPortion[];
+}
+
+export interface USDASearchResponse {
+  totalHits: number;
+  currentPage: number;
+  totalPages: number;
+  foods: USDAFood[];
+}
+
+// Foods are measured by weight, except branded drinks, which USDA reports
+// per 100 ml of the drink as served
+export type FoodUnit = 'g' | 'ml';
+
+export interface FoodPortion {
+  label: string;
+  amount: number; // in the food's unit
+}
+
+export interface FoodItem {
+  fdcId: number; // 0 for custom foods
+  customFoodId?: string;
+  name: string;
+  brand?: string;
+  dataType?: string;
+  unit: FoodUnit;
+  nutritionPer100g: NutritionInfo; // per 100 of the unit
+  portions: FoodPortion[];
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const defaultPortion = (unit: FoodUnit): FoodPortion => ({ label: `100 ${unit}`, amount: 100 });
+
+// Search only the datasets with reliable per-100g values
+const SEARCH_DATA_TYPES = ['Foundation', 'SR Legacy', 'Survey (FNDDS)', 'Branded'];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+class FoodDatabaseService {
+  // fetch is injectable so the service can be replayed against a recorded
+  // fixture; a local mock server can be used via EXPO_PUBLIC_USDA_BASE_URL
+  constructor(private fetchImpl: FetchLike = (input, init) => fetch(input, init)) {}
+
+  isConfigured(): boolean {
+    return !!USDA_CONFIG.API_KEY && USDA_CONFIG.API_KEY !== 'YOUR_USDA_API_KEY';
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    if (!this.isConfigured()) {
+      throw new Error('USDA API key not configured');
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const separator = url.includes('?') ? '&' : '?';
+      const response = await this.fetchImpl(`${url}${separator}api_key=${USDA_CONFIG.API_KEY}`, {
+        method: 'GET',
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`USDA API Error: ${response.status} - ${errorText}`);
+      }
+
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  async searchFoods(query: string, pageSize: number = 25): Promise<FoodItem[]> {
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const params = [
+      `query=${encodeURIComponent(trimmed)}`,
+      `pageSize=${pageSize}`,
+      `dataType=${encodeURIComponent(SEARCH_DATA_TYPES.join(','))}`,
+    ].join('&');
+
+    console.log('🔎 Searching USDA foods:', trimmed);
+    const data = await this.request<USDASearchResponse>(`${ENDPOINTS.USDA.SEARCH}?${params}`);
+    return (data.foods || []).map(food => this.mapFood(food));
+  }
+
+  async getFood(fdcId: number | string): Promise<FoodItem> {
+    const food = await this.request<USDAFood>(ENDPOINTS.USDA.FOOD(String(fdcId)));
+    return this.mapFood(food);
+  }
+
+  mapFood(food: USDAFood): FoodItem {
+    const unit: FoodUnit = food.servingSizeUnit?.toLowerCase() === 'ml' ? 'ml' : 'g';
+    return {
+      fdcId: food.fdcId,
+      name: food.description,
+      brand: food.brandName || food.brandOwner || undefined,
+      dataType: food.dataType,
+      unit,
+      nutritionPer100g: this.mapNutrients(food.foodNutrients || []),
+      portions: this.mapPortions(food, unit),
+    };
+  }
+
+  // Custom foods share the USDA shape so they use the same portion picker
+  mapCustomFood(food: CustomFood): FoodItem {
+    const servings = food.serving_sizes.filter(size => size.grams > 0);
+    const perServing = food.nutrition_basis === 'per_serving' && servings.length > 0;
+    const per100g = perServing
+      ? this.scaleNutrition(food.nutrition, (100 * 100) / servings[0].grams)
+      : food.nutrition;
+
+    return {
+      fdcId: 0,
+      customFoodId: food.id,
+      name: food.name,
+      brand: food.brand || undefined,
+      dataType: 'Custom',
+      unit: 'g',
+      nutritionPer100g: per100g,
+      portions: [
+        ...servings.map(size => ({ label: `${size.label} (${Math.round(size.grams)} g)`, amount: size.grams })),
+        defaultPortion('g'),
+      ],
+    };
+  }
+
+  // USDA values for Foundation, SR Legacy, Survey and Branded foods are per
+  // 100 g, or per 100 ml for branded foods served by volume
+  mapNutrients(foodNutrients: USDAFoodNutrient[]): NutritionInfo {
+    const values = new Map<number, number>();
+    for (const entry of foodNutrients) {
+      const id = entry.nutrientId ?? entry.nutrient?.id;
+      const value = entry.value ?? entry.amount;
+      if (id !== undefined && typeof value === 'number' && !values.has(id)) {
+        values.set(id, value);
+      }
+    }
+
+    const protein = values.get(USDA_NUTRIENT_IDS.PROTEIN) || 0;
+    const carbs = values.get(USDA_NUTRIENT_IDS.CARBS) || 0;
+    const fats = values.get(USDA_NUTRIENT_IDS.FAT) || 0;
+
+    // Foundation foods often only report Atwater energy; derive as a last resort
+    const calories = values.get(USDA_NUTRIENT_IDS.ENERGY_KCAL)
+      ?? values.get(USDA_NUTRIENT_IDS.ENERGY_ATWATER_SPECIFIC)
+      ?? values.get(USDA_NUTRIENT_IDS.ENERGY_ATWATER_GENERAL)
+      ?? protein * 4 + carbs * 4 + fats * 9;
+
+    const nutrition: NutritionInfo = {
+      calories: Math.round(calories),
+      protein: round1(protein),
+      carbs: round1(carbs),
+      fats: round1(fats),
+      fiber: round1(values.get(USDA_NUTRIENT_IDS.FIBER) || 0),
+      sugar: round1(values.get(USDA_NUTRIENT_IDS.SUGARS) || 0),
+      sodium: Math.round(values.get(USDA_NUTRIENT_IDS.SODIUM) || 0),
+    };
+    for (const [key, id] of OPTIONAL_NUTRIENTS) {
+      const value = values.get(id);
+      if (value !== undefined) nutrition[key] = roundNutrient(key, value);
+    }
+    return nutrition;
+  }
+
+  private mapPortions(food: USDAFood, unit: FoodUnit): FoodPortion[] {
+    const portions: FoodPortion[] = [defaultPortion(unit)];
+
+    // Branded foods declare a single label serving
+    if (food.servingSize && food.servingSizeUnit?.toLowerCase() === unit) {
+      portions.push({
+        label: food.householdServingFullText
+          ? `${food.householdServingFullText} (${Math.round(food.servingSize)} ${unit})`
+          : `1 serving (${Math.round(food.servingSize)} ${unit})`,
+        amount: food.servingSize,
+      });
+    }
+
+    // Foundation / SR Legacy foods list household measures by weight
+    for (const portion of food.foodPortions || []) {
+      if (!portion.gramWeight || unit !== 'g') continue;
+      const measure = portion.portionDescription
+        || [portion.amount, portion.measureUnit?.name !== 'undetermined' ? portion.measureUnit?.name : undefined, portion.modifier]
+          .filter(Boolean)
+          .join(' ');
+      portions.push({
+        label: `${measure || '1 portion'} (${Math.round(portion.gramWeight)} g)`,
+        amount: portion.gramWeight,
+      });
+    }
+
+    return portions;
+  }
+
+  scaleNutrition(per100g: NutritionInfo, amount: number): NutritionInfo {
+    const factor = amount / 100;
+    const scaled: NutritionInfo = {
+      calories: Math.round(per100g.calories * factor),
+      protein: round1(per100g.protein * factor),
+      carbs: round1(per100g.carbs * factor),
+      fats: round1(per100g.fats * factor),
+      fiber: round1((per100g.fiber || 0) * factor),
+      sugar: round1((per100g.sugar || 0) * factor),
+      sodium: Math.round((per100g.sodium || 0) * factor),
+    };
+    for (const [key] of OPTIONAL_NUTRIENTS) {
+      const value = per100g[key];
+      if (typeof value === 'number') scaled[key] = roundNutrient(key, value * factor);
+    }
+    return scaled;
+  }
+
+  // Build a DailyLog for a specific food and portion size
+  createFoodLog(
+    userId: string,
+    food: FoodItem,
+    amount: number, // in the food's unit
+    mealType: DailyLog['meal_type'],
+    logDate: string
+  ): DailyLog {
+    const nutrition = this.scaleNutrition(food.nutritionPer100g, amount);
+    const portion = `${Math.round(amount)} ${food.unit}`;
+    const name = food.brand ? `${food.name} (${food.brand})` : food.name;
+
+    return {
+      id: generateUUID(),
+      user_id: userId,
+      log_date: logDate,
+      meal_type: mealType,
+      food_name: name,
+      nutrition_consumed: nutrition,
+      ingredients: [`${portion} ${food.name}`],
+      instructions: [],
+      emoji: '🥄',
+      description: food.customFoodId
+        ? `${portion} · My Foods`
+        : `${portion} · USDA FoodData Central #${food.fdcId}`,
+      created_at: new Date().toISOString(),
+    };
+  }
+}
+
+export { FoodDatabaseService };
+export const foodDatabaseService = new FoodDatabaseService();
@@ -0,0 +1,201 @@
+// Hydration Service - what counts towards the daily water goal. Entries are
+// stored in ml per beverage; hydration_ml scales the volume by the
+// beverage's hydration coefficient, and the beverage's macros per 100 ml
+// add its energy to the day's food totals. The goal follows body weight plus the
+// day's completed exercise minutes, and pacing compares what was drunk with
+// an even spread of the goal over the hydration reminder window.
+import { BeverageType, NutritionInfo, WaterIntake } from '../types';
+import { databaseService } from './databaseService';
+import { alcoholCalories, alcoholGrams } from './caffeineAlcoholService';
+import { isSupabaseConfigured } from '../config/supabase';
+import { minutesOfDay } from './dateKeys';
+
+export interface BeverageMacros {
+  protein: number;
+  carbs: number;
+  fats: number;
+  sugar: number;
+}
+
+export interface BeverageInfo {
+  label: string;
+  emoji: string;
+  coefficient: number;
+  caffeineMgPerMl: number;
+  abvPercent: number;
+  macrosPer100ml: BeverageMacros; // besides the alcohol
+  servings: number[]; // quick-add sizes in ml
+}
+
+const NO_MACROS: BeverageMacros = { protein: 0, carbs: 0, fats: 0, sugar: 0 };
+
+// Milk's electrolytes and protein keep it on par with water; caffeine's
+// mild diuretic effect discounts coffee and tea. Beer still hydrates a
+// little, while wine and spirits cost about as much water as they bring.
+// Caffeine is typical brewed strength (95 mg per 240 ml cup of coffee).
+// Macros are USDA values for whole milk, orange juice, a sugared energy
+// drink, regular beer and red wine; black coffee and tea have next to none
+export const BEVERAGES: Record<BeverageType, BeverageInfo> = {
+  water: {
+    label: 'Water', emoji: '💧', coefficient: 1, caffeineMgPerMl: 0, abvPercent: 0,
+    macrosPer100ml: NO_MACROS, servings: [150, 250, 500],
+  },
+  tea: {
+    label: 'Tea', emoji: '🍵', coefficient: 0.9, caffeineMgPerMl: 0.2, abvPercent: 0,
+    macrosPer100ml: NO_MACROS, servings: [150, 250, 350],
+  },
+  coffee: {
+    label: 'Coffee', emoji: '☕', coefficient: 0.8, caffeineMgPerMl: 0.4, abvPercent: 0,
+    macrosPer100ml: NO_MACROS, servings: [100, 250, 350],
+  },
+  milk: {
+    label: 'Milk', emoji: '🥛', coefficient: 1, caffeineMgPerMl: 0, abvPercent: 0,
+    macrosPer100ml: { protein: 3.3, carbs: 4.8, fats: 3.3, sugar: 5.2 }, servings: [150, 250, 500],
+  },
+  juice: {
+    label: 'Juice', emoji: '🧃', coefficient: 0.9, caffeineMgPerMl: 0, abvPercent: 0,
+    macrosPer100ml: { protein: 0.7, carbs: 10.4, fats: 0.2, sugar: 8.4 }, servings: [150, 250, 330],
+  },
+  energy_drink: {
+    label: 'Energy', emoji: '⚡', coefficient: 0.8, caffeineMgPerMl: 0.32, abvPercent: 0,
+    macrosPer100ml: { protein: 0, carbs: 11, fats: 0, sugar: 11 }, servings: [250, 355, 500],
+  },
+  beer: {
+    label: 'Beer', emoji: '🍺', coefficient: 0.5, caffeineMgPerMl: 0, abvPercent: 5,
+    macrosPer100ml: { protein: 0.5, carbs: 3.6, fats: 0, sugar: 0 }, servings: [330, 500, 568],
+  },
+  wine: {
+    label: 'Wine', emoji: '🍷', coefficient: 0, caffeineMgPerMl: 0, abvPercent: 12,
+    macrosPer100ml: { protein: 0.1, carbs: 2.6, fats: 0, sugar: 0.6 }, servings: [125, 175, 250],
+  },
+  spirits: {
+    label: 'Spirits', emoji: '🥃', coefficient: 0, caffeineMgPerMl: 0, abvPercent: 40,
+    macrosPer100ml: NO_MACROS, servings: [25, 44, 60],
+  },
+};
+
+export const DEFAULT_HYDRATION_GOAL_ML = 2500;
+
+const ML_PER_KG = 35;
+const ML_PER_EXERCISE_MINUTE = 12; // ~0.7 L of sweat per hour
+const MIN_GOAL_ML = 1500;
+const MAX_GOAL_ML = 5000;
+
+// Within one glass of the pace line counts as on track
+const PACE_TOLERANCE_ML = 250;
+
+export type PaceStatus = 'ahead' | 'on_track' | 'behind';
+
+export interface HydrationWindow {
+  start: number; // minutes after midnight
+  end: number;
+}
+
+export interface TimelinePoint {
+  minutes: number;
+  totalMl: number; // cumulative hydration after this entry
+}
+
+export function hydrationMl(amountMl: number, beverage: BeverageType): number {
+  return Math.round(amountMl * BEVERAGES[beverage].coefficient);
+}
+
+export function beverageNutrients(amountMl: number, beverage: BeverageType): { caffeine_mg: number; alcohol_g: number } {
+  const info = BEVERAGES[beverage];
+  return {
+    caffeine_mg: Math.round(amountMl * info.caffeineMgPerMl),
+    alcohol_g: alcoholGrams(amountMl, info.abvPercent),
+  };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function scaledMacros(amountMl: number, beverage: BeverageType): BeverageMacros {
+  const macros = BEVERAGES[beverage].macrosPer100ml;
+  return {
+    protein: (macros.protein * amountMl) / 100,
+    carbs: (macros.carbs * amountMl) / 100,
+    fats: (macros.fats * amountMl) / 100,
+    sugar: (macros.sugar * amountMl) / 100,
+  };
+}
+
+const macroCalories = (macros: BeverageMacros) => Math.round(macros.protein * 4 + macros.carbs * 4 + macros.fats * 9);
+
+// Energy of one drink, for labelling quick-add sizes
+export function beverageCalories(amountMl: number, beverage: BeverageType): number {
+  return macroCalories(scaledMacros(amountMl, beverage))
+    + alcoholCalories(alcoholGrams(amountMl, BEVERAGES[beverage].abvPercent));
+}
+
+// A day's drinks as nutrition, so they add to food totals. Calories come
+// from the beverages' macros plus the alcohol
+export function beverageNutrition(entries: WaterIntake[]): NutritionInfo {
+  const macros = entries.reduce<BeverageMacros>((sum, entry) => {
+    const drink = scaledMacros(entry.amount_ml, entry.beverage_type);
+    return {
+      protein: sum.protein + drink.protein,
+      carbs: sum.carbs + drink.carbs,
+      fats: sum.fats + drink.fats,
+      sugar: sum.sugar + drink.sugar,
+    };
+  }, NO_MACROS);
+  const caffeine = entries.reduce((sum, entry) => sum + (entry.caffeine_mg || 0), 0);
+  const alcohol = round1(entries.reduce((sum, entry) => sum + (Number(entry.alcohol_g) || 0), 0));
+  return {
+    calories: macroCalories(macros) + alcoholCalories(alcohol),
+    protein: round1(macros.protein),
+    carbs: round1(macros.carbs),
+    fats: round1(macros.fats),
+    sugar: round1(macros.sugar),
+    caffeine,
+    alcohol,
+  };
+}
+
+export function hydrationGoalMl(weightKg: number | undefined, exerciseMinutes: number = 0): number {
+  const base = weightKg && weightKg > 0 ? weightKg * ML_PER_KG : DEFAULT_HYDRATION_GOAL_ML;
+  const goal = Math.round((base + exerciseMinutes * ML_PER_EXERCISE_MINUTE) / 50) * 50;
+  return Math.min(MAX_GOAL_ML, Math.max(MIN_GOAL_ML, goal));
+}
+
+// Share of the goal due by a time of day, rising evenly across the window
+export function expectedByMinutes(goalMl: number, window: HydrationWindow, minutes: number): number {
+  if (window.end <= window.start) return minutes >= window.end ? goalMl : 0;
+  const share = (minutes - window.start) / (window.end - window.start);
+  return Math.round(goalMl * Math.min(1, Math.max(0, share)));
+}
+
+export function paceStatus(consumedMl: number, expectedMl: number): PaceStatus {
+  if (consumedMl >= expectedMl + PACE_TOLERANCE_ML) return 'ahead';
+  if (consumedMl <= expectedMl - PACE_TOLERANCE_ML) return 'behind';
+  return 'on_track';
+}
+
+export function intakeTimeline(entries: WaterIntake[]): TimelinePoint[] {
+  let totalMl = 0;
+  return [...entries]
+    .sort((a, b) => Date.parse(a.intake_time) - Date.parse(b.intake_time))
+    .map(entry => {
+      totalMl += entry.hydration_ml;
+      return { minutes: minutesOfDay(new Date(entry.intake_time)), totalMl };
+    });
+}
+
+class HydrationService {
+  // Completed workouts from exercise_routines; none in demo mode
+  async getExerciseMinutes(date: string): Promise<number> {
+    if (!isSupabaseConfigured) return 0;
+    const routines = await databaseService.getExerciseRoutines(date);
+    return routines
+      .filter(routine => routine.is_completed)
+      .reduce((sum, routine) => sum + (routine.duration_minutes || 0), 0);
+  }
+
+  async getDailyGoal(weightKg: number | undefined, date: string): Promise<{ goalMl: number; exerciseMinutes: number }> {
+    const exerciseMinutes = await this.getExerciseMinutes(date);
+    return { goalMl: hydrationGoalMl(weightKg, exerciseMinutes), exerciseMinutes };
+  }
+}
+
+export const hydrationService = new HydrationService();
@@ -0,0 +1,167 @@
+// Ingredient Parser - turns recipe lines such as "1 1/2 cups rolled oats"
+// into a quantity, a canonical unit and the ingredient name. Deterministic:
+// the same line always gives the same result, with no lookups or AI calls
+import { Ingredient } from '../types/database';
+import { normalizeUnit, toBaseAmount } from './unitConversion';
+
+export interface ParsedIngredient {
+  raw: string;
+  quantity: number | null; // null for "salt and pepper" style lines; low end of a range
+  quantityMax: number | null; // high end for ranges like "2-3 cloves", otherwise null
+  unit: string | null; // canonical unit; null for plain counts ("3 eggs")
+  name: string;
+  rest: string; // the line after quantity and unit, as written ("rolled oats, toasted")
+  normalized: { amount: number; unit: 'g' | 'ml' } | null; // mass/volume in grams or millilitres
+}
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5',
+  '⅗': '3/5', '⅘': '4/5', '⅙': '1/6', '⅚': '5/6', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8',
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8,
+  nine: 9, ten: 10, eleven: 11, twelve: 12, dozen: 12, 'a dozen': 12, half: 0.5, 'a half': 0.5,
+  'a couple of': 2, 'a couple': 2, couple: 2, 'a few': 3, few: 3,
+};
+
+const NUMBER = String.raw`\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?`;
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})(?:\\s*(?:-|–|to|or)\\s*(${NUMBER}))?`);
+const WORD_QUANTITY_PATTERN = new RegExp(
+  `^(${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|')})\\b\\s*`
+);
+// "1 (400 g) can chickpeas" - a package size in brackets after the count
+const PACKAGE_PATTERN = new RegExp(`^\\((${NUMBER})\\s*([a-z. ]+?)\\)\\s*`);
+const SIZE_WORDS = /^(?:small|medium|large|extra[- ]large|big|heaping|heaped|level|scant)\s+/;
+const TRAILING_NOTES = /\s+(?:to taste|as needed|for serving|for garnish|optional)$/;
+
+export function parseQuantity(text: string): number | null {
+  const value = replaceUnicodeFractions(text).trim();
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[3]) === 0 ? null : Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+
+  const number = Number(value);
+  return value !== '' && Number.isFinite(number) ? number : null;
+}
+
+// "1½" and "1 ½" -> "1 1/2" so the ASCII patterns handle both
+function replaceUnicodeFractions(text: string): string {
+  return text.replace(/(\d*)\s*([½⅓⅔¼¾⅕⅖⅗⅘⅙⅚⅛⅜⅝⅞])/g, (_, whole: string, symbol: string) =>
+    whole ? `${whole} ${UNICODE_FRACTIONS[symbol]}` : UNICODE_FRACTIONS[symbol]
+  );
+}
+
+// Drop preparation notes and sizes: "Chicken breast (boneless), diced" -> "chicken breast"
+export function cleanIngredientName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\([^)]*\)/g, ' ')
+    .split(',')[0]
+    .replace(/^(?:a little|a bit of|a splash of|a drizzle of|of|an?)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(TRAILING_NOTES, '')
+    .replace(SIZE_WORDS, '');
+}
+
+// Matching key for merging the same ingredient across recipes
+export function ingredientKey(name: string): string {
+  return cleanIngredientName(name)
+    .split(' ')
+    .map((word, index, words) => (index === words.length - 1 ? singularize(word) : word))
+    .join(' ');
+}
+
+function singularize(word: string): string {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(tomato|potato)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+// Take a leading unit (one or two words) off the rest of the line
+function splitUnit(rest: string): { unit: string | null; rest: string } {
+  const words = rest.split(/\s+/);
+  if (words.length > 1) {
+    const twoWordUnit = normalizeUnit(`${words[0]} ${words[1]}`);
+    if (twoWordUnit) return { unit: twoWordUnit, rest: words.slice(2).join(' ') };
+  }
+  const unit = normalizeUnit(words[0] || '');
+  if (unit) return { unit, rest: words.slice(1).join(' ') };
+  return { unit: null, rest };
+}
+
+// Leading quantity as digits ("2-3", "1 1/2") or words ("a", "two", "a couple of")
+function splitQuantity(text: string): { quantity: number | null; quantityMax: number | null; rest: string } {
+  const numeric = text.match(QUANTITY_PATTERN);
+  if (numeric) {
+    const quantity = parseQuantity(numeric[1]);
+    const quantityMax = numeric[2] ? parseQuantity(numeric[2]) : null;
+    return { quantity, quantityMax, rest: text.slice(numeric[0].length).trim() };
+  }
+
+  const word = text.toLowerCase().match(WORD_QUANTITY_PATTERN);
+  if (word) {
+    const rest = text.slice(word[0].length).trim();
+    // "a pinch of salt" counts; "a little oil" is an unmeasured line
+    if (rest && !/^(?:little|bit|splash)\b/i.test(rest)) {
+      return { quantity: NUMBER_WORDS[word[1]], quantityMax: null, rest };
+    }
+  }
+  return { quantity: null, quantityMax: null, rest: text };
+}
+
+export function parseIngredient(text: string): ParsedIngredient {
+  const raw = text.trim();
+  let { quantity, quantityMax, rest } = splitQuantity(replaceUnicodeFractions(raw).replace(/\s+/g, ' '));
+  let unit: string | null;
+
+  // A package size multiplies the count: "2 (400 g) cans" -> 800 g
+  const packageSize = rest.match(PACKAGE_PATTERN);
+  const packageUnit = packageSize ? normalizeUnit(packageSize[2]) : null;
+  if (packageSize && packageUnit && quantity !== null) {
+    const size = parseQuantity(packageSize[1]) || 0;
+    quantity *= size;
+    quantityMax = quantityMax !== null ? quantityMax * size : null;
+    unit = packageUnit;
+    rest = splitUnit(rest.slice(packageSize[0].length)).rest;
+  } else {
+    ({ unit, rest } = splitUnit(rest));
+  }
+
+  // "pinch of salt" with no number means one pinch
+  if (quantity === null && unit !== null) {
+    quantity = 1;
+  }
+
+  const base = quantity !== null && unit !== null ? toBaseAmount(quantity, unit) : null;
+  return {
+    raw,
+    quantity,
+    quantityMax,
+    unit,
+    name: cleanIngredientName(rest),
+    rest,
+    normalized: base && { amount: Math.round(base.amount * 100) / 100, unit: base.unit },
+  };
+}
+
+// Structured ingredient for recipe payloads; grams/ml when the unit converts
+export function toIngredient(parsed: ParsedIngredient): Ingredient {
+  if (parsed.normalized) {
+    return { name: parsed.name, amount: parsed.normalized.amount, unit: parsed.normalized.unit };
+  }
+  return {
+    name: parsed.name,
+    amount: parsed.quantity ?? 0,
+    unit: parsed.unit || (parsed.quantity !== null ? 'piece' : 'to taste'),
+  };
+}
+
+export function parseIngredients(lines: string[]): Ingredient[] {
+  return lines.map(line => toIngredient(parseIngredient(line)));
+}
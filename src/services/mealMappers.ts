@@ -0,0 +1,360 @@
+// Meal Mappers - conversions between the domain meal model in src/types and
+// the shapes it is stored or received in: recipe rows, daily logs, meal plan
+// rows, meal templates and validated AI responses
+import {
+  DailyLog,
+  DayPlan,
+  Meal,
+  MealPlanRow,
+  MealTemplate,
+  MealTemplateItem,
+  MealType,
+  NutritionInfo,
+  PlannedDay,
+  Recipe,
+  RecipeRow,
+  WeeklyPlan,
+} from '../types';
+import type { AIMeal, AIRecipe } from './aiSchemas';
+import { pickMicronutrients, sumNutrition } from './micronutrientService';
+import { scaleNutrition } from './recipeScaler';
+
+const DEFAULT_EMOJI = '🍽️';
+
+// ==================== AI RESPONSES ====================
+
+export function mealFromAI(meal: AIMeal | AIRecipe, mealType: MealType, id: string): Meal {
+  return {
+    id,
+    name: meal.name,
+    description: meal.description,
+    calories: Math.round(meal.calories),
+    protein: meal.protein,
+    carbs: meal.carbs,
+    fats: meal.fats,
+    ...pickMicronutrients(meal),
+    fiber: meal.fiber,
+    sugar: meal.sugar,
+    ingredients: meal.ingredients,
+    instructions: meal.instructions,
+    prepTime: meal.prepTime,
+    cookTime: meal.cookTime,
+    mealType,
+    tags: meal.tags,
+    emoji: meal.imageEmoji,
+    imageEmoji: meal.imageEmoji,
+    healthBenefits: 'healthBenefits' in meal ? meal.healthBenefits : undefined,
+  };
+}
+
+// ==================== RECIPES ====================
+
+export function recipeFromRow(row: RecipeRow): Recipe {
+  const emoji = row.image_url || DEFAULT_EMOJI;
+  return {
+    id: row.id,
+    name: row.title,
+    description: row.description || '',
+    calories: row.nutrition_info?.calories || 0,
+    protein: row.nutrition_info?.protein || 0,
+    carbs: row.nutrition_info?.carbs || 0,
+    fats: row.nutrition_info?.fats || 0,
+    ...pickMicronutrients(row.nutrition_info || {}),
+    fiber: row.nutrition_info?.fiber || 0,
+    sugar: row.nutrition_info?.sugar || 0,
+    ingredients: row.ingredients || [],
+    instructions: row.instructions || [],
+    prepTime: row.prep_time || 0,
+    cookTime: row.cook_time || 0,
+    mealType: row.meal_type,
+    tags: row.tags || [],
+    emoji,
+    imageEmoji: emoji,
+    servings: row.servings || 1,
+    cuisineType: row.cuisine_type,
+    isFavorite: !!row.is_favorite,
+    createdAt: row.created_at,
+  };
+}
+
+// Columns written when a meal is saved as a recipe; the id, favorite flag
+// and created_at belong to the table
+export function recipeToRow(
+  meal: Meal | Recipe,
+  userId: string
+): Omit<RecipeRow, 'id' | 'is_favorite' | 'created_at'> {
+  return {
+    user_id: userId,
+    title: meal.name,
+    description: meal.description,
+    ingredients: meal.ingredients,
+    instructions: meal.instructions,
+    prep_time: meal.prepTime,
+    cook_time: meal.cookTime,
+    servings: 'servings' in meal ? meal.servings : 1,
+    nutrition_info: {
+      calories: meal.calories,
+      protein: meal.protein,
+      carbs: meal.carbs,
+      fats: meal.fats,
+      ...pickMicronutrients(meal),
+      localId: meal.id, // Store original local ID
+    },
+    meal_type: meal.mealType,
+    cuisine_type: 'cuisineType' in meal ? meal.cuisineType : undefined,
+    image_url: meal.emoji || meal.imageEmoji,
+    tags: meal.tags || [],
+  };
+}
+
+// ==================== DAILY LOGS ====================
+
+// Row payload for apply_daily_log_mutation; recipe details ride along in notes
+export function dailyLogToRow(log: DailyLog) {
+  return {
+    id: log.id,
+    log_date: log.log_date,
+    meal_type: log.meal_type,
+    food_name: log.food_name,
+    nutrition_consumed: log.nutrition_consumed,
+    created_at: log.created_at,
+    notes: JSON.stringify({
+      ingredients: log.ingredients,
+      instructions: log.instructions,
+      prepTime: log.prepTime,
+      cookTime: log.cookTime,
+      emoji: log.emoji,
+      description: log.description,
+      notes: log.notes,
+      portion: log.portion,
+      baseNutrition: log.baseNutrition,
+      eatenAt: log.eatenAt,
+    }),
+  };
+}
+
+export function dailyLogFromRow(row: any): DailyLog {
+  let notes: Partial<DailyLog> = {};
+  try {
+    notes = row.notes ? JSON.parse(row.notes) : {};
+  } catch (e) {
+    notes = {};
+  }
+  return {
+    id: row.id,
+    user_id: row.user_id,
+    log_date: row.log_date,
+    meal_type: row.meal_type,
+    food_name: row.food_name,
+    nutrition_consumed: row.nutrition_consumed,
+    ingredients: notes.ingredients,
+    instructions: notes.instructions,
+    prepTime: notes.prepTime,
+    cookTime: notes.cookTime,
+    emoji: notes.emoji,
+    description: notes.description,
+    notes: notes.notes,
+    portion: notes.portion,
+    baseNutrition: notes.baseNutrition,
+    eatenAt: notes.eatenAt,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    deleted_at: row.deleted_at || undefined,
+  };
+}
+
+export function mealFromDailyLog(log: DailyLog): Meal {
+  const emoji = log.emoji || DEFAULT_EMOJI;
+  return {
+    id: log.id,
+    name: log.food_name,
+    description: log.description || '',
+    calories: log.nutrition_consumed?.calories || 0,
+    protein: log.nutrition_consumed?.protein || 0,
+    carbs: log.nutrition_consumed?.carbs || 0,
+    fats: log.nutrition_consumed?.fats || 0,
+    ...pickMicronutrients(log.nutrition_consumed || {}),
+    fiber: log.nutrition_consumed?.fiber || 0,
+    sugar: log.nutrition_consumed?.sugar || 0,
+    ingredients: log.ingredients || [],
+    instructions: log.instructions || [],
+    prepTime: log.prepTime || 0,
+    cookTime: log.cookTime || 0,
+    mealType: log.meal_type,
+    tags: [],
+    emoji,
+    imageEmoji: emoji,
+  };
+}
+
+// A log entry for eating a meal, with the full recipe details
+export function mealToDailyLog(
+  meal: Meal,
+  entry: { id: string; userId: string; date: string; timestamp: string }
+): DailyLog {
+  return {
+    id: entry.id,
+    user_id: entry.userId,
+    log_date: entry.date,
+    meal_type: meal.mealType,
+    food_name: meal.name,
+    nutrition_consumed: {
+      calories: meal.calories,
+      protein: meal.protein,
+      carbs: meal.carbs,
+      fats: meal.fats,
+      ...pickMicronutrients(meal),
+    },
+    ingredients: meal.ingredients || [],
+    instructions: meal.instructions || [],
+    prepTime: meal.prepTime,
+    cookTime: meal.cookTime,
+    emoji: meal.emoji || meal.imageEmoji,
+    description: meal.description,
+    created_at: entry.timestamp,
+    updated_at: entry.timestamp,
+  };
+}
+
+// A log repeated on another date, as a new entry
+export function copyDailyLog(
+  log: DailyLog,
+  entry: { id: string; date: string; timestamp: string }
+): DailyLog {
+  const { deleted_at, eatenAt, ...rest } = log;
+  return {
+    ...rest,
+    id: entry.id,
+    log_date: entry.date,
+    created_at: entry.timestamp,
+    updated_at: entry.timestamp,
+  };
+}
+
+// A food added to a meal slot that is already logged. The slot's entry keeps
+// its id, so the server updates it rather than tombstoning it, and its
+// portion becomes part of the combined total
+export function mergeFoodIntoLog(slot: DailyLog, food: DailyLog, timestamp: string): DailyLog {
+  const { portion, baseNutrition, ...rest } = slot;
+  return {
+    ...rest,
+    food_name: `${slot.food_name}, ${food.food_name}`,
+    nutrition_consumed: sumNutrition([slot.nutrition_consumed, food.nutrition_consumed]),
+    ingredients: [...(slot.ingredients || []), ...(food.ingredients || [])],
+    description: [slot.description, food.description].filter(Boolean).join(' · ') || undefined,
+    updated_at: timestamp,
+  };
+}
+
+export interface DailyLogEdit {
+  portion: number;
+  meal_type: MealType;
+  eatenAt: string;
+  notes: string;
+  nutrition?: NutritionInfo; // overrides; otherwise base nutrition × portion
+}
+
+// Nutrition of one portion; logs saved before editing existed are one portion
+export function baseNutritionOf(log: DailyLog): NutritionInfo {
+  return log.baseNutrition || log.nutrition_consumed;
+}
+
+export function applyDailyLogEdit(log: DailyLog, edit: DailyLogEdit, timestamp: string): DailyLog {
+  return {
+    ...log,
+    meal_type: edit.meal_type,
+    portion: edit.portion,
+    baseNutrition: baseNutritionOf(log),
+    nutrition_consumed: edit.nutrition || scaleNutrition(baseNutritionOf(log), edit.portion),
+    eatenAt: edit.eatenAt,
+    notes: edit.notes.trim() || undefined,
+    updated_at: timestamp,
+  };
+}
+
+// ==================== MEAL TEMPLATES ====================
+
+export function templateItemFromLog(log: DailyLog): MealTemplateItem {
+  return {
+    meal_type: log.meal_type,
+    food_name: log.food_name,
+    nutrition_consumed: log.nutrition_consumed,
+    ingredients: log.ingredients,
+    emoji: log.emoji,
+  };
+}
+
+// One log per meal type - the daily log keeps a single entry per meal type,
+// so several foods of the same type are logged together under the template name
+export function templateToDailyLogs(
+  template: MealTemplate,
+  entry: { userId: string; date: string; timestamp: string; createId: () => string }
+): DailyLog[] {
+  const groups = new Map<MealType, MealTemplateItem[]>();
+  for (const item of template.items) {
+    groups.set(item.meal_type, [...(groups.get(item.meal_type) || []), item]);
+  }
+
+  return [...groups.entries()].map(([mealType, items]) => ({
+    id: entry.createId(),
+    user_id: entry.userId,
+    log_date: entry.date,
+    meal_type: mealType,
+    food_name: items.length === 1 ? items[0].food_name : template.name,
+    nutrition_consumed: sumNutrition(items.map(item => item.nutrition_consumed)),
+    ingredients: items.flatMap(item => item.ingredients || []),
+    instructions: [],
+    emoji: items[0].emoji || '📋',
+    description: items.length === 1
+      ? `From template "${template.name}"`
+      : items.map(item => item.food_name).join(', '),
+    created_at: entry.timestamp,
+    updated_at: entry.timestamp,
+  }));
+}
+
+// ==================== MEAL PLANS ====================
+
+export function plannedDayFromDayPlan(plan: DayPlan): PlannedDay {
+  return {
+    breakfast: plan.breakfast,
+    lunch: plan.lunch,
+    dinner: plan.dinner,
+    snack: plan.snacks[0],
+  };
+}
+
+// Later meals of the same type replace earlier ones
+export function plannedDayFromMeals(meals: Meal[]): PlannedDay {
+  const day: PlannedDay = {};
+  for (const meal of meals) {
+    day[meal.mealType] = meal;
+  }
+  return day;
+}
+
+export function weeklyPlanFromRow(row: MealPlanRow): WeeklyPlan {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    weekStartDate: row.week_start_date,
+    days: row.plan_data?.days || {},
+    aiModelUsed: row.ai_model_used,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+  };
+}
+
+export function weeklyPlanToRow(
+  plan: Omit<WeeklyPlan, 'id' | 'createdAt'>,
+  generationPrompt?: string
+): Omit<MealPlanRow, 'id' | 'created_at'> {
+  return {
+    user_id: plan.userId,
+    week_start_date: plan.weekStartDate,
+    plan_data: { days: plan.days },
+    ai_model_used: plan.aiModelUsed,
+    generation_prompt: generationPrompt,
+    is_active: plan.isActive,
+  };
+}
@@ -0,0 +1,153 @@
+// Micronutrient Service - nutrient metadata, totals and daily reference
+// values. Reference values follow the US Dietary Reference Intakes (RDA or
+// adequate intake) for the user's age and gender; sugar, sodium and saturated
+// fat are upper limits rather than goals, as are caffeine and alcohol (see
+// caffeineAlcoholService)
+import { MicronutrientKey, Micronutrients, NutritionInfo, NutritionTarget, User } from '../types';
+import { alcoholLimitGrams, caffeineLimitMg } from './caffeineAlcoholService';
+
+export interface MicronutrientInfo {
+  key: MicronutrientKey;
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  kind: 'goal' | 'limit'; // reach at least / stay under
+  decimals: 0 | 1;
+}
+
+// Display order for the detail view
+export const MICRONUTRIENTS: MicronutrientInfo[] = [
+  { key: 'fiber', label: 'Fiber', unit: 'g', kind: 'goal', decimals: 1 },
+  { key: 'sugar', label: 'Sugar', unit: 'g', kind: 'limit', decimals: 1 },
+  { key: 'saturatedFat', label: 'Saturated Fat', unit: 'g', kind: 'limit', decimals: 1 },
+  { key: 'sodium', label: 'Sodium', unit: 'mg', kind: 'limit', decimals: 0 },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', kind: 'goal', decimals: 0 },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', kind: 'goal', decimals: 0 },
+  { key: 'iron', label: 'Iron', unit: 'mg', kind: 'goal', decimals: 1 },
+  { key: 'vitaminA', label: 'Vitamin A', unit: 'µg', kind: 'goal', decimals: 0 },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', kind: 'goal', decimals: 1 },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', kind: 'goal', decimals: 1 },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'µg', kind: 'goal', decimals: 1 },
+  { key: 'caffeine', label: 'Caffeine', unit: 'mg', kind: 'limit', decimals: 0 },
+  { key: 'alcohol', label: 'Alcohol', unit: 'g', kind: 'limit', decimals: 1 },
+];
+
+export const MICRONUTRIENT_KEYS: MicronutrientKey[] = MICRONUTRIENTS.map(n => n.key);
+
+export const NUTRITION_KEYS: (keyof NutritionInfo)[] = ['calories', 'protein', 'carbs', 'fats', ...MICRONUTRIENT_KEYS];
+
+// kcal and nutrients measured in hundreds round to whole numbers, the rest to 0.1
+export function roundNutrient(key: keyof NutritionInfo, value: number): number {
+  const info = MICRONUTRIENTS.find(n => n.key === key);
+  return key === 'calories' || info?.decimals === 0
+    ? Math.round(value)
+    : Math.round(value * 10) / 10;
+}
+
+// The micronutrients a source reports; missing values stay missing, so a
+// food without vitamin data does not count as zero vitamins
+export function pickMicronutrients(source: Micronutrients): Micronutrients {
+  const picked: Micronutrients = {};
+  for (const key of MICRONUTRIENT_KEYS) {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) picked[key] = value;
+  }
+  return picked;
+}
+
+export function sumNutrition(values: NutritionInfo[]): NutritionInfo {
+  const total: NutritionInfo = { calories: 0, protein: 0, carbs: 0, fats: 0 };
+  for (const key of NUTRITION_KEYS) {
+    const reported = values.filter(n => typeof n[key] === 'number');
+    if (reported.length === 0 && MICRONUTRIENT_KEYS.includes(key as MicronutrientKey)) continue;
+    total[key] = roundNutrient(key, reported.reduce((sum, n) => sum + (n[key] || 0), 0));
+  }
+  return total;
+}
+
+// ==================== REFERENCE VALUES ====================
+
+type Sex = 'male' | 'female';
+
+// Intakes that depend on age and sex: [age from, male, female]
+const AGE_BANDS: Partial<Record<MicronutrientKey, [number, number, number][]>> = {
+  fiber: [[14, 38, 26], [19, 38, 25], [51, 30, 21]],
+  potassium: [[14, 3000, 2300], [19, 3400, 2600]],
+  calcium: [[14, 1300, 1300], [19, 1000, 1000], [51, 1000, 1200], [71, 1200, 1200]],
+  iron: [[14, 11, 15], [19, 8, 18], [51, 8, 8]],
+  vitaminA: [[14, 900, 700]],
+  vitaminC: [[14, 75, 65], [19, 90, 75]],
+  vitaminD: [[14, 15, 15], [71, 20, 20]],
+  vitaminB12: [[14, 2.4, 2.4]],
+};
+
+const SODIUM_LIMIT_MG = 2300;
+// Added sugar and saturated fat: under 10% of daily energy each
+const SUGAR_ENERGY_SHARE = 0.1;
+const SATURATED_FAT_ENERGY_SHARE = 0.1;
+
+function bandValue(bands: [number, number, number][], age: number, sex: Sex): number {
+  const band = [...bands].reverse().find(([from]) => age >= from) || bands[0];
+  return sex === 'male' ? band[1] : band[2];
+}
+
+// 'other' uses the mean of the male and female values
+function intakeFor(key: MicronutrientKey, age: number, gender: User['gender']): number {
+  const bands = AGE_BANDS[key]!;
+  if (gender === 'other') {
+    return roundNutrient(key, (bandValue(bands, age, 'male') + bandValue(bands, age, 'female')) / 2);
+  }
+  return bandValue(bands, age, gender);
+}
+
+// Daily reference value per micronutrient. An active nutrition target
+// overrides fiber, sugar and sodium with the user's own numbers; caffeine
+// and alcohol limits come from the profile
+export function getReferenceValues(
+  profile: Pick<User, 'age' | 'gender' | 'caffeineLimitMg' | 'alcoholLimitDrinks'>,
+  calorieTarget: number,
+  target?: NutritionTarget | null
+): Record<MicronutrientKey, number> {
+  const values = {} as Record<MicronutrientKey, number>;
+  for (const key of MICRONUTRIENT_KEYS) {
+    if (AGE_BANDS[key]) values[key] = intakeFor(key, profile.age, profile.gender);
+  }
+  values.sugar = Math.round((calorieTarget * SUGAR_ENERGY_SHARE) / 4);
+  values.saturatedFat = Math.round((calorieTarget * SATURATED_FAT_ENERGY_SHARE) / 9);
+  values.sodium = SODIUM_LIMIT_MG;
+  values.caffeine = caffeineLimitMg(profile);
+  values.alcohol = alcoholLimitGrams(profile);
+
+  if (target?.is_active) {
+    if (target.fiber_grams) values.fiber = target.fiber_grams;
+    if (target.sugar_grams) values.sugar = target.sugar_grams;
+    if (target.sodium_mg) values.sodium = target.sodium_mg;
+  }
+  return values;
+}
+
+export interface MicronutrientProgress extends MicronutrientInfo {
+  amount: number | null; // null when nothing eaten reported this nutrient
+  reference: number;
+  percent: number;
+  status: 'low' | 'ok' | 'over' | 'unknown';
+}
+
+// Share of the day's reference per nutrient; goals are "ok" from 100%,
+// limits until they pass 100%
+export function getMicronutrientProgress(
+  totals: NutritionInfo,
+  reference: Record<MicronutrientKey, number>
+): MicronutrientProgress[] {
+  return MICRONUTRIENTS.map(info => {
+    const amount = typeof totals[info.key] === 'number' ? totals[info.key]! : null;
+    const limit = reference[info.key];
+    // A limit of 0 (no alcohol at all) is full as soon as anything counts
+    const percent = amount === null ? 0 : limit > 0 ? Math.round((amount / limit) * 100) : amount > 0 ? 100 : 0;
+    const status = amount === null
+      ? 'unknown'
+      : info.kind === 'limit'
+        ? (amount > limit ? 'over' : 'ok')
+        : (percent >= 100 ? 'ok' : 'low');
+    return { ...info, amount, reference: reference[info.key], percent, status };
+  });
+}
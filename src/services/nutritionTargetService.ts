@@ -0,0 +1,104 @@
+// Nutrition Target Service - the one place daily calorie and macro targets
+// are calculated. BMR uses Katch-McArdle when body fat is known and
+// Mifflin-St Jeor otherwise; the goal pace and macro preset come from the
+// user's profile. A measured TDEE accepted from an adaptive check-in
+// replaces BMR × activity multiplier. DatabaseService.saveNutritionTargets
+// persists the result
+import { BMRFormula, MacroPreset, NutritionTarget, TdeeSource, User } from '../types';
+
+export type TargetInput = Pick<User, 'age' | 'gender' | 'weight' | 'height' | 'exerciseLevel'> &
+  Partial<Pick<User, 'goal' | 'bodyFatPercentage' | 'weeklyRateKg' | 'macroPreset' | 'measuredTdee'>>;
+
+export type NutritionTargetValues = Omit<NutritionTarget, 'id' | 'user_id' | 'is_active' | 'created_at' | 'updated_at'> & {
+  formula: BMRFormula;
+  bmr: number;
+  tdee: number;
+  tdee_source: TdeeSource;
+  floorApplied: boolean; // raised to the safe minimum for the user's gender
+};
+
+export const ACTIVITY_MULTIPLIERS: Record<User['exerciseLevel'], number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+// Share of calories from protein / carbs / fats
+export const MACRO_PRESETS: Record<MacroPreset, { label: string; protein: number; carbs: number; fats: number }> = {
+  balanced: { label: 'Balanced', protein: 0.25, carbs: 0.45, fats: 0.3 },
+  high_protein: { label: 'High Protein', protein: 0.35, carbs: 0.35, fats: 0.3 },
+  low_carb: { label: 'Low Carb', protein: 0.3, carbs: 0.2, fats: 0.5 },
+  keto: { label: 'Keto', protein: 0.25, carbs: 0.05, fats: 0.7 },
+};
+
+// kg per week; losing faster than 1 kg or gaining faster than 0.5 kg is not offered
+export const WEEKLY_RATE_OPTIONS = [0.25, 0.5, 0.75, 1];
+export const DEFAULT_WEEKLY_RATE: Record<'lose' | 'gain', number> = { lose: 0.5, gain: 0.25 };
+export const MAX_WEEKLY_RATE: Record<'lose' | 'gain', number> = { lose: 1, gain: 0.5 };
+
+// Minimum daily intake without medical supervision
+export const CALORIE_FLOORS: Record<User['gender'], number> = { male: 1500, female: 1200, other: 1350 };
+
+export const KCAL_PER_KG = 7700;
+
+// Body fat readings outside this range are treated as unknown
+const BODY_FAT_RANGE = { min: 3, max: 70 };
+
+export function calculateBMR(input: TargetInput): { bmr: number; formula: BMRFormula } {
+  const bodyFat = input.bodyFatPercentage;
+  if (bodyFat && bodyFat >= BODY_FAT_RANGE.min && bodyFat <= BODY_FAT_RANGE.max) {
+    const leanMass = input.weight * (1 - bodyFat / 100);
+    return { bmr: 370 + 21.6 * leanMass, formula: 'katch_mcardle' };
+  }
+
+  // 'other' sits halfway between the male (+5) and female (-161) constants
+  const sexConstant = input.gender === 'male' ? 5 : input.gender === 'female' ? -161 : -78;
+  return {
+    bmr: 10 * input.weight + 6.25 * input.height - 5 * input.age + sexConstant,
+    formula: 'mifflin_st_jeor',
+  };
+}
+
+export function weeklyRateFor(input: TargetInput): number {
+  if (!input.goal || input.goal === 'maintain') return 0;
+  const rate = input.weeklyRateKg ?? DEFAULT_WEEKLY_RATE[input.goal];
+  return Math.min(Math.max(rate, 0), MAX_WEEKLY_RATE[input.goal]);
+}
+
+export function splitMacros(calories: number, preset: MacroPreset = 'balanced') {
+  const split = MACRO_PRESETS[preset];
+  return {
+    protein_grams: Math.round((calories * split.protein) / 4),
+    carbs_grams: Math.round((calories * split.carbs) / 4),
+    fats_grams: Math.round((calories * split.fats) / 9),
+  };
+}
+
+export function calculateNutritionTargets(input: TargetInput): NutritionTargetValues {
+  const { bmr, formula } = calculateBMR(input);
+  const tdee = input.measuredTdee
+    || bmr * (ACTIVITY_MULTIPLIERS[input.exerciseLevel] || ACTIVITY_MULTIPLIERS.moderate);
+
+  const dailyChange = (weeklyRateFor(input) * KCAL_PER_KG) / 7;
+  const goalCalories = input.goal === 'lose' ? tdee - dailyChange
+    : input.goal === 'gain' ? tdee + dailyChange
+    : tdee;
+
+  const floor = CALORIE_FLOORS[input.gender] || CALORIE_FLOORS.other;
+  const dailyCalories = Math.round(Math.max(goalCalories, floor));
+
+  return {
+    daily_calories: dailyCalories,
+    ...splitMacros(dailyCalories, input.macroPreset),
+    fiber_grams: Math.round((dailyCalories / 1000) * 14),
+    sugar_grams: Math.round((dailyCalories * 0.1) / 4),
+    sodium_mg: 2300,
+    formula,
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    tdee_source: input.measuredTdee ? 'measured' : 'formula',
+    floorApplied: goalCalories < floor,
+  };
+}
@@ -1,97 +1,18 @@
 // Professional AI Service for NutriPlan - Real API Integration
-// Using Groq AI for meal generation with smart rate limiting and retry
-import Constants from 'expo-constants';
-
-const GROQ_API_KEY = process.env.EXPO_PUBLIC_GROQ_API_KEY || 
-                     Constants.expoConfig?.extra?.groqApiKey || '';
-const GROQ_URL = 'https://api.groq.com/openai/v1/chat/completions';
-
-// Rate limiting state - increased delays for free tier
-let lastApiCall = 0;
-const MIN_DELAY_BETWEEN_CALLS = 5000; // 5 seconds between calls (increased)
-let consecutiveFailures = 0;
-const MAX_CONSECUTIVE_FAILURES = 3;
-let rateLimitResetTime = 0;
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Extract wait time from rate limit error
-function extractWaitTime(errorMessage: string): number {
-  const match = errorMessage.match(/try again in (\d+\.?\d*)s/i);
-  if (match) {
-    return Math.ceil(parseFloat(match[1]) * 1000) + 500; // Add 500ms buffer
-  }
-  return 5000; // Default 5 second wait
-}
-
-// Smart rate-limited retry with exponential backoff
-async function rateLimitedCall<T>(
-  fn: () => Promise<T>,
-  useFallback: () => T,
-  maxRetries: number = 2
-): Promise<T> {
-  // If too many failures, use fallback immediately
-  if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
-    console.log('🔄 Using fallback due to consecutive API failures');
-    // Reset after 30 seconds
-    setTimeout(() => { consecutiveFailures = 0; }, 30000);
-    return useFallback();
-  }
-
-  // Check if we're still in rate limit cooldown
-  const now = Date.now();
-  if (rateLimitResetTime > now) {
-    const waitTime = rateLimitResetTime - now;
-    console.log(`⏳ Rate limit cooldown: waiting ${Math.ceil(waitTime/1000)}s`);
-    await sleep(waitTime);
-  }
-
-  // Ensure minimum delay between API calls
-  const timeSinceLastCall = Date.now() - lastApiCall;
-  if (timeSinceLastCall < MIN_DELAY_BETWEEN_CALLS) {
-    const waitTime = MIN_DELAY_BETWEEN_CALLS - timeSinceLastCall;
-    console.log(`⏳ Rate limiting: waiting ${Math.ceil(waitTime/1000)}s before API call`);
-    await sleep(waitTime);
-  }
-
-  let lastError: any;
-  
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      lastApiCall = Date.now();
-      const result = await fn();
-      consecutiveFailures = 0; // Reset on success
-      return result;
-    } catch (error: any) {
-      lastError = error;
-      const errorMsg = error.message || '';
-      
-      // Check if rate limited
-      if (errorMsg.includes('rate_limit') || errorMsg.includes('429')) {
-        const waitTime = extractWaitTime(errorMsg);
-        rateLimitResetTime = Date.now() + waitTime;
-        console.log(`⚠️ Rate limited. Waiting ${Math.ceil(waitTime/1000)}s before retry (attempt ${attempt + 1}/${maxRetries + 1})`);
-        
-        if (attempt < maxRetries) {
-          await sleep(waitTime);
-          continue;
-        }
-      }
-      
-      // Other errors - use exponential backoff
-      if (attempt < maxRetries) {
-        const backoffTime = Math.pow(2, attempt) * 1000;
-        console.log(`⚠️ API error, retrying in ${backoffTime/1000}s (attempt ${attempt + 1}/${maxRetries + 1})`);
-        await sleep(backoffTime);
-        continue;
-      }
-    }
-  }
-  
-  consecutiveFailures++;
-  console.log(`❌ API call failed after ${maxRetries + 1} attempts, using fallback`);
-  return useFallback();
-}
+// Routes requests through the AI provider layer (Groq / Gemini) with smart
+// rate limiting, failover and a local fallback
+import { aiRouter, AIProviderName } from './aiProviders';
+import {
+  aiMealSchemaForTarget,
+  aiRecipesSchema,
+  dayPlanSchema,
+  formatIssues,
+  generateValidated,
+  normalizeMealName,
+} from './aiSchemas';
+import { mealFromAI } from './mealMappers';
+import { DayPlan, Meal, MealType } from '../types';
+import { todayKey } from './dateKeys';
 
 export interface UserProfile {
   name: string;
@@ -107,111 +28,41 @@ export interface UserProfile {
   calorieTarget: number;
 }
 
-export interface Meal {
-  id: string;
-  name: string;
-  description: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  fiber: number;
-  sugar: number;
-  ingredients: string[];
-  instructions: string[];
-  prepTime: number;
-  cookTime: number;
-  mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  tags: string[];
-  emoji: string;
-  imageEmoji: string;
+// A generated day plan with what went wrong making it: meal slots that got
+// the built-in fallback meal, and dayPlanSchema issues (empty when valid)
+export interface DayPlanResult {
+  plan: DayPlan;
+  fallbackMeals: MealType[];
+  validationIssues: string[];
 }
 
-export interface DayPlan {
-  date: string;
-  breakfast: Meal;
-  lunch: Meal;
-  dinner: Meal;
-  snacks: Meal[];
+// One line for the UI when a plan is not all AI generated, or not valid
+export function dayPlanNotice(result: Pick<DayPlanResult, 'fallbackMeals' | 'validationIssues'>): string | null {
+  const notes: string[] = [];
+  const { fallbackMeals, validationIssues } = result;
+  if (fallbackMeals.length > 0) {
+    const names = fallbackMeals.map(mealType => mealType.charAt(0).toUpperCase() + mealType.slice(1));
+    const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    notes.push(`${list} ${names.length > 1 ? 'are standard suggestions' : 'is a standard suggestion'} - AI meal generation is unavailable right now.`);
+  }
+  if (validationIssues.length > 0) {
+    notes.push("Some suggestions didn't pass our nutrition checks, so double-check their numbers.");
+  }
+  return notes.length > 0 ? notes.join(' ') : null;
 }
 
-class ProfessionalAIService {
+// Units for the per-serving micronutrients in the JSON examples below
+const MICRONUTRIENT_UNITS_NOTE =
+  'Per serving: saturatedFat in g; sodium, potassium, calcium, iron, vitaminC in mg; vitaminA (RAE), vitaminD, vitaminB12 in µg; caffeine in mg and alcohol in g, only when the recipe contains them.';
 
-  private async callGroq(prompt: string, retryCount = 0): Promise<string> {
-    if (!GROQ_API_KEY) {
-      console.error('Groq API key not configured');
-      throw new Error('Groq API key not configured');
-    }
-    
-    const maxRetries = 3;
-    const baseDelay = 2000; // 2 seconds
-    
-    console.log('🤖 Calling Groq API...');
-    
-    try {
-      const response = await fetch(GROQ_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${GROQ_API_KEY}`,
-        },
-        body: JSON.stringify({
-          model: 'llama-3.1-8b-instant',
-          messages: [
-            { 
-              role: 'system', 
-              content: 'You are a nutritionist. Respond with ONLY valid JSON, no markdown or text.' 
-            },
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.7,
-          max_tokens: 800, // Reduced from 1024 to save tokens
-          top_p: 0.9,
-        }),
-      });
-
-      console.log('Groq response status:', response.status);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('Groq API error response:', errorText);
-        
-        // Check if it's a rate limit error
-        if (response.status === 429 && retryCount < maxRetries) {
-          // Parse retry delay from error message or use exponential backoff
-          const delay = baseDelay * Math.pow(2, retryCount);
-          console.log(`⏳ Rate limited. Retrying in ${delay}ms... (attempt ${retryCount + 1}/${maxRetries})`);
-          
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return this.callGroq(prompt, retryCount + 1);
-        }
-        
-        throw new Error(`Groq API Error: ${response.status} - ${errorText}`);
-      }
-      
-      const data = await response.json();
-      const text = data.choices?.[0]?.message?.content;
-      
-      if (!text) {
-        console.error('Empty response from Groq');
-        throw new Error('Empty response from Groq');
-      }
-      
-      console.log('✅ Groq API response received');
-      return text;
-    } catch (error: any) {
-      // If network error and retries available, retry
-      if (retryCount < maxRetries && !error.message.includes('API Error')) {
-        const delay = baseDelay * Math.pow(2, retryCount);
-        console.log(`⏳ Network error. Retrying in ${delay}ms... (attempt ${retryCount + 1}/${maxRetries})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return this.callGroq(prompt, retryCount + 1);
-      }
-      throw error;
-    }
-  }
+class ProfessionalAIService {
 
-  private createPersonalizedPrompt(mealType: string, profile: UserProfile, additionalPrefs?: string): string {
+  private createPersonalizedPrompt(
+    mealType: string,
+    profile: UserProfile,
+    additionalPrefs?: string,
+    excludeMeals: string[] = []
+  ): string {
     const conditions = profile.healthConditions.length > 0
       ? profile.healthConditions.join(', ')
       : '';
@@ -225,10 +76,12 @@ class ProfessionalAIService {
     // Shortened prompt to reduce token usage
     const avoid = [conditions, allergies].filter(Boolean).join(', ') || 'none';
 
-    return `Create a ${mealType} recipe. Goal: ${profile.goal}. Calories: ~${targetCalories}. Avoid: ${avoid}.${additionalPrefs ? ` Prefer: ${additionalPrefs}` : ''}
+    const differentFrom = excludeMeals.length > 0 ? ` Must differ from: ${excludeMeals.join(', ')}.` : '';
+
+    return `Create a ${mealType} recipe. Goal: ${profile.goal}. Calories: ~${targetCalories}. Avoid: ${avoid}.${additionalPrefs ? ` Prefer: ${additionalPrefs}` : ''}${differentFrom} ${MICRONUTRIENT_UNITS_NOTE}
 
 Return ONLY this JSON:
-{"name":"Recipe Name","description":"Short description","calories":${targetCalories},"protein":${Math.round(targetCalories * 0.25 / 4)},"carbs":${Math.round(targetCalories * 0.45 / 4)},"fats":${Math.round(targetCalories * 0.30 / 9)},"fiber":5,"sugar":${Math.round(targetCalories * 0.05 / 4)},"ingredients":["ingredient 1","ingredient 2"],"instructions":["Step 1","Step 2"],"prepTime":15,"cookTime":20,"tags":["healthy"],"imageEmoji":"🍽️"}`;
+{"name":"Recipe Name","description":"Short description","calories":${targetCalories},"protein":${Math.round(targetCalories * 0.25 / 4)},"carbs":${Math.round(targetCalories * 0.45 / 4)},"fats":${Math.round(targetCalories * 0.30 / 9)},"fiber":5,"sugar":${Math.round(targetCalories * 0.05 / 4)},"saturatedFat":${Math.round(targetCalories * 0.08 / 9)},"sodium":500,"potassium":700,"calcium":200,"iron":3,"vitaminA":250,"vitaminC":20,"vitaminD":2,"vitaminB12":0.8,"ingredients":["ingredient 1","ingredient 2"],"instructions":["Step 1","Step 2"],"prepTime":15,"cookTime":20,"tags":["healthy"],"imageEmoji":"🍽️"}`;
   }
 
   private getTargetCalories(mealType: string, profile: UserProfile): number {
@@ -242,80 +95,35 @@ Return ONLY this JSON:
     }
   }
 
-  private parseMealResponse(text: string, mealType: string): Meal {
-    console.log('Parsing meal response:', text);
-    
-    // Try multiple JSON extraction patterns
-    let jsonMatch = text.match(/\{[\s\S]*\}/);
-    
-    if (!jsonMatch) {
-      // Try to find JSON between ```json and ```
-      const codeBlockMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch) {
-        jsonMatch = [codeBlockMatch[1]];
-      }
-    }
-    
-    if (!jsonMatch) {
-      console.error('No JSON found in response:', text);
-      throw new Error('No valid JSON found in response');
-    }
-    
-    try {
-      const jsonStr = jsonMatch[0].trim();
-      console.log('Attempting to parse JSON:', jsonStr);
-      const meal = JSON.parse(jsonStr);
-      
-      // Validate required fields
-      const requiredFields = ['name', 'description', 'calories', 'protein', 'carbs', 'fats', 'ingredients', 'instructions'];
-      for (const field of requiredFields) {
-        if (!meal[field]) throw new Error(`Missing required field: ${field}`);
-      }
-      
-      return {
-        ...meal,
-        id: `meal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        mealType: mealType as any,
-        fiber: meal.fiber || 5,
-        sugar: meal.sugar || 0,
-        prepTime: meal.prepTime || 10,
-        cookTime: meal.cookTime || 15,
-      tags: meal.tags || ['healthy'],
-      emoji: meal.emoji || meal.imageEmoji || '🍽️',
-      imageEmoji: meal.imageEmoji || meal.emoji || '🍽️',
-      };
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError);
-      console.error('Response text was:', text);
-      throw new Error(`JSON Parse error: ${parseError}`);
-    }
-  }
-
   async generatePersonalizedMeal(
-    mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack',
+    mealType: MealType,
     profile: UserProfile,
-    additionalPrefs?: string
+    additionalPrefs?: string,
+    excludeMeals: string[] = []
   ): Promise<Meal> {
-    const prompt = this.createPersonalizedPrompt(mealType, profile, additionalPrefs);
+    const prompt = this.createPersonalizedPrompt(mealType, profile, additionalPrefs, excludeMeals);
+    const schema = aiMealSchemaForTarget(this.getTargetCalories(mealType, profile), excludeMeals);
     
-    // Use rate-limited API call with fallback
-    return rateLimitedCall(
-      async () => {
-        const response = await this.callGroq(prompt);
-        const meal = this.parseMealResponse(response, mealType);
-        console.log('✅ Groq AI generated meal:', meal.name);
+    // Use rate-limited API call with failover and fallback
+    return aiRouter.run(
+      { generationType: 'recipe', requestParameters: { mealType, additionalPrefs, excludeMeals } },
+      async (provider) => {
+        const parsed = await generateValidated(provider, prompt, schema);
+        const meal = mealFromAI(parsed, mealType, `meal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+        meal.generatedBy = `${provider.name}:${provider.model}`;
+        console.log(`✅ ${provider.name} generated meal:`, meal.name);
         return meal;
       },
       () => {
         console.log('Using fallback meal generation...');
-        const fallbackMeal = this.generateFallbackMeal(mealType, profile);
+        const fallbackMeal = this.generateFallbackMeal(mealType, profile, excludeMeals);
         console.log('✅ Generated fallback meal:', fallbackMeal.name);
         return fallbackMeal;
       }
     );
   }
 
-  private generateFallbackMeal(mealType: string, profile: UserProfile): Meal {
+  private generateFallbackMeal(mealType: string, profile: UserProfile, excludeMeals: string[] = []): Meal {
     const targetCalories = this.getTargetCalories(mealType, profile);
     
     // Multiple options per meal type for variety
@@ -342,8 +150,11 @@ Return ONLY this JSON:
       ]
     };
 
-    // Pick a random meal from the options for variety
-    const options = mealOptions[mealType as keyof typeof mealOptions] || mealOptions.snack;
+    // Pick a random meal from the options for variety, skipping excluded ones
+    const allOptions = mealOptions[mealType as keyof typeof mealOptions] || mealOptions.snack;
+    const excluded = new Set(excludeMeals.map(normalizeMealName));
+    const allowed = allOptions.filter(option => !excluded.has(normalizeMealName(option.name)));
+    const options = allowed.length > 0 ? allowed : allOptions;
     const meal = options[Math.floor(Math.random() * options.length)];
     
     return {
@@ -355,19 +166,21 @@ Return ONLY this JSON:
       carbs: Math.round(targetCalories * 0.45 / 4),
       fats: Math.round(targetCalories * 0.30 / 9),
       fiber: Math.round(targetCalories * 0.05 / 4),
+      sugar: Math.round(targetCalories * 0.05 / 4),
       ingredients: meal.ingredients,
       instructions: meal.instructions,
       prepTime: 15,
       cookTime: 20,
-      mealType: mealType as any,
+      mealType: mealType as MealType,
       tags: ['healthy', 'balanced'],
       emoji: meal.emoji,
       imageEmoji: meal.emoji,
+      generatedBy: 'fallback',
     };
   }
 
-  async generateDayPlan(profile: UserProfile): Promise<DayPlan> {
-    const mealTypes: Array<'breakfast' | 'lunch' | 'dinner' | 'snack'> = ['breakfast', 'lunch', 'dinner', 'snack'];
+  async generateDayPlan(profile: UserProfile): Promise<DayPlanResult> {
+    const mealTypes: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
     
     const meals = await Promise.allSettled(
       mealTypes.map(mealType => this.generatePersonalizedMeal(mealType, profile))
@@ -383,13 +196,24 @@ Return ONLY this JSON:
       }
     });
 
-    return {
-      date: new Date().toISOString().split('T')[0],
+    const plan: DayPlan = {
+      date: todayKey(),
       breakfast: results[0],
       lunch: results[1],
       dinner: results[2],
       snacks: [results[3]],
     };
+
+    // The router also falls back on its own when no provider answers
+    const fallbackMeals = mealTypes.filter((_, index) => results[index].generatedBy === 'fallback');
+
+    const validation = dayPlanSchema.safeParse(plan);
+    const validationIssues = validation.success ? [] : formatIssues(validation.error);
+    if (validationIssues.length > 0) {
+      console.warn('⚠️ Day plan failed validation:', validationIssues);
+    }
+
+    return { plan, fallbackMeals, validationIssues };
   }
 
   async getNutritionAdvice(profile: UserProfile, question: string): Promise<string> {
@@ -407,9 +231,10 @@ QUESTION: ${question}
 
 Provide concise, actionable advice (2-3 sentences max). Focus on evidence-based nutrition recommendations.`;
 
-    return rateLimitedCall(
-      async () => {
-        const response = await this.callGroq(prompt);
+    return aiRouter.run(
+      { generationType: 'advice', requestParameters: { question } },
+      async (provider) => {
+        const response = await provider.generate(prompt, { json: false });
         return response.trim();
       },
       () => 'Focus on balanced meals with lean proteins, vegetables, and whole grains for optimal health.'
@@ -418,7 +243,7 @@ Provide concise, actionable advice (2-3 sentences max). Focus on evidence-based
 
   // Generate multiple recipes for a meal type based on user's health conditions
   async generateRecipesForUser(
-    mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack',
+    mealType: MealType,
     profile: UserProfile,
     count: number = 3
   ): Promise<Meal[]> {
@@ -436,6 +261,7 @@ USER PROFILE:
 - Dietary Restrictions: ${profile.dietaryRestrictions.join(', ') || 'None'}
 
 For each recipe, provide therapeutic benefits for ${diseases}.
+${MICRONUTRIENT_UNITS_NOTE}
 
 CRITICAL: Respond with ONLY a JSON array. No text before or after.
 
@@ -448,6 +274,16 @@ CRITICAL: Respond with ONLY a JSON array. No text before or after.
     "carbs": 40,
     "fats": 12,
     "fiber": 5,
+    "sugar": 6,
+    "saturatedFat": 3,
+    "sodium": 450,
+    "potassium": 600,
+    "calcium": 150,
+    "iron": 2.5,
+    "vitaminA": 200,
+    "vitaminC": 25,
+    "vitaminD": 1.5,
+    "vitaminB12": 0.6,
     "ingredients": ["ingredient 1", "ingredient 2"],
     "instructions": ["Step 1", "Step 2"],
     "prepTime": 10,
@@ -458,11 +294,13 @@ CRITICAL: Respond with ONLY a JSON array. No text before or after.
   }
 ]`;
 
-    return rateLimitedCall(
-      async () => {
-        const response = await this.callGroq(prompt);
-        const recipes = this.parseRecipesResponse(response, mealType);
-        return recipes;
+    return aiRouter.run(
+      { generationType: 'recipe', requestParameters: { mealType, count } },
+      async (provider) => {
+        const recipes = await generateValidated(provider, prompt, aiRecipesSchema);
+        return recipes.map((recipe, index) =>
+          mealFromAI(recipe, mealType, `recipe_${mealType}_${Date.now()}_${index}`)
+        );
       },
       () => {
         console.log('Using fallback recipes...');
@@ -471,45 +309,9 @@ CRITICAL: Respond with ONLY a JSON array. No text before or after.
     );
   }
 
-  private parseRecipesResponse(text: string, mealType: string): Meal[] {
-    try {
-      // Try to extract JSON array
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found');
-      }
-      
-      const recipes = JSON.parse(jsonMatch[0]);
-      
-      return recipes.map((recipe: any, index: number) => ({
-        id: `recipe_${mealType}_${Date.now()}_${index}`,
-        name: recipe.name || 'Healthy Recipe',
-        description: recipe.description || '',
-        calories: recipe.calories || 300,
-        protein: recipe.protein || 15,
-        carbs: recipe.carbs || 30,
-        fats: recipe.fats || 10,
-        fiber: recipe.fiber || 5,
-        ingredients: recipe.ingredients || [],
-        instructions: recipe.instructions || [],
-        prepTime: recipe.prepTime || 10,
-        cookTime: recipe.cookTime || 15,
-        mealType: mealType as any,
-        tags: recipe.tags || ['healthy'],
-        emoji: recipe.imageEmoji || '🍽️',
-        imageEmoji: recipe.imageEmoji || '🍽️',
-        healthBenefits: recipe.healthBenefits || [],
-      }));
-    } catch (error) {
-      console.error('Failed to parse recipes:', error);
-      return [];
-    }
-  }
-
   // Generate a complete set of recipes for all meal types
   async generateAllRecipesForUser(profile: UserProfile): Promise<Meal[]> {
-    const mealTypes: Array<'breakfast' | 'lunch' | 'dinner' | 'snack'> = 
-      ['breakfast', 'lunch', 'dinner', 'snack'];
+    const mealTypes: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
     
     const allRecipes: Meal[] = [];
     
@@ -527,16 +329,19 @@ CRITICAL: Respond with ONLY a JSON array. No text before or after.
   }
 
   // Health check for API availability
-  async checkAPIHealth(): Promise<{ groq: boolean }> {
-    const health = { groq: false };
+  async checkAPIHealth(): Promise<Record<AIProviderName, boolean>> {
+    const health: Record<AIProviderName, boolean> = { groq: false, gemini: false };
+    const testPrompt = 'Respond with "OK" only';
     
-    // Test Groq
-    try {
-      const testPrompt = 'Respond with "OK" only';
-      await this.callGroq(testPrompt);
-      health.groq = true;
-    } catch (error) {
-      console.warn('Groq API health check failed:', error);
+    for (const name of Object.keys(health) as AIProviderName[]) {
+      const provider = aiRouter.getProvider(name);
+      if (!provider.isConfigured()) continue;
+      try {
+        await provider.generate(testPrompt, { json: false, maxTokens: 5 });
+        health[name] = true;
+      } catch (error) {
+        console.warn(`${name} API health check failed:`, error);
+      }
     }
     
     return health;
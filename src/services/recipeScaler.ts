@@ -0,0 +1,85 @@
+// Recipe Scaler - resizes a meal to a number of servings and shows its
+// ingredients in metric or imperial units. Macros scale with the same factor,
+// so logging the scaled meal records what was actually eaten
+import { Meal, NutritionInfo } from '../types';
+import { parseIngredient } from './ingredientParser';
+import { NUTRITION_KEYS, pickMicronutrients, roundNutrient } from './micronutrientService';
+import { bestUnit, roundAmount, toBaseAmount, UnitSystem, UNITS, unitLabel } from './unitConversion';
+
+// Kitchen fractions for imperial and count amounts
+const FRACTIONS: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [1 / 2, '1/2'], [2 / 3, '2/3'], [3 / 4, '3/4'],
+];
+
+const SPOON_UNITS = ['tsp', 'tbsp'];
+
+// Servings the meal as shown is made for; AI meals and logged meals are one portion
+export function baseServings(meal: Meal): number {
+  return 'servings' in meal && typeof meal.servings === 'number' && meal.servings > 0 ? meal.servings : 1;
+}
+
+// "1.5" -> "1 1/2"; metric amounts keep decimals
+export function formatAmount(amount: number, useFractions: boolean): string {
+  if (!useFractions) return `${roundAmount(amount)}`;
+
+  const whole = Math.floor(amount);
+  const remainder = amount - whole;
+  if (remainder < 1 / 16) return `${whole || roundAmount(amount)}`;
+  if (remainder > 15 / 16) return `${whole + 1}`;
+
+  const [, fraction] = FRACTIONS.reduce((closest, candidate) =>
+    Math.abs(candidate[0] - remainder) < Math.abs(closest[0] - remainder) ? candidate : closest
+  );
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+}
+
+// One ingredient line at a new size; lines without a quantity stay as written
+export function scaleIngredientLine(line: string, factor: number, system: UnitSystem): string {
+  const parsed = parseIngredient(line);
+  if (parsed.quantity === null) return line;
+
+  let quantity = parsed.quantity * factor;
+  let quantityMax = parsed.quantityMax !== null ? parsed.quantityMax * factor : null;
+  let unit = parsed.unit;
+
+  // Convert measured amounts that are in the other system; spoons are used in both
+  if (unit && UNITS[unit] && UNITS[unit].system !== system && !SPOON_UNITS.includes(unit)) {
+    const base = toBaseAmount(quantity, unit)!;
+    const best = bestUnit(base.amount, UNITS[unit].dimension, system);
+    const ratio = best.amount / quantity;
+    quantity = best.amount;
+    quantityMax = quantityMax !== null ? quantityMax * ratio : null;
+    unit = best.unit;
+  }
+
+  const useFractions = system === 'imperial' || !unit || !UNITS[unit];
+  const amountText = quantityMax !== null
+    ? `${formatAmount(quantity, useFractions)}-${formatAmount(quantityMax, useFractions)}`
+    : formatAmount(quantity, useFractions);
+  const unitText = unit ? ` ${unitLabel(unit, quantityMax ?? quantity)}` : '';
+  return `${amountText}${unitText} ${parsed.rest}`.trim();
+}
+
+// Scale the nutrients that are present, rounded as roundNutrient does
+export function scaleNutrition<T extends NutritionInfo>(nutrition: T, factor: number): T {
+  const scaled: NutritionInfo = { ...nutrition };
+  for (const key of NUTRITION_KEYS) {
+    const value = nutrition[key];
+    if (typeof value !== 'number') continue;
+    scaled[key] = roundNutrient(key, value * factor);
+  }
+  return scaled as T;
+}
+
+// The meal for a number of servings, with ingredients in the given unit system
+export function scaleMeal(meal: Meal, servings: number, system: UnitSystem): Meal {
+  const factor = servings / baseServings(meal);
+  const { calories, protein, carbs, fats, fiber, sugar } = meal;
+
+  return {
+    ...meal,
+    ...scaleNutrition({ calories, protein, carbs, fats, ...pickMicronutrients(meal), fiber, sugar }, factor),
+    ingredients: (meal.ingredients || []).map(line => scaleIngredientLine(line, factor, system)),
+    ...('servings' in meal ? { servings } : {}),
+  };
+}
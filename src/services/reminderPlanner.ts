@@ -0,0 +1,128 @@
+// Reminder Planner - which reminders to schedule, worked out from the
+// settings and today's progress alone. Kept free of native modules so the
+// rules can be tested in Node; reminderService does the scheduling.
+import { MealType } from '../types';
+import { addDaysToKey, dateAtClock, toDateKey } from './dateKeys';
+import { parseClock } from './sleepService';
+
+export type ReminderKind = 'meal' | 'water' | 'caffeine' | 'closeday';
+
+export interface ReminderSettings {
+  enabled: boolean; // mirrors user_preferences.notifications_enabled
+  meals: Record<MealType, { enabled: boolean; time: string }>; // 'HH:MM'
+  hydration: { enabled: boolean; start: string; end: string; intervalMinutes: number };
+  closeDay: { enabled: boolean; time: string };
+  caffeineCutoff: { enabled: boolean; time: string }; // no caffeine after this
+  quietHours: { enabled: boolean; start: string; end: string };
+}
+
+// Today's progress; reminders for things already done are left out
+export interface ReminderDayState {
+  loggedMealTypes: string[];
+  hydrationGoalMet: boolean;
+  dayComplete: boolean;
+}
+
+export interface PlannedReminder {
+  identifier: string;
+  kind: ReminderKind;
+  date: Date;
+  title: string;
+  body: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  meals: {
+    breakfast: { enabled: true, time: '08:00' },
+    lunch: { enabled: true, time: '12:30' },
+    snack: { enabled: false, time: '16:00' },
+    dinner: { enabled: true, time: '19:00' },
+  },
+  hydration: { enabled: true, start: '09:00', end: '20:00', intervalMinutes: 120 },
+  closeDay: { enabled: true, time: '21:00' },
+  caffeineCutoff: { enabled: true, time: '14:00' },
+  quietHours: { enabled: true, start: '22:00', end: '07:00' },
+};
+
+export const HYDRATION_INTERVALS = [60, 90, 120, 180];
+
+const SCHEDULE_DAYS = 3;
+export const IDENTIFIER_PREFIX = 'nutripro-';
+
+const MEAL_COPY: Record<MealType, { title: string; body: string }> = {
+  breakfast: { title: '🍳 Breakfast time', body: 'Log your breakfast to start the day on track.' },
+  lunch: { title: '🥗 Lunch time', body: "Don't forget to log your lunch." },
+  snack: { title: '🍎 Snack check', body: 'Had a snack? Log it so your totals stay accurate.' },
+  dinner: { title: '🍽️ Dinner time', body: 'Log your dinner to round out the day.' },
+};
+
+export const reminderId = (kind: ReminderKind, date: string, suffix = '') =>
+  `${IDENTIFIER_PREFIX}${kind}-${date}${suffix ? `-${suffix}` : ''}`;
+
+// Minutes after midnight, honouring windows that wrap past midnight
+export function isInQuietHours(settings: ReminderSettings, minutes: number): boolean {
+  if (!settings.quietHours.enabled) return false;
+  const start = parseClock(settings.quietHours.start);
+  const end = parseClock(settings.quietHours.end);
+  if (start === null || end === null || start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+export function isPastCaffeineCutoff(settings: ReminderSettings, minutes: number): boolean {
+  const cutoff = parseClock(settings.caffeineCutoff.time);
+  return settings.caffeineCutoff.enabled && cutoff !== null && minutes >= cutoff;
+}
+
+// ==================== PLANNING ====================
+
+export function planReminders(
+  settings: ReminderSettings,
+  today: ReminderDayState,
+  now: Date = new Date(),
+  days: number = SCHEDULE_DAYS
+): PlannedReminder[] {
+  if (!settings.enabled) return [];
+
+  // Days and clock times are the profile's, like every other day key
+  const todayKey = toDateKey(now);
+  const planned: PlannedReminder[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    const dayKey = addDaysToKey(todayKey, offset);
+    const isToday = offset === 0;
+
+    const add = (kind: ReminderKind, clock: string, title: string, body: string, suffix?: string) => {
+      const minutes = parseClock(clock);
+      if (minutes === null || isInQuietHours(settings, minutes)) return;
+      const date = dateAtClock(dayKey, minutes);
+      if (date <= now) return;
+      planned.push({ identifier: reminderId(kind, dayKey, suffix), kind, date, title, body });
+    };
+
+    (Object.keys(settings.meals) as MealType[]).forEach(mealType => {
+      const meal = settings.meals[mealType];
+      if (!meal.enabled || (isToday && today.loggedMealTypes.includes(mealType))) return;
+      add('meal', meal.time, MEAL_COPY[mealType].title, MEAL_COPY[mealType].body, mealType);
+    });
+
+    const hydration = settings.hydration;
+    const start = parseClock(hydration.start);
+    const end = parseClock(hydration.end);
+    if (hydration.enabled && start !== null && end !== null && !(isToday && today.hydrationGoalMet)) {
+      for (let minutes = start; minutes <= end; minutes += Math.max(hydration.intervalMinutes, 30)) {
+        const clock = `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+        add('water', clock, '💧 Time for some water', 'A glass now keeps you on pace for your daily goal.', String(minutes));
+      }
+    }
+
+    if (settings.caffeineCutoff.enabled) {
+      add('caffeine', settings.caffeineCutoff.time, '☕ Caffeine cutoff', "Last call for coffee today - switching to caffeine-free drinks now protects tonight's sleep.");
+    }
+
+    if (settings.closeDay.enabled && !(isToday && today.dayComplete)) {
+      add('closeday', settings.closeDay.time, '🌙 Close your day', 'Log anything you missed and mark your day complete.');
+    }
+  }
+
+  return planned.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,161 @@
+// Reminder Service - local notifications for meals, hydration and closing
+// the day. Local notifications cannot check anything when they fire, so
+// planReminders (in reminderPlanner) lays out one-off reminders for the
+// next few days from the settings and what is already logged today, and
+// the app replans whenever it opens. The caffeine cutoff is a daily
+// heads-up, not a tracked task. Logging a meal (or reaching the water
+// goal, or completing the day) cancels the matching reminder for today
+// right away.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { databaseService } from './databaseService';
+import { toDateKey } from './dateKeys';
+import {
+  DEFAULT_REMINDER_SETTINGS,
+  IDENTIFIER_PREFIX,
+  planReminders,
+  reminderId,
+  ReminderDayState,
+  ReminderKind,
+  ReminderSettings,
+} from './reminderPlanner';
+import { isSupabaseConfigured } from '../config/supabase';
+
+export {
+  DEFAULT_REMINDER_SETTINGS,
+  HYDRATION_INTERVALS,
+  isInQuietHours,
+  isPastCaffeineCutoff,
+  planReminders,
+} from './reminderPlanner';
+export type { PlannedReminder, ReminderDayState, ReminderKind, ReminderSettings } from './reminderPlanner';
+
+const SETTINGS_KEY_PREFIX = 'nutripro_reminders_';
+const DONE_KEY = 'nutripro_reminders_done';
+const CHANNEL_ID = 'reminders';
+
+class ReminderService {
+  private handlerSet = false;
+
+  async getSettings(userId: string): Promise<ReminderSettings> {
+    const stored = await AsyncStorage.getItem(`${SETTINGS_KEY_PREFIX}${userId}`);
+    if (!stored) return DEFAULT_REMINDER_SETTINGS;
+    const parsed = JSON.parse(stored);
+    return {
+      ...DEFAULT_REMINDER_SETTINGS,
+      ...parsed,
+      meals: { ...DEFAULT_REMINDER_SETTINGS.meals, ...parsed.meals },
+    };
+  }
+
+  async saveSettings(userId: string, settings: ReminderSettings): Promise<void> {
+    const previous = await this.getSettings(userId);
+    await AsyncStorage.setItem(`${SETTINGS_KEY_PREFIX}${userId}`, JSON.stringify(settings));
+    if (isSupabaseConfigured && previous.enabled !== settings.enabled) {
+      await databaseService.saveUserPreferences(userId, { notifications_enabled: settings.enabled });
+    }
+  }
+
+  // Ask once; false when the user declined
+  async requestPermission(): Promise<boolean> {
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+      return (await Notifications.requestPermissionsAsync()).granted;
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return false;
+    }
+  }
+
+  private async prepare(): Promise<void> {
+    if (!this.handlerSet) {
+      Notifications.setNotificationHandler({
+        handleNotification: async () => ({
+          shouldShowBanner: true,
+          shouldShowList: true,
+          shouldPlaySound: false,
+          shouldSetBadge: false,
+        }),
+      });
+      this.handlerSet = true;
+    }
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+        name: 'Reminders',
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+  }
+
+  private async cancelWhere(match: (identifier: string) => boolean): Promise<void> {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const request of scheduled) {
+      if (match(request.identifier)) {
+        await Notifications.cancelScheduledNotificationAsync(request.identifier);
+      }
+    }
+  }
+
+  // What was marked done today through skipToday ('water', 'closeday', 'meal:lunch')
+  private async getDoneToday(): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(DONE_KEY);
+    const done: { date: string; items: string[] } | null = stored ? JSON.parse(stored) : null;
+    return done && done.date === toDateKey() ? done.items : [];
+  }
+
+  // Replace every reminder this app scheduled with a fresh plan. Meal types
+  // logged today come from the caller; the rest from what was marked done
+  async reschedule(userId: string, loggedMealTypes: string[]): Promise<void> {
+    try {
+      const settings = await this.getSettings(userId);
+      const done = await this.getDoneToday();
+      const today: ReminderDayState = {
+        loggedMealTypes: [
+          ...loggedMealTypes,
+          ...done.filter(item => item.startsWith('meal:')).map(item => item.slice('meal:'.length)),
+        ],
+        hydrationGoalMet: done.includes('water'),
+        dayComplete: done.includes('closeday'),
+      };
+      await this.cancelWhere(id => id.startsWith(IDENTIFIER_PREFIX));
+      if (!settings.enabled || !(await Notifications.getPermissionsAsync()).granted) return;
+
+      await this.prepare();
+      for (const reminder of planReminders(settings, today)) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: reminder.identifier,
+          content: { title: reminder.title, body: reminder.body, data: { kind: reminder.kind } },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: reminder.date,
+            channelId: CHANNEL_ID,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error scheduling reminders:', error);
+    }
+  }
+
+  // Drop today's reminder(s) of a kind once the thing is done, and keep it
+  // out of later plans for today
+  async skipToday(kind: ReminderKind, mealType?: string): Promise<void> {
+    try {
+      const item = mealType ? `${kind}:${mealType}` : kind;
+      const done = await this.getDoneToday();
+      if (!done.includes(item)) {
+        await AsyncStorage.setItem(DONE_KEY, JSON.stringify({ date: toDateKey(), items: [...done, item] }));
+      }
+
+      const prefix = reminderId(kind, toDateKey(), mealType);
+      await this.cancelWhere(id => (mealType ? id === prefix : id.startsWith(prefix)));
+    } catch (error) {
+      console.error('Error cancelling reminder:', error);
+    }
+  }
+}
+
+export const reminderService = new ReminderService();
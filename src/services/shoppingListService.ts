@@ -0,0 +1,263 @@
+// Shopping List Service - builds a grocery list from a weekly meal plan.
+// Ingredient lines are parsed, the same ingredient is merged across meals
+// (converting units where they share a dimension) and sorted by aisle
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GroceryCategory, Meal, ShoppingList, ShoppingListItem, WeeklyPlan } from '../types';
+import { ingredientKey, parseIngredient } from './ingredientParser';
+import { bestUnit, convertAmount, roundAmount, toBaseAmount, UnitDimension, unitDimension } from './unitConversion';
+import { supabase, isSupabaseConfigured, TABLES } from '../config/supabase';
+import { databaseService } from './databaseService';
+import { generateUUID } from './uuid';
+
+const LIST_CACHE_PREFIX = 'nutripro_shopping_list_';
+
+// Aisle order. The most specific match wins - a phrase such as "peanut
+// butter" over the single word "butter" - and between equally specific
+// ones the earlier aisle
+export const GROCERY_CATEGORIES: { category: GroceryCategory; keywords: string[] }[] = [
+  { category: 'Frozen', keywords: ['frozen'] },
+  {
+    category: 'Spices & Condiments',
+    keywords: ['salt', 'black pepper', 'cinnamon', 'cumin', 'paprika', 'turmeric', 'oregano', 'chili flakes',
+      'seasoning', 'soy sauce', 'vinegar', 'honey', 'mustard', 'ketchup', 'mayonnaise', 'sauce', 'tahini',
+      'syrup', 'vanilla', 'spice', 'curry powder'],
+  },
+  {
+    category: 'Meat & Seafood',
+    keywords: ['chicken', 'beef', 'turkey', 'pork', 'lamb', 'bacon', 'ham', 'sausage', 'salmon', 'tuna', 'cod',
+      'shrimp', 'prawn', 'fish', 'tilapia'],
+  },
+  {
+    category: 'Dairy & Eggs',
+    keywords: ['milk', 'yogurt', 'yoghurt', 'cheese', 'butter', 'cream', 'egg', 'feta', 'parmesan',
+      'mozzarella', 'cottage', 'ricotta', 'kefir'],
+  },
+  { category: 'Bakery', keywords: ['bread', 'wrap', 'tortilla', 'bagel', 'pita', 'bun', 'roll', 'naan'] },
+  {
+    category: 'Grains & Pantry',
+    keywords: ['oat', 'rice', 'quinoa', 'pasta', 'noodle', 'flour', 'bean', 'chickpea', 'lentil', 'almond',
+      'walnut', 'cashew', 'peanut', 'nut', 'seed', 'oil', 'protein powder', 'granola', 'broth', 'stock',
+      'hummus', 'couscous', 'cereal', 'tofu', 'peanut butter', 'almond butter', 'nut butter', 'coconut milk'],
+  },
+  {
+    category: 'Produce',
+    keywords: ['spinach', 'kale', 'lettuce', 'green', 'tomato', 'avocado', 'banana', 'apple', 'berry', 'berries', 'lemon',
+      'lime', 'orange', 'onion', 'garlic', 'ginger', 'carrot', 'celery', 'cucumber', 'pepper', 'broccoli',
+      'mushroom', 'zucchini', 'potato', 'cabbage', 'cauliflower', 'herb', 'parsley', 'cilantro', 'basil',
+      'dill', 'mint', 'fruit', 'vegetable', 'veggie', 'bean sprout', 'pea', 'corn', 'mango', 'grape',
+      'green bean', 'runner bean', 'broad bean'],
+  },
+  {
+    category: 'Beverages',
+    keywords: ['coffee', 'tea', 'juice', 'water', 'soda', 'almond milk', 'oat milk', 'soy milk', 'rice milk'],
+  },
+];
+
+const CATEGORY_ORDER = [...GROCERY_CATEGORIES.map(c => c.category), 'Other' as GroceryCategory];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function categorizeIngredient(name: string): GroceryCategory {
+  const value = name.toLowerCase();
+  let best: { category: GroceryCategory; words: number } | null = null;
+  for (const { category, keywords } of GROCERY_CATEGORIES) {
+    for (const keyword of keywords) {
+      const words = keyword.split(' ').length;
+      if (best && words <= best.words) continue;
+      if (new RegExp(`\\b${escapeRegExp(keyword)}(?:e?s)?\\b`).test(value)) best = { category, words };
+    }
+  }
+  return best ? best.category : 'Other';
+}
+
+interface MergedIngredient {
+  name: string;
+  dimension: UnitDimension | null;
+  unit: string | null; // unit for count items; first unit seen for measured ones
+  units: Set<string>;
+  amount: number | null; // grams/ml for measured items, otherwise in `unit`
+  meals: Set<string>;
+}
+
+function mergeKey(key: string, unit: string | null): string {
+  return `${key}|${unitDimension(unit) || unit || 'count'}`;
+}
+
+// Merge every ingredient line of the plan into one item per ingredient and unit family
+export function buildShoppingItems(meals: Meal[]): ShoppingListItem[] {
+  const merged = new Map<string, MergedIngredient>();
+
+  for (const meal of meals) {
+    for (const line of meal.ingredients || []) {
+      const parsed = parseIngredient(line);
+      if (!parsed.name) continue;
+
+      const key = mergeKey(ingredientKey(parsed.name), parsed.unit);
+      const dimension = unitDimension(parsed.unit);
+      const entry = merged.get(key) || {
+        name: parsed.name,
+        dimension,
+        unit: parsed.unit,
+        units: new Set<string>(),
+        amount: null,
+        meals: new Set<string>(),
+      };
+
+      if (parsed.quantity !== null) {
+        // Buy for the top of a range ("2-3 cloves" -> 3)
+        const quantity = parsed.quantityMax ?? parsed.quantity;
+        const amount = dimension && parsed.unit
+          ? toBaseAmount(quantity, parsed.unit)!.amount
+          : quantity;
+        entry.amount = (entry.amount || 0) + amount;
+        if (parsed.unit) entry.units.add(parsed.unit);
+      }
+      entry.meals.add(meal.name);
+      merged.set(key, entry);
+    }
+  }
+
+  const items = [...merged.values()].map(entry => {
+    let quantity = entry.amount;
+    let unit = entry.unit || undefined;
+
+    if (entry.dimension && entry.amount !== null) {
+      if (entry.units.size === 1) {
+        // Every meal used the same unit - keep it (e.g. cups stay cups)
+        unit = [...entry.units][0];
+        const base = entry.dimension === 'mass' ? 'g' : 'ml';
+        quantity = convertAmount(entry.amount, base, unit);
+      } else {
+        const best = bestUnit(entry.amount, entry.dimension);
+        quantity = best.amount;
+        unit = best.unit;
+      }
+    }
+
+    return {
+      ingredient_name: entry.name,
+      quantity: quantity === null ? null : roundAmount(quantity),
+      unit,
+      category: categorizeIngredient(entry.name),
+      is_purchased: false,
+      recipe_reference: [...entry.meals].join(', '),
+    };
+  });
+
+  return items.sort((a, b) =>
+    CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category) ||
+    a.ingredient_name.localeCompare(b.ingredient_name)
+  );
+}
+
+// Keep ticks from a previous list for items that are still on the new one
+export function carryOverPurchased(items: ShoppingListItem[], previous: ShoppingListItem[]): ShoppingListItem[] {
+  const purchased = new Set(
+    previous.filter(item => item.is_purchased).map(item => `${item.ingredient_name}|${item.unit || ''}`)
+  );
+  return items.map(item => ({
+    ...item,
+    is_purchased: purchased.has(`${item.ingredient_name}|${item.unit || ''}`),
+  }));
+}
+
+export function planMeals(plan: WeeklyPlan): Meal[] {
+  return Object.keys(plan.days)
+    .sort()
+    .flatMap(date => Object.values(plan.days[date]))
+    .filter((meal): meal is Meal => !!meal);
+}
+
+class ShoppingListService {
+  private cacheKey(userId: string): string {
+    return `${LIST_CACHE_PREFIX}${userId}`;
+  }
+
+  private async cacheList(list: ShoppingList): Promise<void> {
+    await AsyncStorage.setItem(this.cacheKey(list.user_id), JSON.stringify(list));
+  }
+
+  // The newest list that is not completed yet
+  async getActiveList(userId: string): Promise<ShoppingList | null> {
+    if (isSupabaseConfigured && await databaseService.isAuthenticated()) {
+      const { data, error } = await supabase
+        .from(TABLES.SHOPPING_LISTS)
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_completed', false)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        console.error('Error fetching shopping list:', error);
+      } else if (data && data.length > 0) {
+        await this.cacheList(data[0]);
+        return data[0];
+      }
+    }
+
+    const cached = await AsyncStorage.getItem(this.cacheKey(userId));
+    const list: ShoppingList | null = cached ? JSON.parse(cached) : null;
+    return list && !list.is_completed ? list : null;
+  }
+
+  // Build a list for the plan, replacing the plan's previous list
+  async generateFromPlan(plan: WeeklyPlan): Promise<ShoppingList> {
+    const previous = await this.getActiveList(plan.userId);
+    let items = buildShoppingItems(planMeals(plan));
+    if (previous?.meal_plan_id === plan.id) {
+      items = carryOverPurchased(items, previous.items);
+    }
+
+    const list: ShoppingList = {
+      id: generateUUID(),
+      user_id: plan.userId,
+      meal_plan_id: plan.id,
+      items,
+      week_start_date: plan.weekStartDate,
+      is_completed: false,
+      created_at: new Date().toISOString(),
+    };
+
+    await this.cacheList(list);
+    console.log(`🛒 Shopping list built: ${items.length} items`);
+
+    if (isSupabaseConfigured && await databaseService.isAuthenticated()) {
+      await supabase
+        .from(TABLES.SHOPPING_LISTS)
+        .delete()
+        .eq('user_id', plan.userId)
+        .eq('meal_plan_id', plan.id);
+
+      const { error } = await supabase.from(TABLES.SHOPPING_LISTS).insert(list);
+      if (error) {
+        console.error('Error saving shopping list:', error);
+      }
+    }
+    return list;
+  }
+
+  // Persist ticked items; the list completes once everything is bought
+  async saveItems(list: ShoppingList, items: ShoppingListItem[]): Promise<ShoppingList> {
+    const updated: ShoppingList = {
+      ...list,
+      items,
+      is_completed: items.length > 0 && items.every(item => item.is_purchased),
+    };
+    await this.cacheList(updated);
+
+    if (isSupabaseConfigured && await databaseService.isAuthenticated()) {
+      const { error } = await supabase
+        .from(TABLES.SHOPPING_LISTS)
+        .update({ items: updated.items, is_completed: updated.is_completed })
+        .eq('id', list.id);
+
+      if (error) {
+        console.error('Error updating shopping list:', error);
+      }
+    }
+    return updated;
+  }
+}
+
+export const shoppingListService = new ShoppingListService();
@@ -0,0 +1,95 @@
+// Sleep Service - bedtime/wake time parsing, nightly duration and how short
+// nights relate to what the user eats the next day. Nights are keyed by the
+// date the user woke up (sleep_tracking.sleep_date), so a night's "next day"
+// intake is the daily_logs total for that same date
+import { SleepRecord } from '../types';
+
+export const RECOMMENDED_SLEEP_HOURS = 7;
+
+export const SLEEP_QUALITY_LABELS: Record<number, { emoji: string; label: string }> = {
+  1: { emoji: '😫', label: 'Awful' },
+  2: { emoji: '😕', label: 'Poor' },
+  3: { emoji: '😐', label: 'Okay' },
+  4: { emoji: '🙂', label: 'Good' },
+  5: { emoji: '😴', label: 'Great' },
+};
+
+// Days below this were most likely not logged completely
+const MIN_COMPLETE_DAY_KCAL = 800;
+const MIN_NIGHTS_PER_GROUP = 3;
+
+// ==================== TIMES ====================
+
+// Minutes after midnight for 'HH:MM' (or the 'HH:MM:SS' Postgres returns)
+export function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatClock(value?: string): string {
+  const minutes = value ? parseClock(value) : null;
+  if (minutes === null) return '--:--';
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+// Hours between bedtime and waking; a wake time at or before bedtime is the
+// next morning
+export function sleepDuration(bedTime: string, wakeTime: string): number | null {
+  const bed = parseClock(bedTime);
+  const wake = parseClock(wakeTime);
+  if (bed === null || wake === null) return null;
+  const minutes = wake > bed ? wake - bed : wake + 24 * 60 - bed;
+  return Math.round((minutes / 60) * 100) / 100;
+}
+
+export function formatHours(hours: number): string {
+  const whole = Math.floor(hours);
+  const minutes = Math.round((hours - whole) * 60);
+  return minutes === 0 ? `${whole}h` : `${whole}h ${String(minutes).padStart(2, '0')}m`;
+}
+
+export function averageSleep(records: SleepRecord[]): number | null {
+  if (records.length === 0) return null;
+  return records.reduce((sum, r) => sum + Number(r.duration_hours), 0) / records.length;
+}
+
+// ==================== CORRELATION ====================
+
+export interface SleepIntakeCorrelation {
+  shortNights: number;
+  restedNights: number;
+  shortAverage: number; // kcal eaten the day after a short night
+  restedAverage: number;
+  difference: number; // short - rested
+}
+
+// Average next-day intake after nights under the recommended hours versus
+// the rest; null until both groups have enough nights with complete logs
+export function correlateSleepWithIntake(
+  records: SleepRecord[],
+  caloriesByDate: Record<string, number>
+): SleepIntakeCorrelation | null {
+  const short: number[] = [];
+  const rested: number[] = [];
+  for (const record of records) {
+    const calories = caloriesByDate[record.sleep_date];
+    if (!calories || calories < MIN_COMPLETE_DAY_KCAL) continue;
+    (Number(record.duration_hours) < RECOMMENDED_SLEEP_HOURS ? short : rested).push(calories);
+  }
+  if (short.length < MIN_NIGHTS_PER_GROUP || rested.length < MIN_NIGHTS_PER_GROUP) return null;
+
+  const mean = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+  const shortAverage = mean(short);
+  const restedAverage = mean(rested);
+  return {
+    shortNights: short.length,
+    restedNights: rested.length,
+    shortAverage,
+    restedAverage,
+    difference: shortAverage - restedAverage,
+  };
+}
@@ -1,17 +1,26 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, Recipe, DailyLog } from '../types';
-import { Meal } from './professionalAIService';
+import { User, Recipe, DailyLog, Meal, CustomFood, MealTemplate, WaterIntake, BeverageType, BodyMeasurement } from '../types';
+import {
+  applyDailyLogEdit,
+  copyDailyLog,
+  DailyLogEdit,
+  mealFromDailyLog,
+  mealToDailyLog,
+  mergeFoodIntoLog,
+  templateItemFromLog,
+  templateToDailyLogs,
+} from './mealMappers';
 import { databaseService } from './databaseService';
+import { syncService, mergeDailyLogs } from './syncService';
+import { achievementService } from './achievementService';
+import { computeStreak, streakService } from './streakService';
+import { reminderService } from './reminderService';
+import { beverageNutrients, beverageNutrition, hydrationMl } from './hydrationService';
+import { dateAtClock, toDateKey, todayKey } from './dateKeys';
 import { isSupabaseConfigured } from '../config/supabase';
+import { generateUUID } from './uuid';
 
-// Generate a proper UUID v4
-function generateUUID(): string {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-}
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const KEYS = {
   USER: 'nutripro_user',
@@ -19,6 +28,11 @@ const KEYS = {
   RECIPES: 'nutripro_recipes',
   DAILY_LOGS_PREFIX: 'nutripro_logs_',
   STREAK: 'nutripro_streak',
+  CUSTOM_FOODS_PREFIX: 'nutripro_custom_foods_',
+  MEAL_TEMPLATES_PREFIX: 'nutripro_meal_templates_',
+  WATER_PREFIX: 'nutripro_water_',
+  BODY_MEASUREMENTS_PREFIX: 'nutripro_body_measurements_',
+  DATE_KEYS_MIGRATED_PREFIX: 'nutripro_datekeys_migrated_',
 };
 
 class StorageService {
@@ -27,17 +41,8 @@ class StorageService {
     // Save locally first
     await AsyncStorage.setItem(KEYS.USER, JSON.stringify(user));
     
-    // Sync to Supabase database
-    if (isSupabaseConfigured) {
-      try {
-        const saved = await databaseService.saveUserProfile(user);
-        if (saved) {
-          console.log('✅ User profile synced to Supabase');
-        }
-      } catch (error) {
-        console.log('Database sync failed for user:', error);
-      }
-    }
+    // Queue for Supabase - sent now if online, replayed later otherwise
+    await syncService.enqueue({ kind: 'user_profile.save', user });
   }
 
   async getUser(): Promise<User | null> {
@@ -79,7 +84,7 @@ class StorageService {
       if (dbUser) {
         await AsyncStorage.setItem(KEYS.USER, JSON.stringify(dbUser));
         // Also load stats
-        const stats = await databaseService.getUserStats();
+        const stats = await databaseService.getUserStats(dbUser.streakVacations);
         dbUser.streak = stats.currentStreak;
         dbUser.longestStreak = stats.longestStreak;
         dbUser.totalMealsLogged = stats.totalMealsLogged;
@@ -94,13 +99,13 @@ class StorageService {
 
   // Meals Management (by date)
   async saveTodaysMeals(userId: string, meals: Meal[]): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     const key = `${KEYS.MEALS_PREFIX}${userId}_${today}`;
     await AsyncStorage.setItem(key, JSON.stringify(meals));
   }
 
   async getTodaysMeals(userId: string): Promise<Meal[]> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     return this.getMealsByDate(userId, today);
   }
 
@@ -112,7 +117,7 @@ class StorageService {
 
   // My Meals (Added meals - separate from AI suggestions)
   async addToMyMeals(userId: string, meal: Meal): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     const key = `nutripro_mymeals_${userId}_${today}`;
     const existingMeals = await this.getMyMeals(userId, today);
     
@@ -130,7 +135,7 @@ class StorageService {
   }
 
   async getMyMealsToday(userId: string): Promise<Meal[]> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     return this.getMyMeals(userId, today);
   }
 
@@ -143,34 +148,20 @@ class StorageService {
 
   // Daily Logs (for tracking/history) - includes full recipe details
   async addMealToLog(userId: string, meal: Meal): Promise<void> {
-    const today = new Date().toISOString().split('T')[0];
+    const today = todayKey();
     const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${today}`;
     const existingLogs = await this.getDailyLogs(userId, today);
+    const now = new Date().toISOString();
     
     // Check if this meal type already logged today - replace it
     const existingIndex = existingLogs.findIndex(log => log.meal_type === meal.mealType);
     
-    const newLog: DailyLog = {
+    const newLog = mealToDailyLog(meal, {
       id: generateUUID(), // Use proper UUID for Supabase compatibility
-      user_id: userId,
-      log_date: today,
-      meal_type: meal.mealType,
-      food_name: meal.name,
-      nutrition_consumed: {
-        calories: meal.calories,
-        protein: meal.protein,
-        carbs: meal.carbs,
-        fats: meal.fats,
-      },
-      // Include full recipe details
-      ingredients: meal.ingredients || [],
-      instructions: meal.instructions || [],
-      prepTime: meal.prepTime,
-      cookTime: meal.cookTime,
-      emoji: meal.emoji || meal.imageEmoji,
-      description: meal.description,
-      created_at: new Date().toISOString(),
-    };
+      userId,
+      date: today,
+      timestamp: now,
+    });
     
     if (existingIndex >= 0) {
       // Replace existing meal of same type
@@ -187,22 +178,51 @@ class StorageService {
     
     // Update user stats
     await this.incrementMealsLogged(userId);
+    await streakService.setActiveDate(userId, todayKey(), true);
     await this.updateStreak(userId);
+    await reminderService.skipToday('meal', meal.mealType);
+
+    // Queue the log; the server drops the replaced entry for this meal slot
+    await syncService.enqueue({ kind: 'daily_log.upsert', log: newLog }, now);
 
-    // Sync to Supabase database
     if (isSupabaseConfigured) {
       try {
-        const saved = await databaseService.saveDailyLog(newLog);
-        if (saved) {
-          await databaseService.saveRecipe(meal);
-          console.log('✅ Meal synced to Supabase');
-        }
+        await databaseService.saveRecipe(meal);
       } catch (error) {
-        console.log('Database sync failed for meal log:', error);
+        console.log('Database sync failed for recipe:', error);
       }
     }
   }
 
+  // Log a single food (e.g. from the USDA food search) on the log's own date.
+  // Foods add up: one logged into a meal slot that is taken joins its entry
+  async addFoodToLog(userId: string, foodLog: DailyLog): Promise<DailyLog> {
+    const now = new Date().toISOString();
+    const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${foodLog.log_date}`;
+    const existingLogs = await this.getDailyLogs(userId, foodLog.log_date);
+
+    const existingIndex = existingLogs.findIndex(l => l.meal_type === foodLog.meal_type);
+    const log: DailyLog = existingIndex >= 0
+      ? mergeFoodIntoLog(existingLogs[existingIndex], foodLog, now)
+      : { ...foodLog, updated_at: now };
+    if (existingIndex >= 0) {
+      existingLogs[existingIndex] = log;
+    } else {
+      existingLogs.push(log);
+    }
+
+    await AsyncStorage.setItem(key, JSON.stringify(existingLogs));
+
+    // Only a new entry is another meal logged
+    if (existingIndex < 0) await this.incrementMealsLogged(userId);
+    await streakService.setActiveDate(userId, log.log_date, true);
+    await this.updateStreak(userId);
+    if (log.log_date === todayKey()) await reminderService.skipToday('meal', log.meal_type);
+
+    await syncService.enqueue({ kind: 'daily_log.upsert', log }, now);
+    return log;
+  }
+
   async getDailyLogs(userId: string, date: string): Promise<DailyLog[]> {
     const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${date}`;
     const data = await AsyncStorage.getItem(key);
@@ -216,12 +236,323 @@ class StorageService {
     const filtered = logs.filter(log => log.id !== logId);
     await AsyncStorage.setItem(key, JSON.stringify(filtered));
     
-    // Also remove from My Meals
+    // Also remove from My Meals, and leave a tombstone on the server so
+    // other devices drop the log instead of uploading it again
     if (logToRemove) {
       await this.removeFromMyMeals(userId, date, logToRemove.meal_type);
+      await syncService.enqueue({ kind: 'daily_log.delete', log: logToRemove });
+    }
+    await this.syncActiveDate(userId, date, filtered);
+  }
+
+  // Edit a log in place. Moving it to a meal type that is already logged that
+  // day replaces the other entry, as adding a meal there would
+  async updateDailyLog(userId: string, log: DailyLog, edit: DailyLogEdit): Promise<DailyLog> {
+    const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${log.log_date}`;
+    const logs = await this.getDailyLogs(userId, log.log_date);
+    const updated = applyDailyLogEdit(log, edit, new Date().toISOString());
+    const displaced = logs.filter(l => l.id !== log.id && l.meal_type === updated.meal_type);
+
+    const remaining = logs
+      .filter(l => !displaced.includes(l))
+      .map(l => (l.id === log.id ? updated : l));
+    if (!remaining.includes(updated)) remaining.push(updated);
+    await AsyncStorage.setItem(key, JSON.stringify(remaining));
+
+    await this.replaceInMyMeals(userId, log.log_date, log.meal_type, updated);
+    for (const other of displaced) {
+      await syncService.enqueue({ kind: 'daily_log.delete', log: other });
+    }
+    await syncService.enqueue({ kind: 'daily_log.upsert', log: updated }, updated.updated_at);
+    return updated;
+  }
+
+  // Undo a removal. The newer upsert wins over the server tombstone. Meal
+  // counts were not reverted on removal, so only the streak is restored.
+  // An entry logged into the slot since the removal is only displaced when
+  // asked to; it is then tombstoned and no longer counted. Returns false,
+  // leaving the day untouched, when the slot is taken and displace is off
+  async restoreDailyLog(userId: string, log: DailyLog, displace: boolean = false): Promise<boolean> {
+    const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${log.log_date}`;
+    const logs = await this.getDailyLogs(userId, log.log_date);
+    const displaced = logs.filter(l => l.id !== log.id && l.meal_type === log.meal_type);
+    if (displaced.length > 0 && !displace) return false;
+
+    const restored: DailyLog = { ...log, updated_at: new Date().toISOString() };
+    const remaining = logs.filter(l => l.id !== log.id && !displaced.includes(l));
+    await AsyncStorage.setItem(key, JSON.stringify([...remaining, restored]));
+    await this.syncActiveDate(userId, log.log_date, [restored]);
+
+    await this.replaceInMyMeals(userId, log.log_date, log.meal_type, restored);
+    for (const other of displaced) {
+      await syncService.enqueue({ kind: 'daily_log.delete', log: other });
+      await this.decrementMealsLogged(userId);
+    }
+    await syncService.enqueue({ kind: 'daily_log.upsert', log: restored }, restored.updated_at);
+    return true;
+  }
+
+  // Keep My Meals in step with an edited log: drop the entry for its old
+  // meal type and whatever held the new one
+  private async replaceInMyMeals(userId: string, date: string, oldMealType: string, log: DailyLog): Promise<void> {
+    const meals = await this.getMyMeals(userId, date);
+    const filtered = meals.filter(m => m.mealType !== oldMealType && m.mealType !== log.meal_type);
+    filtered.push(mealFromDailyLog(log));
+    await AsyncStorage.setItem(`nutripro_mymeals_${userId}_${date}`, JSON.stringify(filtered));
+  }
+
+  // Merge the server's view of a day (including deletions from other
+  // devices) into local storage. Local storage stays the source of truth
+  // for the UI; failures leave it untouched.
+  async pullDailyLogs(userId: string, date: string): Promise<DailyLog[]> {
+    const local = await this.getDailyLogs(userId, date);
+    if (!isSupabaseConfigured) return local;
+
+    const remote = await databaseService.getDailyLogChanges(date);
+    if (!remote) return local;
+
+    const pending = await syncService.getPendingRecordIds();
+    const merged = mergeDailyLogs(local, remote, pending);
+    await AsyncStorage.setItem(`${KEYS.DAILY_LOGS_PREFIX}${userId}_${date}`, JSON.stringify(merged));
+    await this.syncActiveDate(userId, date, merged);
+    return merged;
+  }
+
+  // Queue logs written before the outbox existed. They have no updated_at,
+  // so their creation time is used for conflict resolution.
+  async queueUnsyncedLogs(userId: string): Promise<void> {
+    if (!isSupabaseConfigured) return;
+
+    const prefix = `${KEYS.DAILY_LOGS_PREFIX}${userId}_`;
+    const keys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(prefix));
+
+    for (const key of keys) {
+      const logs: DailyLog[] = JSON.parse((await AsyncStorage.getItem(key)) || '[]');
+      if (logs.every(log => log.updated_at)) continue;
+
+      const unsynced: DailyLog[] = [];
+      const stamped = logs.map(log => {
+        if (log.updated_at) return log;
+        const queued = {
+          ...log,
+          id: UUID_PATTERN.test(log.id) ? log.id : generateUUID(),
+          updated_at: log.created_at || new Date().toISOString(),
+        };
+        unsynced.push(queued);
+        return queued;
+      });
+      await AsyncStorage.setItem(key, JSON.stringify(stamped));
+
+      for (const log of unsynced) {
+        await syncService.enqueue({ kind: 'daily_log.upsert', log }, log.updated_at);
+      }
+    }
+  }
+
+  // Logs written before dateKeys were filed under the UTC day of the moment
+  // they were logged. Move those (log_date is the UTC day of created_at) to
+  // the user's calendar day and queue the change for the server. Back-dated
+  // logs cannot be told apart from correct ones and stay, as do logs whose
+  // target day already has that meal type. Water and day-complete flags
+  // carry no timestamp and are left as they are. Runs once per user.
+  async migrateDateKeys(userId: string): Promise<void> {
+    const doneKey = `${KEYS.DATE_KEYS_MIGRATED_PREFIX}${userId}`;
+    if (await AsyncStorage.getItem(doneKey)) return;
+
+    const prefix = `${KEYS.DAILY_LOGS_PREFIX}${userId}_`;
+    const keys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(prefix));
+    const now = new Date().toISOString();
+    let moved = 0;
+
+    for (const key of keys) {
+      const date = key.slice(prefix.length);
+      for (const log of await this.getDailyLogs(userId, date)) {
+        if (!log.created_at || log.created_at.slice(0, 10) !== date) continue;
+        const localDay = toDateKey(new Date(log.created_at));
+        if (localDay === date) continue;
+
+        const target = await this.getDailyLogs(userId, localDay);
+        if (target.some(l => l.meal_type === log.meal_type)) continue;
+
+        const migrated: DailyLog = { ...log, log_date: localDay, updated_at: now };
+        const remaining = (await this.getDailyLogs(userId, date)).filter(l => l.id !== log.id);
+        await AsyncStorage.setItem(`${prefix}${localDay}`, JSON.stringify([...target, migrated]));
+        await AsyncStorage.setItem(key, JSON.stringify(remaining));
+
+        await this.removeFromMyMeals(userId, date, log.meal_type);
+        await this.replaceInMyMeals(userId, localDay, log.meal_type, migrated);
+        await this.syncActiveDate(userId, date, remaining);
+        await this.syncActiveDate(userId, localDay, [...target, migrated]);
+        await syncService.enqueue({ kind: 'daily_log.upsert', log: migrated }, now);
+        moved++;
+      }
+    }
+
+    if (moved > 0) console.log(`📅 Moved ${moved} logs to their local calendar day`);
+    await AsyncStorage.setItem(doneKey, now);
+  }
+
+  // Cached per-user list refreshed from Supabase. Records with a queued
+  // change keep their local version (or stay deleted) until it is sent
+  private async pullNamedList<T extends { id: string; name: string }>(
+    key: string,
+    fetchRemote: () => Promise<T[] | null>
+  ): Promise<T[]> {
+    const data = await AsyncStorage.getItem(key);
+    const local: T[] = data ? JSON.parse(data) : [];
+    if (!isSupabaseConfigured) return local;
+
+    const remote = await fetchRemote();
+    if (!remote) return local;
+
+    const pending = await syncService.getPendingRecordIds();
+    const merged = [
+      ...remote.filter(item => !pending.has(item.id)),
+      ...local.filter(item => pending.has(item.id)),
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    await AsyncStorage.setItem(key, JSON.stringify(merged));
+    return merged;
+  }
+
+  // Custom Foods - cached per user; writes go through the outbox
+  async getCustomFoods(userId: string): Promise<CustomFood[]> {
+    return this.pullNamedList(`${KEYS.CUSTOM_FOODS_PREFIX}${userId}`, () => databaseService.getCustomFoods());
+  }
+
+  async saveCustomFood(
+    userId: string,
+    food: Omit<CustomFood, 'id' | 'user_id' | 'created_at' | 'updated_at'> & { id?: string }
+  ): Promise<CustomFood> {
+    const key = `${KEYS.CUSTOM_FOODS_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    const foods: CustomFood[] = data ? JSON.parse(data) : [];
+    const existing = foods.find(f => f.id === food.id);
+    const now = new Date().toISOString();
+
+    const saved: CustomFood = {
+      ...food,
+      id: existing?.id || generateUUID(),
+      user_id: userId,
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    };
+    const updated = [...foods.filter(f => f.id !== saved.id), saved]
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    await AsyncStorage.setItem(key, JSON.stringify(updated));
+    await syncService.enqueue({ kind: 'custom_food.save', food: saved }, now);
+    return saved;
+  }
+
+  async deleteCustomFood(userId: string, foodId: string): Promise<void> {
+    const key = `${KEYS.CUSTOM_FOODS_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    const foods: CustomFood[] = data ? JSON.parse(data) : [];
+    const food = foods.find(f => f.id === foodId);
+    if (!food) return;
+
+    await AsyncStorage.setItem(key, JSON.stringify(foods.filter(f => f.id !== foodId)));
+    await syncService.enqueue({ kind: 'custom_food.delete', food });
+  }
+
+  // Copy logs to another date as new entries; a copied meal type replaces
+  // what is already logged for it there
+  async copyLogsToDate(userId: string, logs: DailyLog[], targetDate: string): Promise<DailyLog[]> {
+    const timestamp = new Date().toISOString();
+    const copies = logs.map(log => copyDailyLog(log, { id: generateUUID(), date: targetDate, timestamp }));
+    await this.writeLogsToDate(userId, targetDate, copies);
+    return copies;
+  }
+
+  // Writes several logs to one day in a single pass. Unlike addFoodToLog per
+  // log, the stats count this as one logging action on that day: meals
+  // logged, the active day and the streak are updated once
+  private async writeLogsToDate(userId: string, date: string, logs: DailyLog[]): Promise<void> {
+    if (logs.length === 0) return;
+    const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${date}`;
+    const dayLogs = await this.getDailyLogs(userId, date);
+    const now = new Date().toISOString();
+    const written = logs.map(log => ({ ...log, updated_at: now }));
+
+    // One entry per meal type per day; a copied meal replaces the slot
+    for (const log of written) {
+      const existingIndex = dayLogs.findIndex(l => l.meal_type === log.meal_type);
+      if (existingIndex >= 0) {
+        dayLogs[existingIndex] = log;
+      } else {
+        dayLogs.push(log);
+      }
+    }
+    await AsyncStorage.setItem(key, JSON.stringify(dayLogs));
+
+    for (const log of written) {
+      await syncService.enqueue({ kind: 'daily_log.upsert', log }, now);
+    }
+
+    await this.incrementMealsLogged(userId);
+    await streakService.setActiveDate(userId, date, true);
+    await this.updateStreak(userId);
+    if (date === todayKey()) {
+      for (const mealType of new Set(written.map(log => log.meal_type))) {
+        await reminderService.skipToday('meal', mealType);
+      }
     }
   }
 
+  async copyDay(userId: string, fromDate: string, toDate: string): Promise<DailyLog[]> {
+    const logs = await this.getDailyLogs(userId, fromDate);
+    return this.copyLogsToDate(userId, logs, toDate);
+  }
+
+  // Meal Templates - cached per user; writes go through the outbox
+  async getMealTemplates(userId: string): Promise<MealTemplate[]> {
+    return this.pullNamedList(`${KEYS.MEAL_TEMPLATES_PREFIX}${userId}`, () => databaseService.getMealTemplates());
+  }
+
+  async saveMealTemplate(userId: string, name: string, logs: DailyLog[]): Promise<MealTemplate> {
+    const key = `${KEYS.MEAL_TEMPLATES_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    const templates: MealTemplate[] = data ? JSON.parse(data) : [];
+    const now = new Date().toISOString();
+
+    const template: MealTemplate = {
+      id: generateUUID(),
+      user_id: userId,
+      name: name.trim(),
+      items: logs.map(templateItemFromLog),
+      created_at: now,
+      updated_at: now,
+    };
+    const updated = [...templates, template].sort((a, b) => a.name.localeCompare(b.name));
+
+    await AsyncStorage.setItem(key, JSON.stringify(updated));
+    await syncService.enqueue({ kind: 'meal_template.save', template }, now);
+    return template;
+  }
+
+  async deleteMealTemplate(userId: string, templateId: string): Promise<void> {
+    const key = `${KEYS.MEAL_TEMPLATES_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    const templates: MealTemplate[] = data ? JSON.parse(data) : [];
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+
+    await AsyncStorage.setItem(key, JSON.stringify(templates.filter(t => t.id !== templateId)));
+    await syncService.enqueue({ kind: 'meal_template.delete', template });
+  }
+
+  async logMealTemplate(userId: string, template: MealTemplate, date: string): Promise<DailyLog[]> {
+    const logs = templateToDailyLogs(template, {
+      userId,
+      date,
+      timestamp: new Date().toISOString(),
+      createId: generateUUID,
+    });
+    await this.writeLogsToDate(userId, date, logs);
+    return logs;
+  }
+
   // Recipes Management
   async saveRecipes(recipes: Recipe[]): Promise<void> {
     await AsyncStorage.setItem(KEYS.RECIPES, JSON.stringify(recipes));
@@ -234,7 +565,7 @@ class StorageService {
 
   async getRecipesByMealType(mealType: string): Promise<Recipe[]> {
     const recipes = await this.getRecipes();
-    return recipes.filter(r => r.meal_type === mealType);
+    return recipes.filter(r => r.mealType === mealType);
   }
 
   async getRecipesByDisease(disease: string): Promise<Recipe[]> {
@@ -242,48 +573,68 @@ class StorageService {
     return recipes.filter(r => r.tags?.includes(disease.toLowerCase()));
   }
 
-  // Streak Management
+  // Streak Management - recomputed from the active days; see streakService
   async updateStreak(userId: string): Promise<number> {
     const user = await this.getUser();
     if (!user) return 0;
 
-    const today = new Date().toISOString().split('T')[0];
-    const lastLogin = user.lastLogin?.split('T')[0];
-
-    if (lastLogin === today) {
-      return user.streak;
+    let dates = await streakService.getActiveDates(userId);
+    if (dates.length === 0) {
+      // First run with the active-day cache: seed it from stored logs
+      dates = await streakService.mergeActiveDates(userId, await this.getLoggedDates(userId));
+    }
+    const result = computeStreak(dates, user.streakVacations || [], todayKey());
+    const longestStreak = Math.max(user.longestStreak || 0, result.longest);
+
+    if (
+      result.current !== user.streak ||
+      longestStreak !== user.longestStreak ||
+      result.freezesAvailable !== user.streakFreezes
+    ) {
+      await this.updateUser({ streak: result.current, longestStreak, streakFreezes: result.freezesAvailable });
     }
 
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-    const yesterdayLogs = await this.getDailyLogs(userId, yesterdayStr);
-    
-    let newStreak = user.streak;
-    if (yesterdayLogs.length > 0 || lastLogin === yesterdayStr) {
-      newStreak = user.streak + 1;
-    } else if (lastLogin !== today) {
-      newStreak = 0;
+    if (result.current > user.streak) {
+      await achievementService.recordEvent(userId, { type: 'streak_extended', streak: result.current });
     }
+    return result.current;
+  }
 
-    const longestStreak = Math.max(user.longestStreak || 0, newStreak);
-    
-    await this.updateUser({
-      streak: newStreak,
-      longestStreak,
-      lastLogin: new Date().toISOString(),
-    });
+  // Dates with at least one stored log
+  private async getLoggedDates(userId: string): Promise<string[]> {
+    const prefix = `${KEYS.DAILY_LOGS_PREFIX}${userId}_`;
+    const keys = (await AsyncStorage.getAllKeys()).filter(k => k.startsWith(prefix));
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries
+      .filter(([, value]) => value && JSON.parse(value).length > 0)
+      .map(([key]) => key.slice(prefix.length));
+  }
 
-    return newStreak;
+  // Keep the active-day cache in step with a day's logs
+  private async syncActiveDate(userId: string, date: string, logs: DailyLog[]): Promise<void> {
+    const active = logs.length > 0;
+    const known = (await streakService.getActiveDates(userId)).includes(date);
+    if (active === known) return;
+    await streakService.setActiveDate(userId, date, active);
+    await this.updateStreak(userId);
   }
 
   async incrementMealsLogged(userId: string): Promise<void> {
     const user = await this.getUser();
     if (user) {
-      await this.updateUser({
-        totalMealsLogged: (user.totalMealsLogged || 0) + 1,
-      });
+      const totalMealsLogged = (user.totalMealsLogged || 0) + 1;
+      await this.updateUser({ totalMealsLogged });
+      await achievementService.recordEvent(userId, { type: 'meal_logged', totalMealsLogged });
+    }
+  }
+
+  // Take back the count of an entry that was logged and then displaced
+  private async decrementMealsLogged(userId: string): Promise<void> {
+    const user = await this.getUser();
+    if (user?.totalMealsLogged) {
+      const totalMealsLogged = user.totalMealsLogged - 1;
+      await this.updateUser({ totalMealsLogged });
+      await achievementService.recordEvent(userId, { type: 'meal_logged', totalMealsLogged });
     }
   }
 
@@ -294,9 +645,13 @@ class StorageService {
     carbs: number;
     fats: number;
     sugar: number;
+    caffeine: number;
+    alcohol: number;
     mealsCount: number;
   }> {
     const logs = await this.getDailyLogs(userId, date);
+    // Drinks add their calories, macros, caffeine and alcohol to the food totals
+    const drinks = beverageNutrition(await this.getWaterEntries(userId, date));
     return logs.reduce(
       (acc, log) => {
         const carbs = log.nutrition_consumed?.carbs || 0;
@@ -307,10 +662,21 @@ class StorageService {
           fats: acc.fats + (log.nutrition_consumed?.fats || 0),
           // Estimate sugar as ~15% of carbs if not tracked
           sugar: acc.sugar + (log.nutrition_consumed?.sugar || Math.round(carbs * 0.15)),
+          caffeine: acc.caffeine + (log.nutrition_consumed?.caffeine || 0),
+          alcohol: Math.round((acc.alcohol + (log.nutrition_consumed?.alcohol || 0)) * 10) / 10,
           mealsCount: acc.mealsCount + 1,
         };
       },
-      { calories: 0, protein: 0, carbs: 0, fats: 0, sugar: 0, mealsCount: 0 }
+      {
+        calories: drinks.calories,
+        protein: drinks.protein,
+        carbs: drinks.carbs,
+        fats: drinks.fats,
+        sugar: drinks.sugar || 0,
+        caffeine: drinks.caffeine || 0,
+        alcohol: drinks.alcohol || 0,
+        mealsCount: 0,
+      }
     );
   }
 
@@ -336,19 +702,15 @@ class StorageService {
       }
 
       // Load today's meals
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayKey();
       const meals = await databaseService.getMyMeals(today);
       if (meals.length > 0) {
         const key = `nutripro_mymeals_${userId}_${today}`;
         await AsyncStorage.setItem(key, JSON.stringify(meals));
       }
 
-      // Load daily logs
-      const logs = await databaseService.getDailyLogs(today);
-      if (logs.length > 0) {
-        const key = `${KEYS.DAILY_LOGS_PREFIX}${userId}_${today}`;
-        await AsyncStorage.setItem(key, JSON.stringify(logs));
-      }
+      // Merge daily logs without losing changes that are still queued
+      await this.pullDailyLogs(userId, today);
 
       console.log('Synced data from database successfully');
     } catch (error) {
@@ -356,44 +718,132 @@ class StorageService {
     }
   }
   
-  // Water Intake Management (glasses count - 250ml per glass)
-  async saveWaterIntake(userId: string, date: string, glasses: number): Promise<void> {
-    const key = `nutripro_water_${userId}_${date}`;
-    await AsyncStorage.setItem(key, JSON.stringify(glasses));
-    
-    // Sync to database if configured (convert glasses to ml)
+  // Body Measurements - cached per user, newest first; saves go through the outbox
+  async getBodyMeasurements(userId: string, limit: number = 30): Promise<BodyMeasurement[]> {
+    const key = `${KEYS.BODY_MEASUREMENTS_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    let measurements: BodyMeasurement[] = data ? JSON.parse(data) : [];
+
     if (isSupabaseConfigured) {
-      try {
-        // Add the difference as new intake
-        await databaseService.addWaterIntake(250); // 250ml per glass
-      } catch (error) {
-        console.log('Failed to sync water intake to database:', error);
+      const remote = await databaseService.getBodyMeasurements(limit);
+      const pending = await syncService.getPendingRecordIds();
+      const byId = new Map(measurements.map(m => [m.id, m]));
+      for (const m of remote) {
+        if (!pending.has(m.id)) byId.set(m.id, m);
       }
+      measurements = [...byId.values()].sort(
+        (a, b) => b.measurement_date.localeCompare(a.measurement_date) || b.created_at.localeCompare(a.created_at)
+      );
+      await AsyncStorage.setItem(key, JSON.stringify(measurements));
     }
+    return measurements.slice(0, limit);
   }
-  
-  async getWaterIntake(userId: string, date: string): Promise<number> {
-    const key = `nutripro_water_${userId}_${date}`;
+
+  async saveBodyMeasurement(
+    userId: string,
+    measurement: Omit<BodyMeasurement, 'id' | 'user_id' | 'created_at'>
+  ): Promise<BodyMeasurement> {
+    const key = `${KEYS.BODY_MEASUREMENTS_PREFIX}${userId}`;
+    const data = await AsyncStorage.getItem(key);
+    const measurements: BodyMeasurement[] = data ? JSON.parse(data) : [];
+    const now = new Date().toISOString();
+
+    const saved: BodyMeasurement = { ...measurement, id: generateUUID(), user_id: userId, created_at: now };
+    await AsyncStorage.setItem(key, JSON.stringify([saved, ...measurements]));
+    await syncService.enqueue({ kind: 'body_measurement.save', measurement: saved }, now);
+    return saved;
+  }
+
+  // Water Intake Management - ml entries per beverage (see hydrationService)
+  async getWaterEntries(userId: string, date: string): Promise<WaterIntake[]> {
+    const key = `${KEYS.WATER_PREFIX}${userId}_${date}`;
     const stored = await AsyncStorage.getItem(key);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) return parsed;
+
+      // Older versions stored a glass count (250ml per glass)
+      const entries = this.legacyWaterEntries(userId, date, parsed * 250);
+      await AsyncStorage.setItem(key, JSON.stringify(entries));
+      return entries;
     }
-    
+
+    // The tracker used to keep its own unscoped ml total
+    const legacyMl = await AsyncStorage.getItem(`water_${date}`);
+    if (legacyMl) {
+      const entries = this.legacyWaterEntries(userId, date, parseInt(legacyMl, 10) || 0);
+      await AsyncStorage.setItem(key, JSON.stringify(entries));
+      await AsyncStorage.removeItem(`water_${date}`);
+      return entries;
+    }
+
     // Try database if configured
     if (isSupabaseConfigured) {
       try {
-        const dbIntakeMl = await databaseService.getWaterIntake(date);
-        if (dbIntakeMl > 0) {
-          const glasses = Math.floor(dbIntakeMl / 250); // Convert ml to glasses
-          await AsyncStorage.setItem(key, JSON.stringify(glasses));
-          return glasses;
+        const entries = await databaseService.getWaterEntries(date);
+        if (entries.length > 0) {
+          await AsyncStorage.setItem(key, JSON.stringify(entries));
+          return entries;
         }
       } catch (error) {
         console.log('Failed to get water intake from database:', error);
       }
     }
-    
-    return 0;
+
+    return [];
+  }
+
+  private legacyWaterEntries(userId: string, date: string, amountMl: number): WaterIntake[] {
+    if (amountMl <= 0) return [];
+    const noon = dateAtClock(date, 12 * 60);
+    return [{
+      id: generateUUID(),
+      user_id: userId,
+      intake_date: date,
+      amount_ml: amountMl,
+      beverage_type: 'water',
+      hydration_ml: amountMl,
+      caffeine_mg: 0,
+      alcohol_g: 0,
+      intake_time: noon.toISOString(),
+      created_at: new Date().toISOString(),
+    }];
+  }
+
+  async addWaterEntry(userId: string, amountMl: number, beverage: BeverageType): Promise<WaterIntake> {
+    const now = new Date().toISOString();
+    const date = todayKey();
+    const entry: WaterIntake = {
+      id: generateUUID(),
+      user_id: userId,
+      intake_date: date,
+      amount_ml: amountMl,
+      beverage_type: beverage,
+      hydration_ml: hydrationMl(amountMl, beverage),
+      ...beverageNutrients(amountMl, beverage),
+      intake_time: now,
+      created_at: now,
+    };
+
+    const entries = await this.getWaterEntries(userId, date);
+    await AsyncStorage.setItem(`${KEYS.WATER_PREFIX}${userId}_${date}`, JSON.stringify([...entries, entry]));
+    await syncService.enqueue({ kind: 'water_intake.save', entry }, now);
+    return entry;
+  }
+
+  async removeWaterEntry(userId: string, entry: WaterIntake): Promise<void> {
+    const entries = await this.getWaterEntries(userId, entry.intake_date);
+    await AsyncStorage.setItem(
+      `${KEYS.WATER_PREFIX}${userId}_${entry.intake_date}`,
+      JSON.stringify(entries.filter(e => e.id !== entry.id))
+    );
+    await syncService.enqueue({ kind: 'water_intake.delete', entry });
+  }
+
+  // Hydration total in ml for a day
+  async getWaterIntake(userId: string, date: string): Promise<number> {
+    const entries = await this.getWaterEntries(userId, date);
+    return entries.reduce((sum, entry) => sum + entry.hydration_ml, 0);
   }
   
   // Day Completion
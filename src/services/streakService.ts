@@ -0,0 +1,86 @@
+// Streak Service - the one streak definition used everywhere. A day is
+// active when at least one food log is stored for it, keyed by the user's
+// calendar day (see dateKeys, never UTC). The streak counts consecutive
+// active days ending today or yesterday; today only breaks it once over.
+// Vacation days pause the streak, and a streak freeze (one earned per 7
+// active days in a row, up to MAX_FREEZES) covers a single missed day.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { VacationPeriod } from '../types';
+import { addDaysToKey } from './dateKeys';
+
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_FREEZES = 2;
+
+const ACTIVE_DAYS_KEY_PREFIX = 'nutripro_streak_';
+
+export interface StreakResult {
+  current: number;
+  longest: number;
+  freezesAvailable: number;
+  frozenDates: string[]; // missed days a freeze covered
+}
+
+export function isOnVacation(vacations: VacationPeriod[], date: string): boolean {
+  return vacations.some(v => date >= v.start && (!v.end || date <= v.end));
+}
+
+// Walk every day from the first active one through today, one calendar
+// day per step however long DST makes it
+export function computeStreak(activeDates: string[], vacations: VacationPeriod[], today: string): StreakResult {
+  const active = new Set(activeDates.filter(d => d <= today));
+  const result: StreakResult = { current: 0, longest: 0, freezesAvailable: 0, frozenDates: [] };
+  if (active.size === 0) return result;
+
+  let run = 0;
+  let day = [...active].sort()[0];
+  while (day <= today) {
+    if (active.has(day)) {
+      run++;
+      result.longest = Math.max(result.longest, run);
+      if (run % FREEZE_EARN_DAYS === 0 && result.freezesAvailable < MAX_FREEZES) result.freezesAvailable++;
+    } else if (isOnVacation(vacations, day) || day === today) {
+      // Paused, or the day is not over yet
+    } else if (run > 0 && result.freezesAvailable > 0) {
+      result.freezesAvailable--;
+      result.frozenDates.push(day);
+    } else {
+      run = 0;
+    }
+    day = addDaysToKey(day, 1);
+  }
+
+  result.current = run;
+  return result;
+}
+
+// Start vacation today, or end the open one (yesterday was its last day
+// unless it began today, in which case it is dropped)
+export function toggleVacation(vacations: VacationPeriod[], today: string): VacationPeriod[] {
+  const open = vacations.find(v => !v.end);
+  if (!open) return [...vacations, { start: today }];
+  if (open.start === today) return vacations.filter(v => v !== open);
+  return vacations.map(v => (v === open ? { ...v, end: addDaysToKey(today, -1) } : v));
+}
+
+class StreakService {
+  // Days known to be active on this device, from local logs and the server
+  async getActiveDates(userId: string): Promise<string[]> {
+    const stored = await AsyncStorage.getItem(`${ACTIVE_DAYS_KEY_PREFIX}${userId}`);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  async setActiveDate(userId: string, date: string, active: boolean): Promise<void> {
+    const dates = new Set(await this.getActiveDates(userId));
+    if (active) dates.add(date);
+    else dates.delete(date);
+    await AsyncStorage.setItem(`${ACTIVE_DAYS_KEY_PREFIX}${userId}`, JSON.stringify([...dates].sort()));
+  }
+
+  async mergeActiveDates(userId: string, remote: string[]): Promise<string[]> {
+    const dates = [...new Set([...(await this.getActiveDates(userId)), ...remote])].sort();
+    await AsyncStorage.setItem(`${ACTIVE_DAYS_KEY_PREFIX}${userId}`, JSON.stringify(dates));
+    return dates;
+  }
+}
+
+export const streakService = new StreakService();
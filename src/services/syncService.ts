@@ -0,0 +1,253 @@
+// Sync Service - offline-first outbox for writes to Supabase
+// Mutations are persisted locally before they are sent and replayed in order
+// whenever NetInfo reports connectivity. Each one carries an idempotency key,
+// so a replay after a lost response is applied only once; conflicts are
+// resolved per record with last-writer-wins on updated_at
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { BodyMeasurement, CustomFood, DailyLog, MealTemplate, User, UserAchievement, WaterIntake } from '../types';
+import { databaseService } from './databaseService';
+import { isSupabaseConfigured } from '../config/supabase';
+import { generateUUID } from './uuid';
+
+const OUTBOX_KEY = 'nutripro_outbox';
+
+// Entries that keep failing are dropped so they cannot block the queue forever
+const MAX_ATTEMPTS = 20;
+
+export type OutboxMutation =
+  | { kind: 'daily_log.upsert'; log: DailyLog }
+  | { kind: 'daily_log.delete'; log: DailyLog }
+  | { kind: 'user_profile.save'; user: User }
+  | { kind: 'custom_food.save'; food: CustomFood }
+  | { kind: 'custom_food.delete'; food: CustomFood }
+  | { kind: 'meal_template.save'; template: MealTemplate }
+  | { kind: 'meal_template.delete'; template: MealTemplate }
+  | { kind: 'achievement.award'; award: UserAchievement }
+  | { kind: 'water_intake.save'; entry: WaterIntake }
+  | { kind: 'water_intake.delete'; entry: WaterIntake }
+  | { kind: 'body_measurement.save'; measurement: BodyMeasurement };
+
+export interface OutboxEntry {
+  idempotencyKey: string;
+  recordId: string;
+  mutation: OutboxMutation;
+  updatedAt: string; // client time of the change, compared on the server
+  attempts: number;
+  lastError?: string;
+}
+
+const isOnline = (state: NetInfoState) =>
+  state.isConnected === true && state.isInternetReachable !== false;
+
+// Pending changes to the same record collapse into the latest one
+const recordKey = (entry: OutboxEntry) =>
+  `${entry.mutation.kind.split('.')[0]}:${entry.recordId}`;
+
+const mutationRecordId = (mutation: OutboxMutation): string => {
+  switch (mutation.kind) {
+    case 'user_profile.save':
+      return mutation.user.id;
+    case 'custom_food.save':
+    case 'custom_food.delete':
+      return mutation.food.id;
+    case 'meal_template.save':
+    case 'meal_template.delete':
+      return mutation.template.id;
+    case 'achievement.award':
+      return mutation.award.achievement_id;
+    case 'water_intake.save':
+    case 'water_intake.delete':
+      return mutation.entry.id;
+    case 'body_measurement.save':
+      return mutation.measurement.id;
+    default:
+      return mutation.log.id;
+  }
+};
+
+const timestampOf = (log: DailyLog) => Date.parse(log.updated_at || log.created_at) || 0;
+
+// Merge server rows (tombstones included) into the local logs for one day.
+// Records with a pending local change are left alone - the server decides
+// when the change is replayed - otherwise the newer version wins.
+export function mergeDailyLogs(
+  local: DailyLog[],
+  remote: DailyLog[],
+  pendingRecordIds: Set<string>
+): DailyLog[] {
+  const merged = new Map(local.map(log => [log.id, log]));
+
+  for (const remoteLog of remote) {
+    if (pendingRecordIds.has(remoteLog.id)) continue;
+
+    const localLog = merged.get(remoteLog.id);
+    if (localLog && timestampOf(localLog) > timestampOf(remoteLog)) continue;
+
+    if (remoteLog.deleted_at) {
+      merged.delete(remoteLog.id);
+    } else {
+      merged.set(remoteLog.id, remoteLog);
+    }
+  }
+
+  return [...merged.values()];
+}
+
+class SyncService {
+  private lock: Promise<unknown> = Promise.resolve();
+  private flushing: Promise<void> | null = null;
+
+  // Serialize read-modify-write cycles on the outbox
+  private withLock<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    const data = await AsyncStorage.getItem(OUTBOX_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  private async saveOutbox(entries: OutboxEntry[]): Promise<void> {
+    await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  }
+
+  async getPendingRecordIds(): Promise<Set<string>> {
+    const entries = await this.getOutbox();
+    return new Set(entries.map(entry => entry.recordId));
+  }
+
+  async enqueue(mutation: OutboxMutation, updatedAt: string = new Date().toISOString()): Promise<void> {
+    // Demo mode has nothing to sync to
+    if (!isSupabaseConfigured) return;
+
+    const entry: OutboxEntry = {
+      idempotencyKey: generateUUID(),
+      recordId: mutationRecordId(mutation),
+      mutation,
+      updatedAt,
+      attempts: 0,
+    };
+
+    await this.withLock(async () => {
+      const entries = await this.getOutbox();
+      const key = recordKey(entry);
+      await this.saveOutbox([...entries.filter(e => recordKey(e) !== key), entry]);
+    });
+
+    // Fire and forget - the entry stays queued if we are offline
+    this.flush();
+  }
+
+  // Replay the outbox in order, stopping at the first failure so later
+  // changes never overtake earlier ones
+  flush(): Promise<void> {
+    if (!isSupabaseConfigured) return Promise.resolve();
+    if (!this.flushing) {
+      this.flushing = this.drain()
+        .catch(error => console.log('Outbox flush failed:', error))
+        .finally(() => { this.flushing = null; });
+    }
+    return this.flushing;
+  }
+
+  private async drain(): Promise<void> {
+    const network = await NetInfo.fetch();
+    if (!isOnline(network)) return;
+
+    // Signed out - keep everything queued for the next session
+    if (!(await databaseService.isAuthenticated())) return;
+
+    const entries = await this.getOutbox();
+    if (entries.length === 0) return;
+    console.log(`🔄 Replaying ${entries.length} queued change(s)`);
+
+    for (const entry of entries) {
+      const sent = await this.send(entry);
+
+      if (sent) {
+        await this.withLock(async () => {
+          const current = await this.getOutbox();
+          await this.saveOutbox(current.filter(e => e.idempotencyKey !== entry.idempotencyKey));
+        });
+        continue;
+      }
+
+      const attempts = entry.attempts + 1;
+      await this.withLock(async () => {
+        const current = await this.getOutbox();
+        const remaining = attempts >= MAX_ATTEMPTS
+          ? current.filter(e => e.idempotencyKey !== entry.idempotencyKey)
+          : current.map(e => e.idempotencyKey === entry.idempotencyKey
+            ? { ...e, attempts, lastError: `Failed to sync ${entry.mutation.kind}` }
+            : e);
+        await this.saveOutbox(remaining);
+      });
+
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`❌ Dropping ${entry.mutation.kind} for ${entry.recordId} after ${attempts} attempts`);
+        continue;
+      }
+      break;
+    }
+  }
+
+  private async send(entry: OutboxEntry): Promise<boolean> {
+    const { mutation } = entry;
+
+    if (mutation.kind === 'user_profile.save') {
+      return databaseService.saveUserProfile(mutation.user);
+    }
+    if (mutation.kind === 'custom_food.save') {
+      return databaseService.saveCustomFood(mutation.food);
+    }
+    if (mutation.kind === 'custom_food.delete') {
+      return databaseService.deleteCustomFood(mutation.food.id);
+    }
+    if (mutation.kind === 'meal_template.save') {
+      return databaseService.saveMealTemplate(mutation.template);
+    }
+    if (mutation.kind === 'meal_template.delete') {
+      return databaseService.deleteMealTemplate(mutation.template.id);
+    }
+    if (mutation.kind === 'achievement.award') {
+      const { award } = mutation;
+      return databaseService.awardAchievement(award.achievement_id, award.progress_value, award.earned_date);
+    }
+    if (mutation.kind === 'water_intake.save') {
+      return databaseService.saveWaterIntake(mutation.entry);
+    }
+    if (mutation.kind === 'water_intake.delete') {
+      return databaseService.deleteWaterIntake(mutation.entry.id);
+    }
+    if (mutation.kind === 'body_measurement.save') {
+      return databaseService.saveBodyMeasurement(mutation.measurement);
+    }
+
+    const operation = mutation.kind === 'daily_log.delete' ? 'delete' : 'upsert';
+    const result = await databaseService.applyDailyLogMutation(
+      entry.idempotencyKey,
+      operation,
+      mutation.log,
+      entry.updatedAt
+    );
+
+    if (result === 'stale') {
+      console.log(`↩️ Newer version of log ${entry.recordId} already on server`);
+    }
+    return result !== null;
+  }
+
+  // Flush now and again whenever connectivity comes back.
+  // Returns the NetInfo unsubscribe function.
+  start(): () => void {
+    this.flush();
+    return NetInfo.addEventListener(state => {
+      if (isOnline(state)) this.flush();
+    });
+  }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,119 @@
+// Unit Conversion - kitchen units by dimension. Mass converts through grams
+// and volume through millilitres; count-like units (slice, clove, pinch...)
+// never convert and only combine with themselves
+export type UnitDimension = 'mass' | 'volume';
+export type UnitSystem = 'metric' | 'imperial';
+
+interface UnitDefinition {
+  dimension: UnitDimension;
+  toBase: number; // grams or millilitres per unit
+  system: UnitSystem;
+}
+
+export const UNITS: Record<string, UnitDefinition> = {
+  mg: { dimension: 'mass', toBase: 0.001, system: 'metric' },
+  g: { dimension: 'mass', toBase: 1, system: 'metric' },
+  kg: { dimension: 'mass', toBase: 1000, system: 'metric' },
+  oz: { dimension: 'mass', toBase: 28.3495, system: 'imperial' },
+  lb: { dimension: 'mass', toBase: 453.592, system: 'imperial' },
+  ml: { dimension: 'volume', toBase: 1, system: 'metric' },
+  l: { dimension: 'volume', toBase: 1000, system: 'metric' },
+  tsp: { dimension: 'volume', toBase: 4.92892, system: 'imperial' },
+  tbsp: { dimension: 'volume', toBase: 14.7868, system: 'imperial' },
+  'fl oz': { dimension: 'volume', toBase: 29.5735, system: 'imperial' },
+  cup: { dimension: 'volume', toBase: 236.588, system: 'imperial' },
+  pint: { dimension: 'volume', toBase: 473.176, system: 'imperial' },
+  quart: { dimension: 'volume', toBase: 946.353, system: 'imperial' },
+};
+
+export const COUNT_UNITS = [
+  'slice', 'clove', 'scoop', 'can', 'piece', 'pinch', 'dash', 'handful',
+  'bunch', 'stalk', 'sprig', 'head', 'package', 'fillet', 'leaf',
+] as const;
+
+// Spellings seen in recipes -> canonical unit
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg', milligrams: 'mg',
+  gram: 'g', grams: 'g', gr: 'g', gms: 'g',
+  kilogram: 'kg', kilograms: 'kg', kgs: 'kg', kilo: 'kg', kilos: 'kg',
+  ounce: 'oz', ounces: 'oz',
+  pound: 'lb', pounds: 'lb', lbs: 'lb',
+  milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml', mls: 'ml',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', ltr: 'l',
+  teaspoon: 'tsp', teaspoons: 'tsp', tsps: 'tsp',
+  tablespoon: 'tbsp', tablespoons: 'tbsp', tbsps: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz', 'fl. oz': 'fl oz',
+  cups: 'cup',
+  pints: 'pint', pt: 'pint',
+  quarts: 'quart', qt: 'quart',
+  slices: 'slice', cloves: 'clove', scoops: 'scoop', cans: 'can',
+  pieces: 'piece', pinches: 'pinch', dashes: 'dash', handfuls: 'handful',
+  bunches: 'bunch', stalks: 'stalk', sprigs: 'sprig', heads: 'head',
+  packages: 'package', pkg: 'package', fillets: 'fillet', leaves: 'leaf',
+};
+
+// Canonical unit for a spelling, or null when it is not a unit
+export function normalizeUnit(unit: string): string | null {
+  const key = unit.trim().toLowerCase().replace(/\.$/, '');
+  if (UNITS[key] || (COUNT_UNITS as readonly string[]).includes(key)) return key;
+  return UNIT_ALIASES[key] || null;
+}
+
+export function unitDimension(unit: string | null): UnitDimension | null {
+  return unit && UNITS[unit] ? UNITS[unit].dimension : null;
+}
+
+// Convert between units of the same dimension; null when they do not mix
+export function convertAmount(amount: number, from: string, to: string): number | null {
+  const source = UNITS[from];
+  const target = UNITS[to];
+  if (!source || !target || source.dimension !== target.dimension) return null;
+  return (amount * source.toBase) / target.toBase;
+}
+
+export function toBaseAmount(amount: number, unit: string): { amount: number; unit: 'g' | 'ml' } | null {
+  const definition = UNITS[unit];
+  if (!definition) return null;
+  return {
+    amount: amount * definition.toBase,
+    unit: definition.dimension === 'mass' ? 'g' : 'ml',
+  };
+}
+
+// A readable unit for an amount given in grams or millilitres
+export function bestUnit(
+  baseAmount: number,
+  dimension: UnitDimension,
+  system: UnitSystem = 'metric'
+): { amount: number; unit: string } {
+  let unit: string;
+  if (system === 'metric') {
+    unit = dimension === 'mass'
+      ? (baseAmount >= 1000 ? 'kg' : 'g')
+      : (baseAmount >= 1000 ? 'l' : 'ml');
+  } else if (dimension === 'mass') {
+    unit = baseAmount >= UNITS.lb.toBase ? 'lb' : 'oz';
+  } else if (baseAmount < UNITS.tbsp.toBase) {
+    unit = 'tsp';
+  } else if (baseAmount < UNITS.cup.toBase / 4) {
+    unit = 'tbsp';
+  } else {
+    unit = 'cup';
+  }
+  return { amount: baseAmount / UNITS[unit].toBase, unit };
+}
+
+// Round for display: whole numbers for large amounts, finer for small ones
+export function roundAmount(amount: number): number {
+  if (amount >= 100) return Math.round(amount);
+  if (amount >= 10) return Math.round(amount * 10) / 10;
+  return Math.round(amount * 100) / 100;
+}
+
+// Display form of a canonical unit: abbreviations stay as they are, words pluralize
+export function unitLabel(unit: string, amount: number): string {
+  if (UNITS[unit] && !['cup', 'pint', 'quart'].includes(unit)) return unit;
+  if (amount <= 1) return unit;
+  if (unit === 'leaf') return 'leaves';
+  return /(ch|sh)$/.test(unit) ? `${unit}es` : `${unit}s`;
+}
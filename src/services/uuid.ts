@@ -0,0 +1,8 @@
+// UUIDs - v4 ids for rows created on the device, so they can be written to
+// Supabase as primary keys and used as sync idempotency keys. expo-crypto
+// draws them from the platform's secure random source
+import { randomUUID } from 'expo-crypto';
+
+export function generateUUID(): string {
+  return randomUUID();
+}
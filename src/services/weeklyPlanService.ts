@@ -0,0 +1,224 @@
+// Weekly Plan Service - seven-day meal plans built against the user's
+// nutrition target. Days are generated in order so each one can steer clear
+// of the meals next to it; plans live in meal_plans with a local cache
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { addDays, format, parseISO, startOfWeek } from 'date-fns';
+import { Meal, MealType, NutritionTarget, PlannedDay, WeeklyPlan } from '../types';
+import { professionalAIService, UserProfile } from './professionalAIService';
+import { databaseService } from './databaseService';
+import { normalizeMealName } from './aiSchemas';
+import { splitMacros } from './nutritionTargetService';
+import { isSupabaseConfigured } from '../config/supabase';
+import { generateUUID } from './uuid';
+
+const PLAN_CACHE_PREFIX = 'nutripro_weekly_plan_';
+
+export const PLAN_MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+export type DailyTargets = Pick<NutritionTarget, 'daily_calories' | 'protein_grams' | 'carbs_grams' | 'fats_grams'>;
+
+export interface PlanRepeat {
+  date: string;
+  mealType: MealType;
+  name: string;
+}
+
+// Rounds of regenerating repeated slots before a plan is kept as it is
+const MAX_REPEAT_PASSES = 2;
+
+// Monday of the week containing the date, as YYYY-MM-DD
+export function getWeekStart(date: Date = new Date()): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+export function getWeekDates(weekStartDate: string): string[] {
+  const monday = parseISO(weekStartDate);
+  return Array.from({ length: 7 }, (_, i) => format(addDays(monday, i), 'yyyy-MM-dd'));
+}
+
+const mealNames = (day: PlannedDay | undefined): string[] =>
+  Object.values(day || {}).filter((meal): meal is Meal => !!meal).map(meal => meal.name);
+
+// Meals on the days either side of a date - a new meal must not repeat them
+export function adjacentMealNames(days: Record<string, PlannedDay>, date: string): string[] {
+  const day = parseISO(date);
+  return [
+    ...mealNames(days[format(addDays(day, -1), 'yyyy-MM-dd')]),
+    ...mealNames(days[format(addDays(day, 1), 'yyyy-MM-dd')]),
+  ];
+}
+
+// Slots holding a meal that was already planned the day before
+export function findConsecutiveRepeats(days: Record<string, PlannedDay>): PlanRepeat[] {
+  const dates = Object.keys(days).sort();
+  const repeats: PlanRepeat[] = [];
+
+  for (let i = 1; i < dates.length; i++) {
+    const previous = parseISO(dates[i - 1]);
+    if (format(addDays(previous, 1), 'yyyy-MM-dd') !== dates[i]) continue;
+
+    const yesterday = new Set(mealNames(days[dates[i - 1]]).map(normalizeMealName));
+    for (const [mealType, meal] of Object.entries(days[dates[i]])) {
+      if (meal && yesterday.has(normalizeMealName(meal.name))) {
+        repeats.push({ date: dates[i], mealType: mealType as MealType, name: meal.name });
+      }
+    }
+  }
+  return repeats;
+}
+
+// Targets used when the user has none saved yet: the balanced macro preset
+export function defaultTargets(calorieTarget: number): DailyTargets {
+  return { daily_calories: calorieTarget, ...splitMacros(calorieTarget) };
+}
+
+export function describeTargets(targets: DailyTargets): string {
+  return `daily totals near ${targets.daily_calories} kcal, ${targets.protein_grams}g protein, ` +
+    `${targets.carbs_grams}g carbs, ${targets.fats_grams}g fats`;
+}
+
+// The models behind a set of days, e.g. "groq:llama-3.1-8b-instant, fallback"
+export function summarizeModels(days: Record<string, PlannedDay>): string | undefined {
+  const models = new Set<string>();
+  for (const day of Object.values(days)) {
+    for (const meal of Object.values(day)) {
+      if (meal?.generatedBy) models.add(meal.generatedBy);
+    }
+  }
+  return models.size > 0 ? [...models].sort().join(', ') : undefined;
+}
+
+class WeeklyPlanService {
+  private cacheKey(userId: string, weekStartDate: string): string {
+    return `${PLAN_CACHE_PREFIX}${userId}_${weekStartDate}`;
+  }
+
+  private async cachePlan(plan: WeeklyPlan): Promise<void> {
+    await AsyncStorage.setItem(this.cacheKey(plan.userId, plan.weekStartDate), JSON.stringify(plan));
+  }
+
+  private async getTargets(userId: string, profile: UserProfile): Promise<DailyTargets> {
+    const saved = isSupabaseConfigured ? await databaseService.getNutritionTargets(userId) : null;
+    return saved || defaultTargets(profile.calorieTarget);
+  }
+
+  // Saved plan for the week, preferring the cloud copy when signed in
+  async getPlan(userId: string, weekStartDate: string): Promise<WeeklyPlan | null> {
+    if (isSupabaseConfigured) {
+      const remote = await databaseService.getMealPlan(weekStartDate);
+      if (remote) {
+        await this.cachePlan({ ...remote, userId });
+        return { ...remote, userId };
+      }
+    }
+
+    const cached = await AsyncStorage.getItem(this.cacheKey(userId, weekStartDate));
+    return cached ? JSON.parse(cached) : null;
+  }
+
+  async generateWeek(userId: string, profile: UserProfile, weekStartDate: string = getWeekStart()): Promise<WeeklyPlan> {
+    const targets = await this.getTargets(userId, profile);
+    const targetProfile = { ...profile, calorieTarget: targets.daily_calories };
+    const preferences = describeTargets(targets);
+    const days: Record<string, PlannedDay> = {};
+
+    for (const date of getWeekDates(weekStartDate)) {
+      const exclude = adjacentMealNames(days, date);
+      const meals = await Promise.all(
+        PLAN_MEAL_TYPES.map(mealType =>
+          professionalAIService.generatePersonalizedMeal(mealType, targetProfile, preferences, exclude)
+        )
+      );
+      days[date] = Object.fromEntries(meals.map(meal => [meal.mealType, meal]));
+      console.log(`📅 Planned ${date}:`, meals.map(meal => meal.name).join(', '));
+    }
+
+    // Providers can ignore the exclusions, and fallback meals come from a
+    // short list: replace what still repeats before the plan is saved
+    let repeats = findConsecutiveRepeats(days);
+    for (let pass = 0; pass < MAX_REPEAT_PASSES && repeats.length > 0; pass++) {
+      for (const { date, mealType } of repeats) {
+        const meal = await this.generateSlotMeal(days, date, mealType, targets, targetProfile);
+        days[date] = { ...days[date], [mealType]: meal };
+      }
+      repeats = findConsecutiveRepeats(days);
+    }
+    if (repeats.length > 0) {
+      console.warn('⚠️ Weekly plan still repeats meals on consecutive days:', repeats.map(r => `${r.date}: ${r.name}`));
+    }
+
+    const plan: WeeklyPlan = {
+      id: generateUUID(),
+      userId,
+      weekStartDate,
+      days,
+      aiModelUsed: summarizeModels(days),
+      isActive: true,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.cachePlan(plan);
+    if (isSupabaseConfigured) {
+      const prompt = `Weekly meal plan for ${profile.name}: ${PLAN_MEAL_TYPES.join(', ')} each day, ` +
+        `${preferences}, goal ${profile.goal}, no meal repeated on consecutive days`;
+      await databaseService.saveMealPlan(plan, prompt);
+    }
+    return plan;
+  }
+
+  // An empty plan for a week, for filling slot by slot
+  createPlan(userId: string, weekStartDate: string): WeeklyPlan {
+    return {
+      id: generateUUID(),
+      userId,
+      weekStartDate,
+      days: {},
+      isActive: true,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  // A new meal for a slot, unlike the one it replaces and the meals on the
+  // days either side
+  private generateSlotMeal(
+    days: Record<string, PlannedDay>,
+    date: string,
+    mealType: MealType,
+    targets: DailyTargets,
+    profile: UserProfile
+  ): Promise<Meal> {
+    const current = days[date]?.[mealType];
+    const exclude = [
+      ...adjacentMealNames(days, date),
+      ...(current ? [current.name] : []),
+    ];
+    return professionalAIService.generatePersonalizedMeal(
+      mealType,
+      { ...profile, calorieTarget: targets.daily_calories },
+      describeTargets(targets),
+      exclude
+    );
+  }
+
+  // Replace one meal, keeping the rest of the week untouched
+  async regenerateSlot(
+    plan: WeeklyPlan,
+    date: string,
+    mealType: MealType,
+    profile: UserProfile
+  ): Promise<WeeklyPlan> {
+    const targets = await this.getTargets(plan.userId, profile);
+    const meal = await this.generateSlotMeal(plan.days, date, mealType, targets, profile);
+
+    const days = { ...plan.days, [date]: { ...plan.days[date], [mealType]: meal } };
+    const updated: WeeklyPlan = { ...plan, days, aiModelUsed: summarizeModels(days) };
+
+    await this.cachePlan(updated);
+    if (isSupabaseConfigured) {
+      await databaseService.updateMealPlan(updated);
+    }
+    return updated;
+  }
+}
+
+export const weeklyPlanService = new WeeklyPlanService();
@@ -0,0 +1,101 @@
+// Weight Trend Service - smooths daily weigh-ins into a trend line, derives
+// the weekly rate of change and projects when the target weight is reached.
+// Scale readings swing by a kilo or more with water and food, so everything
+// here works on the exponentially smoothed trend rather than raw readings
+import { addDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { BodyMeasurement } from '../types';
+import { convertAmount, UnitSystem } from './unitConversion';
+
+export interface WeightPoint {
+  date: string; // YYYY-MM-DD
+  weightKg: number; // scale reading
+  trendKg: number; // smoothed
+}
+
+export interface GoalProjection {
+  status: 'reached' | 'on_track' | 'off_track';
+  date?: Date; // only when on track
+  weeks?: number;
+}
+
+// Share of each new day that moves the trend; 0.1 follows the trend over
+// roughly two weeks
+const SMOOTHING = 0.1;
+const RATE_WINDOW_DAYS = 14;
+const MIN_RATE_SPAN_DAYS = 7;
+const GOAL_TOLERANCE_KG = 0.2;
+const MAX_PROJECTION_WEEKS = 104;
+
+// ==================== UNITS ====================
+
+export function weightUnit(system: UnitSystem = 'metric'): 'kg' | 'lb' {
+  return system === 'imperial' ? 'lb' : 'kg';
+}
+
+export function toDisplayWeight(kg: number, system: UnitSystem = 'metric'): number {
+  const value = convertAmount(kg, 'kg', weightUnit(system))!;
+  return Math.round(value * 10) / 10;
+}
+
+export function fromDisplayWeight(value: number, system: UnitSystem = 'metric'): number {
+  return convertAmount(value, weightUnit(system), 'kg')!;
+}
+
+export function formatWeight(kg: number, system: UnitSystem = 'metric'): string {
+  return `${toDisplayWeight(kg, system)} ${weightUnit(system)}`;
+}
+
+// ==================== TREND ====================
+
+// One reading per day (the latest logged), oldest first, with an EMA trend.
+// Missing days count as days without news: after a gap the new reading
+// weighs as much as it would have after that many daily readings
+export function smoothWeights(measurements: BodyMeasurement[]): WeightPoint[] {
+  const byDate = new Map<string, BodyMeasurement>();
+  for (const m of measurements) {
+    if (!m.weight_kg) continue;
+    const date = m.measurement_date.slice(0, 10);
+    const existing = byDate.get(date);
+    if (!existing || m.created_at > existing.created_at) byDate.set(date, m);
+  }
+
+  const points: WeightPoint[] = [];
+  for (const date of [...byDate.keys()].sort()) {
+    const weightKg = Number(byDate.get(date)!.weight_kg);
+    const previous = points[points.length - 1];
+    if (!previous) {
+      points.push({ date, weightKg, trendKg: weightKg });
+      continue;
+    }
+    const gap = differenceInCalendarDays(parseISO(date), parseISO(previous.date));
+    const alpha = 1 - Math.pow(1 - SMOOTHING, gap);
+    points.push({ date, weightKg, trendKg: previous.trendKg + alpha * (weightKg - previous.trendKg) });
+  }
+  return points;
+}
+
+// Trend change per week over the last two weeks; null until there is at
+// least a week of data
+export function weeklyRate(points: WeightPoint[]): number | null {
+  if (points.length < 2) return null;
+  const last = points[points.length - 1];
+  const reference = points.find(p => differenceInCalendarDays(parseISO(last.date), parseISO(p.date)) <= RATE_WINDOW_DAYS)!;
+  const span = differenceInCalendarDays(parseISO(last.date), parseISO(reference.date));
+  if (span < MIN_RATE_SPAN_DAYS) return null;
+  return ((last.trendKg - reference.trendKg) / span) * 7;
+}
+
+export function projectGoal(
+  currentKg: number,
+  targetKg: number,
+  ratePerWeek: number | null,
+  from: Date = new Date()
+): GoalProjection {
+  const remaining = targetKg - currentKg;
+  if (Math.abs(remaining) <= GOAL_TOLERANCE_KG) return { status: 'reached' };
+  if (!ratePerWeek || Math.sign(ratePerWeek) !== Math.sign(remaining)) return { status: 'off_track' };
+
+  const weeks = remaining / ratePerWeek;
+  if (weeks > MAX_PROJECTION_WEEKS) return { status: 'off_track' };
+  return { status: 'on_track', weeks: Math.ceil(weeks), date: addDays(from, Math.ceil(weeks * 7)) };
+}
@@ -1,10 +1,13 @@
 import { create } from 'zustand';
 import { supabase, TABLES } from '../config/supabase';
-import { MealPlan, Recipe, ShoppingList, DailyLog, NutritionInfo } from '../types/database';
+import { WeeklyPlan, Recipe, DailyLog, NutritionInfo, PlannedDay, ShoppingList } from '../types';
+import { recipeFromRow, weeklyPlanFromRow, weeklyPlanToRow } from '../services/mealMappers';
+import { shoppingListService } from '../services/shoppingListService';
+import { sumNutrition } from '../services/micronutrientService';
 import { format, startOfWeek, addDays } from 'date-fns';
 
 interface MealPlanState {
-  currentMealPlan: MealPlan | null;
+  currentMealPlan: WeeklyPlan | null;
   recipes: Recipe[];
   favoriteRecipes: Recipe[];
   shoppingList: ShoppingList | null;
@@ -15,7 +18,7 @@ interface MealPlanState {
   selectedDate: Date;
   
   // Actions
-  setCurrentMealPlan: (plan: MealPlan | null) => void;
+  setCurrentMealPlan: (plan: WeeklyPlan | null) => void;
   setRecipes: (recipes: Recipe[]) => void;
   setFavoriteRecipes: (recipes: Recipe[]) => void;
   setShoppingList: (list: ShoppingList | null) => void;
@@ -31,7 +34,7 @@ interface MealPlanState {
   fetchFavoriteRecipes: (userId: string) => Promise<void>;
   fetchShoppingList: (userId: string) => Promise<void>;
   fetchDailyLogs: (userId: string, date: string) => Promise<void>;
-  saveMealPlan: (userId: string, planData: any) => Promise<MealPlan | null>;
+  saveMealPlan: (userId: string, days: Record<string, PlannedDay>) => Promise<WeeklyPlan | null>;
   toggleRecipeFavorite: (recipeId: string, isFavorite: boolean) => Promise<void>;
   logMeal: (log: Omit<DailyLog, 'id' | 'created_at'>) => Promise<void>;
   updateShoppingItem: (itemIndex: number, checked: boolean) => Promise<void>;
@@ -86,7 +89,7 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
         console.error('Error fetching meal plan:', error);
       }
       
-      set({ currentMealPlan: data || null });
+      set({ currentMealPlan: data ? weeklyPlanFromRow(data) : null });
     } catch (error) {
       console.error('Error fetching meal plan:', error);
     } finally {
@@ -107,7 +110,7 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
         return;
       }
       
-      set({ recipes: data || [] });
+      set({ recipes: (data || []).map(recipeFromRow) });
     } catch (error) {
       console.error('Error fetching recipes:', error);
     }
@@ -127,7 +130,7 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
         return;
       }
       
-      set({ favoriteRecipes: data || [] });
+      set({ favoriteRecipes: (data || []).map(recipeFromRow) });
     } catch (error) {
       console.error('Error fetching favorite recipes:', error);
     }
@@ -135,20 +138,8 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
   
   fetchShoppingList: async (userId: string) => {
     try {
-      const { data, error } = await supabase
-        .from(TABLES.SHOPPING_LISTS)
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_completed', false)
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-      
-      if (error && error.code !== 'PGRST116') {
-        console.error('Error fetching shopping list:', error);
-      }
-      
-      set({ shoppingList: data || null });
+      const list = await shoppingListService.getActiveList(userId);
+      set({ shoppingList: list });
     } catch (error) {
       console.error('Error fetching shopping list:', error);
     }
@@ -175,7 +166,7 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
     }
   },
   
-  saveMealPlan: async (userId: string, planData: any) => {
+  saveMealPlan: async (userId: string, days: Record<string, PlannedDay>) => {
     try {
       set({ isGenerating: true });
       
@@ -190,14 +181,13 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
       
       const { data, error } = await supabase
         .from(TABLES.MEAL_PLANS)
-        .insert({
-          user_id: userId,
-          week_start_date: format(weekStart, 'yyyy-MM-dd'),
-          plan_data: planData,
-          ai_model_used: 'gemini-1.5-flash',
-          generation_prompt: 'AI Generated Meal Plan',
-          is_active: true,
-        })
+        .insert(weeklyPlanToRow({
+          userId,
+          weekStartDate: format(weekStart, 'yyyy-MM-dd'),
+          days,
+          aiModelUsed: 'gemini-1.5-flash',
+          isActive: true,
+        }, 'AI Generated Meal Plan'))
         .select()
         .single();
       
@@ -206,8 +196,9 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
         return null;
       }
       
-      set({ currentMealPlan: data });
-      return data;
+      const plan = weeklyPlanFromRow(data);
+      set({ currentMealPlan: plan });
+      return plan;
     } catch (error) {
       console.error('Error saving meal plan:', error);
       return null;
@@ -232,7 +223,7 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
       const { recipes } = get();
       set({
         recipes: recipes.map((r) =>
-          r.id === recipeId ? { ...r, is_favorite: isFavorite } : r
+          r.id === recipeId ? { ...r, isFavorite } : r
         ),
       });
     } catch (error) {
@@ -267,21 +258,12 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
     
     try {
       const updatedItems = [...shoppingList.items];
-      updatedItems[itemIndex] = { ...updatedItems[itemIndex], checked };
-      
-      const { error } = await supabase
-        .from(TABLES.SHOPPING_LISTS)
-        .update({ items: updatedItems })
-        .eq('id', shoppingList.id);
+      updatedItems[itemIndex] = { ...updatedItems[itemIndex], is_purchased: checked };
       
-      if (error) {
-        console.error('Error updating shopping item:', error);
-        return;
-      }
-      
-      set({
-        shoppingList: { ...shoppingList, items: updatedItems },
-      });
+      // Tick straight away; the service saves to the cache and Supabase
+      set({ shoppingList: { ...shoppingList, items: updatedItems } });
+      const saved = await shoppingListService.saveItems(shoppingList, updatedItems);
+      set({ shoppingList: saved });
     } catch (error) {
       console.error('Error updating shopping item:', error);
     }
@@ -290,20 +272,9 @@ export const useMealPlanStore = create<MealPlanState>((set, get) => ({
   calculateTodayNutrition: () => {
     const { dailyLogs } = get();
     
-    const totals = dailyLogs.reduce(
-      (acc, log) => ({
-        calories: acc.calories + (log.nutrition_consumed.calories || 0),
-        protein: acc.protein + (log.nutrition_consumed.protein || 0),
-        carbs: acc.carbs + (log.nutrition_consumed.carbs || 0),
-        fats: acc.fats + (log.nutrition_consumed.fats || 0),
-        fiber: acc.fiber + (log.nutrition_consumed.fiber || 0),
-        sugar: acc.sugar + (log.nutrition_consumed.sugar || 0),
-        sodium: acc.sodium + (log.nutrition_consumed.sodium || 0),
-      }),
-      defaultNutrition
-    );
+    const totals = sumNutrition(dailyLogs.map(log => log.nutrition_consumed));
     
-    set({ todayNutrition: totals });
+    set({ todayNutrition: { ...defaultNutrition, ...totals } });
   },
 }));
 
@@ -1,4 +1,5 @@
 // Database Types for Supabase
+import { NutritionInfo } from './index';
 
 export interface User {
   id: string;
@@ -46,100 +47,13 @@ export interface NutritionTargets {
   created_at: string;
 }
 
-export interface NutritionInfo {
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-  fiber?: number;
-  sugar?: number;
-  sodium?: number;
-}
-
 export interface Ingredient {
   name: string;
   amount: number;
   unit: string;
 }
 
-export interface Recipe {
-  id: string;
-  user_id: string | null;
-  title: string;
-  description: string;
-  ingredients: Ingredient[];
-  instructions: string[];
-  prep_time: number; // minutes
-  cook_time: number;
-  servings: number;
-  nutrition_info: NutritionInfo;
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  cuisine_type: string;
-  image_url: string | null;
-  is_favorite: boolean;
-  tags: string[];
-  created_at: string;
-}
-
-export interface DayMeals {
-  breakfast: Recipe;
-  lunch: Recipe;
-  dinner: Recipe;
-  snacks: Recipe[];
-}
-
-export interface DayPlan {
-  day: string;
-  date: string;
-  meals: DayMeals;
-  daily_totals: NutritionInfo;
-}
-
-export interface MealPlanData {
-  week_start: string;
-  days: DayPlan[];
-}
-
-export interface MealPlan {
-  id: string;
-  user_id: string;
-  week_start_date: string;
-  plan_data: MealPlanData;
-  ai_model_used: string;
-  generation_prompt: string;
-  is_active: boolean;
-  created_at: string;
-}
-
-export interface ShoppingItem {
-  name: string;
-  amount: number;
-  unit: string;
-  category: string;
-  checked: boolean;
-}
-
-export interface ShoppingList {
-  id: string;
-  user_id: string;
-  meal_plan_id: string;
-  items: ShoppingItem[];
-  week_start_date: string;
-  is_completed: boolean;
-  created_at: string;
-}
-
-export interface DailyLog {
-  id: string;
-  user_id: string;
-  log_date: string;
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
-  recipe_id: string | null;
-  food_name: string;
-  nutrition_consumed: NutritionInfo;
-  notes: string | null;
-  created_at: string;
-}
+// Meal, Recipe, DayPlan, meal plan and shopping list types live in ./index
 
 export interface UserPreferences {
   id: string;
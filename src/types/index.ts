@@ -18,12 +18,23 @@ export interface User {
   healthGoals?: string[];
   goal?: 'maintain' | 'lose' | 'gain';
   targetWeight?: number;
+  // Nutrition target settings; see nutritionTargetService
+  bodyFatPercentage?: number;
+  weeklyRateKg?: number; // pace for lose/gain goals
+  macroPreset?: MacroPreset;
+  measuredTdee?: number; // accepted adaptive TDEE; see adaptiveTdeeService
+  measuredTdeeAt?: string;
   streak: number;
   longestStreak: number;
+  streakFreezes?: number; // derived; see streakService
+  streakVacations?: VacationPeriod[];
   totalMealsLogged: number;
   registrationDate?: string;
   lastLogin?: string;
   unitsPreference?: 'metric' | 'imperial';
+  timeZone?: string; // IANA zone for calendar days; see dateKeys
+  caffeineLimitMg?: number; // daily limits; unset uses the defaults in caffeineAlcoholService
+  alcoholLimitDrinks?: number;
   onboardingCompleted?: boolean;
   createdAt?: string;
   updatedAt?: string;
@@ -40,10 +51,25 @@ export interface UserProfile {
   goal: 'maintain' | 'lose' | 'gain';
   target_weight?: number;
   units_preference: 'metric' | 'imperial';
+  body_fat_percentage?: number;
+  weekly_rate_kg?: number;
+  macro_preset?: MacroPreset;
+  measured_tdee?: number;
+  measured_tdee_at?: string;
+  streak_vacations: VacationPeriod[];
+  time_zone?: string;
+  caffeine_limit_mg?: number;
+  alcohol_limit_drinks?: number;
   created_at: string;
   updated_at: string;
 }
 
+// Local calendar days (yyyy-MM-dd), inclusive; no end while ongoing
+export interface VacationPeriod {
+  start: string;
+  end?: string;
+}
+
 export interface HealthCondition {
   id: string;
   user_id: string;
@@ -66,6 +92,10 @@ export interface DietaryRestriction {
   created_at: string;
 }
 
+export type BMRFormula = 'mifflin_st_jeor' | 'katch_mcardle';
+export type MacroPreset = 'balanced' | 'high_protein' | 'low_carb' | 'keto';
+export type TdeeSource = 'formula' | 'measured';
+
 export interface NutritionTarget {
   id: string;
   user_id: string;
@@ -76,30 +106,50 @@ export interface NutritionTarget {
   fiber_grams: number;
   sugar_grams: number;
   sodium_mg: number;
+  formula?: BMRFormula;
+  bmr?: number;
+  tdee?: number;
+  tdee_source?: TdeeSource;
   is_active: boolean;
   created_at: string;
+  updated_at?: string;
 }
 
-export interface MealPlan {
-  id: string;
-  user_id: string;
-  week_start_date: string;
-  plan_data: DayPlan;
-  ai_model_used?: string;
-  generation_prompt?: string;
-  is_active: boolean;
-  created_at: string;
+// ==================== MEALS (domain model) ====================
+// Screens, stores and services work with these camelCase shapes. Database
+// rows (*Row, DailyLog) and AI responses are converted at the edges by
+// src/services/mealMappers.ts
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+// Nutrients beyond the four macros. Optional: older logs and some food
+// sources only report a few of them
+export interface Micronutrients {
+  fiber?: number; // g
+  sugar?: number; // g
+  sodium?: number; // mg
+  saturatedFat?: number; // g
+  potassium?: number; // mg
+  calcium?: number; // mg
+  iron?: number; // mg
+  vitaminA?: number; // µg RAE
+  vitaminC?: number; // mg
+  vitaminD?: number; // µg
+  vitaminB12?: number; // µg
+  caffeine?: number; // mg
+  alcohol?: number; // g of ethanol; see caffeineAlcoholService for standard drinks
 }
 
-export interface DayPlan {
-  date: string;
-  breakfast?: Meal;
-  lunch?: Meal;
-  dinner?: Meal;
-  snacks?: Meal[];
+export type MicronutrientKey = keyof Micronutrients;
+
+export interface NutritionInfo extends Micronutrients {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
 }
 
-export interface Meal {
+export interface Meal extends Micronutrients {
   id: string;
   name: string;
   description: string;
@@ -108,16 +158,68 @@ export interface Meal {
   carbs: number;
   fats: number;
   fiber: number;
+  sugar: number;
   ingredients: string[];
   instructions: string[];
-  prep_time: number;
-  cook_time: number;
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  prepTime: number;
+  cookTime: number;
+  mealType: MealType;
+  tags: string[];
   emoji: string;
-  imageEmoji?: string;
+  imageEmoji: string;
+  healthBenefits?: string[];
+  isFavorite?: boolean;
+  generatedBy?: string; // provider:model for AI meals, 'fallback' for built-in ones
+}
+
+// A meal saved to the recipes table
+export interface Recipe extends Meal {
+  servings: number;
+  cuisineType?: string;
+  isFavorite: boolean;
+  createdAt?: string;
+}
+
+// A full AI-generated day
+export interface DayPlan {
+  date: string;
+  breakfast: Meal;
+  lunch: Meal;
+  dinner: Meal;
+  snacks: Meal[];
+}
+
+// One day of a weekly plan; slots stay empty until generated or logged
+export type PlannedDay = Partial<Record<MealType, Meal>>;
+
+export interface WeeklyPlan {
+  id: string;
+  userId: string;
+  weekStartDate: string;
+  days: Record<string, PlannedDay>; // keyed by YYYY-MM-DD
+  aiModelUsed?: string;
+  isActive: boolean;
+  createdAt: string;
+}
+
+// ==================== MEALS (database rows) ====================
+
+export interface MealPlanData {
+  days: Record<string, PlannedDay>;
+}
+
+export interface MealPlanRow {
+  id: string;
+  user_id: string;
+  week_start_date: string;
+  plan_data: MealPlanData;
+  ai_model_used?: string;
+  generation_prompt?: string;
+  is_active: boolean;
+  created_at: string;
 }
 
-export interface Recipe {
+export interface RecipeRow {
   id: string;
   user_id?: string;
   title: string;
@@ -127,21 +229,34 @@ export interface Recipe {
   prep_time: number;
   cook_time: number;
   servings: number;
-  nutrition_info: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fats: number;
-    fiber: number;
-  };
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  nutrition_info: NutritionInfo & { localId?: string };
+  meal_type: MealType;
   cuisine_type?: string;
-  image_url?: string;
+  image_url?: string; // holds the meal emoji
   is_favorite: boolean;
   tags: string[];
   created_at: string;
 }
 
+// A food the user entered themselves. `nutrition` is per 100 g, or per the
+// first serving size when nutrition_basis is 'per_serving'
+export interface ServingSize {
+  label: string; // e.g. "1 bar"
+  grams: number;
+}
+
+export interface CustomFood {
+  id: string;
+  user_id: string;
+  name: string;
+  brand?: string;
+  nutrition_basis: 'per_100g' | 'per_serving';
+  nutrition: NutritionInfo;
+  serving_sizes: ServingSize[];
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ExerciseRoutine {
   id: string;
   user_id: string;
@@ -167,15 +282,10 @@ export interface DailyLog {
   id: string;
   user_id: string;
   log_date: string;
-  meal_type: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  meal_type: MealType;
   recipe_id?: string;
   food_name: string;
-  nutrition_consumed: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fats: number;
-  };
+  nutrition_consumed: NutritionInfo;
   // Recipe details
   ingredients?: string[];
   instructions?: string[];
@@ -184,7 +294,32 @@ export interface DailyLog {
   emoji?: string;
   description?: string;
   notes?: string;
+  // Edits: nutrition_consumed is baseNutrition × portion unless overridden
+  portion?: number;
+  baseNutrition?: NutritionInfo;
+  eatenAt?: string; // when it was eaten, if moved from created_at
+  created_at: string;
+  updated_at?: string; // last change, used for last-writer-wins sync
+  deleted_at?: string; // set on server tombstones
+}
+
+// A named group of foods ("usual breakfast") that is logged in one tap.
+// Items of the same meal type are combined into a single DailyLog
+export interface MealTemplateItem {
+  meal_type: MealType;
+  food_name: string;
+  nutrition_consumed: NutritionInfo;
+  ingredients?: string[];
+  emoji?: string;
+}
+
+export interface MealTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  items: MealTemplateItem[];
   created_at: string;
+  updated_at: string;
 }
 
 export interface BodyMeasurement {
@@ -206,15 +341,51 @@ export interface BodyMeasurement {
   created_at: string;
 }
 
+export type BeverageType =
+  | 'water'
+  | 'tea'
+  | 'coffee'
+  | 'milk'
+  | 'juice'
+  | 'energy_drink'
+  | 'beer'
+  | 'wine'
+  | 'spirits';
+
 export interface WaterIntake {
   id: string;
   user_id: string;
   intake_date: string;
-  amount_ml: number;
+  amount_ml: number; // volume drunk
+  beverage_type: BeverageType;
+  hydration_ml: number; // amount_ml after the beverage's hydration coefficient
+  caffeine_mg: number;
+  alcohol_g: number;
   intake_time: string;
   created_at: string;
 }
 
+export interface SleepRecord {
+  id: string;
+  user_id: string;
+  sleep_date: string;
+  bed_time?: string;
+  wake_time?: string;
+  duration_hours: number;
+  quality_rating?: number;
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type AchievementMetric =
+  | 'meals_logged'
+  | 'streak_days'
+  | 'water_goal_days'
+  | 'workouts_completed'
+  | 'weight_lost_kg'
+  | 'muscle_gained_kg';
+
 export interface Achievement {
   id: string;
   achievement_name: string;
@@ -222,6 +393,7 @@ export interface Achievement {
   achievement_type: 'streak' | 'weight_loss' | 'muscle_gain' | 'consistency' | 'special';
   badge_icon: string;
   requirement_value: number;
+  metric?: AchievementMetric; // what requirement_value measures; unset entries are never awarded
   is_active: boolean;
   created_at: string;
 }
@@ -275,20 +447,35 @@ export interface ShoppingList {
   created_at: string;
 }
 
+export type GroceryCategory =
+  | 'Produce'
+  | 'Meat & Seafood'
+  | 'Dairy & Eggs'
+  | 'Bakery'
+  | 'Grains & Pantry'
+  | 'Spices & Condiments'
+  | 'Frozen'
+  | 'Beverages'
+  | 'Other';
+
 export interface ShoppingListItem {
   ingredient_name: string;
-  quantity: string;
+  quantity: number | null; // null for "to taste" items
   unit?: string;
+  category: GroceryCategory;
   is_purchased: boolean;
-  recipe_reference?: string;
+  recipe_reference?: string; // names of the meals that use it
 }
 
+export type AIGenerationType = 'meal_plan' | 'recipe' | 'exercise' | 'advice';
+
+// One provider call made by the AI router, logged whether or not it worked
 export interface AIGenerationLog {
   id: string;
   user_id: string;
-  generation_type: 'meal_plan' | 'recipe' | 'exercise' | 'advice';
-  request_parameters: any;
-  response_data?: any;
+  generation_type: AIGenerationType;
+  request_parameters: Record<string, unknown>;
+  response_data?: unknown;
   success: boolean;
   error_message?: string;
   generation_time_ms?: number;
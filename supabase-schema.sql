@@ -1,5 +1,6 @@
 -- NutriPlan Database Schema for Supabase
--- Run this SQL in your Supabase SQL Editor to create all required tables
+-- Run this SQL in your Supabase SQL Editor to create the base tables, then
+-- apply supabase/migrations/ in filename order
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
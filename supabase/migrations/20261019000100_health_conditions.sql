@@ -0,0 +1,34 @@
+-- Health conditions (diabetes, hypertension, ...) per user
+-- Queried by DatabaseService.saveHealthConditions / getHealthConditions
+
+CREATE TABLE IF NOT EXISTS public.health_conditions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  condition_name TEXT NOT NULL,
+  diagnosis_date DATE,
+  severity TEXT CHECK (severity IN ('mild', 'moderate', 'severe')) DEFAULT 'moderate',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  medications TEXT[] DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- saveHealthConditions upserts on (user_id, condition_name)
+  UNIQUE(user_id, condition_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_health_conditions_user_id ON public.health_conditions(user_id);
+
+ALTER TABLE public.health_conditions ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own health conditions') THEN
+    CREATE POLICY "Users can manage own health conditions" ON public.health_conditions
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_health_conditions_updated_at ON public.health_conditions;
+CREATE TRIGGER update_health_conditions_updated_at
+  BEFORE UPDATE ON public.health_conditions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
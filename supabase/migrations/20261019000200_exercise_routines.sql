@@ -0,0 +1,41 @@
+-- Exercise routines, one row per exercise per day
+-- Queried by DatabaseService.saveExerciseRoutine / getExerciseRoutines / completeExercise
+
+CREATE TABLE IF NOT EXISTS public.exercise_routines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  routine_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  exercise_name TEXT NOT NULL,
+  exercise_type TEXT NOT NULL CHECK (exercise_type IN ('cardio', 'strength', 'flexibility', 'balance', 'sports')),
+  duration_minutes INTEGER NOT NULL DEFAULT 0,
+  intensity_level TEXT NOT NULL CHECK (intensity_level IN ('low', 'medium', 'high')) DEFAULT 'medium',
+  calories_burned INTEGER NOT NULL DEFAULT 0,
+  sets INTEGER,
+  reps INTEGER,
+  weight_kg DECIMAL,
+  instructions TEXT[] NOT NULL DEFAULT '{}',
+  video_url TEXT,
+  image_url TEXT,
+  is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+  completion_time TIMESTAMP WITH TIME ZONE,
+  ai_generated BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exercise_routines_user_date ON public.exercise_routines(user_id, routine_date);
+
+ALTER TABLE public.exercise_routines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own exercise routines') THEN
+    CREATE POLICY "Users can manage own exercise routines" ON public.exercise_routines
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_exercise_routines_updated_at ON public.exercise_routines;
+CREATE TRIGGER update_exercise_routines_updated_at
+  BEFORE UPDATE ON public.exercise_routines
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
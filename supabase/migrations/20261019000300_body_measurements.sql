@@ -0,0 +1,34 @@
+-- Body measurements (weight, circumferences, body composition)
+-- Queried by DatabaseService.saveBodyMeasurement / getBodyMeasurements
+
+CREATE TABLE IF NOT EXISTS public.body_measurements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  measurement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_kg DECIMAL CHECK (weight_kg > 0),
+  height_cm DECIMAL CHECK (height_cm > 0),
+  chest_cm DECIMAL CHECK (chest_cm > 0),
+  waist_cm DECIMAL CHECK (waist_cm > 0),
+  hips_cm DECIMAL CHECK (hips_cm > 0),
+  arms_cm DECIMAL CHECK (arms_cm > 0),
+  thighs_cm DECIMAL CHECK (thighs_cm > 0),
+  neck_cm DECIMAL CHECK (neck_cm > 0),
+  body_fat_percentage DECIMAL CHECK (body_fat_percentage BETWEEN 0 AND 100),
+  muscle_mass_kg DECIMAL CHECK (muscle_mass_kg > 0),
+  bmi DECIMAL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_body_measurements_user_date
+  ON public.body_measurements(user_id, measurement_date DESC);
+
+ALTER TABLE public.body_measurements ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own body measurements') THEN
+    CREATE POLICY "Users can manage own body measurements" ON public.body_measurements
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,34 @@
+-- Sleep tracking, one row per night keyed by the date the user woke up
+-- Queried by DatabaseService.saveSleepData / getSleepData
+
+CREATE TABLE IF NOT EXISTS public.sleep_tracking (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  sleep_date DATE NOT NULL,
+  bed_time TIME,
+  wake_time TIME,
+  duration_hours DECIMAL(4,2) NOT NULL CHECK (duration_hours BETWEEN 0 AND 24),
+  quality_rating INTEGER CHECK (quality_rating BETWEEN 1 AND 5),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, sleep_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sleep_tracking_user_date
+  ON public.sleep_tracking(user_id, sleep_date DESC);
+
+ALTER TABLE public.sleep_tracking ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own sleep data') THEN
+    CREATE POLICY "Users can manage own sleep data" ON public.sleep_tracking
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_sleep_tracking_updated_at ON public.sleep_tracking;
+CREATE TRIGGER update_sleep_tracking_updated_at
+  BEFORE UPDATE ON public.sleep_tracking
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,55 @@
+-- Achievements catalog and per-user awards
+-- The catalog is readable by everyone; awards are private to each user.
+-- Catalog ids are stable slugs so the app can reference them directly.
+
+CREATE TABLE IF NOT EXISTS public.achievements (
+  id TEXT PRIMARY KEY,
+  achievement_name TEXT NOT NULL,
+  description TEXT NOT NULL,
+  achievement_type TEXT NOT NULL CHECK (achievement_type IN ('streak', 'weight_loss', 'muscle_gain', 'consistency', 'special')),
+  badge_icon TEXT NOT NULL,
+  requirement_value INTEGER NOT NULL DEFAULT 1,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.achievements (id, achievement_name, description, achievement_type, badge_icon, requirement_value) VALUES
+  ('first_meal', 'First Bite', 'Log your first meal', 'special', '🍽️', 1),
+  ('streak_3', 'Getting Started', 'Log meals 3 days in a row', 'streak', '🔥', 3),
+  ('streak_7', 'Week Warrior', 'Log meals 7 days in a row', 'streak', '⚡', 7),
+  ('streak_30', 'Habit Builder', 'Log meals 30 days in a row', 'streak', '🏆', 30),
+  ('meals_50', 'Consistent Logger', 'Log 50 meals', 'consistency', '📒', 50),
+  ('meals_100', 'Century Club', 'Log 100 meals', 'consistency', '💯', 100),
+  ('weight_loss_2', 'First Milestone', 'Lose 2 kg from your starting weight', 'weight_loss', '📉', 2),
+  ('weight_loss_5', 'Five Down', 'Lose 5 kg from your starting weight', 'weight_loss', '🎯', 5),
+  ('muscle_gain_2', 'Building Up', 'Gain 2 kg of muscle mass', 'muscle_gain', '💪', 2)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  achievement_id TEXT NOT NULL REFERENCES public.achievements(id) ON DELETE CASCADE,
+  earned_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  progress_value INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- An achievement is earned once per user
+  UNIQUE(user_id, achievement_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user_id ON public.user_achievements(user_id);
+
+ALTER TABLE public.achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Anyone can view achievements') THEN
+    CREATE POLICY "Anyone can view achievements" ON public.achievements
+      FOR SELECT USING (true);
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own achievements') THEN
+    CREATE POLICY "Users can manage own achievements" ON public.user_achievements
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
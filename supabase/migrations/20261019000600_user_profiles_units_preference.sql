@@ -0,0 +1,5 @@
+-- UserProfile.units_preference had no backing column
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS units_preference TEXT
+  CHECK (units_preference IN ('metric', 'imperial')) DEFAULT 'metric';
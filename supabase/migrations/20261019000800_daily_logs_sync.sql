@@ -0,0 +1,172 @@
+-- Offline sync for daily logs
+-- Clients queue mutations while offline and replay them through
+-- apply_daily_log_mutation. Each mutation carries an idempotency key so a
+-- replay is applied once, and conflicts are resolved per record with
+-- last-writer-wins on the client timestamp. Deletes leave a tombstone row
+-- (deleted_at) so a stale copy on another device cannot bring the log back.
+
+ALTER TABLE public.daily_logs
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.daily_logs
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_daily_logs_user_date_live
+  ON public.daily_logs(user_id, log_date) WHERE deleted_at IS NULL;
+
+-- Applied mutations, keyed by the client's idempotency key
+CREATE TABLE IF NOT EXISTS public.sync_mutations (
+  idempotency_key UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('applied', 'stale')),
+  applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.sync_mutations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own sync mutations') THEN
+    CREATE POLICY "Users can manage own sync mutations" ON public.sync_mutations
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- Returns 'applied', 'stale' (a newer write already won) or 'duplicate'
+-- (this idempotency key was applied before)
+CREATE OR REPLACE FUNCTION public.apply_daily_log_mutation(
+  p_idempotency_key UUID,
+  p_operation TEXT,
+  p_log JSONB,
+  p_updated_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_log_id UUID := (p_log->>'id')::UUID;
+  v_log_date DATE := (p_log->>'log_date')::DATE;
+  v_meal_type TEXT := p_log->>'meal_type';
+  v_current public.daily_logs%ROWTYPE;
+  v_result TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_operation NOT IN ('upsert', 'delete') THEN
+    RAISE EXCEPTION 'Unknown operation: %', p_operation;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.sync_mutations WHERE idempotency_key = p_idempotency_key) THEN
+    RETURN 'duplicate';
+  END IF;
+
+  SELECT * INTO v_current FROM public.daily_logs WHERE id = v_log_id FOR UPDATE;
+
+  IF FOUND AND v_current.updated_at >= p_updated_at THEN
+    -- The stored version (live or tombstone) is newer
+    v_result := 'stale';
+
+  ELSIF p_operation = 'delete' THEN
+    IF FOUND THEN
+      UPDATE public.daily_logs
+        SET deleted_at = p_updated_at, updated_at = p_updated_at
+        WHERE id = v_log_id;
+    ELSIF v_log_date IS NOT NULL THEN
+      -- Never synced: store the tombstone so an older upsert loses later
+      INSERT INTO public.daily_logs (id, user_id, log_date, meal_type, food_name, updated_at, deleted_at)
+      VALUES (v_log_id, v_user_id, v_log_date, v_meal_type, COALESCE(p_log->>'food_name', ''), p_updated_at, p_updated_at);
+    END IF;
+    v_result := 'applied';
+
+  ELSIF EXISTS (
+    SELECT 1 FROM public.daily_logs
+    WHERE user_id = v_user_id AND log_date = v_log_date AND meal_type = v_meal_type
+      AND id <> v_log_id AND deleted_at IS NULL AND updated_at > p_updated_at
+  ) THEN
+    -- One log per meal slot: a newer entry from another device holds the
+    -- slot, so this one is stored as a tombstone and dropped on next pull
+    INSERT INTO public.daily_logs (id, user_id, log_date, meal_type, food_name, nutrition_consumed, notes, updated_at, deleted_at)
+    VALUES (v_log_id, v_user_id, v_log_date, v_meal_type, p_log->>'food_name',
+            COALESCE(p_log->'nutrition_consumed', '{}'), p_log->>'notes', p_updated_at, p_updated_at)
+    ON CONFLICT (id) DO UPDATE SET updated_at = EXCLUDED.updated_at, deleted_at = EXCLUDED.deleted_at;
+    v_result := 'stale';
+
+  ELSE
+    -- This write wins the meal slot; older entries in it become tombstones
+    UPDATE public.daily_logs
+      SET deleted_at = p_updated_at, updated_at = p_updated_at
+      WHERE user_id = v_user_id AND log_date = v_log_date AND meal_type = v_meal_type
+        AND id <> v_log_id AND deleted_at IS NULL;
+
+    INSERT INTO public.daily_logs (id, user_id, log_date, meal_type, food_name, nutrition_consumed, notes, created_at, updated_at, deleted_at)
+    VALUES (v_log_id, v_user_id, v_log_date, v_meal_type, p_log->>'food_name',
+            COALESCE(p_log->'nutrition_consumed', '{}'), p_log->>'notes',
+            COALESCE((p_log->>'created_at')::TIMESTAMP WITH TIME ZONE, NOW()), p_updated_at, NULL)
+    ON CONFLICT (id) DO UPDATE SET
+      log_date = EXCLUDED.log_date,
+      meal_type = EXCLUDED.meal_type,
+      food_name = EXCLUDED.food_name,
+      nutrition_consumed = EXCLUDED.nutrition_consumed,
+      notes = EXCLUDED.notes,
+      updated_at = EXCLUDED.updated_at,
+      deleted_at = NULL;
+    v_result := 'applied';
+  END IF;
+
+  INSERT INTO public.sync_mutations (idempotency_key, user_id, record_id, result)
+  VALUES (p_idempotency_key, v_user_id, v_log_id, v_result);
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Tombstones must not count towards today's progress
+CREATE OR REPLACE VIEW public.daily_progress_summary
+WITH (security_invoker = true) AS
+SELECT
+  u.id AS user_id,
+  u.email,
+  u.full_name,
+  CURRENT_DATE AS log_date,
+  COALESCE(meals.calories, 0)::INTEGER AS calories_consumed,
+  COALESCE(meals.protein, 0)::INTEGER AS protein_consumed,
+  COALESCE(meals.carbs, 0)::INTEGER AS carbs_consumed,
+  COALESCE(meals.fats, 0)::INTEGER AS fats_consumed,
+  COALESCE(meals.meals_logged, 0)::INTEGER AS meals_logged,
+  COALESCE(exercise.completed, 0)::INTEGER AS exercises_completed,
+  COALESCE(water.total_ml, 0)::INTEGER AS water_intake_ml,
+  COALESCE(sleep.duration_hours, 0) AS sleep_hours,
+  COALESCE(latest.weight_kg, profile.weight) AS current_weight,
+  latest.bmi AS current_bmi
+FROM public.users u
+LEFT JOIN public.user_profiles profile ON profile.user_id = u.id
+LEFT JOIN LATERAL (
+  SELECT
+    SUM((dl.nutrition_consumed->>'calories')::NUMERIC) AS calories,
+    SUM((dl.nutrition_consumed->>'protein')::NUMERIC) AS protein,
+    SUM((dl.nutrition_consumed->>'carbs')::NUMERIC) AS carbs,
+    SUM((dl.nutrition_consumed->>'fats')::NUMERIC) AS fats,
+    COUNT(*) AS meals_logged
+  FROM public.daily_logs dl
+  WHERE dl.user_id = u.id AND dl.log_date = CURRENT_DATE AND dl.deleted_at IS NULL
+) meals ON TRUE
+LEFT JOIN LATERAL (
+  SELECT COUNT(*) AS completed
+  FROM public.exercise_routines er
+  WHERE er.user_id = u.id AND er.routine_date = CURRENT_DATE AND er.is_completed
+) exercise ON TRUE
+LEFT JOIN LATERAL (
+  SELECT SUM(wi.amount_ml) AS total_ml
+  FROM public.water_intake wi
+  WHERE wi.user_id = u.id AND wi.intake_date = CURRENT_DATE
+) water ON TRUE
+LEFT JOIN public.sleep_tracking sleep
+  ON sleep.user_id = u.id AND sleep.sleep_date = CURRENT_DATE
+LEFT JOIN LATERAL (
+  SELECT bm.weight_kg, bm.bmi
+  FROM public.body_measurements bm
+  WHERE bm.user_id = u.id AND bm.weight_kg IS NOT NULL
+  ORDER BY bm.measurement_date DESC, bm.created_at DESC
+  LIMIT 1
+) latest ON TRUE;
@@ -0,0 +1,30 @@
+-- Custom foods: a personal food library with the user's own macros
+-- nutrition is per 100 g, or per the first serving size for 'per_serving'
+-- Queried by DatabaseService.getCustomFoods / saveCustomFood / deleteCustomFood
+
+CREATE TABLE IF NOT EXISTS public.custom_foods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  brand TEXT,
+  nutrition_basis TEXT NOT NULL DEFAULT 'per_100g'
+    CHECK (nutrition_basis IN ('per_100g', 'per_serving')),
+  nutrition JSONB NOT NULL,
+  serving_sizes JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CHECK (nutrition_basis = 'per_100g' OR jsonb_array_length(serving_sizes) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_foods_user_name
+  ON public.custom_foods(user_id, lower(name));
+
+ALTER TABLE public.custom_foods ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own custom foods') THEN
+    CREATE POLICY "Users can manage own custom foods" ON public.custom_foods
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,25 @@
+-- Meal templates: named groups of foods logged in one tap ("usual breakfast")
+-- items is a MealTemplateItem[]; each item carries its own meal_type
+-- Queried by DatabaseService.getMealTemplates / saveMealTemplate / deleteMealTemplate
+
+CREATE TABLE IF NOT EXISTS public.meal_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  items JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(items) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meal_templates_user
+  ON public.meal_templates(user_id, lower(name));
+
+ALTER TABLE public.meal_templates ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can manage own meal templates') THEN
+    CREATE POLICY "Users can manage own meal templates" ON public.meal_templates
+      FOR ALL USING (auth.uid() = user_id);
+  END IF;
+END $$;
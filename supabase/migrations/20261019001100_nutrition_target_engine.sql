@@ -0,0 +1,43 @@
+-- Nutrition target engine (src/services/nutritionTargetService.ts)
+-- The profile holds the user's choices (body fat, goal pace, macro preset);
+-- nutrition_targets holds the computed result every screen reads.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS body_fat_percentage DECIMAL
+  CHECK (body_fat_percentage > 0 AND body_fat_percentage < 75);
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS weekly_rate_kg DECIMAL
+  CHECK (weekly_rate_kg >= 0 AND weekly_rate_kg <= 1);
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS macro_preset TEXT
+  CHECK (macro_preset IN ('balanced', 'high_protein', 'low_carb', 'keto')) DEFAULT 'balanced';
+
+ALTER TABLE public.nutrition_targets
+ADD COLUMN IF NOT EXISTS formula TEXT
+  CHECK (formula IN ('mifflin_st_jeor', 'katch_mcardle'));
+
+ALTER TABLE public.nutrition_targets
+ADD COLUMN IF NOT EXISTS bmr INTEGER;
+
+ALTER TABLE public.nutrition_targets
+ADD COLUMN IF NOT EXISTS tdee INTEGER;
+
+ALTER TABLE public.nutrition_targets
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- saveNutritionTargets upserts on user_id, which needs a unique constraint.
+-- Keep the newest row per user before adding it
+DELETE FROM public.nutrition_targets older
+USING public.nutrition_targets newer
+WHERE older.user_id = newer.user_id
+  AND (older.created_at, older.id) < (newer.created_at, newer.id);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'nutrition_targets_user_id_key') THEN
+    ALTER TABLE public.nutrition_targets
+      ADD CONSTRAINT nutrition_targets_user_id_key UNIQUE (user_id);
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- Adaptive TDEE (src/services/adaptiveTdeeService.ts)
+-- measured_tdee is the expenditure estimated from logged intake and the
+-- weight trend, stored once the user accepts a weekly check-in. While set,
+-- the target engine uses it instead of BMR × activity multiplier.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS measured_tdee INTEGER
+  CHECK (measured_tdee > 0 AND measured_tdee < 10000);
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS measured_tdee_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.nutrition_targets
+ADD COLUMN IF NOT EXISTS tdee_source TEXT
+  CHECK (tdee_source IN ('formula', 'measured')) DEFAULT 'formula';
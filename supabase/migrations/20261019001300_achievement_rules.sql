@@ -0,0 +1,10 @@
+-- Catalog entries for the achievement rules in src/services/achievementService.ts
+-- that the original seed did not cover (water goal and workouts).
+-- Awards are replayed from the offline outbox, so they must stay idempotent:
+-- the unique (user_id, achievement_id) constraint from 000500 guarantees it.
+
+INSERT INTO public.achievements (id, achievement_name, description, achievement_type, badge_icon, requirement_value) VALUES
+  ('water_goal_7', 'Hydration Hero', 'Reach your water goal on 7 days', 'consistency', '💧', 7),
+  ('first_workout', 'First Sweat', 'Complete your first workout', 'special', '🏃', 1),
+  ('workouts_10', 'On the Move', 'Complete 10 workouts', 'consistency', '🏋️', 10)
+ON CONFLICT (id) DO NOTHING;
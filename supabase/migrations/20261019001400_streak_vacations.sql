@@ -0,0 +1,8 @@
+-- Streak vacation mode (src/services/streakService.ts)
+-- Periods of local calendar days during which missed days pause the streak
+-- instead of breaking it: [{ "start": "yyyy-MM-dd", "end": "yyyy-MM-dd" }].
+-- The open period (no end) is the current vacation. Streaks themselves are
+-- derived from daily_logs and are not stored.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS streak_vacations JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,7 @@
+-- Calendar-day timezone (src/services/dateKeys.ts)
+-- IANA zone (e.g. 'America/New_York') whose calendar days key daily logs,
+-- water, sleep and streaks. Set from the device on first sign-in and kept
+-- when travelling, so a day's entries do not move between dates.
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS time_zone TEXT;
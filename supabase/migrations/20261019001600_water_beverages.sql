@@ -0,0 +1,66 @@
+-- Beverage types for water intake (src/services/hydrationService.ts)
+-- Each entry records what was drunk and how much of it counts towards the
+-- hydration goal: amount_ml is the volume poured, hydration_ml the volume
+-- after the beverage's hydration coefficient (coffee counts for less than
+-- water). Existing rows were all plain water.
+
+ALTER TABLE public.water_intake
+ADD COLUMN IF NOT EXISTS beverage_type TEXT NOT NULL DEFAULT 'water'
+  CHECK (beverage_type IN ('water', 'tea', 'coffee', 'milk', 'juice'));
+
+ALTER TABLE public.water_intake
+ADD COLUMN IF NOT EXISTS hydration_ml INTEGER;
+
+UPDATE public.water_intake SET hydration_ml = amount_ml WHERE hydration_ml IS NULL;
+
+ALTER TABLE public.water_intake ALTER COLUMN hydration_ml SET NOT NULL;
+
+-- Progress counts hydration, not raw volume
+CREATE OR REPLACE VIEW public.daily_progress_summary
+WITH (security_invoker = true) AS
+SELECT
+  u.id AS user_id,
+  u.email,
+  u.full_name,
+  CURRENT_DATE AS log_date,
+  COALESCE(meals.calories, 0)::INTEGER AS calories_consumed,
+  COALESCE(meals.protein, 0)::INTEGER AS protein_consumed,
+  COALESCE(meals.carbs, 0)::INTEGER AS carbs_consumed,
+  COALESCE(meals.fats, 0)::INTEGER AS fats_consumed,
+  COALESCE(meals.meals_logged, 0)::INTEGER AS meals_logged,
+  COALESCE(exercise.completed, 0)::INTEGER AS exercises_completed,
+  COALESCE(water.total_ml, 0)::INTEGER AS water_intake_ml,
+  COALESCE(sleep.duration_hours, 0) AS sleep_hours,
+  COALESCE(latest.weight_kg, profile.weight) AS current_weight,
+  latest.bmi AS current_bmi
+FROM public.users u
+LEFT JOIN public.user_profiles profile ON profile.user_id = u.id
+LEFT JOIN LATERAL (
+  SELECT
+    SUM((dl.nutrition_consumed->>'calories')::NUMERIC) AS calories,
+    SUM((dl.nutrition_consumed->>'protein')::NUMERIC) AS protein,
+    SUM((dl.nutrition_consumed->>'carbs')::NUMERIC) AS carbs,
+    SUM((dl.nutrition_consumed->>'fats')::NUMERIC) AS fats,
+    COUNT(*) AS meals_logged
+  FROM public.daily_logs dl
+  WHERE dl.user_id = u.id AND dl.log_date = CURRENT_DATE AND dl.deleted_at IS NULL
+) meals ON TRUE
+LEFT JOIN LATERAL (
+  SELECT COUNT(*) AS completed
+  FROM public.exercise_routines er
+  WHERE er.user_id = u.id AND er.routine_date = CURRENT_DATE AND er.is_completed
+) exercise ON TRUE
+LEFT JOIN LATERAL (
+  SELECT SUM(wi.hydration_ml) AS total_ml
+  FROM public.water_intake wi
+  WHERE wi.user_id = u.id AND wi.intake_date = CURRENT_DATE
+) water ON TRUE
+LEFT JOIN public.sleep_tracking sleep
+  ON sleep.user_id = u.id AND sleep.sleep_date = CURRENT_DATE
+LEFT JOIN LATERAL (
+  SELECT bm.weight_kg, bm.bmi
+  FROM public.body_measurements bm
+  WHERE bm.user_id = u.id AND bm.weight_kg IS NOT NULL
+  ORDER BY bm.measurement_date DESC, bm.created_at DESC
+  LIMIT 1
+) latest ON TRUE;
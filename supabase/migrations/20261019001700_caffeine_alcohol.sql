@@ -0,0 +1,24 @@
+-- Caffeine and alcohol (src/services/caffeineAlcoholService.ts)
+-- Drinks carry their caffeine (mg) and alcohol (g of ethanol) next to the
+-- hydration they count for; foods keep both in daily_logs.nutrition_consumed
+-- like any other nutrient. Daily limits live on the profile; NULL uses the
+-- app defaults (400 mg caffeine, 1-2 standard drinks by sex).
+
+ALTER TABLE public.water_intake
+DROP CONSTRAINT IF EXISTS water_intake_beverage_type_check;
+
+ALTER TABLE public.water_intake
+ADD CONSTRAINT water_intake_beverage_type_check
+  CHECK (beverage_type IN ('water', 'tea', 'coffee', 'milk', 'juice', 'energy_drink', 'beer', 'wine', 'spirits'));
+
+ALTER TABLE public.water_intake
+ADD COLUMN IF NOT EXISTS caffeine_mg INTEGER NOT NULL DEFAULT 0 CHECK (caffeine_mg >= 0);
+
+ALTER TABLE public.water_intake
+ADD COLUMN IF NOT EXISTS alcohol_g NUMERIC(5,1) NOT NULL DEFAULT 0 CHECK (alcohol_g >= 0);
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS caffeine_limit_mg INTEGER CHECK (caffeine_limit_mg >= 0);
+
+ALTER TABLE public.user_profiles
+ADD COLUMN IF NOT EXISTS alcohol_limit_drinks NUMERIC(3,1) CHECK (alcohol_limit_drinks >= 0);
@@ -0,0 +1,35 @@
+-- AI generation logs, one row per provider call made by the AI router
+-- (src/services/aiProviders.ts), successful or not. Written by
+-- DatabaseService.logAIGeneration; users can read their own history but
+-- rows are never edited.
+
+CREATE TABLE IF NOT EXISTS public.ai_generation_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  generation_type TEXT NOT NULL CHECK (generation_type IN ('meal_plan', 'recipe', 'exercise', 'advice')),
+  request_parameters JSONB NOT NULL DEFAULT '{}',
+  response_data JSONB,
+  success BOOLEAN NOT NULL,
+  error_message TEXT,
+  generation_time_ms INTEGER CHECK (generation_time_ms >= 0),
+  api_provider TEXT NOT NULL,
+  model_version TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_generation_logs_user_created
+  ON public.ai_generation_logs(user_id, created_at DESC);
+
+ALTER TABLE public.ai_generation_logs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can view own AI generation logs') THEN
+    CREATE POLICY "Users can view own AI generation logs" ON public.ai_generation_logs
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can insert own AI generation logs') THEN
+    CREATE POLICY "Users can insert own AI generation logs" ON public.ai_generation_logs
+      FOR INSERT WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
@@ -0,0 +1,15 @@
+-- The metric each catalog entry is measured by (src/services/achievementService.ts),
+-- so new badges are rows rather than app releases: an entry is earned once
+-- its metric reaches requirement_value. NULL entries are shown but never
+-- awarded by the app.
+
+ALTER TABLE public.achievements
+ADD COLUMN IF NOT EXISTS metric TEXT
+  CHECK (metric IN ('meals_logged', 'streak_days', 'water_goal_days', 'workouts_completed', 'weight_lost_kg', 'muscle_gained_kg'));
+
+UPDATE public.achievements SET metric = 'meals_logged' WHERE id IN ('first_meal', 'meals_50', 'meals_100') AND metric IS NULL;
+UPDATE public.achievements SET metric = 'streak_days' WHERE id IN ('streak_3', 'streak_7', 'streak_30') AND metric IS NULL;
+UPDATE public.achievements SET metric = 'water_goal_days' WHERE id = 'water_goal_7' AND metric IS NULL;
+UPDATE public.achievements SET metric = 'workouts_completed' WHERE id IN ('first_workout', 'workouts_10') AND metric IS NULL;
+UPDATE public.achievements SET metric = 'weight_lost_kg' WHERE id IN ('weight_loss_2', 'weight_loss_5') AND metric IS NULL;
+UPDATE public.achievements SET metric = 'muscle_gained_kg' WHERE id = 'muscle_gain_2' AND metric IS NULL;
@@ -0,0 +1,59 @@
+-- Daily progress summary in the profile time zone (src/services/dateKeys.ts)
+-- "Today" was the database server's CURRENT_DATE, which is the UTC day on
+-- Supabase: from the evening on west of Greenwich the summary showed
+-- tomorrow, while the app keys days in user_profiles.time_zone. Each row now
+-- uses the current date in that zone, or UTC when it is unset.
+
+CREATE OR REPLACE VIEW public.daily_progress_summary
+WITH (security_invoker = true) AS
+SELECT
+  u.id AS user_id,
+  u.email,
+  u.full_name,
+  today.local_date AS log_date,
+  COALESCE(meals.calories, 0)::INTEGER AS calories_consumed,
+  COALESCE(meals.protein, 0)::INTEGER AS protein_consumed,
+  COALESCE(meals.carbs, 0)::INTEGER AS carbs_consumed,
+  COALESCE(meals.fats, 0)::INTEGER AS fats_consumed,
+  COALESCE(meals.meals_logged, 0)::INTEGER AS meals_logged,
+  COALESCE(exercise.completed, 0)::INTEGER AS exercises_completed,
+  COALESCE(water.total_ml, 0)::INTEGER AS water_intake_ml,
+  COALESCE(sleep.duration_hours, 0) AS sleep_hours,
+  COALESCE(latest.weight_kg, profile.weight) AS current_weight,
+  latest.bmi AS current_bmi
+FROM public.users u
+LEFT JOIN public.user_profiles profile ON profile.user_id = u.id
+-- Unknown zone names fall back to UTC rather than failing the whole view
+LEFT JOIN pg_catalog.pg_timezone_names zone ON zone.name = profile.time_zone
+CROSS JOIN LATERAL (
+  SELECT (now() AT TIME ZONE COALESCE(zone.name, 'UTC'))::DATE AS local_date
+) today
+LEFT JOIN LATERAL (
+  SELECT
+    SUM((dl.nutrition_consumed->>'calories')::NUMERIC) AS calories,
+    SUM((dl.nutrition_consumed->>'protein')::NUMERIC) AS protein,
+    SUM((dl.nutrition_consumed->>'carbs')::NUMERIC) AS carbs,
+    SUM((dl.nutrition_consumed->>'fats')::NUMERIC) AS fats,
+    COUNT(*) AS meals_logged
+  FROM public.daily_logs dl
+  WHERE dl.user_id = u.id AND dl.log_date = today.local_date AND dl.deleted_at IS NULL
+) meals ON TRUE
+LEFT JOIN LATERAL (
+  SELECT COUNT(*) AS completed
+  FROM public.exercise_routines er
+  WHERE er.user_id = u.id AND er.routine_date = today.local_date AND er.is_completed
+) exercise ON TRUE
+LEFT JOIN LATERAL (
+  SELECT SUM(wi.hydration_ml) AS total_ml
+  FROM public.water_intake wi
+  WHERE wi.user_id = u.id AND wi.intake_date = today.local_date
+) water ON TRUE
+LEFT JOIN public.sleep_tracking sleep
+  ON sleep.user_id = u.id AND sleep.sleep_date = today.local_date
+LEFT JOIN LATERAL (
+  SELECT bm.weight_kg, bm.bmi
+  FROM public.body_measurements bm
+  WHERE bm.user_id = u.id AND bm.weight_kg IS NOT NULL
+  ORDER BY bm.measurement_date DESC, bm.created_at DESC
+  LIMIT 1
+) latest ON TRUE;